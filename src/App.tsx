@@ -1,20 +1,38 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { Toaster } from 'react-hot-toast';
 import { ServiceOrderList } from './components/ServiceOrderList';
 import { CompanyInfo } from './components/CompanyInfo';
 import { Auth } from './components/Auth';
 import { supabase } from './lib/supabase';
 import type { User } from './lib/supabase';
-import { Wrench, ClipboardList, Calculator, Settings, List, Building2, LogOut, Menu, X } from 'lucide-react';
+import { getCurrentTechnician } from './lib/technicianJobs';
+import { canAccessTab, isOfficeRole, joinTeam } from './lib/team';
+import { ensureSubscription, isSubscriptionActive } from './lib/subscription';
+import type { Subscription, TeamMember, Technician } from './types';
+import { Wrench, ClipboardList, Calculator, Settings, List, Building2, LogOut, Menu, X, Users, CalendarDays, MapPin, UserCog, ClipboardCheck, BellRing } from 'lucide-react';
 import { ServiceOrderForm } from './components/ServiceOrderForm';
 import { MaterialsManagement } from './components/MaterialsManagement';
 import { AccountingDashboard } from './components/AccountingDashboard';
+import { CustomerManagement } from './components/CustomerManagement';
+import { ScheduleCalendar } from './components/ScheduleCalendar';
+import { TechnicianToday } from './components/TechnicianToday';
+import { TeamManagement } from './components/TeamManagement';
+import { MaintenancePlans } from './components/MaintenancePlans';
+import { MaintenanceReminders } from './components/MaintenanceReminders';
+import { Paywall } from './components/Paywall';
+import { SubscriptionBanner } from './components/SubscriptionBanner';
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentTab, setCurrentTab] = useState('orders');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [technician, setTechnician] = useState<Technician | null>(null);
+  const [member, setMember] = useState<TeamMember | null>(null);
+  const [memberLoading, setMemberLoading] = useState(false);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [readOnlyAccepted, setReadOnlyAccepted] = useState(false);
 
   useEffect(() => {
     // Verificar sessão atual
@@ -31,16 +49,53 @@ function App() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Entra na equipe (aceitando o convite) e, para técnicos, abre direto nos serviços do dia
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setMember(null);
+      setTechnician(null);
+      setSubscription(null);
+      setReadOnlyAccepted(false);
+      return;
+    }
+
+    setMemberLoading(true);
+    joinTeam()
+      .then(async joined => {
+        setMember(joined);
+        if (!joined) return;
+
+        const [current, found] = await Promise.all([ensureSubscription(), getCurrentTechnician()]);
+        setSubscription(current);
+        setTechnician(found);
+        if (joined.role === 'technician') setCurrentTab(found ? 'today' : 'order-list');
+      })
+      .catch(error => console.error('Erro ao carregar acesso:', error))
+      .finally(() => setMemberLoading(false));
+  }, [userId]);
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
   };
 
   const handleTabChange = (tab: string) => {
     setCurrentTab(tab);
+    setEditingOrderId(null);
     setIsMobileMenuOpen(false);
   };
 
-  if (loading) {
+  const handleEditOrder = (orderId: string) => {
+    setEditingOrderId(orderId);
+    setCurrentTab('orders');
+  };
+
+  const handleEditFinished = () => {
+    setEditingOrderId(null);
+    setCurrentTab('order-list');
+  };
+
+  if (loading || memberLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
@@ -57,13 +112,63 @@ function App() {
     );
   }
 
+  if (!member) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+        <div className="bg-white shadow rounded-lg p-6 max-w-md w-full text-center space-y-4">
+          <Wrench className="h-10 w-10 text-blue-500 mx-auto" />
+          <h2 className="text-lg font-medium text-gray-900">Acesso pendente</h2>
+          <p className="text-sm text-gray-500">
+            A conta {user.email} ainda não faz parte da equipe. Peça a um responsável pela empresa
+            para enviar um convite para este email e entre novamente.
+          </p>
+          <button
+            onClick={handleLogout}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sair
+          </button>
+        </div>
+        <Toaster position="top-right" />
+      </div>
+    );
+  }
+
+  const isOffice = isOfficeRole(member.role);
+  // Sem assinatura ativa o app fica só para consulta (o banco bloqueia novas OS)
+  const isReadOnly = !isSubscriptionActive(subscription);
+  const canWrite = isOffice && !isReadOnly;
+
+  if (isReadOnly && !readOnlyAccepted) {
+    return (
+      <>
+        <Paywall
+          subscription={subscription}
+          onContinueReadOnly={() => {
+            setReadOnlyAccepted(true);
+            setCurrentTab(technician ? 'today' : 'order-list');
+          }}
+          onLogout={handleLogout}
+        />
+        <Toaster position="top-right" />
+      </>
+    );
+  }
+
   const menuItems = [
-    { id: 'orders', label: 'Nova OS', icon: ClipboardList },
+    ...(technician ? [{ id: 'today', label: 'Meus Serviços', icon: MapPin }] : []),
+    { id: 'orders', label: editingOrderId ? 'Editar OS' : 'Nova OS', icon: ClipboardList },
     { id: 'order-list', label: 'Lista de OS', icon: List },
+    { id: 'schedule', label: 'Agenda', icon: CalendarDays },
+    { id: 'pmoc', label: 'PMOC', icon: ClipboardCheck },
+    { id: 'reminders', label: 'Lembretes', icon: BellRing },
+    { id: 'customers', label: 'Clientes', icon: Users },
     { id: 'materials', label: 'Materiais', icon: Settings },
     { id: 'accounting', label: 'Contabilidade', icon: Calculator },
     { id: 'company', label: 'Empresa', icon: Building2 },
-  ];
+    { id: 'team', label: 'Equipe', icon: UserCog },
+  ].filter(item => canAccessTab(member.role, item.id) && !(isReadOnly && item.id === 'orders'));
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -158,11 +263,35 @@ function App() {
 
       <main className="max-w-7xl mx-auto pt-16 pb-6 px-2">
         <div className="py-4">
-          {currentTab === 'orders' && <ServiceOrderForm />}
-          {currentTab === 'order-list' && <ServiceOrderList />}
-          {currentTab === 'materials' && <MaterialsManagement />}
-          {currentTab === 'accounting' && <AccountingDashboard />}
-          {currentTab === 'company' && <CompanyInfo />}
+          {isOffice && <SubscriptionBanner subscription={subscription} />}
+          {currentTab === 'orders' && canWrite && (
+            editingOrderId ? (
+              <ServiceOrderForm
+                key={editingOrderId}
+                orderId={editingOrderId}
+                onSaved={handleEditFinished}
+                onCancel={handleEditFinished}
+              />
+            ) : (
+              <ServiceOrderForm />
+            )
+          )}
+          {currentTab === 'today' && technician && <TechnicianToday technician={technician} />}
+          {currentTab === 'order-list' && (
+            <ServiceOrderList onEdit={canWrite ? handleEditOrder : undefined} canManage={canWrite} />
+          )}
+          {isOffice && (
+            <>
+              {currentTab === 'schedule' && <ScheduleCalendar />}
+              {currentTab === 'pmoc' && <MaintenancePlans />}
+              {currentTab === 'reminders' && <MaintenanceReminders />}
+              {currentTab === 'customers' && <CustomerManagement />}
+              {currentTab === 'materials' && <MaterialsManagement />}
+              {currentTab === 'accounting' && <AccountingDashboard />}
+              {currentTab === 'company' && <CompanyInfo />}
+              {currentTab === 'team' && <TeamManagement currentMember={member} />}
+            </>
+          )}
         </div>
       </main>
 
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Calendar, DollarSign, TrendingUp, TrendingDown, Wrench } from 'lucide-react';
+import { Calendar, DollarSign, TrendingUp, TrendingDown, Wrench, Percent } from 'lucide-react';
 import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { getServiceTypeLabel } from '../lib/servicePrices';
+import { isQuote } from '../lib/orderStatus';
+import { formatDuration } from '../lib/schedule';
+import { loadWarrantyReturnSummary, type WarrantyReturnSummary } from '../lib/warranty';
 import type { ServiceOrder } from '../types';
 
 export function AccountingDashboard() {
@@ -11,8 +15,12 @@ export function AccountingDashboard() {
     totalCosts: 0,
     profit: 0,
     serviceCount: 0,
+    quoteCount: 0,
+    convertedQuoteCount: 0,
   });
   const [serviceBreakdown, setServiceBreakdown] = useState<Record<string, number>>({});
+  const [productivity, setProductivity] = useState<Record<string, { visits: number; minutes: number }>>({});
+  const [warrantyReturns, setWarrantyReturns] = useState<WarrantyReturnSummary>({ total: 0, byTechnician: {}, byBrand: {} });
 
   useEffect(() => {
     loadMonthlyData();
@@ -40,11 +48,33 @@ export function AccountingDashboard() {
       return;
     }
 
+    // Orçamentos não geram receita: o valor entra quando o orçamento vira OS; OS canceladas ficam de fora
+    const serviceOrders = (orders || []).filter((order: ServiceOrder) => !isQuote(order) && order.status !== 'cancelled');
+    const quotes = (orders || []).filter((order: ServiceOrder) => isQuote(order));
+
+    // Orçamentos do mês que já viraram OS, mesmo que a OS tenha sido criada depois
+    let convertedQuoteCount = 0;
+    if (quotes.length > 0) {
+      // Contagem feita no servidor: OS cujo orçamento de origem foi criado no mês
+      const { count, error: convertedError } = await supabase
+        .from('service_orders')
+        .select('quote_id, quote:service_orders!quote_id!inner(created_at)', { count: 'exact', head: true })
+        .not('quote_id', 'is', null)
+        .gte('quote.created_at', start.toISOString())
+        .lte('quote.created_at', end.toISOString());
+
+      if (convertedError) {
+        console.error('Error loading converted quotes:', convertedError);
+      } else {
+        convertedQuoteCount = count || 0;
+      }
+    }
+
     const breakdown: Record<string, number> = {};
     let totalRevenue = 0;
     let totalCosts = 0;
 
-    orders?.forEach((order: ServiceOrder) => {
+    serviceOrders.forEach((order: ServiceOrder) => {
       // Add service base price
       const servicePrice = order.total_amount || 0;
       totalRevenue += servicePrice;
@@ -56,7 +86,7 @@ export function AccountingDashboard() {
       totalCosts += materialsCost;
 
       // Update service type breakdown
-      const serviceType = order.service_type;
+      const serviceType = order.service_type || 'other';
       breakdown[serviceType] = (breakdown[serviceType] || 0) + servicePrice;
     });
 
@@ -64,10 +94,39 @@ export function AccountingDashboard() {
       totalRevenue,
       totalCosts,
       profit: totalRevenue - totalCosts,
-      serviceCount: orders?.length || 0,
+      serviceCount: serviceOrders.length,
+      quoteCount: quotes.length,
+      convertedQuoteCount,
     });
 
     setServiceBreakdown(breakdown);
+
+    loadWarrantyReturnSummary(start, end)
+      .then(setWarrantyReturns)
+      .catch(error => console.error('Error loading warranty returns:', error));
+
+    // Tempo no local registrado pelos check-ins/check-outs dos técnicos
+    const { data: visits, error: visitsError } = await supabase
+      .from('service_order_visits')
+      .select('minutes_on_site, technician:technicians(name)')
+      .not('check_out_at', 'is', null)
+      .gte('check_in_at', start.toISOString())
+      .lte('check_in_at', end.toISOString());
+
+    if (visitsError) {
+      console.error('Error loading technician visits:', visitsError);
+      return;
+    }
+
+    const byTechnician: Record<string, { visits: number; minutes: number }> = {};
+    (visits || []).forEach(visit => {
+      const name = (visit.technician as unknown as { name?: string } | null)?.name || 'Técnico removido';
+      byTechnician[name] = byTechnician[name] || { visits: 0, minutes: 0 };
+      byTechnician[name].visits += 1;
+      byTechnician[name].minutes += visit.minutes_on_site || 0;
+    });
+
+    setProductivity(byTechnician);
   };
 
   const formatCurrency = (value: number) => {
@@ -93,7 +152,7 @@ export function AccountingDashboard() {
           </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
           <div className="bg-blue-50 p-4 rounded-lg">
             <div className="flex items-center justify-between">
               <div>
@@ -133,6 +192,19 @@ export function AccountingDashboard() {
               <Wrench className="h-8 w-8 text-purple-500" />
             </div>
           </div>
+
+          <div className="bg-yellow-50 p-4 rounded-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">Conversão de Orçamentos</p>
+                <p className="text-2xl font-bold text-yellow-600">
+                  {summary.quoteCount > 0 ? `${Math.round((summary.convertedQuoteCount / summary.quoteCount) * 100)}%` : '-'}
+                </p>
+                <p className="text-xs text-gray-500">{summary.convertedQuoteCount} de {summary.quoteCount} orçamentos</p>
+              </div>
+              <Percent className="h-8 w-8 text-yellow-500" />
+            </div>
+          </div>
         </div>
       </div>
 
@@ -142,15 +214,60 @@ export function AccountingDashboard() {
           {Object.entries(serviceBreakdown).map(([type, value]) => (
             <div key={type} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
               <span className="font-medium">
-                {type === 'installation' ? 'Instalação' :
-                 type === 'maintenance' ? 'Manutenção' :
-                 type === 'cleaning' ? 'Limpeza' : 'Recarga de Gás'}
+                {getServiceTypeLabel(type)}
               </span>
               <span className="text-gray-900 font-semibold">{formatCurrency(value)}</span>
             </div>
           ))}
         </div>
       </div>
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h3 className="text-lg font-semibold mb-4">Produtividade dos Técnicos</h3>
+        {Object.keys(productivity).length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum check-out registrado no mês.</p>
+        ) : (
+          <div className="space-y-4">
+            {Object.entries(productivity).map(([name, { visits, minutes }]) => (
+              <div key={name} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                <span className="font-medium">{name}</span>
+                <span className="text-sm text-gray-700">
+                  {visits} {visits === 1 ? 'visita' : 'visitas'} · {formatDuration(minutes)} no local
+                  {' '}· média {formatDuration(Math.round(minutes / visits))}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h3 className="text-lg font-semibold mb-4">Retornos em Garantia</h3>
+        {warrantyReturns.total === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum retorno em garantia aberto no mês.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {[
+              { title: 'Por técnico da OS original', group: warrantyReturns.byTechnician },
+              { title: 'Por marca do equipamento', group: warrantyReturns.byBrand }
+            ].map(({ title, group }) => (
+              <div key={title}>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+                <div className="space-y-2">
+                  {Object.entries(group).sort(([, a], [, b]) => b - a).map(([name, count]) => (
+                    <div key={name} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                      <span className="font-medium">{name}</span>
+                      <span className="text-sm text-gray-700">
+                        {count} {count === 1 ? 'retorno' : 'retornos'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -1,8 +1,91 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { format } from 'date-fns';
 import { Save, Upload } from 'lucide-react';
 import toast from 'react-hot-toast';
-import type { CompanyInformation } from '../types';
+import { DEFAULT_BRAND_COLORS, DOCUMENT_TITLES, PDF_HEADER_LAYOUTS, renderOrderDocument, type DocumentTemplate, type OrderDocumentData } from '../lib/documents';
+import { formatOrderNumber } from '../lib/orderNumbers';
+import { PIX_KEY_TYPES, hasPixKey } from '../lib/pix';
+import { defaultValidUntil } from '../lib/quotes';
+import { SERVICE_TYPES } from '../lib/servicePrices';
+import { getSignedUrl } from '../lib/storage';
+import { getCompanyStoragePath } from '../lib/team';
+import type { CompanyInformation, PdfHeaderLayout, PixKeyType } from '../types';
+
+// Tipos de serviço que podem ter cláusula de garantia própria
+const WARRANTY_SERVICE_TYPES = SERVICE_TYPES.filter(type => type.id !== 'warranty_return');
+
+const PREVIEW_TEMPLATES: DocumentTemplate[] = ['quote', 'service_order', 'receipt'];
+
+// Documento de exemplo para a pré-visualização; só a empresa vem do formulário
+const getPreviewData = (company: CompanyInformation): OrderDocumentData => ({
+  order: {
+    id: 'preview',
+    order_number: formatOrderNumber(
+      company.order_number_prefix,
+      (company.order_number_yearly_reset ?? true) ? new Date().getFullYear() : null,
+      42
+    ),
+    status: 'quote',
+    created_at: new Date().toISOString(),
+    address: {
+      street: 'Rua das Palmeiras',
+      number: '120',
+      complement: 'Sala 3',
+      neighborhood: 'Centro',
+      city: 'São Paulo',
+      state: 'SP',
+      zipCode: '01000-000'
+    },
+    include_photos: false,
+    valid_until: defaultValidUntil(),
+    quote_revision: 1,
+    services_amount: 950,
+    materials_amount: 180,
+    discount_amount: 30,
+    total_amount: 1100
+  },
+  company,
+  customer: { name: 'Maria Souza', phone: '(11) 98765-4321', document: '12345678909' },
+  services: [
+    { id: 'preview-1', service_type: 'installation', equipment_type: 'split', equipment_power: '12000', description: 'Instalação na sala', price: 750 },
+    { id: 'preview-2', service_type: 'cleaning', equipment_type: 'split', equipment_power: '9000', description: 'Limpeza completa', price: 200 }
+  ],
+  materials: [
+    { order_service_id: 'preview-1', name: 'Tubo de cobre 1/4"', unit: 'm', quantity: 3, unit_price: 45 },
+    { order_service_id: 'preview-1', name: 'Suporte para condensadora', unit: 'un', quantity: 1, unit_price: 45 }
+  ],
+  photos: [],
+  signatures: [],
+  statusHistory: [],
+  receipt: {
+    id: 'preview',
+    service_order_id: 'preview',
+    receipt_number: formatOrderNumber('REC', (company.order_number_yearly_reset ?? true) ? new Date().getFullYear() : null, 7),
+    payer_name: 'Maria Souza',
+    payer_document: '12345678909',
+    amount: 1100,
+    payment_method: 'pix',
+    paid_at: format(new Date(), 'yyyy-MM-dd'),
+    created_at: new Date().toISOString()
+  }
+});
+
+// Fusos do Brasil; o padrão é o horário de Brasília
+const TIMEZONES = [
+  { value: 'America/Sao_Paulo', label: 'Brasília (GMT-3)' },
+  { value: 'America/Bahia', label: 'Bahia (GMT-3)' },
+  { value: 'America/Fortaleza', label: 'Nordeste (GMT-3)' },
+  { value: 'America/Recife', label: 'Pernambuco (GMT-3)' },
+  { value: 'America/Belem', label: 'Pará e Amapá (GMT-3)' },
+  { value: 'America/Noronha', label: 'Fernando de Noronha (GMT-2)' },
+  { value: 'America/Manaus', label: 'Amazonas (GMT-4)' },
+  { value: 'America/Cuiaba', label: 'Mato Grosso (GMT-4)' },
+  { value: 'America/Campo_Grande', label: 'Mato Grosso do Sul (GMT-4)' },
+  { value: 'America/Porto_Velho', label: 'Rondônia (GMT-4)' },
+  { value: 'America/Boa_Vista', label: 'Roraima (GMT-4)' },
+  { value: 'America/Rio_Branco', label: 'Acre (GMT-5)' }
+];
 
 export function CompanyInfo() {
   const [companyInfo, setCompanyInfo] = useState<CompanyInformation>({
@@ -10,14 +93,59 @@ export function CompanyInfo() {
     cnpj: '',
     phone: '',
     email: '',
-    logo: ''
+    logo: '',
+    order_number_prefix: 'OS',
+    order_number_yearly_reset: true,
+    timezone: 'America/Sao_Paulo'
   });
+  const [logoUrl, setLogoUrl] = useState('');
   const [loading, setLoading] = useState(true);
+  const [previewTemplate, setPreviewTemplate] = useState<DocumentTemplate>('quote');
+  const [previewHtml, setPreviewHtml] = useState('');
 
   useEffect(() => {
     loadCompanyInfo();
   }, []);
 
+  // logo guarda o caminho no bucket (privado); a imagem usa uma URL assinada
+  useEffect(() => {
+    if (!companyInfo.logo) {
+      setLogoUrl('');
+      return;
+    }
+
+    let active = true;
+    getSignedUrl('company', companyInfo.logo)
+      .then(url => {
+        if (active) setLogoUrl(url);
+      })
+      .catch(error => console.error('Erro ao carregar logo:', error));
+
+    return () => {
+      active = false;
+    };
+  }, [companyInfo.logo]);
+
+  // A pré-visualização acompanha a edição, com uma pequena espera para não refazer a cada tecla
+  useEffect(() => {
+    if (loading) return;
+
+    let active = true;
+    const timer = setTimeout(async () => {
+      const html = await renderOrderDocument(previewTemplate, getPreviewData(companyInfo));
+      if (active) setPreviewHtml(html);
+    }, 400);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [companyInfo, previewTemplate, loading]);
+
+  const updateWarrantyTerm = (serviceType: string, value: string) => {
+    setCompanyInfo(prev => ({ ...prev, warranty_terms: { ...prev.warranty_terms, [serviceType]: value } }));
+  };
+
   const loadCompanyInfo = async () => {
     try {
       const { data, error } = await supabase
@@ -44,7 +172,7 @@ export function CompanyInfo() {
       const file = event.target.files?.[0];
       if (!file) return;
 
-      const path = `company/logo_${Date.now()}${file.name.substring(file.name.lastIndexOf('.'))}`;
+      const path = await getCompanyStoragePath(`company/logo_${Date.now()}${file.name.substring(file.name.lastIndexOf('.'))}`);
       
       const { error: uploadError } = await supabase.storage
         .from('company')
@@ -52,12 +180,8 @@ export function CompanyInfo() {
 
       if (uploadError) throw uploadError;
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('company')
-        .getPublicUrl(path);
-
-      setCompanyInfo(prev => ({ ...prev, logo: publicUrl }));
-      await saveCompanyInfo({ ...companyInfo, logo: publicUrl });
+      setCompanyInfo(prev => ({ ...prev, logo: path }));
+      await saveCompanyInfo({ ...companyInfo, logo: path });
       toast.success('Logo atualizada com sucesso!');
     } catch (error) {
       console.error('Error uploading logo:', error);
@@ -154,9 +278,9 @@ export function CompanyInfo() {
               <Upload className="h-5 w-5 mr-2" />
               Escolher Logo
             </label>
-            {companyInfo.logo && (
+            {logoUrl && (
               <img
-                src={companyInfo.logo}
+                src={logoUrl}
                 alt="Logo da empresa"
                 className="h-16 w-16 object-contain"
               />
@@ -164,6 +288,227 @@ export function CompanyInfo() {
           </div>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Fuso horário</label>
+          <select
+            value={companyInfo.timezone || 'America/Sao_Paulo'}
+            onChange={(e) => setCompanyInfo(prev => ({ ...prev, timezone: e.target.value }))}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {TIMEZONES.map(timezone => (
+              <option key={timezone.value} value={timezone.value}>{timezone.label}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-sm text-gray-500">
+            Usado nas datas de validade dos orçamentos, nas visitas dos planos de manutenção e nas garantias.
+          </p>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Numeração das Ordens de Serviço</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Prefixo</label>
+              <input
+                type="text"
+                value={companyInfo.order_number_prefix || ''}
+                onChange={(e) => setCompanyInfo(prev => ({ ...prev, order_number_prefix: e.target.value.toUpperCase() }))}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder="OS"
+                maxLength={10}
+              />
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={companyInfo.order_number_yearly_reset ?? true}
+                  onChange={(e) => setCompanyInfo(prev => ({ ...prev, order_number_yearly_reset: e.target.checked }))}
+                  className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600"
+                />
+                Reiniciar a numeração todo ano
+              </label>
+            </div>
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            Exemplo: {formatOrderNumber(
+              companyInfo.order_number_prefix,
+              (companyInfo.order_number_yearly_reset ?? true) ? new Date().getFullYear() : null,
+              42
+            )}
+          </p>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">PIX</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Tipo de chave</label>
+              <select
+                value={companyInfo.pix_key_type || ''}
+                onChange={(e) => setCompanyInfo(prev => ({ ...prev, pix_key_type: (e.target.value || null) as PixKeyType | null }))}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">Não usar PIX</option>
+                {PIX_KEY_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Chave</label>
+              <input
+                type="text"
+                value={companyInfo.pix_key || ''}
+                onChange={(e) => setCompanyInfo(prev => ({ ...prev, pix_key: e.target.value }))}
+                disabled={!companyInfo.pix_key_type}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Nome do recebedor</label>
+              <input
+                type="text"
+                value={companyInfo.pix_merchant_name || ''}
+                onChange={(e) => setCompanyInfo(prev => ({ ...prev, pix_merchant_name: e.target.value }))}
+                disabled={!companyInfo.pix_key_type}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+                placeholder={companyInfo.name}
+                maxLength={25}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Cidade do recebedor</label>
+              <input
+                type="text"
+                value={companyInfo.pix_merchant_city || ''}
+                onChange={(e) => setCompanyInfo(prev => ({ ...prev, pix_merchant_city: e.target.value }))}
+                disabled={!companyInfo.pix_key_type}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+                placeholder="São Paulo"
+                maxLength={15}
+              />
+            </div>
+          </div>
+          <p className="mt-2 text-sm text-gray-500">
+            {hasPixKey(companyInfo)
+              ? 'Orçamentos e OS com valor trazem o QR Code PIX e o código copia e cola.'
+              : 'Informe o tipo, a chave e a cidade para incluir o QR Code PIX nos orçamentos e OS.'}
+          </p>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Documentos em PDF</h3>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Cor principal</label>
+                  <input
+                    type="color"
+                    value={companyInfo.brand_primary_color || DEFAULT_BRAND_COLORS.primary}
+                    onChange={(e) => setCompanyInfo(prev => ({ ...prev, brand_primary_color: e.target.value }))}
+                    className="mt-1 h-10 w-full rounded-md border-gray-300"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Cor das tabelas</label>
+                  <input
+                    type="color"
+                    value={companyInfo.brand_secondary_color || DEFAULT_BRAND_COLORS.secondary}
+                    onChange={(e) => setCompanyInfo(prev => ({ ...prev, brand_secondary_color: e.target.value }))}
+                    className="mt-1 h-10 w-full rounded-md border-gray-300"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Cabeçalho</label>
+                  <select
+                    value={companyInfo.pdf_header_layout || 'logo_right'}
+                    onChange={(e) => setCompanyInfo(prev => ({ ...prev, pdf_header_layout: e.target.value as PdfHeaderLayout }))}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    {PDF_HEADER_LAYOUTS.map(layout => (
+                      <option key={layout.value} value={layout.value}>{layout.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Condições de pagamento</label>
+                <textarea
+                  value={companyInfo.payment_terms || ''}
+                  onChange={(e) => setCompanyInfo(prev => ({ ...prev, payment_terms: e.target.value }))}
+                  rows={2}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Ex.: 50% na aprovação e 50% na conclusão, via PIX ou cartão"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Validade do orçamento</label>
+                <textarea
+                  value={companyInfo.quote_validity_text || ''}
+                  onChange={(e) => setCompanyInfo(prev => ({ ...prev, quote_validity_text: e.target.value }))}
+                  rows={2}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Ex.: Orçamento válido até {validade}, sujeito à disponibilidade de materiais"
+                />
+                <p className="mt-1 text-xs text-gray-500">{'{validade}'} é trocado pela data de validade do orçamento.</p>
+              </div>
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700">Cláusulas de garantia</p>
+                <div className="mt-1 space-y-2">
+                  {WARRANTY_SERVICE_TYPES.map(type => (
+                    <div key={type.id}>
+                      <label className="block text-xs text-gray-500">{type.label}</label>
+                      <textarea
+                        value={companyInfo.warranty_terms?.[type.id] || ''}
+                        onChange={(e) => updateWarrantyTerm(type.id, e.target.value)}
+                        rows={2}
+                        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Rodapé</label>
+                <textarea
+                  value={companyInfo.pdf_footer_text || ''}
+                  onChange={(e) => setCompanyInfo(prev => ({ ...prev, pdf_footer_text: e.target.value }))}
+                  rows={2}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Ex.: endereço, site e redes sociais"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-700">Pré-visualização</p>
+                <select
+                  value={previewTemplate}
+                  onChange={(e) => setPreviewTemplate(e.target.value as DocumentTemplate)}
+                  className="rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  {PREVIEW_TEMPLATES.map(template => (
+                    <option key={template} value={template}>{DOCUMENT_TITLES[template]}</option>
+                  ))}
+                </select>
+              </div>
+              <iframe
+                title="Pré-visualização do PDF"
+                srcDoc={previewHtml}
+                sandbox=""
+                className="w-full h-[640px] border border-gray-200 rounded-md bg-white"
+              />
+            </div>
+          </div>
+        </div>
+
         <div className="flex justify-end">
           <button
             onClick={() => saveCompanyInfo()}
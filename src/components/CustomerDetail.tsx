@@ -0,0 +1,261 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, Pencil, Phone, Mail, MapPin, FileText, DollarSign, Calendar, ClipboardList, Plus, AirVent } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { formatAddress, formatDocument } from '../lib/customers';
+import { getServiceTypeLabel } from '../lib/servicePrices';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { ORDER_STATUS_LABELS, isQuote } from '../lib/orderStatus';
+import { formatEquipmentLabel, getServiceDate, loadCustomerEquipment, loadEquipmentHistory } from '../lib/equipment';
+import { EquipmentDetail } from './EquipmentDetail';
+import { EquipmentForm } from './EquipmentForm';
+import type { Customer, CustomerEquipment, EquipmentServiceRecord, ServiceOrder } from '../types';
+
+interface CustomerDetailProps {
+  customerId: string;
+  onBack: () => void;
+  onEdit: (customer: Customer) => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export function CustomerDetail({ customerId, onBack, onEdit }: CustomerDetailProps) {
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [orders, setOrders] = useState<ServiceOrder[]>([]);
+  const [equipment, setEquipment] = useState<CustomerEquipment[]>([]);
+  const [equipmentHistory, setEquipmentHistory] = useState<EquipmentServiceRecord[]>([]);
+  const [selectedEquipmentId, setSelectedEquipmentId] = useState<string | null>(null);
+  const [addingEquipment, setAddingEquipment] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadCustomer = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [{ data: customerData, error: customerError }, { data: ordersData, error: ordersError }] = await Promise.all([
+        supabase.from('customers').select('*').eq('id', customerId).single(),
+        supabase
+          .from('service_orders')
+          .select('*')
+          .eq('customer_id', customerId)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (customerError) throw customerError;
+      if (ordersError) throw ordersError;
+
+      setCustomer(customerData);
+      setOrders(ordersData || []);
+
+      const equipmentData = await loadCustomerEquipment(customerId);
+      setEquipment(equipmentData);
+      setEquipmentHistory(await loadEquipmentHistory(equipmentData.map(item => item.id)));
+    } catch (error) {
+      console.error('Erro ao carregar cliente:', error);
+      toast.error('Erro ao carregar cliente');
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    loadCustomer();
+  }, [loadCustomer]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return null;
+  }
+
+  if (selectedEquipmentId) {
+    return (
+      <EquipmentDetail
+        equipmentId={selectedEquipmentId}
+        customer={customer}
+        onBack={() => {
+          setSelectedEquipmentId(null);
+          loadCustomer();
+        }}
+        onDeleted={() => {
+          setSelectedEquipmentId(null);
+          loadCustomer();
+        }}
+      />
+    );
+  }
+
+  // Orçamentos, OS ainda não iniciadas e canceladas não contam como gasto nem como visita
+  const servedOrders = orders.filter(order =>
+    !isQuote(order) && !['pending', 'scheduled', 'en_route', 'cancelled'].includes(order.status));
+  const totalSpent = servedOrders.reduce((total, order) => total + (order.total_amount || 0), 0);
+  const lastVisit = servedOrders[0]?.created_at;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow">
+        <div className="flex items-center justify-between mb-4">
+          <button onClick={onBack} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Voltar
+          </button>
+          <button
+            onClick={() => onEdit(customer)}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Pencil className="h-4 w-4 mr-2" />
+            Editar
+          </button>
+        </div>
+
+        <h2 className="text-xl font-semibold text-gray-900">{customer.name}</h2>
+        <div className="mt-2 space-y-1 text-sm text-gray-600">
+          {customer.document && (
+            <p className="flex items-center"><FileText className="h-4 w-4 mr-2" />{formatDocument(customer.document)}</p>
+          )}
+          {[customer.phone, ...(customer.phones || [])].filter(Boolean).map((phone) => (
+            <p key={phone} className="flex items-center"><Phone className="h-4 w-4 mr-2" />{phone}</p>
+          ))}
+          {customer.email && (
+            <p className="flex items-center"><Mail className="h-4 w-4 mr-2" />{customer.email}</p>
+          )}
+          {(customer.addresses || []).map((address, index) => (
+            <p key={index} className="flex items-center">
+              <MapPin className="h-4 w-4 mr-2 flex-shrink-0" />
+              {address.label ? <strong className="mr-1">{address.label}:</strong> : null}
+              {formatAddress(address)}
+            </p>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+          <div className="bg-blue-50 p-4 rounded-lg flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500">Ordens de Serviço</p>
+              <p className="text-2xl font-bold text-blue-600">{orders.length}</p>
+            </div>
+            <ClipboardList className="h-8 w-8 text-blue-500" />
+          </div>
+          <div className="bg-green-50 p-4 rounded-lg flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500">Total Gasto</p>
+              <p className="text-2xl font-bold text-green-600">{formatCurrency(totalSpent)}</p>
+            </div>
+            <DollarSign className="h-8 w-8 text-green-500" />
+          </div>
+          <div className="bg-purple-50 p-4 rounded-lg flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500">Última Visita</p>
+              <p className="text-2xl font-bold text-purple-600">
+                {lastVisit ? format(new Date(lastVisit), 'dd/MM/yyyy') : '-'}
+              </p>
+            </div>
+            <Calendar className="h-8 w-8 text-purple-500" />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Equipamentos</h3>
+          <button
+            onClick={() => setAddingEquipment(true)}
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Adicionar equipamento
+          </button>
+        </div>
+        {addingEquipment && (
+          <div className="px-4 pb-4 sm:px-6">
+            <EquipmentForm
+              customerId={customer.id}
+              addresses={customer.addresses || []}
+              onCancel={() => setAddingEquipment(false)}
+              onSaved={(saved) => {
+                setEquipment(prev => [...prev, saved]);
+                setAddingEquipment(false);
+              }}
+            />
+          </div>
+        )}
+        <div className="border-t border-gray-200">
+          {equipment.length === 0 ? (
+            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">
+              Nenhum equipamento cadastrado. As instalações são cadastradas automaticamente quando a OS é concluída.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {equipment.map((item) => {
+                const lastService = equipmentHistory.find(record => record.equipment_id === item.id);
+
+                return (
+                  <li key={item.id}>
+                    <button
+                      onClick={() => setSelectedEquipmentId(item.id)}
+                      className="w-full px-4 py-4 sm:px-6 flex items-center justify-between text-left hover:bg-gray-50"
+                    >
+                      <div className="flex items-center">
+                        <AirVent className="h-5 w-5 mr-3 text-gray-400 flex-shrink-0" />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{formatEquipmentLabel(item)}</p>
+                          <p className="text-sm text-gray-500">
+                            {[item.serial_number ? `Série ${item.serial_number}` : '', formatAddress(item.address)].filter(Boolean).join(' · ')}
+                          </p>
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 text-right">
+                        {lastService
+                          ? `${getServiceTypeLabel(lastService.service_type)} em ${format(new Date(getServiceDate(lastService)), 'dd/MM/yyyy')}`
+                          : 'Sem serviços'}
+                      </p>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium text-gray-900">Histórico de Ordens de Serviço</h3>
+        </div>
+        <div className="border-t border-gray-200">
+          {orders.length === 0 ? (
+            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Nenhuma ordem de serviço para este cliente.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {orders.map((order) => (
+                <li key={order.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      <span className="text-blue-600 mr-2">{getOrderNumber(order)}</span>
+                      {getServiceTypeLabel(order.service_type)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {format(new Date(order.created_at), 'dd/MM/yyyy HH:mm')}
+                      {order.address?.street ? ` · ${formatAddress(order.address)}` : ''}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-medium text-gray-900">{formatCurrency(order.total_amount || 0)}</p>
+                    <p className="text-xs text-gray-500">{ORDER_STATUS_LABELS[order.status] || order.status}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, GitMerge, RotateCcw, Search } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { formatAddress, formatDocument } from '../lib/customers';
+import {
+  DUPLICATE_REASON_LABELS,
+  findDuplicateGroups,
+  mergeCustomers,
+  undoCustomerMerge,
+  type DuplicateGroup
+} from '../lib/customerDuplicates';
+import type { Customer, CustomerMerge } from '../types';
+
+interface CustomerDuplicatesProps {
+  onBack: () => void;
+}
+
+interface GroupSelection {
+  survivorId: string;
+  excludedIds: string[];
+}
+
+// Sugere como principal o cliente com mais OS; no empate, o cadastro mais antigo
+const suggestSurvivor = (group: DuplicateGroup) =>
+  [...group.customers].sort((a, b) => group.orderCounts[b.id] - group.orderCounts[a.id])[0].id;
+
+export function CustomerDuplicates({ onBack }: CustomerDuplicatesProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [selections, setSelections] = useState<GroupSelection[]>([]);
+  const [merges, setMerges] = useState<CustomerMerge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [duplicateGroups, { data: mergeData, error: mergeError }] = await Promise.all([
+        findDuplicateGroups(),
+        supabase
+          .from('customer_merges')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(20)
+      ]);
+
+      if (mergeError) throw mergeError;
+
+      setGroups(duplicateGroups);
+      setSelections(duplicateGroups.map(group => ({ survivorId: suggestSurvivor(group), excludedIds: [] })));
+      setMerges(mergeData || []);
+    } catch (error) {
+      console.error('Erro ao buscar duplicados:', error);
+      toast.error('Erro ao buscar clientes duplicados');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSelection = (index: number, selection: Partial<GroupSelection>) => {
+    setSelections(prev => prev.map((current, i) => i === index ? { ...current, ...selection } : current));
+  };
+
+  const toggleExcluded = (index: number, customerId: string) => {
+    const { excludedIds } = selections[index];
+    updateSelection(index, {
+      excludedIds: excludedIds.includes(customerId)
+        ? excludedIds.filter(id => id !== customerId)
+        : [...excludedIds, customerId]
+    });
+  };
+
+  const handleMerge = async (index: number) => {
+    const group = groups[index];
+    const { survivorId, excludedIds } = selections[index];
+    const survivor = group.customers.find(customer => customer.id === survivorId);
+    const duplicateIds = group.customers
+      .map(customer => customer.id)
+      .filter(id => id !== survivorId && !excludedIds.includes(id));
+
+    if (!survivor || duplicateIds.length === 0) {
+      toast.error('Selecione ao menos um cliente para mesclar');
+      return;
+    }
+
+    if (!window.confirm(`Mesclar ${duplicateIds.length} cliente(s) em ${survivor.name}? As OS serão transferidas.`)) return;
+
+    setProcessing(true);
+    try {
+      await mergeCustomers(survivorId, duplicateIds);
+      toast.success('Clientes mesclados com sucesso!');
+      await loadData();
+    } catch (error) {
+      console.error('Erro ao mesclar clientes:', error);
+      toast.error('Erro ao mesclar clientes');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleUndo = async (merge: CustomerMerge) => {
+    if (!window.confirm(`Desfazer a mesclagem em ${merge.survivor_snapshot.name}?`)) return;
+
+    setProcessing(true);
+    try {
+      await undoCustomerMerge(merge.id);
+      toast.success('Mesclagem desfeita com sucesso!');
+      await loadData();
+    } catch (error) {
+      console.error('Erro ao desfazer mesclagem:', error);
+      toast.error((error as Error).message || 'Erro ao desfazer mesclagem');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const describeCustomer = (customer: Customer) =>
+    [customer.phone, formatDocument(customer.document), formatAddress(customer.addresses?.[0])]
+      .filter(Boolean)
+      .join(' · ');
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
+          <div>
+            <button onClick={onBack} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Voltar
+            </button>
+            <h2 className="text-lg font-medium text-gray-900">Clientes Duplicados</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Grupos de cadastros que parecem ser a mesma pessoa. Escolha o cadastro principal e mescle os demais.
+            </p>
+          </div>
+          <button
+            onClick={loadData}
+            disabled={processing}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Buscar novamente
+          </button>
+        </div>
+
+        <div className="border-t border-gray-200">
+          {groups.length === 0 ? (
+            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Nenhum cliente duplicado encontrado.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {groups.map((group, index) => (
+                <li key={group.customers.map(customer => customer.id).join('-')} className="px-4 py-4 sm:px-6 space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {group.reasons.map(reason => (
+                      <span key={reason} className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                        {DUPLICATE_REASON_LABELS[reason]}
+                      </span>
+                    ))}
+                  </div>
+
+                  {group.customers.map(customer => {
+                    const isSurvivor = selections[index]?.survivorId === customer.id;
+                    const isExcluded = selections[index]?.excludedIds.includes(customer.id);
+
+                    return (
+                      <div
+                        key={customer.id}
+                        className={`flex items-center p-3 rounded-md border ${isSurvivor ? 'border-blue-500 bg-blue-50' : 'border-gray-200'} ${isExcluded ? 'opacity-50' : ''}`}
+                      >
+                        <input
+                          type="radio"
+                          name={`survivor-${index}`}
+                          checked={isSurvivor}
+                          onChange={() => updateSelection(index, {
+                            survivorId: customer.id,
+                            excludedIds: selections[index].excludedIds.filter(id => id !== customer.id)
+                          })}
+                          className="h-4 w-4 text-blue-600 border-gray-300"
+                        />
+                        <div className="ml-3 flex-grow">
+                          <p className="text-sm font-medium text-gray-900">
+                            {customer.name}
+                            {isSurvivor && <span className="ml-2 text-xs text-blue-600">(principal)</span>}
+                          </p>
+                          <p className="text-xs text-gray-500">{describeCustomer(customer) || '-'}</p>
+                        </div>
+                        <span className="text-xs text-gray-500 mr-3">{group.orderCounts[customer.id]} OS</span>
+                        {!isSurvivor && (
+                          <label className="flex items-center text-xs text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={!isExcluded}
+                              onChange={() => toggleExcluded(index, customer.id)}
+                              className="h-4 w-4 mr-1 rounded border-gray-300 text-blue-600"
+                            />
+                            Mesclar
+                          </label>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => handleMerge(index)}
+                      disabled={processing}
+                      className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Mesclar
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium text-gray-900">Histórico de Mesclagens</h3>
+        </div>
+        <div className="border-t border-gray-200">
+          {merges.length === 0 ? (
+            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Nenhuma mesclagem realizada.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {merges.map(merge => (
+                <li key={merge.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {merge.merged_customers.map(customer => customer.name).join(', ')} → {merge.survivor_snapshot.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(merge.created_at), 'dd/MM/yyyy HH:mm')} · {merge.moved_orders.length} OS transferida(s)
+                      {merge.undone_at && ` · desfeita em ${format(new Date(merge.undone_at), 'dd/MM/yyyy HH:mm')}`}
+                    </p>
+                  </div>
+                  {!merge.undone_at && (
+                    <button
+                      onClick={() => handleUndo(merge)}
+                      disabled={processing}
+                      className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Desfazer
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { formatDocument } from '../lib/customers';
+import { onlyDigits } from '../lib/text';
+import type { Customer, CustomerAddress } from '../types';
+
+interface CustomerFormProps {
+  customer?: Customer;
+  onSaved: (customer: Customer) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_ADDRESS: CustomerAddress = {
+  label: '',
+  street: '',
+  number: '',
+  complement: '',
+  neighborhood: '',
+  city: '',
+  state: '',
+  zipCode: ''
+};
+
+const ADDRESS_FIELDS: Array<{ key: keyof CustomerAddress; label: string; className: string }> = [
+  { key: 'label', label: 'Identificação (ex: Casa, Loja)', className: 'md:col-span-2' },
+  { key: 'street', label: 'Rua', className: 'md:col-span-2' },
+  { key: 'number', label: 'Número', className: '' },
+  { key: 'complement', label: 'Complemento', className: '' },
+  { key: 'neighborhood', label: 'Bairro', className: '' },
+  { key: 'city', label: 'Cidade', className: '' },
+  { key: 'state', label: 'Estado', className: '' },
+  { key: 'zipCode', label: 'CEP', className: '' }
+];
+
+export function CustomerForm({ customer, onSaved, onCancel }: CustomerFormProps) {
+  const [name, setName] = useState(customer?.name || '');
+  const [document, setDocument] = useState(formatDocument(customer?.document));
+  const [email, setEmail] = useState(customer?.email || '');
+  const [phone, setPhone] = useState(customer?.phone || '');
+  const [phones, setPhones] = useState<string[]>(customer?.phones || []);
+  const [addresses, setAddresses] = useState<CustomerAddress[]>(customer?.addresses || []);
+  const [saving, setSaving] = useState(false);
+
+  const updateAddress = (index: number, key: keyof CustomerAddress, value: string) => {
+    setAddresses(prev => prev.map((address, i) => i === index ? { ...address, [key]: value } : address));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Informe o nome do cliente');
+      return;
+    }
+
+    const documentDigits = onlyDigits(document);
+    if (documentDigits && documentDigits.length !== 11 && documentDigits.length !== 14) {
+      toast.error('CPF deve ter 11 dígitos e CNPJ 14 dígitos');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const customerData = {
+        name: name.trim(),
+        document: documentDigits || null,
+        email: email.trim() || null,
+        phone: phone.trim(),
+        phones: phones.map(p => p.trim()).filter(Boolean),
+        addresses: addresses.filter(address => address.street.trim()),
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = customer
+        ? await supabase.from('customers').update(customerData).eq('id', customer.id).select().single()
+        : await supabase.from('customers').insert([customerData]).select().single();
+
+      if (error) throw error;
+
+      toast.success(customer ? 'Cliente atualizado com sucesso!' : 'Cliente cadastrado com sucesso!');
+      onSaved(data);
+    } catch (error) {
+      console.error('Erro ao salvar cliente:', error);
+      toast.error('Erro ao salvar cliente');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">{customer ? 'Editar Cliente' : 'Novo Cliente'}</h2>
+        <button onClick={onCancel} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Nome</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">CPF / CNPJ</label>
+          <input
+            type="text"
+            value={document}
+            onChange={(e) => setDocument(e.target.value)}
+            onBlur={() => setDocument(formatDocument(document))}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder="000.000.000-00"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Telefone principal</label>
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            placeholder="(00) 00000-0000"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">E-mail</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Outros telefones */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Outros telefones</h3>
+          <button
+            type="button"
+            onClick={() => setPhones(prev => [...prev, ''])}
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Adicionar telefone
+          </button>
+        </div>
+        {phones.map((extraPhone, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="tel"
+              value={extraPhone}
+              onChange={(e) => setPhones(prev => prev.map((p, i) => i === index ? e.target.value : p))}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={() => setPhones(prev => prev.filter((_, i) => i !== index))}
+              className="p-2 text-red-500 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Endereços salvos */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Endereços</h3>
+          <button
+            type="button"
+            onClick={() => setAddresses(prev => [...prev, { ...EMPTY_ADDRESS }])}
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Adicionar endereço
+          </button>
+        </div>
+        {addresses.map((address, index) => (
+          <div key={index} className="p-4 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => setAddresses(prev => prev.filter((_, i) => i !== index))}
+                className="inline-flex items-center text-sm text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remover
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {ADDRESS_FIELDS.map(({ key, label, className }) => (
+                <div key={key} className={className}>
+                  <label className="block text-sm font-medium text-gray-700">{label}</label>
+                  <input
+                    type="text"
+                    value={address[key] || ''}
+                    onChange={(e) => updateAddress(index, key, e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancelar
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save className="h-5 w-5 mr-2" />
+          Salvar Cliente
+        </button>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { Plus, Search, Pencil, Trash2, ChevronRight, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { formatDocument, searchCustomers } from '../lib/customers';
+import { CustomerForm } from './CustomerForm';
+import { CustomerDetail } from './CustomerDetail';
+import { CustomerDuplicates } from './CustomerDuplicates';
+import type { Customer } from '../types';
+
+export function CustomerManagement() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | 'new' | null>(null);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => loadCustomers(search), 300);
+    return () => window.clearTimeout(timeout);
+  }, [search]);
+
+  const loadCustomers = async (term: string) => {
+    try {
+      setCustomers(await searchCustomers(term, 100));
+    } catch (error) {
+      console.error('Erro ao carregar clientes:', error);
+      toast.error('Erro ao carregar clientes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (customer: Customer) => {
+    try {
+      const { data: orders, error: checkError } = await supabase
+        .from('service_orders')
+        .select('id')
+        .eq('customer_id', customer.id)
+        .limit(1);
+
+      if (checkError) throw checkError;
+
+      if (orders && orders.length > 0) {
+        toast.error('Este cliente não pode ser excluído pois possui ordens de serviço');
+        return;
+      }
+
+      if (!window.confirm(`Tem certeza que deseja excluir o cliente ${customer.name}?`)) return;
+
+      const { error } = await supabase
+        .from('customers')
+        .delete()
+        .eq('id', customer.id);
+
+      if (error) throw error;
+
+      setCustomers(customers.filter(c => c.id !== customer.id));
+      toast.success('Cliente excluído com sucesso!');
+    } catch (error) {
+      console.error('Erro ao excluir cliente:', error);
+      toast.error('Erro ao excluir cliente');
+    }
+  };
+
+  const handleSaved = (customer: Customer) => {
+    setEditingCustomer(null);
+    setCustomers(prev => prev.some(c => c.id === customer.id)
+      ? prev.map(c => c.id === customer.id ? customer : c)
+      : [customer, ...prev]);
+  };
+
+  if (editingCustomer) {
+    return (
+      <CustomerForm
+        customer={editingCustomer === 'new' ? undefined : editingCustomer}
+        onSaved={handleSaved}
+        onCancel={() => setEditingCustomer(null)}
+      />
+    );
+  }
+
+  if (showDuplicates) {
+    return (
+      <CustomerDuplicates
+        onBack={() => {
+          setShowDuplicates(false);
+          loadCustomers(search);
+        }}
+      />
+    );
+  }
+
+  if (selectedCustomerId) {
+    return (
+      <CustomerDetail
+        customerId={selectedCustomerId}
+        onBack={() => setSelectedCustomerId(null)}
+        onEdit={setEditingCustomer}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Clientes</h2>
+          <p className="mt-1 text-sm text-gray-500">Cadastro e histórico de clientes</p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Users className="h-5 w-5 mr-2" />
+            Duplicados
+          </button>
+          <button
+            onClick={() => setEditingCustomer('new')}
+            className="inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="h-5 w-5 mr-2" />
+            Novo Cliente
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 pb-4 sm:px-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar por nome, telefone ou CPF/CNPJ"
+            className="block w-full pl-9 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200">
+        {loading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : customers.length === 0 ? (
+          <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Nenhum cliente encontrado.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {customers.map((customer) => (
+              <li key={customer.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                <button
+                  onClick={() => setSelectedCustomerId(customer.id)}
+                  className="flex-grow flex items-center text-left"
+                >
+                  <div className="flex-grow">
+                    <p className="text-sm font-medium text-gray-900">{customer.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {[customer.phone, formatDocument(customer.document)].filter(Boolean).join(' · ') || '-'}
+                    </p>
+                  </div>
+                  <ChevronRight className="h-5 w-5 text-gray-400 mr-2" />
+                </button>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => setEditingCustomer(customer)}
+                    className="p-2 text-gray-500 hover:text-gray-700"
+                    aria-label="Editar cliente"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(customer)}
+                    className="p-2 text-red-500 hover:text-red-700"
+                    aria-label="Excluir cliente"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
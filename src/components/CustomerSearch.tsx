@@ -0,0 +1,90 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { UseFormRegisterReturn } from 'react-hook-form';
+import { User } from 'lucide-react';
+import { formatDocument, searchCustomers } from '../lib/customers';
+import type { Customer } from '../types';
+
+interface CustomerSearchProps {
+  inputProps: UseFormRegisterReturn;
+  onSelect: (customer: Customer) => void;
+}
+
+export function CustomerSearch({ inputProps, onSelect }: CustomerSearchProps) {
+  const [results, setResults] = useState<Customer[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const searchTimeout = useRef<number>();
+
+  useEffect(() => () => window.clearTimeout(searchTimeout.current), []);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    await inputProps.onChange(e);
+
+    const term = e.target.value;
+    window.clearTimeout(searchTimeout.current);
+
+    if (term.trim().length < 2) {
+      setResults([]);
+      setIsOpen(false);
+      return;
+    }
+
+    searchTimeout.current = window.setTimeout(async () => {
+      try {
+        const customers = await searchCustomers(term, 8);
+        setResults(customers);
+        setIsOpen(customers.length > 0);
+      } catch (error) {
+        console.error('Erro ao buscar clientes:', error);
+      }
+    }, 300);
+  };
+
+  const handleSelect = (customer: Customer) => {
+    setIsOpen(false);
+    setResults([]);
+    onSelect(customer);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        autoComplete="off"
+        {...inputProps}
+        onChange={handleChange}
+        onFocus={() => setIsOpen(results.length > 0)}
+        onBlur={(e) => {
+          inputProps.onBlur(e);
+          setIsOpen(false);
+        }}
+        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+      />
+
+      {isOpen && (
+        <ul className="absolute z-10 mt-1 w-full bg-white shadow-lg rounded-md border border-gray-200 max-h-64 overflow-auto">
+          {results.map((customer) => (
+            <li key={customer.id}>
+              <button
+                type="button"
+                // onMouseDown evita que o blur do campo feche a lista antes do clique
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  handleSelect(customer);
+                }}
+                className="w-full flex items-center px-3 py-2 text-left hover:bg-blue-50"
+              >
+                <User className="h-4 w-4 mr-2 text-gray-400 flex-shrink-0" />
+                <span className="flex-grow">
+                  <span className="block text-sm font-medium text-gray-900">{customer.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {[customer.phone, formatDocument(customer.document)].filter(Boolean).join(' · ')}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
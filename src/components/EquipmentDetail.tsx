@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Pencil, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatAddress } from '../lib/customers';
+import { deleteEquipment, formatEquipmentLabel, getServiceDate, loadEquipment, loadEquipmentHistory } from '../lib/equipment';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { ORDER_STATUS_LABELS } from '../lib/orderStatus';
+import { getEquipmentTypeLabel, getServiceTypeLabel } from '../lib/servicePrices';
+import { formatWarrantyDate, getWarrantyUntil, isUnderWarranty } from '../lib/warranty';
+import { EquipmentForm } from './EquipmentForm';
+import type { Customer, CustomerEquipment, EquipmentServiceRecord } from '../types';
+
+interface EquipmentDetailProps {
+  equipmentId: string;
+  customer: Customer;
+  onBack: () => void;
+  onDeleted: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export function EquipmentDetail({ equipmentId, customer, onBack, onDeleted }: EquipmentDetailProps) {
+  const [equipment, setEquipment] = useState<CustomerEquipment | null>(null);
+  const [history, setHistory] = useState<EquipmentServiceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+
+  useEffect(() => {
+    Promise.all([loadEquipment(equipmentId), loadEquipmentHistory([equipmentId])])
+      .then(([equipmentData, historyData]) => {
+        setEquipment(equipmentData);
+        setHistory(historyData);
+      })
+      .catch(error => {
+        console.error('Erro ao carregar equipamento:', error);
+        toast.error('Erro ao carregar equipamento');
+      })
+      .finally(() => setLoading(false));
+  }, [equipmentId]);
+
+  const handleDelete = async () => {
+    if (!window.confirm('Excluir este equipamento? Os serviços continuam nas OS, mas deixam de aparecer aqui.')) return;
+
+    try {
+      await deleteEquipment(equipmentId);
+      toast.success('Equipamento excluído');
+      onDeleted();
+    } catch (error) {
+      console.error('Erro ao excluir equipamento:', error);
+      toast.error('Erro ao excluir equipamento');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!equipment) {
+    return null;
+  }
+
+  const lastCleaning = history.find(record => record.service_type === 'cleaning');
+  const warrantyUntil = getWarrantyUntil(history);
+  const details = [
+    { label: 'Tipo', value: equipment.equipment_type ? getEquipmentTypeLabel(equipment.equipment_type) : '' },
+    { label: 'Capacidade', value: equipment.equipment_power ? `${equipment.equipment_power} BTUs` : '' },
+    { label: 'Marca / Modelo', value: [equipment.brand, equipment.model].filter(Boolean).join(' ') },
+    { label: 'Nº de série', value: equipment.serial_number },
+    { label: 'Gás refrigerante', value: equipment.refrigerant },
+    { label: 'Instalado em', value: equipment.installed_at ? format(parseISO(equipment.installed_at), 'dd/MM/yyyy') : '' },
+    { label: 'Endereço', value: formatAddress(equipment.address) },
+    { label: 'Observações', value: equipment.notes }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow space-y-4">
+        <div className="flex items-center justify-between">
+          <button onClick={onBack} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Voltar para {customer.name}
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEditing(true)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Editar
+            </button>
+            <button
+              onClick={handleDelete}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-red-600 bg-white hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Excluir
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{formatEquipmentLabel(equipment)}</h2>
+          <p className="text-sm text-gray-500">
+            {lastCleaning
+              ? `Última limpeza em ${format(new Date(getServiceDate(lastCleaning)), 'dd/MM/yyyy')}`
+              : 'Nenhuma limpeza registrada'}
+          </p>
+          {warrantyUntil && isUnderWarranty(warrantyUntil) && (
+            <p className="text-sm text-green-700">Em garantia até {formatWarrantyDate(warrantyUntil)}</p>
+          )}
+        </div>
+
+        {editing ? (
+          <EquipmentForm
+            customerId={customer.id}
+            addresses={customer.addresses || []}
+            equipment={equipment}
+            onCancel={() => setEditing(false)}
+            onSaved={(saved) => {
+              setEquipment(saved);
+              setEditing(false);
+            }}
+          />
+        ) : (
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+            {details.filter(detail => detail.value).map(detail => (
+              <div key={detail.label} className="flex">
+                <dt className="w-36 flex-shrink-0 text-gray-500">{detail.label}</dt>
+                <dd className="text-gray-900">{detail.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium text-gray-900">Serviços realizados</h3>
+        </div>
+        <div className="border-t border-gray-200">
+          {history.length === 0 ? (
+            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Nenhum serviço registrado neste equipamento.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {history.map(record => (
+                <li key={record.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      <span className="text-blue-600 mr-2">{getOrderNumber(record.service_order)}</span>
+                      {getServiceTypeLabel(record.service_type)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {format(new Date(getServiceDate(record)), 'dd/MM/yyyy')}
+                      {record.description ? ` · ${record.description}` : ''}
+                      {record.warranty_until ? ` · garantia até ${formatWarrantyDate(record.warranty_until)}` : ''}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-medium text-gray-900">{formatCurrency(record.price || 0)}</p>
+                    <p className="text-xs text-gray-500">{ORDER_STATUS_LABELS[record.service_order.status] || record.service_order.status}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatAddress } from '../lib/customers';
+import { REFRIGERANT_OPTIONS, saveEquipment } from '../lib/equipment';
+import { BTU_OPTIONS, EQUIPMENT_TYPES } from '../lib/servicePrices';
+import type { CustomerAddress, CustomerEquipment } from '../types';
+
+interface EquipmentFormProps {
+  customerId: string;
+  addresses: CustomerAddress[];
+  equipment?: CustomerEquipment;
+  onSaved: (equipment: CustomerEquipment) => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+export function EquipmentForm({ customerId, addresses, equipment, onSaved, onCancel }: EquipmentFormProps) {
+  // Endereço escolhido entre os salvos no cliente; -1 mantém o endereço atual do equipamento
+  const currentAddressIndex = addresses.findIndex(address => formatAddress(address) === formatAddress(equipment?.address));
+  const [addressIndex, setAddressIndex] = useState(equipment ? currentAddressIndex : (addresses.length > 0 ? 0 : -1));
+  const [room, setRoom] = useState(equipment?.room || '');
+  const [equipmentType, setEquipmentType] = useState(equipment?.equipment_type || 'split');
+  const [equipmentPower, setEquipmentPower] = useState(equipment?.equipment_power || '');
+  const [brand, setBrand] = useState(equipment?.brand || '');
+  const [model, setModel] = useState(equipment?.model || '');
+  const [serialNumber, setSerialNumber] = useState(equipment?.serial_number || '');
+  const [refrigerant, setRefrigerant] = useState(equipment?.refrigerant || '');
+  const [installedAt, setInstalledAt] = useState(equipment?.installed_at || '');
+  const [notes, setNotes] = useState(equipment?.notes || '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const selectedAddress = addresses[addressIndex];
+      const address = selectedAddress
+        ? {
+            street: selectedAddress.street,
+            number: selectedAddress.number,
+            complement: selectedAddress.complement,
+            neighborhood: selectedAddress.neighborhood,
+            city: selectedAddress.city,
+            state: selectedAddress.state,
+            zipCode: selectedAddress.zipCode
+          }
+        : equipment?.address || null;
+
+      const saved = await saveEquipment(equipment?.id || null, {
+        customer_id: customerId,
+        address,
+        room: room.trim() || null,
+        equipment_type: equipmentType || null,
+        equipment_power: equipmentPower || null,
+        brand: brand.trim() || null,
+        model: model.trim() || null,
+        serial_number: serialNumber.trim() || null,
+        refrigerant: refrigerant || null,
+        installed_at: installedAt || null,
+        notes: notes.trim() || null
+      });
+
+      toast.success(equipment ? 'Equipamento atualizado com sucesso!' : 'Equipamento cadastrado com sucesso!');
+      onSaved(saved);
+    } catch (error) {
+      console.error('Erro ao salvar equipamento:', error);
+      toast.error('Erro ao salvar equipamento');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">{equipment ? 'Editar equipamento' : 'Novo equipamento'}</h4>
+        <button onClick={onCancel} className="p-1 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Endereço</label>
+          <select value={addressIndex} onChange={(e) => setAddressIndex(Number(e.target.value))} className={inputClass}>
+            <option value={-1}>
+              {equipment?.address?.street ? formatAddress(equipment.address) : 'Sem endereço'}
+            </option>
+            {addresses.map((address, index) => (
+              <option key={index} value={index}>
+                {address.label ? `${address.label}: ` : ''}{formatAddress(address)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Ambiente</label>
+          <input type="text" value={room} onChange={(e) => setRoom(e.target.value)} placeholder="Ex: Sala" className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Tipo</label>
+          <select value={equipmentType} onChange={(e) => setEquipmentType(e.target.value)} className={inputClass}>
+            {EQUIPMENT_TYPES.map(type => (
+              <option key={type.id} value={type.id}>{type.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Capacidade</label>
+          <select value={equipmentPower} onChange={(e) => setEquipmentPower(e.target.value)} className={inputClass}>
+            <option value="">-</option>
+            {BTU_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Gás refrigerante</label>
+          <select value={refrigerant} onChange={(e) => setRefrigerant(e.target.value)} className={inputClass}>
+            <option value="">-</option>
+            {REFRIGERANT_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Marca</label>
+          <input type="text" value={brand} onChange={(e) => setBrand(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Modelo</label>
+          <input type="text" value={model} onChange={(e) => setModel(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Nº de série</label>
+          <input type="text" value={serialNumber} onChange={(e) => setSerialNumber(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Data de instalação</label>
+          <input type="date" value={installedAt} onChange={(e) => setInstalledAt(e.target.value)} className={inputClass} />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700">Observações</label>
+          <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex items-center px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {saving ? 'Salvando...' : 'Salvar equipamento'}
+        </button>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
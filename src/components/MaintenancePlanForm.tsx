@@ -0,0 +1,449 @@
+import { useState, useEffect } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { format } from 'date-fns';
+import { ListChecks, Plus, Save, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getDefaultAddress } from '../lib/customers';
+import {
+  DEFAULT_PMOC_TASKS,
+  FREQUENCY_OPTIONS,
+  saveMaintenancePlan,
+  uploadEngineerSignature
+} from '../lib/maintenancePlans';
+import { BTU_OPTIONS, EQUIPMENT_TYPES } from '../lib/servicePrices';
+import { getSignedUrl } from '../lib/storage';
+import { CustomerSearch } from './CustomerSearch';
+import { SignaturePad } from './SignaturePad';
+import type {
+  Customer,
+  MaintenancePlan,
+  MaintenancePlanEquipment,
+  MaintenancePlanTask,
+  ServiceOrderAddress
+} from '../types';
+
+interface MaintenancePlanFormProps {
+  plan?: MaintenancePlan;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+interface MaintenancePlanFormValues {
+  customer_id: string;
+  customer_name: string;
+  name: string;
+  address: ServiceOrderAddress;
+  start_date: string;
+  end_date: string;
+  visit_day: number;
+  visit_time: string;
+  visit_duration_minutes: number;
+  visit_price: number;
+  engineer_name: string;
+  engineer_registration: string;
+  engineer_art: string;
+  notes: string;
+  active: boolean;
+  equipment: MaintenancePlanEquipment[];
+  tasks: MaintenancePlanTask[];
+}
+
+const ADDRESS_FIELDS: Array<{ key: keyof ServiceOrderAddress; label: string; className: string }> = [
+  { key: 'street', label: 'Rua', className: 'md:col-span-2' },
+  { key: 'number', label: 'Número', className: '' },
+  { key: 'complement', label: 'Complemento', className: '' },
+  { key: 'neighborhood', label: 'Bairro', className: '' },
+  { key: 'city', label: 'Cidade', className: '' },
+  { key: 'state', label: 'Estado', className: '' },
+  { key: 'zipCode', label: 'CEP', className: '' }
+];
+
+const EMPTY_EQUIPMENT: MaintenancePlanEquipment = {
+  equipment_type: 'split',
+  equipment_power: '',
+  brand: '',
+  model: '',
+  serial_number: '',
+  location: ''
+};
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm';
+
+const toFormValues = (plan?: MaintenancePlan): MaintenancePlanFormValues => ({
+  customer_id: plan?.customer_id || '',
+  customer_name: plan?.customer?.name || '',
+  name: plan?.name || '',
+  address: {
+    street: plan?.address?.street || '',
+    number: plan?.address?.number || '',
+    complement: plan?.address?.complement || '',
+    neighborhood: plan?.address?.neighborhood || '',
+    city: plan?.address?.city || '',
+    state: plan?.address?.state || '',
+    zipCode: plan?.address?.zipCode || ''
+  },
+  start_date: plan?.start_date || format(new Date(), 'yyyy-MM-dd'),
+  end_date: plan?.end_date || '',
+  visit_day: plan?.visit_day || 10,
+  visit_time: plan?.visit_time?.slice(0, 5) || '08:00',
+  visit_duration_minutes: plan?.visit_duration_minutes || 120,
+  visit_price: plan?.visit_price || 0,
+  engineer_name: plan?.engineer_name || '',
+  engineer_registration: plan?.engineer_registration || '',
+  engineer_art: plan?.engineer_art || '',
+  notes: plan?.notes || '',
+  active: plan?.active ?? true,
+  equipment: plan?.equipment || [],
+  tasks: plan?.tasks || []
+});
+
+export function MaintenancePlanForm({ plan, onSaved, onCancel }: MaintenancePlanFormProps) {
+  const { register, control, handleSubmit, setValue } = useForm<MaintenancePlanFormValues>({
+    defaultValues: toFormValues(plan)
+  });
+  // keyName próprio para não sobrescrever o id das linhas já salvas
+  const { fields: equipmentFields, append: appendEquipment, remove: removeEquipment } =
+    useFieldArray({ control, name: 'equipment', keyName: 'key' });
+  const { fields: taskFields, append: appendTask, remove: removeTask, replace: replaceTasks } =
+    useFieldArray({ control, name: 'tasks', keyName: 'key' });
+
+  const [signatureUrl, setSignatureUrl] = useState(plan?.engineer_signature_url || '');
+  const [signaturePreview, setSignaturePreview] = useState('');
+  const [signatureDraft, setSignatureDraft] = useState<string | null>(null);
+  const [editingSignature, setEditingSignature] = useState(!plan?.engineer_signature_url);
+  const [saving, setSaving] = useState(false);
+
+  // A assinatura fica no bucket privado da empresa; a imagem usa uma URL assinada
+  useEffect(() => {
+    if (!signatureUrl) {
+      setSignaturePreview('');
+      return;
+    }
+
+    let active = true;
+    getSignedUrl('company', signatureUrl)
+      .then(url => {
+        if (active) setSignaturePreview(url);
+      })
+      .catch(error => console.error('Erro ao carregar assinatura:', error));
+
+    return () => {
+      active = false;
+    };
+  }, [signatureUrl]);
+
+  const handleCustomerSelect = async (customer: Customer) => {
+    setValue('customer_id', customer.id);
+    setValue('customer_name', customer.name);
+
+    try {
+      const address = await getDefaultAddress(customer);
+      if (address) {
+        setValue('address', { ...address, complement: address.complement || '' });
+      }
+    } catch (error) {
+      console.error('Erro ao carregar endereço do cliente:', error);
+    }
+  };
+
+  const handleDefaultTasks = () => {
+    if (taskFields.length > 0 && !window.confirm('Substituir as tarefas atuais pela rotina padrão?')) return;
+    replaceTasks(DEFAULT_PMOC_TASKS);
+  };
+
+  const onSubmit = async (data: MaintenancePlanFormValues) => {
+    if (!data.customer_id) {
+      toast.error('Selecione um cliente cadastrado');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      let engineerSignatureUrl = signatureUrl;
+      if (editingSignature && signatureDraft) {
+        engineerSignatureUrl = await uploadEngineerSignature(signatureDraft);
+      }
+
+      // customer_name só alimenta a busca; a função ignora campos que não conhece
+      await saveMaintenancePlan(plan?.id || null, {
+        ...data,
+        end_date: data.end_date || undefined,
+        visit_day: Number(data.visit_day),
+        visit_duration_minutes: Number(data.visit_duration_minutes),
+        visit_price: Number(data.visit_price),
+        engineer_signature_url: engineerSignatureUrl || undefined,
+        tasks: data.tasks.map(task => ({ ...task, frequency_months: Number(task.frequency_months) }))
+      });
+
+      toast.success(plan ? 'Plano atualizado com sucesso!' : 'Plano criado com sucesso!');
+      onSaved();
+    } catch (error) {
+      console.error('Erro ao salvar plano:', error);
+      toast.error((error as Error).message || 'Erro ao salvar plano');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="bg-white p-6 rounded-lg shadow space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">{plan ? 'Editar Plano PMOC' : 'Novo Plano PMOC'}</h2>
+        <button type="button" onClick={onCancel} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Contrato */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Contrato</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Cliente</label>
+            <CustomerSearch
+              inputProps={register('customer_name', {
+                onChange: () => setValue('customer_id', '')
+              })}
+              onSelect={handleCustomerSelect}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Nome do plano</label>
+            <input type="text" {...register('name')} placeholder="Ex: PMOC Loja Centro" className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Início da vigência</label>
+            <input type="date" {...register('start_date', { required: true })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Fim da vigência</label>
+            <input type="date" {...register('end_date')} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Dia da visita (1 a 28)</label>
+            <input type="number" min={1} max={28} {...register('visit_day')} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Horário da visita</label>
+            <input type="time" {...register('visit_time')} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Duração da visita (minutos)</label>
+            <input type="number" min={15} step={15} {...register('visit_duration_minutes')} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Valor por visita (R$)</label>
+            <input type="number" min={0} step="0.01" {...register('visit_price')} className={inputClass} />
+          </div>
+        </div>
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input type="checkbox" {...register('active')} className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2" />
+          Plano ativo (gera as OS automaticamente)
+        </label>
+      </div>
+
+      {/* Local */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Local atendido</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {ADDRESS_FIELDS.map(({ key, label, className }) => (
+            <div key={key} className={className}>
+              <label className="block text-sm font-medium text-gray-700">{label}</label>
+              <input type="text" {...register(`address.${key}`)} className={inputClass} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Equipamentos */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Equipamentos</h3>
+          <button
+            type="button"
+            onClick={() => appendEquipment({ ...EMPTY_EQUIPMENT })}
+            className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Adicionar equipamento
+          </button>
+        </div>
+        {equipmentFields.length === 0 && (
+          <p className="text-sm text-gray-500">Nenhum equipamento cadastrado</p>
+        )}
+        {equipmentFields.map((field, index) => (
+          <div key={field.key} className="p-4 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => removeEquipment(index)}
+                className="inline-flex items-center text-sm text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remover
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Local (ambiente)</label>
+                <input type="text" {...register(`equipment.${index}.location`)} placeholder="Ex: Sala de reuniões" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Tipo</label>
+                <select {...register(`equipment.${index}.equipment_type`)} className={inputClass}>
+                  {EQUIPMENT_TYPES.map(type => (
+                    <option key={type.id} value={type.id}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Capacidade</label>
+                <select {...register(`equipment.${index}.equipment_power`)} className={inputClass}>
+                  <option value="">-</option>
+                  {BTU_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Marca</label>
+                <input type="text" {...register(`equipment.${index}.brand`)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Modelo</label>
+                <input type="text" {...register(`equipment.${index}.model`)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Nº de série</label>
+                <input type="text" {...register(`equipment.${index}.serial_number`)} className={inputClass} />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Tarefas */}
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <h3 className="text-lg font-medium text-gray-900">Tarefas e periodicidade</h3>
+          <div className="flex gap-4">
+            <button
+              type="button"
+              onClick={handleDefaultTasks}
+              className="inline-flex items-center text-sm text-gray-700 hover:text-gray-900"
+            >
+              <ListChecks className="h-4 w-4 mr-1" />
+              Usar tarefas padrão
+            </button>
+            <button
+              type="button"
+              onClick={() => appendTask({ description: '', frequency_months: 1 })}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Adicionar tarefa
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">
+          Cada tarefa entra no checklist de todos os equipamentos nos meses em que vence, contando a partir do início da vigência.
+        </p>
+        {taskFields.map((field, index) => (
+          <div key={field.key} className="flex items-center space-x-2">
+            <input
+              type="text"
+              {...register(`tasks.${index}.description`)}
+              placeholder="Descrição da tarefa"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <select
+              {...register(`tasks.${index}.frequency_months`)}
+              className="block w-40 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {FREQUENCY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => removeTask(index)}
+              className="p-2 text-red-500 hover:text-red-700"
+              aria-label="Remover tarefa"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Responsável técnico */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Responsável técnico</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Engenheiro</label>
+            <input type="text" {...register('engineer_name')} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">CREA</label>
+            <input type="text" {...register('engineer_registration')} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">ART</label>
+            <input type="text" {...register('engineer_art')} className={inputClass} />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Assinatura</label>
+          {editingSignature ? (
+            <SignaturePad onChange={setSignatureDraft} />
+          ) : (
+            <div className="flex items-center gap-4">
+              <img src={signaturePreview} alt="Assinatura do responsável técnico" className="h-20 border rounded-md bg-white" />
+              <button
+                type="button"
+                onClick={() => setEditingSignature(true)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Refazer assinatura
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setSignatureUrl('');
+                  setEditingSignature(true);
+                }}
+                className="text-sm text-red-500 hover:text-red-700"
+              >
+                Remover
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700">Observações</label>
+        <textarea {...register('notes')} rows={3} className={inputClass} />
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Salvando...' : 'Salvar plano'}
+        </button>
+      </div>
+    </form>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,261 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { CalendarPlus, FileDown, FileText, Pencil, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatAddress } from '../lib/customers';
+import { savePdf } from '../lib/documents';
+import {
+  formatPlanEquipment,
+  generateDueMaintenanceOrders,
+  generatePlanOrders,
+  getFrequencyLabel,
+  loadMaintenancePlans,
+  loadPlanOrders,
+  renderExecutionReport,
+  renderPmocDocument
+} from '../lib/maintenancePlans';
+import { MaintenancePlanForm } from './MaintenancePlanForm';
+import type { MaintenancePlan } from '../types';
+
+interface ReportRange {
+  planId: string;
+  from: string;
+  to: string;
+}
+
+const monthInputValue = (date: Date) => format(date, 'yyyy-MM');
+
+const fileSlug = (value: string) => value.normalize('NFD').replace(/[^\w]+/g, '_');
+
+export function MaintenancePlans() {
+  const [plans, setPlans] = useState<MaintenancePlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingPlan, setEditingPlan] = useState<MaintenancePlan | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [reportRange, setReportRange] = useState<ReportRange | null>(null);
+  const [busyPlanId, setBusyPlanId] = useState<string | null>(null);
+
+  const loadPlans = async () => {
+    try {
+      setPlans(await loadMaintenancePlans());
+    } catch (error) {
+      console.error('Erro ao carregar planos:', error);
+      toast.error('Erro ao carregar planos de manutenção');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Garante as OS dos meses que chegaram desde a última visita à tela
+  useEffect(() => {
+    generateDueMaintenanceOrders()
+      .then(created => {
+        if (created > 0) toast.success(`${created} OS de manutenção gerada(s)`);
+      })
+      .catch(error => console.error('Erro ao gerar OS de manutenção:', error))
+      .finally(loadPlans);
+  }, []);
+
+  const handleGenerate = async (plan: MaintenancePlan) => {
+    setBusyPlanId(plan.id);
+    try {
+      const created = await generatePlanOrders(plan.id);
+      toast.success(created > 0 ? `${created} OS gerada(s)` : 'As OS do plano já estão em dia');
+    } catch (error) {
+      console.error('Erro ao gerar OS do plano:', error);
+      toast.error((error as Error).message || 'Erro ao gerar OS do plano');
+    } finally {
+      setBusyPlanId(null);
+    }
+  };
+
+  const handlePmocPdf = async (plan: MaintenancePlan) => {
+    setBusyPlanId(plan.id);
+    try {
+      await savePdf(await renderPmocDocument(plan), `PMOC_${fileSlug(plan.name)}.pdf`);
+      toast.success('PDF gerado com sucesso!');
+    } catch (error) {
+      console.error('Erro ao gerar PMOC:', error);
+      toast.error('Erro ao gerar PDF');
+    } finally {
+      setBusyPlanId(null);
+    }
+  };
+
+  const handleReport = async (plan: MaintenancePlan, range: ReportRange) => {
+    const fromMonth = startOfMonth(parseISO(`${range.from}-01`));
+    const toMonth = startOfMonth(parseISO(`${range.to}-01`));
+    if (toMonth < fromMonth) {
+      toast.error('O mês final deve ser depois do inicial');
+      return;
+    }
+
+    setBusyPlanId(plan.id);
+    try {
+      const orders = await loadPlanOrders(plan.id, fromMonth, toMonth);
+      const html = await renderExecutionReport(plan, orders, fromMonth, toMonth);
+      await savePdf(html, `Relatorio_PMOC_${fileSlug(plan.name)}_${range.from}_${range.to}.pdf`);
+      setReportRange(null);
+      toast.success('PDF gerado com sucesso!');
+    } catch (error) {
+      console.error('Erro ao gerar relatório:', error);
+      toast.error('Erro ao gerar PDF');
+    } finally {
+      setBusyPlanId(null);
+    }
+  };
+
+  if (creating || editingPlan) {
+    return (
+      <MaintenancePlanForm
+        plan={editingPlan || undefined}
+        onCancel={() => {
+          setCreating(false);
+          setEditingPlan(null);
+        }}
+        onSaved={() => {
+          setCreating(false);
+          setEditingPlan(null);
+          loadPlans();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Planos de manutenção (PMOC)</h2>
+          <p className="mt-1 text-sm text-gray-500">Contratos com visitas periódicas; as OS de cada mês são geradas automaticamente</p>
+        </div>
+        <button
+          onClick={() => setCreating(true)}
+          className="inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          Novo plano
+        </button>
+      </div>
+
+      <div className="border-t border-gray-200">
+        {loading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : plans.length === 0 ? (
+          <p className="px-4 py-6 sm:px-6 text-sm text-gray-500">Nenhum plano cadastrado</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {plans.map(plan => (
+              <li key={plan.id} className="px-4 py-4 sm:px-6 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {plan.name}
+                      {!plan.active && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-gray-700 bg-gray-100">
+                          Inativo
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">{plan.customer?.name}{plan.address?.street ? ` · ${formatAddress(plan.address)}` : ''}</p>
+                    <p className="text-xs text-gray-500">
+                      Desde {format(parseISO(plan.start_date), 'dd/MM/yyyy')}
+                      {plan.end_date ? ` até ${format(parseISO(plan.end_date), 'dd/MM/yyyy')}` : ''}
+                      {' · '}visitas no dia {plan.visit_day} às {plan.visit_time.slice(0, 5)}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-3 text-sm">
+                    <button
+                      onClick={() => setEditingPlan(plan)}
+                      className="text-gray-700 hover:text-gray-900 flex items-center"
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Editar
+                    </button>
+                    <button
+                      onClick={() => handlePmocPdf(plan)}
+                      disabled={busyPlanId === plan.id}
+                      className="text-blue-600 hover:text-blue-800 flex items-center disabled:opacity-50"
+                    >
+                      <FileDown className="h-4 w-4 mr-1" />
+                      PMOC
+                    </button>
+                    <button
+                      onClick={() => setReportRange(reportRange?.planId === plan.id ? null : {
+                        planId: plan.id,
+                        from: monthInputValue(startOfMonth(parseISO(plan.start_date))),
+                        to: monthInputValue(new Date())
+                      })}
+                      className="text-blue-600 hover:text-blue-800 flex items-center"
+                    >
+                      <FileText className="h-4 w-4 mr-1" />
+                      Relatório
+                    </button>
+                    {plan.active && (
+                      <button
+                        onClick={() => handleGenerate(plan)}
+                        disabled={busyPlanId === plan.id}
+                        className="text-gray-700 hover:text-gray-900 flex items-center disabled:opacity-50"
+                      >
+                        <CalendarPlus className="h-4 w-4 mr-1" />
+                        Gerar OS
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-gray-600">
+                  <div>
+                    <p className="font-medium text-gray-700">Equipamentos ({plan.equipment?.length || 0})</p>
+                    {(plan.equipment || []).map(item => (
+                      <p key={item.id}>{formatPlanEquipment(item) || '-'}</p>
+                    ))}
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-700">Tarefas ({plan.tasks?.length || 0})</p>
+                    {(plan.tasks || []).map(task => (
+                      <p key={task.id}>{task.description} · {getFrequencyLabel(task.frequency_months)}</p>
+                    ))}
+                  </div>
+                </div>
+
+                {reportRange?.planId === plan.id && (
+                  <div className="p-3 bg-gray-50 rounded-md flex flex-col sm:flex-row sm:items-end gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">De</label>
+                      <input
+                        type="month"
+                        value={reportRange.from}
+                        onChange={(e) => setReportRange({ ...reportRange, from: e.target.value })}
+                        className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Até</label>
+                      <input
+                        type="month"
+                        value={reportRange.to}
+                        onChange={(e) => setReportRange({ ...reportRange, to: e.target.value })}
+                        className="mt-1 block rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                    <button
+                      onClick={() => handleReport(plan, reportRange)}
+                      disabled={busyPlanId === plan.id || !reportRange.from || !reportRange.to}
+                      className="inline-flex items-center px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <FileDown className="h-4 w-4 mr-1" />
+                      Gerar relatório
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Calendar, Mail, MessageCircle, Send, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import {
+  buildReminderMessages,
+  computeMaintenanceReminders,
+  createLocalOutbox,
+  getCustomerPhone,
+  getDueCustomers,
+  loadReminderIntervals,
+  loadReminderRecords,
+  type CustomerReminders,
+  type ReminderOutbox
+} from '../lib/reminders';
+import { getServiceTypeLabel } from '../lib/servicePrices';
+import { getCompanyStoragePath } from '../lib/team';
+import type { MaintenanceReminder, ReminderMessage } from '../types';
+
+const CHANNEL_LABELS = { whatsapp: 'WhatsApp', email: 'E-mail' };
+
+export function MaintenanceReminders() {
+  const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const [reminders, setReminders] = useState<MaintenanceReminder[]>([]);
+  const [companyName, setCompanyName] = useState('');
+  const [outbox, setOutbox] = useState<ReminderOutbox | null>(null);
+  const [messages, setMessages] = useState<ReminderMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [intervals, records, company, storageKey] = await Promise.all([
+          loadReminderIntervals(),
+          loadReminderRecords(),
+          supabase.from('company_info').select('name').maybeSingle(),
+          getCompanyStoragePath('reminder-outbox')
+        ]);
+
+        setReminders(computeMaintenanceReminders(records, intervals));
+        setCompanyName(company.data?.name || '');
+
+        const localOutbox = createLocalOutbox(storageKey);
+        setOutbox(localOutbox);
+        setMessages(await localOutbox.list());
+      } catch (error) {
+        console.error('Erro ao carregar lembretes:', error);
+        toast.error('Erro ao carregar lembretes de manutenção');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const dueCustomers = getDueCustomers(reminders, selectedMonth);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const queuedReminderIds = new Set(messages.flatMap(message => message.reminder_ids));
+
+  const enqueue = async (entries: CustomerReminders[]) => {
+    if (!outbox) return;
+
+    const newMessages = entries.flatMap(entry => buildReminderMessages(entry, companyName));
+    if (newMessages.length === 0) {
+      toast.error('Cliente sem telefone ou e-mail cadastrado');
+      return;
+    }
+
+    try {
+      const queued = await outbox.enqueue(newMessages);
+      setMessages(await outbox.list());
+      toast.success(queued.length > 0 ? `${queued.length} mensagem(ns) na fila` : 'Os lembretes já estão na fila');
+    } catch (error) {
+      console.error('Erro ao enfileirar lembretes:', error);
+      toast.error('Erro ao adicionar lembretes à fila');
+    }
+  };
+
+  const handleSend = async (message: ReminderMessage) => {
+    if (!outbox) return;
+
+    window.open(message.link, '_blank', 'noopener');
+    await outbox.markSent(message.id);
+    setMessages(await outbox.list());
+  };
+
+  const handleRemove = async (message: ReminderMessage) => {
+    if (!outbox) return;
+
+    await outbox.remove(message.id);
+    setMessages(await outbox.list());
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Lembretes de manutenção</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Clientes com limpeza vencendo no mês, pela última limpeza ou instalação concluída. Os intervalos ficam em Materiais.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Calendar className="h-5 w-5 text-gray-500" />
+            <input
+              type="month"
+              value={format(selectedMonth, 'yyyy-MM')}
+              onChange={(e) => e.target.value && setSelectedMonth(parseISO(`${e.target.value}-01`))}
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+            <button
+              onClick={() => enqueue(dueCustomers)}
+              disabled={dueCustomers.length === 0}
+              className="inline-flex items-center px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Enfileirar todos
+            </button>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-200">
+          {dueCustomers.length === 0 ? (
+            <p className="px-4 py-6 sm:px-6 text-sm text-gray-500">Nenhum cliente com limpeza vencendo neste mês</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {dueCustomers.map(entry => {
+                const queued = entry.reminders.every(reminder => queuedReminderIds.has(reminder.id));
+
+                return (
+                  <li key={entry.customer.id} className="px-4 py-4 sm:px-6 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{entry.customer.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {[getCustomerPhone(entry.customer), entry.customer.email].filter(Boolean).join(' · ') || 'Sem telefone ou e-mail'}
+                      </p>
+                      {entry.reminders.map(reminder => (
+                        <p key={reminder.id} className="text-sm text-gray-600">
+                          {reminder.equipment_label}
+                          {' · '}{getServiceTypeLabel(reminder.last_service_type)} em {format(parseISO(reminder.last_service_date), 'dd/MM/yyyy')}
+                          {' · '}
+                          <span className={reminder.due_date < today ? 'text-red-600' : undefined}>
+                            {reminder.due_date < today ? 'venceu em' : 'vence em'} {format(parseISO(reminder.due_date), 'dd/MM/yyyy')}
+                          </span>
+                        </p>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => enqueue([entry])}
+                      disabled={queued}
+                      className="text-blue-600 hover:text-blue-800 flex items-center text-sm disabled:text-gray-400"
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      {queued ? 'Na fila' : 'Enfileirar lembrete'}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium text-gray-900">Fila de envio</h3>
+          <p className="mt-1 text-sm text-gray-500">Guardada neste navegador. Enviar abre a conversa no WhatsApp ou o e-mail já preenchido.</p>
+        </div>
+        <div className="border-t border-gray-200">
+          {messages.length === 0 ? (
+            <p className="px-4 py-6 sm:px-6 text-sm text-gray-500">Nenhuma mensagem na fila</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {messages.map(message => (
+                <li key={message.id} className="px-4 py-4 sm:px-6 flex items-center justify-between gap-2">
+                  <div className="flex items-center">
+                    {message.channel === 'whatsapp'
+                      ? <MessageCircle className="h-5 w-5 text-green-600" />
+                      : <Mail className="h-5 w-5 text-blue-600" />}
+                    <div className="ml-3">
+                      <p className="text-sm font-medium text-gray-900">{message.customer_name}</p>
+                      <p className="text-xs text-gray-500">
+                        {CHANNEL_LABELS[message.channel]} · {message.recipient}
+                        {' · '}
+                        {message.status === 'sent' && message.sent_at
+                          ? `enviada em ${format(new Date(message.sent_at), 'dd/MM/yyyy HH:mm')}`
+                          : `na fila desde ${format(new Date(message.queued_at), 'dd/MM/yyyy HH:mm')}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-3 text-sm">
+                    <button
+                      onClick={() => handleSend(message)}
+                      className="text-blue-600 hover:text-blue-800 flex items-center"
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      {message.status === 'sent' ? 'Reenviar' : 'Enviar'}
+                    </button>
+                    <button
+                      onClick={() => handleRemove(message)}
+                      className="text-red-600 hover:text-red-800 flex items-center"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remover
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
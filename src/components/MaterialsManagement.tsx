@@ -2,29 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Plus, Save, Trash2 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { BTU_OPTIONS, EQUIPMENT_TYPES, SERVICE_TYPES } from '../lib/servicePrices';
+import { REMINDER_SERVICE_TYPES } from '../lib/reminders';
 import type { Material, ServicePrices } from '../types';
 
-const BTU_OPTIONS = [
-  { value: '7000', label: '7.000 BTUs' },
-  { value: '9000', label: '9.000 BTUs' },
-  { value: '12000', label: '12.000 BTUs' },
-  { value: '18000', label: '18.000 BTUs' },
-  { value: '24000', label: '24.000 BTUs' },
-  { value: '30000', label: '30.000 BTUs' },
-  { value: '36000', label: '36.000 BTUs' },
-  { value: '48000', label: '48.000 BTUs' },
-  { value: '60000', label: '60.000 BTUs' }
-];
-
-const EQUIPMENT_TYPES = [
-  { id: 'split', label: 'Split' },
-  { id: 'cassete', label: 'Cassete' },
-  { id: 'piso_teto', label: 'Piso Teto' },
-  { id: 'multi_split', label: 'Multi Split' },
-  { id: 'janela', label: 'Janela' },
-  { id: 'portatil', label: 'Portátil' }
-];
-
 export function MaterialsManagement() {
   const [materials, setMaterials] = useState<Material[]>([]);
   const [newMaterial, setNewMaterial] = useState({
@@ -32,9 +13,11 @@ export function MaterialsManagement() {
     unit: '',
     default_price: '',
   });
-  const [servicePrices, setServicePrices] = useState({
+  const [servicePrices, setServicePrices] = useState<ServicePrices & { id?: string }>({
     installation_prices: {},
-    cleaning_prices: {}
+    cleaning_prices: {},
+    warranty_months: {},
+    reminder_months: {}
   });
   const [defaultPrices, setDefaultPrices] = useState<Record<string, string>>({
     split: '350.00',      // Valor padrão para Split
@@ -78,7 +61,9 @@ export function MaterialsManagement() {
         setServicePrices({
           id: data.id,
           installation_prices: data.installation_prices || {},
-          cleaning_prices: data.cleaning_prices || {}
+          cleaning_prices: data.cleaning_prices || {},
+          warranty_months: data.warranty_months || {},
+          reminder_months: data.reminder_months || {}
         });
       }
     } catch (error) {
@@ -165,6 +150,8 @@ export function MaterialsManagement() {
       const priceData = {
         installation_prices: prices.installation_prices,
         cleaning_prices: prices.cleaning_prices,
+        warranty_months: prices.warranty_months,
+        reminder_months: prices.reminder_months,
         created_at: new Date().toISOString()
       };
 
@@ -248,6 +235,24 @@ export function MaterialsManagement() {
     });
   };
 
+  const updateServiceMonths = (field: 'warranty_months' | 'reminder_months', serviceType: string, value: string) => {
+    const months = value.replace(/[^0-9]/g, '');
+
+    setServicePrices(prev => {
+      const newPrices = {
+        ...prev,
+        [field]: {
+          ...prev[field],
+          [serviceType]: months
+        }
+      };
+
+      // Salva automaticamente após atualizar
+      handleSave(newPrices);
+      return newPrices;
+    });
+  };
+
   const handleDefaultPriceChange = (id: string, value: string) => {
     setDefaultPrices(prev => ({
       ...prev,
@@ -337,6 +342,58 @@ export function MaterialsManagement() {
           </div>
         </div>
 
+        {/* Garantia */}
+        <div className="mb-8">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Prazo de Garantia</h3>
+          <p className="text-sm text-gray-500 mb-4">Contado a partir da conclusão da OS. Deixe em branco ou 0 para serviços sem garantia.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {SERVICE_TYPES.filter(({ id }) => id !== 'warranty_return').map(({ id, label }) => (
+              <div key={`warranty-${id}`} className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  {label}
+                </label>
+                <div className="flex items-center">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={servicePrices.warranty_months?.[id] || ''}
+                    onChange={(e) => updateServiceMonths('warranty_months', id, e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    placeholder="0"
+                  />
+                  <span className="text-gray-500 ml-2">meses</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Lembretes */}
+        <div className="mb-8">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Lembretes de Limpeza</h3>
+          <p className="text-sm text-gray-500 mb-4">Meses até a próxima limpeza, contados do último serviço concluído no equipamento. Deixe em branco ou 0 para não lembrar.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {SERVICE_TYPES.filter(({ id }) => REMINDER_SERVICE_TYPES.includes(id)).map(({ id, label }) => (
+              <div key={`reminder-${id}`} className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Após {label.toLowerCase()}
+                </label>
+                <div className="flex items-center">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={servicePrices.reminder_months?.[id] || ''}
+                    onChange={(e) => updateServiceMonths('reminder_months', id, e.target.value)}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    placeholder="0"
+                  />
+                  <span className="text-gray-500 ml-2">meses</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         <div className="flex justify-end">
           <button
             onClick={() => handleSave()}
@@ -0,0 +1,61 @@
+import { format } from 'date-fns';
+import { CreditCard, Eye, LogOut, Wrench } from 'lucide-react';
+import { SUBSCRIPTION_CHECKOUT_URL, getSubscriptionEnd } from '../lib/subscription';
+import type { Subscription } from '../types';
+
+interface PaywallProps {
+  subscription: Subscription | null;
+  onContinueReadOnly: () => void;
+  onLogout: () => void;
+}
+
+export function Paywall({ subscription, onContinueReadOnly, onLogout }: PaywallProps) {
+  const end = getSubscriptionEnd(subscription);
+  const wasTrial = !subscription || subscription.status === 'trial';
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center px-4">
+      <div className="bg-white shadow rounded-lg p-6 max-w-md w-full text-center space-y-4">
+        <Wrench className="h-10 w-10 text-blue-500 mx-auto" />
+        <h2 className="text-lg font-medium text-gray-900">
+          {wasTrial ? 'Seu período de teste terminou' : 'Sua assinatura expirou'}
+        </h2>
+        <p className="text-sm text-gray-500">
+          {end && `Acesso completo até ${format(end, 'dd/MM/yyyy')}. `}
+          Seus dados continuam salvos: assine para voltar a criar e editar ordens de serviço.
+        </p>
+
+        {SUBSCRIPTION_CHECKOUT_URL ? (
+          <a
+            href={SUBSCRIPTION_CHECKOUT_URL}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="w-full inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            <CreditCard className="h-5 w-5 mr-2" />
+            Assinar agora
+          </a>
+        ) : (
+          <p className="text-sm text-gray-700">Entre em contato com o suporte para assinar.</p>
+        )}
+
+        <div className="flex justify-center gap-2">
+          <button
+            onClick={onContinueReadOnly}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Consultar dados
+          </button>
+          <button
+            onClick={onLogout}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sair
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
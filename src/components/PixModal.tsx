@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { Copy, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getOrderPixPayload, loadCompanyInfo } from '../lib/documents';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { renderQrCodeDataUrl } from '../lib/qrcode';
+import type { ServiceOrder } from '../types';
+
+interface PixModalProps {
+  order: ServiceOrder;
+  onClose: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// QR Code PIX do valor total para o cliente pagar na hora, lido da tela do aparelho
+export function PixModal({ order, onClose }: PixModalProps) {
+  const [payload, setPayload] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadCompanyInfo()
+      .then(company => setPayload(getOrderPixPayload({ company, order })))
+      .catch(error => {
+        console.error('Erro ao carregar chave PIX:', error);
+        toast.error('Erro ao carregar chave PIX');
+      })
+      .finally(() => setLoading(false));
+  }, [order]);
+
+  const handleCopy = async () => {
+    if (!payload) return;
+
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast.success('Código PIX copiado');
+    } catch (error) {
+      console.error('Erro ao copiar código PIX:', error);
+      toast.error('Não foi possível copiar o código');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm max-h-full overflow-y-auto p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">PIX da {getOrderNumber(order)}</h2>
+            <p className="text-sm text-gray-500">Valor {formatCurrency(order.total_amount || 0)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : payload ? (
+          <>
+            <img
+              src={renderQrCodeDataUrl(payload)}
+              alt="QR Code PIX"
+              className="mx-auto w-56 h-56"
+            />
+            <div>
+              <p className="text-sm font-medium text-gray-700">PIX copia e cola</p>
+              <p className="mt-1 p-2 bg-gray-50 border border-gray-200 rounded-md text-xs font-mono text-gray-700 break-all">
+                {payload}
+              </p>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            A chave PIX da empresa não está configurada. Cadastre o tipo, a chave e a cidade em Informações da Empresa.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Fechar
+          </button>
+          {payload && (
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Copiar código
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
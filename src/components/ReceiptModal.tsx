@@ -0,0 +1,235 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { FileDown, Receipt, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatAmountInWords } from '../lib/amountInWords';
+import { formatDocument } from '../lib/customers';
+import { getDocumentFileName, loadOrderDocumentData, renderOrderDocument, savePdf } from '../lib/documents';
+import { getOrderNumber } from '../lib/orderNumbers';
+import {
+  PAYMENT_METHODS,
+  getOutstandingAmount,
+  getPaymentMethodLabel,
+  issueReceipt,
+  loadOrderReceipts,
+  saveReceiptPdf
+} from '../lib/receipts';
+import type { PaymentMethod, PaymentReceipt, ServiceOrder } from '../types';
+
+interface ReceiptModalProps {
+  order: ServiceOrder;
+  onClose: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export function ReceiptModal({ order, onClose }: ReceiptModalProps) {
+  const [receipts, setReceipts] = useState<PaymentReceipt[]>([]);
+  const [amount, setAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('pix');
+  const [paidAt, setPaidAt] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [payerName, setPayerName] = useState(order.customer?.name || '');
+  const [payerDocument, setPayerDocument] = useState(formatDocument(order.customer?.document));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadOrderReceipts(order.id)
+      .then(loaded => {
+        setReceipts(loaded);
+        setAmount(getOutstandingAmount(order, loaded).toFixed(2));
+      })
+      .catch(error => {
+        console.error('Erro ao carregar recibos:', error);
+        toast.error('Erro ao carregar recibos');
+      })
+      .finally(() => setLoading(false));
+  }, [order]);
+
+  const outstanding = getOutstandingAmount(order, receipts);
+  const parsedAmount = parseFloat(amount.replace(',', '.')) || 0;
+
+  // PDF do recibo: baixa e, quando ainda não foi guardado, envia ao bucket
+  const downloadReceipt = async (receipt: PaymentReceipt) => {
+    const data = { ...await loadOrderDocumentData(order), receipt };
+
+    await savePdf(await renderOrderDocument('receipt', data), getDocumentFileName('receipt', data), {
+      onBlob: receipt.pdf_url ? undefined : async blob => {
+        const saved = await saveReceiptPdf(receipt, blob);
+        setReceipts(prev => prev.map(r => r.id === saved.id ? saved : r));
+      }
+    });
+  };
+
+  const handleIssue = async () => {
+    if (parsedAmount <= 0) {
+      toast.error('Informe o valor recebido');
+      return;
+    }
+    if (parsedAmount > outstanding) {
+      toast.error(`O valor ultrapassa o saldo da OS (${formatCurrency(outstanding)})`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const receipt = await issueReceipt(order, {
+        amount: parsedAmount,
+        paymentMethod,
+        paidAt,
+        payerName,
+        payerDocument
+      });
+      const issued = [...receipts, receipt];
+      setReceipts(issued);
+      setAmount(getOutstandingAmount(order, issued).toFixed(2));
+      toast.success(`Recibo ${receipt.receipt_number} emitido`);
+
+      await downloadReceipt(receipt);
+    } catch (error) {
+      console.error('Erro ao emitir recibo:', error);
+      toast.error((error as Error).message || 'Erro ao emitir recibo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async (receipt: PaymentReceipt) => {
+    try {
+      await downloadReceipt(receipt);
+    } catch (error) {
+      console.error('Erro ao gerar recibo:', error);
+      toast.error('Erro ao gerar recibo');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Recibos da {getOrderNumber(order)}</h2>
+            <p className="text-sm text-gray-500">
+              Total {formatCurrency(order.total_amount || 0)} · a receber {formatCurrency(outstanding)}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            {receipts.length > 0 && (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                {receipts.map(receipt => (
+                  <li key={receipt.id} className="px-3 py-2 flex items-center justify-between text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">{receipt.receipt_number}</p>
+                      <p className="text-gray-500">
+                        {formatCurrency(Number(receipt.amount))} · {getPaymentMethodLabel(receipt.payment_method)}
+                        {' · '}{format(new Date(`${receipt.paid_at}T00:00:00`), 'dd/MM/yyyy')}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDownload(receipt)}
+                      className="text-blue-600 hover:text-blue-800 flex items-center"
+                    >
+                      <FileDown className="h-4 w-4 mr-1" />
+                      PDF
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {outstanding > 0 ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Valor recebido</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Forma de pagamento</label>
+                  <select
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    {PAYMENT_METHODS.map(method => (
+                      <option key={method.value} value={method.value}>{method.label}</option>
+                    ))}
+                  </select>
+                </div>
+                {parsedAmount > 0 && (
+                  <p className="sm:col-span-2 text-sm text-gray-500">{formatAmountInWords(parsedAmount)}</p>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Pagador</label>
+                  <input
+                    type="text"
+                    value={payerName}
+                    onChange={(e) => setPayerName(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">CPF/CNPJ</label>
+                  <input
+                    type="text"
+                    value={payerDocument}
+                    onChange={(e) => setPayerDocument(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Data do pagamento</label>
+                  <input
+                    type="date"
+                    value={paidAt}
+                    onChange={(e) => setPaidAt(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">O valor total da OS já tem recibo.</p>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Fechar
+          </button>
+          {outstanding > 0 && (
+            <button
+              type="button"
+              onClick={handleIssue}
+              disabled={saving || loading}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Receipt className="h-4 w-4 mr-2" />
+              Emitir recibo
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,373 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { DragEvent } from 'react';
+import { addDays, addMinutes, differenceInMinutes, format, isSameDay, startOfDay, startOfWeek } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, HardHat } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getOrderNumber } from '../lib/orderNumbers';
+import {
+  findAllConflicts,
+  findConflicts,
+  getJobInterval,
+  loadScheduledOrders,
+  loadTechnicians,
+  loadUnscheduledOrders,
+  scheduleOrder,
+  type ScheduleConflict
+} from '../lib/schedule';
+import { ScheduleOrderModal } from './ScheduleOrderModal';
+import { TechnicianManagement } from './TechnicianManagement';
+import type { ServiceOrder, Technician } from '../types';
+
+type CalendarView = 'day' | 'week';
+
+// Na visão diária cada coluna é um técnico (null = sem técnico); na semanal, um dia
+interface CalendarColumn {
+  key: string;
+  label: string;
+  day: Date;
+  technicianId?: string | null;
+}
+
+interface DragPayload {
+  orderId: string;
+  fromTechnicianId?: string | null;
+}
+
+const START_HOUR = 7;
+const END_HOUR = 20;
+const HOUR_HEIGHT = 48;
+const SLOT_MINUTES = 30;
+const SLOTS = Array.from({ length: ((END_HOUR - START_HOUR) * 60) / SLOT_MINUTES }, (_, index) => index);
+const NO_TECHNICIAN_COLOR = '#9ca3af';
+
+const describeConflicts = (conflicts: ScheduleConflict[]) => conflicts
+  .map(conflict => `${conflict.technician.name} também está na ${getOrderNumber(conflict.order)}`)
+  .join('\n');
+
+// Distribui serviços sobrepostos da mesma coluna lado a lado
+function layoutColumn(orders: ServiceOrder[]) {
+  const laneEnds: Date[] = [];
+  const lanes = orders
+    .flatMap(order => {
+      const interval = getJobInterval(order);
+      return interval ? [{ order, interval }] : [];
+    })
+    .sort((a, b) => a.interval.start.getTime() - b.interval.start.getTime())
+    .map(({ order, interval }) => {
+      let lane = laneEnds.findIndex(end => end <= interval.start);
+      if (lane === -1) lane = laneEnds.length;
+      laneEnds[lane] = interval.end;
+      return { order, interval, lane };
+    });
+
+  return { lanes, laneCount: Math.max(laneEnds.length, 1) };
+}
+
+export function ScheduleCalendar() {
+  const [view, setView] = useState<CalendarView>('week');
+  const [date, setDate] = useState(startOfDay(new Date()));
+  const [orders, setOrders] = useState<ServiceOrder[]>([]);
+  const [unscheduled, setUnscheduled] = useState<ServiceOrder[]>([]);
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingOrder, setEditingOrder] = useState<ServiceOrder | null>(null);
+  const [showTechnicians, setShowTechnicians] = useState(false);
+
+  const rangeStart = useMemo(() => view === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : date, [view, date]);
+  const rangeDays = view === 'week' ? 7 : 1;
+
+  const loadCalendar = useCallback(async () => {
+    try {
+      const [scheduledOrders, openOrders, activeTechnicians] = await Promise.all([
+        loadScheduledOrders(rangeStart, addDays(rangeStart, rangeDays)),
+        loadUnscheduledOrders(),
+        loadTechnicians()
+      ]);
+
+      setOrders(scheduledOrders);
+      setUnscheduled(openOrders);
+      setTechnicians(activeTechnicians);
+    } catch (error) {
+      console.error('Erro ao carregar agenda:', error);
+      toast.error('Erro ao carregar agenda');
+    } finally {
+      setLoading(false);
+    }
+  }, [rangeStart, rangeDays]);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [loadCalendar]);
+
+  const columns: CalendarColumn[] = view === 'week'
+    ? Array.from({ length: 7 }, (_, index) => {
+        const day = addDays(rangeStart, index);
+        return { key: day.toISOString(), label: format(day, 'EEE dd/MM', { locale: ptBR }), day };
+      })
+    : [
+        ...technicians.map(technician => ({ key: technician.id, label: technician.name, day: date, technicianId: technician.id })),
+        { key: 'none', label: 'Sem técnico', day: date, technicianId: null }
+      ];
+
+  const ordersInColumn = (column: CalendarColumn) => orders.filter(order => {
+    const interval = getJobInterval(order);
+    if (!interval || !isSameDay(interval.start, column.day)) return false;
+    if (column.technicianId === undefined) return true;
+    if (column.technicianId === null) return !order.technicians?.length;
+    return order.technicians?.some(technician => technician.id === column.technicianId);
+  });
+
+  const conflicts = findAllConflicts(orders);
+
+  const handleDragStart = (e: DragEvent<HTMLElement>, payload: DragPayload) => {
+    e.dataTransfer.setData('text/plain', JSON.stringify(payload));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>, column: CalendarColumn, slot: number) => {
+    e.preventDefault();
+
+    let payload: DragPayload;
+    try {
+      payload = JSON.parse(e.dataTransfer.getData('text/plain'));
+    } catch {
+      return;
+    }
+
+    const order = [...orders, ...unscheduled].find(o => o.id === payload.orderId);
+    if (!order) return;
+
+    // Mantém a duração e o tamanho da janela de chegada ao mudar o horário
+    const start = addMinutes(startOfDay(column.day), START_HOUR * 60 + slot * SLOT_MINUTES);
+    const windowMinutes = order.scheduled_start && order.scheduled_end
+      ? differenceInMinutes(new Date(order.scheduled_end), new Date(order.scheduled_start))
+      : null;
+    const end = windowMinutes !== null ? addMinutes(start, windowMinutes) : null;
+
+    let technicianIds = (order.technicians || []).map(technician => technician.id);
+    if (column.technicianId !== undefined) {
+      technicianIds = technicianIds.filter(id => id !== payload.fromTechnicianId);
+      if (column.technicianId && !technicianIds.includes(column.technicianId)) {
+        technicianIds.push(column.technicianId);
+      }
+    }
+
+    try {
+      await scheduleOrder(order.id, {
+        start,
+        end,
+        durationMinutes: order.estimated_duration_minutes ?? null,
+        technicianIds
+      });
+
+      const moved = {
+        ...order,
+        scheduled_start: start.toISOString(),
+        scheduled_end: end?.toISOString(),
+        technicians: technicians.filter(technician => technicianIds.includes(technician.id))
+      };
+      const movedConflicts = findConflicts(moved, orders);
+      if (movedConflicts.length > 0) {
+        toast.error(`Conflito de agenda:\n${describeConflicts(movedConflicts)}`, { duration: 6000 });
+      } else {
+        toast.success(`${getOrderNumber(order)} agendada para ${format(start, 'dd/MM HH:mm')}`);
+      }
+
+      loadCalendar();
+    } catch (error) {
+      console.error('Erro ao reagendar:', error);
+      toast.error((error as Error).message || 'Erro ao reagendar');
+    }
+  };
+
+  const move = (direction: 1 | -1) => setDate(prev => addDays(prev, direction * rangeDays));
+
+  if (showTechnicians) {
+    return (
+      <TechnicianManagement
+        onBack={() => {
+          setShowTechnicians(false);
+          loadCalendar();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Agenda</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              {view === 'week'
+                ? `${format(rangeStart, 'dd/MM')} a ${format(addDays(rangeStart, 6), 'dd/MM/yyyy')}`
+                : format(date, "EEEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => move(-1)} className="p-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50" aria-label="Anterior">
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setDate(startOfDay(new Date()))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Hoje
+            </button>
+            <button onClick={() => move(1)} className="p-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50" aria-label="Próximo">
+              <ChevronRight className="h-4 w-4" />
+            </button>
+            <div className="inline-flex rounded-md shadow-sm">
+              <button
+                onClick={() => setView('day')}
+                className={`px-4 py-2 text-sm font-medium border rounded-l-md ${view === 'day' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                Dia
+              </button>
+              <button
+                onClick={() => setView('week')}
+                className={`px-4 py-2 text-sm font-medium border-t border-b border-r rounded-r-md ${view === 'week' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                Semana
+              </button>
+            </div>
+            <button
+              onClick={() => setShowTechnicians(true)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <HardHat className="h-4 w-4 mr-2" />
+              Técnicos
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="border-t border-gray-200 overflow-x-auto">
+            <div className="flex min-w-[720px]">
+              {/* Horários */}
+              <div className="w-14 flex-shrink-0">
+                <div className="h-10 border-b border-gray-200" />
+                {Array.from({ length: END_HOUR - START_HOUR }, (_, index) => (
+                  <div key={index} className="text-xs text-gray-500 text-right pr-2 border-b border-gray-100" style={{ height: HOUR_HEIGHT }}>
+                    {String(START_HOUR + index).padStart(2, '0')}:00
+                  </div>
+                ))}
+              </div>
+
+              {columns.map(column => {
+                const { lanes, laneCount } = layoutColumn(ordersInColumn(column));
+                const isToday = isSameDay(column.day, new Date());
+
+                return (
+                  <div key={column.key} className="flex-1 min-w-[96px] border-l border-gray-200">
+                    <div className={`h-10 flex items-center justify-center text-xs font-medium border-b border-gray-200 capitalize ${isToday && view === 'week' ? 'text-blue-600' : 'text-gray-700'}`}>
+                      {column.label}
+                    </div>
+                    <div className="relative">
+                      {SLOTS.map(slot => (
+                        <div
+                          key={slot}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={(e) => handleDrop(e, column, slot)}
+                          className={`hover:bg-blue-50 ${slot % 2 === 1 ? 'border-b border-gray-100' : ''}`}
+                          style={{ height: HOUR_HEIGHT / 2 }}
+                        />
+                      ))}
+
+                      {lanes.map(({ order, interval, lane }) => {
+                        const minutesFromStart = differenceInMinutes(interval.start, addMinutes(startOfDay(interval.start), START_HOUR * 60));
+                        const top = Math.max(0, (minutesFromStart / 60) * HOUR_HEIGHT);
+                        const height = Math.max(20, (differenceInMinutes(interval.end, interval.start) / 60) * HOUR_HEIGHT);
+                        const orderConflicts = conflicts[order.id] || [];
+                        const color = column.technicianId
+                          ? technicians.find(t => t.id === column.technicianId)?.color
+                          : order.technicians?.[0]?.color;
+
+                        return (
+                          <button
+                            key={order.id}
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, { orderId: order.id, fromTechnicianId: column.technicianId })}
+                            onClick={() => setEditingOrder(order)}
+                            title={orderConflicts.length > 0 ? describeConflicts(orderConflicts) : undefined}
+                            className={`absolute overflow-hidden rounded px-1 py-0.5 text-left text-xs text-white shadow-sm cursor-move ${orderConflicts.length > 0 ? 'ring-2 ring-red-500' : ''}`}
+                            style={{
+                              top,
+                              height,
+                              left: `${(lane / laneCount) * 100}%`,
+                              width: `${100 / laneCount}%`,
+                              backgroundColor: color || NO_TECHNICIAN_COLOR
+                            }}
+                          >
+                            <span className="flex items-center font-medium">
+                              {orderConflicts.length > 0 && <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />}
+                              {format(interval.start, 'HH:mm')} {getOrderNumber(order)}
+                            </span>
+                            <span className="block truncate">{order.customer?.name}</span>
+                            {view === 'week' && order.technicians && order.technicians.length > 0 && (
+                              <span className="block truncate opacity-90">{order.technicians.map(t => t.name).join(', ')}</span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <CalendarDays className="h-5 w-5 mr-2 text-gray-500" />
+            A agendar
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">Arraste uma OS para um horário da agenda ou clique para agendar</p>
+        </div>
+        <div className="border-t border-gray-200">
+          {unscheduled.length === 0 ? (
+            <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Nenhuma OS aguardando agendamento.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {unscheduled.map(order => (
+                <li
+                  key={order.id}
+                  draggable
+                  onDragStart={(e) => handleDragStart(e, { orderId: order.id })}
+                  onClick={() => setEditingOrder(order)}
+                  className="px-4 py-3 sm:px-6 cursor-move hover:bg-gray-50"
+                >
+                  <p className="text-sm font-medium text-gray-900">
+                    <span className="text-blue-600 mr-2">{getOrderNumber(order)}</span>
+                    {order.customer?.name}
+                  </p>
+                  <p className="text-sm text-gray-500">{order.description || '-'}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {editingOrder && (
+        <ScheduleOrderModal
+          order={editingOrder}
+          onClose={() => setEditingOrder(null)}
+          onSaved={() => {
+            setEditingOrder(null);
+            loadCalendar();
+          }}
+        />
+      )}
+    </div>
+  );
+}
\ No newline at end of file
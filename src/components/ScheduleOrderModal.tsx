@@ -0,0 +1,249 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CalendarX, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getOrderNumber } from '../lib/orderNumbers';
+import {
+  DEFAULT_JOB_DURATION_MINUTES,
+  DURATION_OPTIONS,
+  findConflicts,
+  formatDuration,
+  getJobInterval,
+  loadOrderTechnicianIds,
+  loadScheduledOrders,
+  loadTechnicians,
+  scheduleOrder
+} from '../lib/schedule';
+import type { ServiceOrder, Technician } from '../types';
+
+interface ScheduleOrderModalProps {
+  order: ServiceOrder;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Junta a data (yyyy-MM-dd) e o horário (HH:mm) digitados em um Date local
+const toDate = (day: string, time: string) => (day && time ? new Date(`${day}T${time}`) : null);
+
+export function ScheduleOrderModal({ order, onClose, onSaved }: ScheduleOrderModalProps) {
+  const initialStart = order.scheduled_start ? new Date(order.scheduled_start) : null;
+  const [day, setDay] = useState(format(initialStart || new Date(), 'yyyy-MM-dd'));
+  const [startTime, setStartTime] = useState(initialStart ? format(initialStart, 'HH:mm') : '08:00');
+  const [endTime, setEndTime] = useState(order.scheduled_end ? format(new Date(order.scheduled_end), 'HH:mm') : '');
+  const [duration, setDuration] = useState(order.estimated_duration_minutes || DEFAULT_JOB_DURATION_MINUTES);
+  const [technicianIds, setTechnicianIds] = useState<string[]>((order.technicians || []).map(t => t.id));
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [slotOrders, setSlotOrders] = useState<ServiceOrder[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTechnicians()
+      .then(setTechnicians)
+      .catch(error => {
+        console.error('Erro ao carregar técnicos:', error);
+        toast.error('Erro ao carregar técnicos');
+      });
+
+    // Vindo da lista de OS, os técnicos atribuídos ainda não foram carregados
+    if (!order.technicians) {
+      loadOrderTechnicianIds(order.id)
+        .then(setTechnicianIds)
+        .catch(error => console.error('Erro ao carregar técnicos da OS:', error));
+    }
+  }, [order]);
+
+  const start = toDate(day, startTime);
+  const end = toDate(day, endTime);
+  const slot = {
+    id: order.id,
+    scheduled_start: start?.toISOString(),
+    scheduled_end: end?.toISOString(),
+    estimated_duration_minutes: duration,
+    technicians: technicians.filter(t => technicianIds.includes(t.id))
+  };
+  const interval = getJobInterval(slot);
+  const slotStart = interval?.start.toISOString();
+  const slotEnd = interval?.end.toISOString();
+  const conflicts = findConflicts(slot, slotOrders);
+
+  // Serviços que ocupam parte do horário escolhido (inclusive os que começaram antes) para avisar sobre conflitos
+  useEffect(() => {
+    if (!slotStart || !slotEnd) return;
+
+    let active = true;
+    loadScheduledOrders(new Date(slotStart), new Date(slotEnd))
+      .then(orders => {
+        if (active) setSlotOrders(orders);
+      })
+      .catch(error => console.error('Erro ao carregar agenda do horário:', error));
+
+    return () => {
+      active = false;
+    };
+  }, [slotStart, slotEnd]);
+
+  const toggleTechnician = (technicianId: string) => {
+    setTechnicianIds(prev => prev.includes(technicianId)
+      ? prev.filter(id => id !== technicianId)
+      : [...prev, technicianId]);
+  };
+
+  const save = async (input: Parameters<typeof scheduleOrder>[1]) => {
+    setSaving(true);
+    try {
+      await scheduleOrder(order.id, input);
+      toast.success(input.start ? 'Agendamento salvo com sucesso!' : 'Agendamento removido');
+      onSaved();
+    } catch (error) {
+      console.error('Erro ao salvar agendamento:', error);
+      toast.error((error as Error).message || 'Erro ao salvar agendamento');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!start) {
+      toast.error('Informe a data e o horário');
+      return;
+    }
+    if (end && end < start) {
+      toast.error('O fim da janela de chegada deve ser depois do início');
+      return;
+    }
+    if (conflicts.length > 0 && !window.confirm('Há técnicos com outro serviço neste horário. Deseja agendar mesmo assim?')) {
+      return;
+    }
+
+    save({ start, end, durationMinutes: duration, technicianIds });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Remover o agendamento desta OS?')) return;
+    save({ start: null, end: null, durationMinutes: null, technicianIds });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Agendar {getOrderNumber(order)}</h2>
+            <p className="text-sm text-gray-500">{order.customer?.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="sm:col-span-3">
+            <label className="block text-sm font-medium text-gray-700">Data</label>
+            <input
+              type="date"
+              value={day}
+              onChange={(e) => setDay(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Chegada a partir de</label>
+            <input
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Até</label>
+            <input
+              type="time"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Duração estimada</label>
+            <select
+              value={duration}
+              onChange={(e) => setDuration(Number(e.target.value))}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {[...new Set([...DURATION_OPTIONS, duration])].sort((a, b) => a - b).map(minutes => (
+                <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Técnicos</h3>
+          {technicians.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhum técnico cadastrado. Cadastre a equipe na Agenda, em Técnicos.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {technicians.map(technician => (
+                <label key={technician.id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={technicianIds.includes(technician.id)}
+                    onChange={() => toggleTechnician(technician.id)}
+                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: technician.color }} />
+                  {technician.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="p-3 rounded-md bg-red-50 text-sm text-red-700 space-y-1">
+            {conflicts.map(conflict => (
+              <p key={`${conflict.order.id}-${conflict.technician.id}`} className="flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                {conflict.technician.name} já está na {getOrderNumber(conflict.order)} ({conflict.order.customer?.name})
+                {conflict.order.scheduled_start && ` às ${format(new Date(conflict.order.scheduled_start), 'HH:mm')}`}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          {order.scheduled_start ? (
+            <button
+              type="button"
+              onClick={handleClear}
+              disabled={saving}
+              className="inline-flex items-center px-3 py-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              <CalendarX className="h-4 w-4 mr-1" />
+              Remover agendamento
+            </button>
+          ) : <span />}
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Salvar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
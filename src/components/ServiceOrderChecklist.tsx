@@ -0,0 +1,103 @@
+import { useState, useEffect } from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { loadChecklist, updateChecklistItem } from '../lib/maintenancePlans';
+import type { ServiceOrderChecklistItem } from '../types';
+
+interface ServiceOrderChecklistProps {
+  orderId: string;
+  readOnly?: boolean;
+}
+
+export function ServiceOrderChecklist({ orderId, readOnly = false }: ServiceOrderChecklistProps) {
+  const [items, setItems] = useState<ServiceOrderChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadChecklist(orderId)
+      .then(setItems)
+      .catch(error => {
+        console.error('Erro ao carregar checklist:', error);
+        toast.error('Erro ao carregar checklist');
+      })
+      .finally(() => setLoading(false));
+  }, [orderId]);
+
+  const handleChange = async (item: ServiceOrderChecklistItem, changes: Partial<Pick<ServiceOrderChecklistItem, 'done' | 'notes'>>) => {
+    setSavingId(item.id);
+    try {
+      const updated = await updateChecklistItem(item.id, changes);
+      setItems(prev => prev.map(i => i.id === updated.id ? updated : i));
+    } catch (error) {
+      console.error('Erro ao atualizar checklist:', error);
+      toast.error('Erro ao atualizar checklist');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-16">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">Esta OS não tem checklist</p>;
+  }
+
+  // Agrupa por equipamento, mantendo a ordem gerada pelo plano
+  const groups = items.reduce<Array<{ label: string; items: ServiceOrderChecklistItem[] }>>((acc, item) => {
+    const label = item.equipment_label || 'Geral';
+    const group = acc.find(g => g.label === label);
+    if (group) {
+      group.items.push(item);
+    } else {
+      acc.push({ label, items: [item] });
+    }
+    return acc;
+  }, []);
+
+  const doneCount = items.filter(item => item.done).length;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{doneCount} de {items.length} itens concluídos</p>
+      {groups.map(group => (
+        <div key={group.label}>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">{group.label}</h4>
+          <ul className="space-y-2">
+            {group.items.map(item => (
+              <li key={item.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleChange(item, { done: !item.done })}
+                  disabled={readOnly || savingId === item.id}
+                  className={`flex items-center text-left text-sm flex-1 ${item.done ? 'text-green-700' : 'text-gray-700'} disabled:cursor-default`}
+                >
+                  {item.done
+                    ? <CheckSquare className="h-5 w-5 mr-2 flex-shrink-0" />
+                    : <Square className="h-5 w-5 mr-2 flex-shrink-0" />}
+                  {item.description}
+                </button>
+                <input
+                  type="text"
+                  defaultValue={item.notes || ''}
+                  disabled={readOnly}
+                  onBlur={(e) => {
+                    if (e.target.value !== (item.notes || '')) handleChange(item, { notes: e.target.value });
+                  }}
+                  placeholder="Observações"
+                  className="sm:w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
\ No newline at end of file
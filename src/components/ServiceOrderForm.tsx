@@ -1,73 +1,274 @@
-import React, { useState, useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { Camera, MapPin, Save, FileDown, Plus, Minus, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { Camera, MapPin, Save, FileDown, Plus, Minus, Trash2, Lock, X, UserCheck } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
-import html2pdf from 'html2pdf.js';
-import type { ServiceOrder, Material } from '../types';
-import { Customer } from "../types/customer";
+import { BTU_OPTIONS, EQUIPMENT_TYPES, SERVICE_TYPES, getTablePrice, isTablePriced } from '../lib/servicePrices';
+import { formatAddress, getDefaultAddress } from '../lib/customers';
+import { formatEquipmentLabel, loadCustomerEquipment } from '../lib/equipment';
+import { getCurrentPosition } from '../lib/geolocation';
+import { deleteOrderPhoto, loadOrderPhotos, uploadOrderPhoto, type PhotoType } from '../lib/photos';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { isClosed, isQuote } from '../lib/orderStatus';
+import { defaultValidUntil } from '../lib/quotes';
+import { getDocumentFileName, loadCompanyInfo, renderOrderDocument, savePdf, type DocumentTemplate, type OrderDocumentData } from '../lib/documents';
+import { CustomerSearch } from './CustomerSearch';
+import { ServiceOrderPhotos } from './ServiceOrderPhotos';
+import { ServiceOrderTimeline } from './ServiceOrderTimeline';
+import type { Customer, CustomerAddress, CustomerEquipment, Material, OrderService, ServiceOrderAddress, ServiceOrderMaterial, ServiceOrderPhoto, ServiceOrderStatus, ServicePrices } from '../types';
+
+interface SelectedMaterial {
+  id?: string; // linha de service_order_materials quando a OS já existe
+  material: Material;
+  quantity: number;
+  unit_price: number;
+}
 
 interface Service {
+  order_service_id?: string;
   service_type: string;
   equipment_type?: string;
   equipment_power?: string;
+  equipment_id?: string;
   description?: string;
   custom_service_value?: string;
+  price_override?: boolean;
+  materials: SelectedMaterial[];
 }
 
-export function ServiceOrderForm() {
-  const { register, handleSubmit, watch, setValue, reset } = useForm<ServiceOrder>({
-    defaultValues: {
-      services: [{
-        service_type: '',
-        equipment_type: '',
-        equipment_power: '',
-        description: '',
-        custom_service_value: ''
-      }]
-    }
+// Foto escolhida no formulário, enviada ao bucket só quando a OS é salva
+interface PendingPhoto {
+  key: string;
+  file: File;
+  url: string;
+  photo_type: PhotoType;
+}
+
+interface ServiceOrderFormValues {
+  document_type: 'quote' | 'order';
+  valid_until: string;
+  customer: {
+    id?: string;
+    name: string;
+    phone: string;
+  };
+  address: ServiceOrderAddress;
+  services: Service[];
+  discount_amount: string;
+  include_photos: boolean;
+  location_lat?: number;
+  location_lng?: number;
+}
+
+interface ServiceOrderFormProps {
+  orderId?: string;
+  onSaved?: () => void;
+  onCancel?: () => void;
+}
+
+const EMPTY_SERVICE: Service = {
+  service_type: '',
+  equipment_type: '',
+  equipment_power: '',
+  equipment_id: '',
+  description: '',
+  custom_service_value: '',
+  price_override: false,
+  materials: []
+};
+
+const EMPTY_ADDRESS: ServiceOrderAddress = {
+  street: '',
+  number: '',
+  complement: '',
+  neighborhood: '',
+  city: '',
+  state: '',
+  zipCode: ''
+};
+
+const DEFAULT_VALUES: ServiceOrderFormValues = {
+  document_type: 'quote',
+  valid_until: '',
+  customer: { name: '', phone: '' },
+  address: EMPTY_ADDRESS,
+  services: [EMPTY_SERVICE],
+  discount_amount: '',
+  include_photos: false
+};
+
+// Mantém só os campos de endereço (descarta, por exemplo, o rótulo de um endereço salvo)
+const toOrderAddress = (address?: Partial<ServiceOrderAddress> | null): ServiceOrderAddress => ({
+  street: address?.street || '',
+  number: address?.number || '',
+  complement: address?.complement || '',
+  neighborhood: address?.neighborhood || '',
+  city: address?.city || '',
+  state: address?.state || '',
+  zipCode: address?.zipCode || ''
+});
+
+// A validade padrão do orçamento conta a partir de quando o formulário é aberto
+const getDefaultValues = (): ServiceOrderFormValues => ({ ...DEFAULT_VALUES, valid_until: defaultValidUntil() });
+
+const parseServiceValue = (value?: string) => {
+  const parsed = value ? parseFloat(value.replace(',', '.')) : 0;
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+export function ServiceOrderForm({ orderId, onSaved, onCancel }: ServiceOrderFormProps) {
+  const { register, control, handleSubmit, watch, setValue, reset, getValues } = useForm<ServiceOrderFormValues>({
+    defaultValues: getDefaultValues()
   });
+  const { fields: serviceFields, append: appendService, remove: removeService } = useFieldArray({ control, name: 'services' });
   const [materials, setMaterials] = useState<Material[]>([]);
-  const [selectedMaterials, setSelectedMaterials] = useState<Array<{
-    material: Material;
-    quantity: number;
-  }>>([]);
-  const [address, setAddress] = useState({
-    street: '',
-    number: '',
-    complement: '',
-    neighborhood: '',
-    city: '',
-    state: '',
-    zipCode: ''
-  });
-  const [useManualLocation, setUseManualLocation] = useState(false);
-  const [customServiceValue, setCustomServiceValue] = useState('');
-  const [showCustomValueField, setShowCustomValueField] = useState(false);
-  const [servicePrices, setServicePrices] = useState<any>({
+  const [servicePrices, setServicePrices] = useState<ServicePrices>({
     installation_prices: {},
     cleaning_prices: {}
   });
-  const [discount, setDiscount] = useState(0);
+  const [orderStatus, setOrderStatus] = useState<ServiceOrderStatus | null>(null);
+  const [orderNumber, setOrderNumber] = useState('');
+  const [quoteRevision, setQuoteRevision] = useState(1);
+  const [loadingOrder, setLoadingOrder] = useState(!!orderId);
+  const [customerAddresses, setCustomerAddresses] = useState<CustomerAddress[]>([]);
+  const [customerEquipment, setCustomerEquipment] = useState<CustomerEquipment[]>([]);
+  const [photos, setPhotos] = useState<ServiceOrderPhoto[]>([]);
+  const [removedPhotos, setRemovedPhotos] = useState<ServiceOrderPhoto[]>([]);
+  const [pendingPhotos, setPendingPhotos] = useState<PendingPhoto[]>([]);
 
-  const serviceType = watch('service_type');
-  const equipmentType = watch('equipment_type');
+  const isEditing = !!orderId;
+  const isLocked = !!orderStatus && (orderStatus === 'quote_approved' || isClosed({ status: orderStatus }));
+  const lockMessage = orderStatus === 'quote_approved'
+    ? 'Este orçamento foi aprovado e não pode mais ser alterado. Converta-o em ordem de serviço na lista de orçamentos.'
+    : orderStatus === 'cancelled'
+      ? 'Esta ordem de serviço foi cancelada e não pode mais ser editada.'
+      : 'Esta ordem de serviço já foi concluída. Reabra-a na lista de OS para poder editá-la.';
+  const services = watch('services');
+  const selectedCustomerId = watch('customer.id');
+  const discount = parseServiceValue(watch('discount_amount'));
+  const isQuoteDocument = watch('document_type') === 'quote';
 
   useEffect(() => {
     loadMaterials();
     loadServicePrices();
   }, []);
 
+  const loadOrder = useCallback(async (id: string) => {
+    setLoadingOrder(true);
+    try {
+      const { data, error } = await supabase
+        .from('service_orders')
+        .select(`
+          *,
+          customer:customers(*),
+          order_services(*),
+          materials:service_order_materials(
+            id,
+            material_id,
+            order_service_id,
+            quantity,
+            unit_price,
+            material:materials(*)
+          )
+        `)
+        .eq('id', id)
+        .order('created_at', { referencedTable: 'order_services' })
+        .single();
+
+      if (error) throw error;
+
+      const orderServices: OrderService[] = data.order_services || [];
+      const orderMaterials: ServiceOrderMaterial[] = data.materials || [];
+
+      // Materiais sem serviço vinculado (OS antigas) ficam no primeiro serviço
+      const materialsFor = (serviceId: string | undefined, isFirst: boolean) => orderMaterials
+        .filter(item => item.material && (
+          (serviceId && item.order_service_id === serviceId) || (isFirst && !item.order_service_id)
+        ))
+        .map(item => ({
+          id: item.id,
+          material: item.material as Material,
+          quantity: item.quantity,
+          unit_price: item.unit_price
+        }));
+
+      // OS antigas podem não ter linhas em order_services
+      const loadedServices: Service[] = orderServices.length > 0
+        ? orderServices.map((service, index) => ({
+            order_service_id: service.id,
+            service_type: service.service_type || '',
+            equipment_type: service.equipment_type || '',
+            equipment_power: service.equipment_power || '',
+            equipment_id: service.equipment_id || '',
+            description: service.description || '',
+            custom_service_value: service.price ? String(service.price) : '',
+            // Linhas sem origem registrada são anteriores à tabela e ficam como manuais
+            price_override: isTablePriced(service.service_type) && service.price_source !== 'table',
+            materials: materialsFor(service.id, index === 0)
+          }))
+        : [{
+            service_type: data.service_type || '',
+            equipment_type: data.equipment_type || '',
+            equipment_power: data.equipment_power || '',
+            description: data.description || '',
+            custom_service_value: data.services_amount ? String(data.services_amount) : '',
+            price_override: isTablePriced(data.service_type),
+            materials: materialsFor(undefined, true)
+          }];
+
+      reset({
+        document_type: isQuote(data) ? 'quote' : 'order',
+        valid_until: data.valid_until || '',
+        customer: {
+          id: data.customer?.id || data.customer_id,
+          name: data.customer?.name || '',
+          phone: data.customer?.phone || data.customer_phone || ''
+        },
+        address: toOrderAddress(data.address),
+        services: loadedServices,
+        discount_amount: data.discount_amount ? String(data.discount_amount) : '',
+        include_photos: !!data.include_photos,
+        location_lat: data.location_lat ?? undefined,
+        location_lng: data.location_lng ?? undefined
+      });
+
+      setCustomerAddresses(data.customer?.addresses || []);
+      setOrderStatus(data.status);
+      setOrderNumber(getOrderNumber(data));
+      setQuoteRevision(data.quote_revision || 1);
+      setPhotos(await loadOrderPhotos(id));
+    } catch (error) {
+      console.error('Erro ao carregar ordem de serviço:', error);
+      toast.error('Erro ao carregar ordem de serviço');
+    } finally {
+      setLoadingOrder(false);
+    }
+  }, [reset]);
+
   useEffect(() => {
-    const services = watch('services') as Service[];
-    const currentService = services?.[0];
-    
-    setShowCustomValueField(
-      currentService?.service_type === 'maintenance' || 
-      currentService?.service_type === 'gas_recharge' ||
-      currentService?.service_type === 'other'
-    );
-  }, [watch('services')]);
+    if (orderId) {
+      loadOrder(orderId);
+    }
+  }, [orderId, loadOrder]);
+
+  // Equipamentos do cliente para vincular às linhas; vínculos de outro cliente são desfeitos
+  useEffect(() => {
+    if (!selectedCustomerId) {
+      setCustomerEquipment([]);
+      return;
+    }
+
+    loadCustomerEquipment(selectedCustomerId)
+      .then(equipment => {
+        setCustomerEquipment(equipment);
+        getValues('services').forEach((service, index) => {
+          if (service.equipment_id && !equipment.some(item => item.id === service.equipment_id)) {
+            setValue(`services.${index}.equipment_id`, '');
+          }
+        });
+      })
+      .catch(error => console.error('Erro ao carregar equipamentos do cliente:', error));
+  }, [selectedCustomerId, getValues, setValue]);
 
   const loadMaterials = async () => {
     const { data, error } = await supabase
@@ -107,49 +308,88 @@ export function ServiceOrderForm() {
     }
   };
 
-  const handleLocation = async () => {
+  const handleCustomerSelect = async (customer: Customer) => {
+    setValue('customer.id', customer.id);
+    setValue('customer.name', customer.name);
+    setValue('customer.phone', customer.phone || '');
+    setCustomerAddresses(customer.addresses || []);
+
     try {
-      if (!navigator.geolocation) {
-        throw new Error('Geolocalização não suportada pelo navegador');
+      const address = await getDefaultAddress(customer);
+      if (address) {
+        setValue('address', toOrderAddress(address));
       }
+    } catch (error) {
+      console.error('Erro ao carregar endereço do cliente:', error);
+    }
+  };
 
-      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 5000,
-          maximumAge: 0
-        });
-      });
+  const clearSelectedCustomer = () => {
+    setValue('customer.id', undefined);
+    setCustomerAddresses([]);
+    setCustomerEquipment([]);
+  };
 
-      setValue('location_lat', position.coords.latitude);
-      setValue('location_lng', position.coords.longitude);
+  const handleLocation = async () => {
+    try {
+      const position = await getCurrentPosition();
+
+      setValue('location_lat', position.lat);
+      setValue('location_lng', position.lng);
       toast.success('Localização capturada com sucesso!');
     } catch (error) {
       console.error('Geolocation error:', error);
       toast.error('Erro ao capturar localização. Por favor, insira o endereço manualmente.');
-      setUseManualLocation(true);
     }
   };
 
-  const addMaterial = (materialId: string) => {
+  // Vincula a linha a um equipamento cadastrado, que define o tipo e a potência
+  const handleEquipmentSelect = (index: number, equipmentId: string) => {
+    setValue(`services.${index}.equipment_id`, equipmentId);
+
+    const equipment = customerEquipment.find(item => item.id === equipmentId);
+    if (!equipment) return;
+
+    if (equipment.equipment_type) setValue(`services.${index}.equipment_type`, equipment.equipment_type);
+    if (equipment.equipment_power) setValue(`services.${index}.equipment_power`, equipment.equipment_power);
+    applyTablePrice(index);
+  };
+
+  // Preenche o valor da linha com o preço da tabela, a menos que o usuário o tenha sobrescrito
+  const applyTablePrice = (index: number) => {
+    const service = getValues(`services.${index}`);
+    if (!isTablePriced(service.service_type) || service.price_override) return;
+
+    const price = getTablePrice(servicePrices, service.service_type, service.equipment_type, service.equipment_power);
+    setValue(`services.${index}.custom_service_value`, price !== null ? String(price) : '');
+  };
+
+  const setServiceMaterials = (serviceIndex: number, update: (prev: SelectedMaterial[]) => SelectedMaterial[]) => {
+    const current = getValues(`services.${serviceIndex}.materials`) || [];
+    setValue(`services.${serviceIndex}.materials`, update(current));
+  };
+
+  const addMaterial = (serviceIndex: number, materialId: string) => {
     const material = materials.find(m => m.id === materialId);
     if (material) {
-      setSelectedMaterials(prev => [...prev, { material, quantity: 1 }]);
+      setServiceMaterials(serviceIndex, prev => [...prev, { material, quantity: 1, unit_price: material.default_price }]);
     }
   };
 
-  const updateMaterialQuantity = (index: number, quantity: number) => {
-    setSelectedMaterials(prev => {
+  const updateMaterialQuantity = (serviceIndex: number, index: number, quantity: number) => {
+    setServiceMaterials(serviceIndex, prev => {
       const newMaterials = [...prev];
       newMaterials[index] = { ...newMaterials[index], quantity: Math.max(1, quantity) };
       return newMaterials;
     });
   };
 
-  const removeMaterial = (index: number) => {
-    setSelectedMaterials(prev => prev.filter((_, i) => i !== index));
+  const removeMaterial = (serviceIndex: number, index: number) => {
+    setServiceMaterials(serviceIndex, prev => prev.filter((_, i) => i !== index));
   };
 
+  const getAllMaterials = () => (services || []).flatMap(service => service.materials || []);
+
   const roundToTwo = (num: number): number => {
     return Math.round((num + Number.EPSILON) * 100) / 100;
   };
@@ -162,381 +402,299 @@ export function ServiceOrderForm() {
   };
 
   const calculateMaterialsTotal = () => {
-    return roundToTwo(selectedMaterials.reduce((total, { material, quantity }) => {
-      return total + (material.default_price * quantity);
+    return roundToTwo(getAllMaterials().reduce((total, { unit_price, quantity }) => {
+      return total + (unit_price * quantity);
     }, 0));
   };
 
   const calculateServicesTotal = () => {
-    const services = watch('services') || [];
-    return roundToTwo(services.reduce((total, service) => {
-      const value = service.custom_service_value ? parseFloat(service.custom_service_value.replace(',', '.')) : 0;
-      return total + (isNaN(value) ? 0 : value);
+    return roundToTwo((services || []).reduce((total, service) => {
+      return total + parseServiceValue(service.custom_service_value);
     }, 0));
   };
 
-  const handleDiscountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(',', '.');
-    const numValue = parseFloat(value);
-    setDiscount(isNaN(numValue) ? 0 : roundToTwo(numValue));
+  const resetForm = () => {
+    reset(getDefaultValues());
+    setCustomerAddresses([]);
+    setCustomerEquipment([]);
+    pendingPhotos.forEach(photo => URL.revokeObjectURL(photo.url));
+    setPendingPhotos([]);
+    setPhotos([]);
   };
 
-  const resetForm = () => {
-    reset({
-      services: [{
-        service_type: '',
-        equipment_type: '',
-        equipment_power: '',
-        description: '',
-        custom_service_value: ''
-      }]
-    });
-    setSelectedMaterials([]);
-    setAddress({
-      street: '',
-      number: '',
-      complement: '',
-      neighborhood: '',
-      city: '',
-      state: '',
-      zipCode: ''
-    });
-    setCustomServiceValue('');
+  const handleAddPhotos = (files: File[], photoType: PhotoType) => {
+    setPendingPhotos(prev => [
+      ...prev,
+      ...files.map(file => ({
+        key: `${Date.now()}_${Math.random()}`,
+        file,
+        url: URL.createObjectURL(file),
+        photo_type: photoType
+      }))
+    ]);
   };
 
-  const onSubmit = async (data: ServiceOrder) => {
-    try {
-      // Primeiro cria o cliente se ele não existir
-      let customerId = data.customer?.id;
-      
-      if (!customerId && data.customer?.name) {
-        const { data: newCustomer, error: customerError } = await supabase
-          .from('customers')
-          .insert([{
-            name: data.customer.name,
-            phone: data.customer.phone || ''
-          }])
-          .select()
-          .single();
-
-        if (customerError) throw customerError;
-        customerId = newCustomer.id;
-      }
+  const handleRemovePhoto = (key: string) => {
+    const pending = pendingPhotos.find(photo => photo.key === key);
+    if (pending) {
+      URL.revokeObjectURL(pending.url);
+      setPendingPhotos(prev => prev.filter(photo => photo.key !== key));
+      return;
+    }
 
-      if (!customerId) {
-        toast.error('Erro ao criar cliente');
-        return;
-      }
+    const saved = photos.find(photo => photo.id === key);
+    if (saved) {
+      setPhotos(prev => prev.filter(photo => photo.id !== key));
+      setRemovedPhotos(prev => [...prev, saved]);
+    }
+  };
 
-      // Validar tipo de equipamento para limpeza
-      const serviceType = data.services?.[0]?.service_type;
-      const equipmentType = data.services?.[0]?.equipment_type;
-      
-      if (serviceType === 'cleaning' && !equipmentType) {
-        toast.error('Por favor, selecione o tipo de equipamento para o serviço de limpeza');
-        return;
-      }
+  // Fotos de uma OS já salva e as ainda pendentes, no formato usado no PDF
+  const currentPhotos = () => [
+    ...photos,
+    ...pendingPhotos.map(photo => ({ photo_url: photo.url, photo_type: photo.photo_type }))
+  ];
 
-      // Calcula os valores totais
-      const materialsTotal = calculateMaterialsTotal() || 0;
-      const servicesTotal = calculateServicesTotal() || 0;
-      const total = materialsTotal + servicesTotal - discount;
+  const savePhotos = async (savedOrderId: string) => {
+    await Promise.all(removedPhotos.map(deleteOrderPhoto));
+    setRemovedPhotos([]);
 
-      // Salva a ordem de serviço com o ID do cliente
-      const { data: newOrder, error } = await supabase
-        .from('service_orders')
-        .insert([{
-          customer_id: customerId,
-          service_type: data.services[0]?.service_type || '',
-          equipment_type: data.services[0]?.equipment_type || '',
-          equipment_power: data.services[0]?.equipment_power || '',
-          description: data.services[0]?.description || '',
-          status: 'pending',
-          location_lat: data.location_lat || null,
-          location_lng: data.location_lng || null,
-          address: {
-            street: address.street || '',
-            number: address.number || '',
-            complement: address.complement || '',
-            neighborhood: address.neighborhood || '',
-            city: address.city || '',
-            state: address.state || '',
-            zipCode: address.zipCode || ''
-          },
-          customer_phone: data.customer.phone || '',
-          materials_amount: materialsTotal,
-          services_amount: servicesTotal,
-          discount_amount: discount,
-          total_amount: total
-        }])
-        .select()
-        .single();
+    for (const pending of pendingPhotos) {
+      const photo = await uploadOrderPhoto(savedOrderId, pending.file, pending.photo_type);
+      URL.revokeObjectURL(pending.url);
+      setPendingPhotos(prev => prev.filter(p => p.key !== pending.key));
+      setPhotos(prev => [...prev, photo]);
+    }
+  };
 
-      if (error) throw error;
+  const onSubmit = async (data: ServiceOrderFormValues) => {
+    if (isLocked) {
+      toast.error(lockMessage);
+      return;
+    }
 
-      // Salva os serviços adicionais
-      if (data.services.length > 0) {
-        const servicesData = data.services.map(service => ({
-          service_order_id: newOrder.id,
-          service_type: service.service_type,
-          equipment_type: service.equipment_type,
-          equipment_power: service.equipment_power,
-          description: service.description || '',
-          price: service.custom_service_value ? parseFloat(service.custom_service_value.replace(',', '.')) : 0
-        }));
+    if (!data.customer.id && !data.customer.name.trim()) {
+      toast.error('Informe o nome do cliente');
+      return;
+    }
 
-        console.log('Dados dos serviços:', servicesData); // Debug
+    // Validar tipo de equipamento para limpeza
+    if (data.services.some(service => service.service_type === 'cleaning' && !service.equipment_type)) {
+      toast.error('Por favor, selecione o tipo de equipamento para o serviço de limpeza');
+      return;
+    }
 
-        const { error: servicesError } = await supabase
-          .from('order_services')
-          .insert(servicesData);
+    if (data.services.some(service => isTablePriced(service.service_type) && !service.price_override && !service.custom_service_value)) {
+      toast.error('Serviço sem preço na tabela. Selecione equipamento e potência ou informe um valor manual');
+      return;
+    }
 
-        if (servicesError) {
-          console.error('Erro detalhado:', servicesError); // Debug detalhado
-          throw servicesError;
+    try {
+      // Cliente, OS, serviços e materiais são gravados juntos; os totais são recalculados no banco
+      const { data: savedOrderId, error } = await supabase.rpc('save_service_order', {
+        p_order_id: orderId ?? null,
+        p_order: {
+          status: isQuoteDocument ? 'quote' : 'pending',
+          valid_until: isQuoteDocument ? data.valid_until || null : null,
+          customer: data.customer,
+          address: toOrderAddress(data.address),
+          location_lat: data.location_lat || null,
+          location_lng: data.location_lng || null,
+          include_photos: data.include_photos,
+          discount_amount: roundToTwo(discount),
+          services: data.services.map(service => ({
+            id: service.order_service_id,
+            service_type: service.service_type,
+            equipment_type: service.equipment_type,
+            equipment_power: service.equipment_power,
+            equipment_id: service.equipment_id || null,
+            description: service.description || '',
+            price: parseServiceValue(service.custom_service_value),
+            price_source: isTablePriced(service.service_type) && !service.price_override ? 'table' : 'manual',
+            materials: (service.materials || []).map(item => ({
+              id: item.id,
+              material_id: item.material.id,
+              quantity: item.quantity,
+              unit_price: item.unit_price
+            }))
+          }))
         }
-      }
-
-      // Salva os materiais selecionados
-      if (selectedMaterials.length > 0) {
-        const materialsData = selectedMaterials.map(({ material, quantity }) => ({
-          service_order_id: newOrder.id,
-          material_id: material.id,
-          quantity: quantity,
-          unit_price: material.default_price
-        }));
+      });
 
-        const { error: materialsError } = await supabase
-          .from('service_order_materials')
-          .insert(materialsData);
+      if (error) throw error;
 
-        if (materialsError) throw materialsError;
+      try {
+        await savePhotos(savedOrderId as string);
+      } catch (error) {
+        console.error('Erro ao enviar fotos:', error);
+        toast.error(`${isQuoteDocument ? 'O orçamento' : 'A OS'} foi salvo, mas algumas fotos não foram enviadas`);
+        return;
       }
 
-      toast.success('Ordem de serviço criada com sucesso!');
-      reset();
-    } catch (error: any) {
-      console.error('Erro ao criar ordem de serviço:', error);
-      toast.error(`Erro ao criar ordem de serviço: ${error.message}`);
+      if (isEditing) {
+        toast.success(isQuoteDocument ? 'Orçamento atualizado com sucesso!' : 'Ordem de serviço atualizada com sucesso!');
+        onSaved?.();
+      } else {
+        toast.success(isQuoteDocument ? 'Orçamento criado com sucesso!' : 'Ordem de serviço criada com sucesso!');
+        resetForm();
+      }
+    } catch (error) {
+      console.error('Erro ao salvar ordem de serviço:', error);
+      toast.error(`Erro ao salvar ordem de serviço: ${(error as Error).message}`);
     }
   };
 
-  const getCompanyInfo = async () => {
+  // PDF a partir do que está no formulário, inclusive o que ainda não foi salvo
+  const generatePDF = async (data: ServiceOrderFormValues) => {
+    const template: DocumentTemplate = isQuoteDocument ? 'quote' : 'service_order';
+
     try {
-      const { data, error } = await supabase
-        .from('company_info')
-        .select('*')
-        .single();
+      // Serviços novos ainda não têm id: o índice liga cada material ao seu serviço
+      const formServices = data.services.map((service, index) => ({
+        ...service,
+        id: service.order_service_id || `novo-${index}`
+      }));
 
-      if (error) throw error;
-      return data || {};
+      const documentData: OrderDocumentData = {
+        order: {
+          id: orderId || 'NOVA',
+          order_number: orderNumber || undefined,
+          status: orderStatus || (isQuoteDocument ? 'quote' : 'pending'),
+          created_at: new Date().toISOString(),
+          address: data.address,
+          include_photos: data.include_photos,
+          valid_until: isQuoteDocument ? data.valid_until || undefined : undefined,
+          quote_revision: quoteRevision,
+          services_amount: calculateServicesTotal(),
+          materials_amount: calculateMaterialsTotal(),
+          discount_amount: discount,
+          total_amount: calculateTotal()
+        },
+        company: await loadCompanyInfo(),
+        customer: data.customer,
+        services: formServices.map(service => ({
+          id: service.id,
+          service_type: service.service_type,
+          equipment_type: service.equipment_type,
+          equipment_power: service.equipment_power,
+          description: service.description,
+          price: parseServiceValue(service.custom_service_value)
+        })),
+        materials: formServices.flatMap(service => (service.materials || []).map(({ material, quantity, unit_price }) => ({
+          order_service_id: service.id,
+          name: material?.name || '',
+          unit: material?.unit,
+          quantity,
+          unit_price
+        }))),
+        photos: currentPhotos(),
+        signatures: [],
+        statusHistory: [],
+        draft: !orderId
+      };
+
+      await savePdf(await renderOrderDocument(template, documentData), getDocumentFileName(template, documentData));
     } catch (error) {
-      console.error('Error loading company info:', error);
-      return {};
+      console.error('Erro ao gerar PDF:', error);
+      toast.error('Erro ao gerar PDF');
     }
   };
 
-  const generatePDF = async (data: ServiceOrder, isNew = true) => {
-    try {
-      let orderData;
-
-      if (isNew) {
-        // Para nova OS, usa os dados do formulário
-        orderData = {
-          id: 'NOVA',
-          customer: data.customer,
-          service_type: data.services?.[0]?.service_type,
-          equipment_type: data.services?.[0]?.equipment_type,
-          equipment_power: data.services?.[0]?.equipment_power,
-          description: data.services?.[0]?.description,
-          address: address,
-          materials: selectedMaterials.map(({ material, quantity }) => ({
-            material,
-            quantity,
-            unit_price: material.default_price
-          }))
-        };
-      } else {
-        // Para OS existente, busca do banco
-        const { data: existingOrder, error: orderError } = await supabase
-          .from('service_orders')
-          .select(`
-            *,
-            customer:customers(*),
-            materials:service_order_materials(
-              quantity,
-              unit_price,
-              material:materials(*)
-            )
-          `)
-          .eq('id', data.id)
-          .single();
-
-        if (orderError) throw orderError;
-        orderData = existingOrder;
-      }
-
-      // Busca informações da empresa
-      const companyInfo = await getCompanyInfo();
-      const currentDate = new Date().toLocaleDateString('pt-BR');
-
-      console.log('Dados para PDF:', { orderData, companyInfo }); // Debug
-
-      const element = document.createElement('div');
-      element.innerHTML = `
-        <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px;">
-          <!-- Cabeçalho com Logo e Informações da Empresa -->
-          <div style="display: flex; justify-content: space-between; margin-bottom: 30px; border-bottom: 2px solid #000; padding-bottom: 20px;">
-            ${companyInfo?.logo ? `<img src="${companyInfo.logo}" alt="Logo" style="max-height: 100px;"/>` : ''}
-            <div style="text-align: right;">
-              <h2 style="margin: 0;">${companyInfo?.name || 'Nome da Empresa'}</h2>
-              <p style="margin: 5px 0;">CNPJ: ${companyInfo?.cnpj || '-'}</p>
-              <p style="margin: 5px 0;">Tel: ${companyInfo?.phone || '-'}</p>
-              <p style="margin: 5px 0;">Email: ${companyInfo?.email || '-'}</p>
-            </div>
-          </div>
-
-          <!-- Número da OS e Data -->
-          <div style="text-align: right; margin-bottom: 20px;">
-            <h1 style="margin: 0;">Ordem de Serviço ${isNew ? '(NOVA)' : `#${orderData.id}`}</h1>
-            <p>Data: ${currentDate}</p>
-          </div>
-
-          <!-- Informações do Cliente -->
-          <div style="margin-bottom: 30px;">
-            <h3 style="border-bottom: 1px solid #ccc; padding-bottom: 5px;">Informações do Cliente</h3>
-            <p><strong>Nome:</strong> ${orderData.customer?.name || '-'}</p>
-            <p><strong>Telefone:</strong> ${orderData.customer?.phone || '-'}</p>
-          </div>
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
 
-          <!-- Endereço -->
-          <div style="margin-bottom: 30px;">
-            <h3 style="border-bottom: 1px solid #ccc; padding-bottom: 5px;">Endereço</h3>
-            <p>${orderData.address?.street || '-'}, ${orderData.address?.number || '-'}</p>
-            ${orderData.address?.complement ? `<p>Complemento: ${orderData.address.complement}</p>` : ''}
-            <p>${orderData.address?.neighborhood || '-'}</p>
-            <p>${orderData.address?.city || '-'} - ${orderData.address?.state || '-'}</p>
-            <p>CEP: ${orderData.address?.zipCode || '-'}</p>
-          </div>
+  if (loadingOrder) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
 
-          <!-- Serviços -->
-          <div style="margin-bottom: 30px;">
-            <h3 style="border-bottom: 1px solid #ccc; padding-bottom: 5px;">Serviços</h3>
-            <div style="margin-bottom: 15px;">
-              <p><strong>Tipo de Serviço:</strong> ${
-                orderData.service_type === 'installation' ? 'Instalação' :
-                orderData.service_type === 'maintenance' ? 'Manutenção' :
-                orderData.service_type === 'cleaning' ? 'Limpeza' : 
-                orderData.service_type === 'gas_recharge' ? 'Recarga de Gás' : '-'
-              }</p>
-              ${orderData.equipment_type ? `<p><strong>Tipo de Equipamento:</strong> ${orderData.equipment_type}</p>` : ''}
-              ${orderData.equipment_power ? `<p><strong>Potência:</strong> ${orderData.equipment_power}</p>` : ''}
-              ${orderData.description ? `<p><strong>Descrição:</strong> ${orderData.description}</p>` : ''}
-            </div>
-          </div>
+  return (
+    <div className="bg-white shadow rounded-lg">
+      {isEditing && (
+        <div className="px-4 pt-4 flex items-center justify-between">
+          <h2 className="text-lg font-medium text-gray-900">
+            {isQuoteDocument ? `Editar Orçamento ${orderNumber} (v${quoteRevision})` : `Editar Ordem de Serviço ${orderNumber}`}
+          </h2>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="p-2 text-gray-500 hover:text-gray-700"
+              aria-label="Cancelar edição"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+      )}
 
-          <!-- Materiais Utilizados -->
-          ${orderData.materials?.length > 0 ? `
-            <div style="margin-bottom: 30px;">
-              <h3 style="border-bottom: 1px solid #ccc; padding-bottom: 5px;">Materiais Utilizados</h3>
-              <table style="width: 100%; border-collapse: collapse;">
-                <thead>
-                  <tr style="background-color: #f3f4f6;">
-                    <th style="padding: 8px; text-align: left; border: 1px solid #ddd;">Material</th>
-                    <th style="padding: 8px; text-align: center; border: 1px solid #ddd;">Quantidade</th>
-                    <th style="padding: 8px; text-align: right; border: 1px solid #ddd;">Valor Unit.</th>
-                    <th style="padding: 8px; text-align: right; border: 1px solid #ddd;">Total</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  ${orderData.materials.map(({ material, quantity, unit_price }) => `
-                    <tr>
-                      <td style="padding: 8px; border: 1px solid #ddd;">${material?.name || '-'}</td>
-                      <td style="padding: 8px; text-align: center; border: 1px solid #ddd;">${quantity || 0} ${material?.unit || '-'}</td>
-                      <td style="padding: 8px; text-align: right; border: 1px solid #ddd;">R$ ${(unit_price || 0).toFixed(2)}</td>
-                      <td style="padding: 8px; text-align: right; border: 1px solid #ddd;">R$ ${((unit_price || 0) * (quantity || 0)).toFixed(2)}</td>
-                    </tr>
-                  `).join('')}
-                </tbody>
-              </table>
-            </div>
-          ` : '<p>Nenhum material utilizado</p>'}
-
-          <!-- Resumo Financeiro -->
-          <div style="margin-bottom: 30px; page-break-inside: avoid;">
-            <h3 style="border-bottom: 1px solid #ccc; padding-bottom: 5px;">Resumo do Orçamento</h3>
-            <table style="width: 100%; margin-top: 10px;">
-              <tr>
-                <td style="padding: 5px;"><strong>Serviços:</strong></td>
-                <td style="text-align: right;">R$ ${calculateServicesTotal().toFixed(2)}</td>
-              </tr>
-              <tr>
-                <td style="padding: 5px;"><strong>Materiais:</strong></td>
-                <td style="text-align: right;">R$ ${calculateMaterialsTotal().toFixed(2)}</td>
-              </tr>
-              <tr>
-                <td style="padding: 5px;"><strong>Desconto:</strong></td>
-                <td style="text-align: right;">R$ ${discount.toFixed(2)}</td>
-              </tr>
-              <tr style="font-size: 1.2em;">
-                <td style="padding: 5px; border-top: 2px solid #000;"><strong>Total:</strong></td>
-                <td style="text-align: right; border-top: 2px solid #000;">R$ ${calculateTotal().toFixed(2)}</td>
-              </tr>
-            </table>
-          </div>
+      {isLocked && (
+        <div className="mx-4 mt-4 flex items-center p-3 rounded-md bg-yellow-50 text-sm text-yellow-800">
+          <Lock className="h-4 w-4 mr-2 flex-shrink-0" />
+          {lockMessage}
+        </div>
+      )}
 
-          <!-- Assinaturas -->
-          <div style="margin-top: 50px; page-break-inside: avoid;">
-            <div style="display: flex; justify-content: space-between; margin-top: 100px;">
-              <div style="width: 45%; text-align: center;">
-                <div style="border-top: 1px solid #000; padding-top: 5px;">
-                  ${companyInfo?.name || 'Nome da Empresa'}<br>
-                  CNPJ: ${companyInfo?.cnpj || '-'}
-                </div>
+      <form onSubmit={handleSubmit(onSubmit)} className="p-4">
+        <fieldset disabled={isLocked} className="space-y-6">
+        {/* Tipo de Documento */}
+        {(!isEditing || isQuoteDocument) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {!isEditing && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Tipo de Documento</label>
+                <select
+                  {...register('document_type')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="quote">Orçamento</option>
+                  <option value="order">Ordem de Serviço</option>
+                </select>
               </div>
-              <div style="width: 45%; text-align: center;">
-                <div style="border-top: 1px solid #000; padding-top: 5px;">
-                  ${orderData.customer?.name || 'Nome do Cliente'}<br>
-                  Cliente
-                </div>
+            )}
+            {isQuoteDocument && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Válido até</label>
+                <input
+                  type="date"
+                  {...register('valid_until')}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
               </div>
-            </div>
-            <p style="margin-top: 20px; font-size: 0.8em; text-align: center; color: #666;">
-              Este documento pode ser assinado digitalmente através do GOV.BR ou fisicamente.<br>
-              Data: ${currentDate}
-            </p>
+            )}
           </div>
-        </div>
-      `;
-
-      const opt = {
-        margin: 1,
-        filename: `OS_${isNew ? 'nova' : orderData.id}.pdf`,
-        image: { type: 'jpeg', quality: 0.98 },
-        html2canvas: { scale: 2 },
-        jsPDF: { unit: 'cm', format: 'a4', orientation: 'portrait' }
-      };
-
-      html2pdf().set(opt).from(element).save();
-    } catch (error) {
-      console.error('Erro ao gerar PDF:', error);
-      toast.error('Erro ao gerar PDF');
-    }
-  };
+        )}
 
-  return (
-    <div className="bg-white shadow rounded-lg">
-      <form onSubmit={handleSubmit(onSubmit)} className="p-4 space-y-6">
         {/* Seção do Cliente */}
         <div className="space-y-4">
           <h3 className="text-lg font-medium text-gray-900">Informações do Cliente</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700">Nome do Cliente</label>
-              <input
-                type="text"
-                {...register('customer.name')}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-gray-700">Nome do Cliente</label>
+                {selectedCustomerId && (
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-green-700 bg-green-100">
+                    <UserCheck className="h-3 w-3 mr-1" />
+                    Cliente cadastrado
+                    {!isEditing && (
+                      <button
+                        type="button"
+                        onClick={clearSelectedCustomer}
+                        className="ml-1 text-green-700 hover:text-green-900"
+                        aria-label="Usar novo cliente"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+              <CustomerSearch
+                inputProps={register('customer.name')}
+                onSelect={handleCustomerSelect}
               />
             </div>
             <div>
@@ -548,6 +706,22 @@ export function ServiceOrderForm() {
               />
             </div>
           </div>
+
+          {customerAddresses.length > 1 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-gray-500">Endereços salvos:</span>
+              {customerAddresses.map((savedAddress, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => setValue('address', toOrderAddress(savedAddress))}
+                  className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                >
+                  {savedAddress.label || formatAddress(savedAddress)}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Seção de Localização */}
@@ -624,126 +798,282 @@ export function ServiceOrderForm() {
         {/* Seção de Serviços */}
         <div className="space-y-4">
           <h3 className="text-lg font-medium text-gray-900">Serviços</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700">Tipo de Serviço</label>
-              <select
-                {...register('service_type')}
-                onChange={(e) => {
-                  register('service_type').onChange(e);
-                  setShowCustomValueField(e.target.value === 'custom');
-                }}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              >
-                <option value="">Selecione o tipo de serviço</option>
-                <option value="installation">Instalação</option>
-                <option value="maintenance">Manutenção</option>
-                <option value="cleaning">Limpeza</option>
-                <option value="gas_recharge">Recarga de Gás</option>
-                <option value="custom">Outro</option>
-              </select>
-            </div>
-            
-            {showCustomValueField && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700">Valor Personalizado</label>
-                <input
-                  type="number"
-                  {...register('custom_service_value')}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                />
-              </div>
-            )}
-          </div>
+          {serviceFields.map((field, index) => {
+            const service = services?.[index];
+            const tablePriced = isTablePriced(service?.service_type);
+            const priceLocked = tablePriced && !service?.price_override;
+            const withTablePrice = (name: 'service_type' | 'equipment_type' | 'equipment_power') => {
+              const fieldProps = register(`services.${index}.${name}`);
+              return {
+                ...fieldProps,
+                onChange: async (e: React.ChangeEvent<HTMLSelectElement>) => {
+                  await fieldProps.onChange(e);
+                  applyTablePrice(index);
+                }
+              };
+            };
+            const overrideProps = register(`services.${index}.price_override`);
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700">Tipo de Equipamento</label>
-              <input
-                type="text"
-                {...register('equipment_type')}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700">Potência</label>
-              <input
-                type="text"
-                {...register('equipment_power')}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              />
-            </div>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Descrição</label>
-            <textarea
-              {...register('description')}
-              rows={3}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-            />
-          </div>
-        </div>
-
-        {/* Seção de Materiais */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-medium text-gray-900">Materiais</h3>
-          <div className="grid grid-cols-1 gap-4">
-            <select
-              onChange={(e) => addMaterial(e.target.value)}
-              value=""
-              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-            >
-              <option value="">Selecione um material</option>
-              {materials.map((material) => (
-                <option key={material.id} value={material.id}>
-                  {material.name} - R$ {(material.price || 0).toFixed(2)}
-                </option>
-              ))}
-            </select>
-
-            <div className="space-y-2">
-              {selectedMaterials.map((item, index) => (
-                <div key={index} className="flex items-center space-x-4 p-2 bg-gray-50 rounded-md">
-                  <div className="flex-grow">
-                    <p className="text-sm font-medium text-gray-900">{item.material.name}</p>
-                    <p className="text-sm text-gray-500">R$ {(item.material.price || 0).toFixed(2)}</p>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      type="button"
-                      onClick={() => updateMaterialQuantity(index, item.quantity - 1)}
-                      className="p-1 rounded-md hover:bg-gray-200"
-                    >
-                      <Minus className="h-4 w-4" />
-                    </button>
-                    <span className="text-sm font-medium w-8 text-center">{item.quantity}</span>
-                    <button
-                      type="button"
-                      onClick={() => updateMaterialQuantity(index, item.quantity + 1)}
-                      className="p-1 rounded-md hover:bg-gray-200"
-                    >
-                      <Plus className="h-4 w-4" />
-                    </button>
+            return (
+              <div key={field.id} className="space-y-4 p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium text-gray-700">Serviço {index + 1}</h4>
+                  {serviceFields.length > 1 && (
                     <button
                       type="button"
-                      onClick={() => removeMaterial(index)}
+                      onClick={() => removeService(index)}
                       className="p-1 text-red-600 hover:bg-red-100 rounded-md"
+                      aria-label="Remover serviço"
                     >
                       <Trash2 className="h-4 w-4" />
                     </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Tipo de Serviço</label>
+                    <select
+                      {...withTablePrice('service_type')}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      <option value="">Selecione o tipo de serviço</option>
+                      {SERVICE_TYPES.map(({ id, label }) => (
+                        <option key={id} value={id}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="block text-sm font-medium text-gray-700">Valor do Serviço</label>
+                      {tablePriced && service?.price_override && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-yellow-700 bg-yellow-100">
+                          Personalizado
+                        </span>
+                      )}
+                    </div>
+                    <input
+                      type="number"
+                      step="0.01"
+                      readOnly={priceLocked}
+                      {...register(`services.${index}.custom_service_value`)}
+                      className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm ${priceLocked ? 'bg-gray-50' : ''}`}
+                    />
+                    {tablePriced && (
+                      <label className="mt-1 inline-flex items-center text-sm text-gray-600">
+                        <input
+                          type="checkbox"
+                          {...overrideProps}
+                          onChange={async (e) => {
+                            await overrideProps.onChange(e);
+                            applyTablePrice(index);
+                          }}
+                          className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Sobrescrever preço da tabela
+                      </label>
+                    )}
+                    {priceLocked && !service?.custom_service_value && service?.equipment_type && (
+                      <p className="mt-1 text-xs text-red-600">Sem preço na tabela para este equipamento</p>
+                    )}
                   </div>
                 </div>
-              ))}
-            </div>
+
+                {customerEquipment.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Equipamento do Cliente</label>
+                    <select
+                      value={service?.equipment_id || ''}
+                      onChange={(e) => handleEquipmentSelect(index, e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      <option value="">{service?.service_type === 'installation' ? 'Novo equipamento' : 'Não vincular'}</option>
+                      {customerEquipment.map(item => (
+                        <option key={item.id} value={item.id}>{formatEquipmentLabel(item)}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {service?.service_type === 'installation' && !service?.equipment_id && (
+                  <p className="text-xs text-gray-500">O equipamento instalado será cadastrado no cliente quando a OS for concluída.</p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Tipo de Equipamento</label>
+                    <select
+                      {...withTablePrice('equipment_type')}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      <option value="">Selecione o equipamento</option>
+                      {EQUIPMENT_TYPES.map(({ id, label }) => (
+                        <option key={id} value={id}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Potência</label>
+                    <select
+                      {...withTablePrice('equipment_power')}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      <option value="">Selecione a potência</option>
+                      {BTU_OPTIONS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Descrição</label>
+                  <textarea
+                    {...register(`services.${index}.description`)}
+                    rows={3}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+
+                {/* Materiais do serviço */}
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">Materiais</label>
+                  <select
+                    onChange={(e) => addMaterial(index, e.target.value)}
+                    value=""
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    <option value="">Selecione um material</option>
+                    {materials.map((material) => (
+                      <option key={material.id} value={material.id}>
+                        {material.name} - R$ {(material.default_price || 0).toFixed(2)}
+                      </option>
+                    ))}
+                  </select>
+
+                  {(service?.materials || []).map((item, materialIndex) => (
+                    <div key={materialIndex} className="flex items-center space-x-4 p-2 bg-gray-50 rounded-md">
+                      <div className="flex-grow">
+                        <p className="text-sm font-medium text-gray-900">{item.material.name}</p>
+                        <p className="text-sm text-gray-500">R$ {(item.unit_price || 0).toFixed(2)}</p>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => updateMaterialQuantity(index, materialIndex, item.quantity - 1)}
+                          className="p-1 rounded-md hover:bg-gray-200"
+                        >
+                          <Minus className="h-4 w-4" />
+                        </button>
+                        <span className="text-sm font-medium w-8 text-center">{item.quantity}</span>
+                        <button
+                          type="button"
+                          onClick={() => updateMaterialQuantity(index, materialIndex, item.quantity + 1)}
+                          className="p-1 rounded-md hover:bg-gray-200"
+                        >
+                          <Plus className="h-4 w-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeMaterial(index, materialIndex)}
+                          className="p-1 text-red-600 hover:bg-red-100 rounded-md"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={() => appendService({ ...EMPTY_SERVICE, materials: [] })}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar serviço
+          </button>
+        </div>
+
+        {/* Resumo */}
+        <div className="space-y-2 border-t border-gray-200 pt-4">
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>Serviços</span>
+            <span>{formatCurrency(calculateServicesTotal())}</span>
+          </div>
+          <div className="flex justify-between text-sm text-gray-600">
+            <span>Materiais</span>
+            <span>{formatCurrency(calculateMaterialsTotal())}</span>
           </div>
+          <div className="flex justify-between items-center text-sm text-gray-600">
+            <label htmlFor="discount">Desconto</label>
+            <input
+              id="discount"
+              type="number"
+              step="0.01"
+              min="0"
+              {...register('discount_amount')}
+              className="w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-right"
+            />
+          </div>
+          <div className="flex justify-between text-base font-medium text-gray-900">
+            <span>Total</span>
+            <span>{formatCurrency(calculateTotal())}</span>
+          </div>
+        </div>
+
+        {/* Fotos */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <Camera className="h-5 w-5 mr-2" />
+              Fotos
+            </h3>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                {...register('include_photos')}
+                className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600"
+              />
+              Incluir fotos no PDF
+            </label>
+          </div>
+          <ServiceOrderPhotos
+            photos={[
+              ...photos.map(photo => ({ key: photo.id, url: photo.photo_url, photo_type: photo.photo_type })),
+              ...pendingPhotos.map(({ key, url, photo_type }) => ({ key, url, photo_type }))
+            ]}
+            onAdd={handleAddPhotos}
+            onRemove={handleRemovePhoto}
+            disabled={isLocked}
+          />
         </div>
+        </fieldset>
+
+        {/* Histórico de Situações */}
+        {isEditing && orderId && !isQuoteDocument && (
+          <div className="space-y-4 pt-6">
+            <h3 className="text-lg font-medium text-gray-900">Histórico da OS</h3>
+            <ServiceOrderTimeline orderId={orderId} />
+          </div>
+        )}
 
         {/* Botões de Ação */}
-        <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-2 pt-4">
+        <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-2 pt-6">
+          {isEditing && onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="inline-flex justify-center items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancelar
+            </button>
+          )}
           <button
             type="button"
-            onClick={generatePDF}
+            onClick={() => generatePDF(getValues())}
             className="inline-flex justify-center items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
             <FileDown className="h-4 w-4 mr-2" />
@@ -751,10 +1081,11 @@ export function ServiceOrderForm() {
           </button>
           <button
             type="submit"
-            className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            disabled={isLocked}
+            className="inline-flex justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
           >
             <Save className="h-4 w-4 mr-2" />
-            Salvar OS
+            {isEditing ? 'Salvar Alterações' : isQuoteDocument ? 'Salvar Orçamento' : 'Salvar OS'}
           </button>
         </div>
       </form>
@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { deleteOrderPhoto, loadOrderPhotos, uploadOrderPhoto, type PhotoType } from '../lib/photos';
+import { ServiceOrderPhotos } from './ServiceOrderPhotos';
+import type { ServiceOrder, ServiceOrderPhoto } from '../types';
+
+interface ServiceOrderGalleryProps {
+  order: ServiceOrder;
+  onClose: () => void;
+  onIncludePhotosChange: (includePhotos: boolean) => void;
+}
+
+export function ServiceOrderGallery({ order, onClose, onIncludePhotosChange }: ServiceOrderGalleryProps) {
+  const [photos, setPhotos] = useState<ServiceOrderPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    loadOrderPhotos(order.id)
+      .then(setPhotos)
+      .catch(error => {
+        console.error('Erro ao carregar fotos:', error);
+        toast.error('Erro ao carregar fotos');
+      })
+      .finally(() => setLoading(false));
+  }, [order.id]);
+
+  const handleAdd = async (files: File[], photoType: PhotoType) => {
+    setUploading(true);
+    try {
+      for (const file of files) {
+        const photo = await uploadOrderPhoto(order.id, file, photoType);
+        setPhotos(prev => [...prev, photo]);
+      }
+      toast.success('Fotos enviadas com sucesso!');
+    } catch (error) {
+      console.error('Erro ao enviar foto:', error);
+      toast.error('Erro ao enviar foto');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemove = async (photoId: string) => {
+    const photo = photos.find(p => p.id === photoId);
+    if (!photo || !window.confirm('Remover esta foto?')) return;
+
+    try {
+      await deleteOrderPhoto(photo);
+      setPhotos(prev => prev.filter(p => p.id !== photoId));
+    } catch (error) {
+      console.error('Erro ao remover foto:', error);
+      toast.error('Erro ao remover foto');
+    }
+  };
+
+  const toggleIncludePhotos = async (includePhotos: boolean) => {
+    const { error } = await supabase.rpc('set_service_order_include_photos', {
+      p_order_id: order.id,
+      p_include_photos: includePhotos
+    });
+
+    if (error) {
+      console.error('Erro ao atualizar OS:', error);
+      toast.error('Erro ao atualizar ordem de serviço');
+      return;
+    }
+
+    onIncludePhotosChange(includePhotos);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-full overflow-y-auto p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Fotos da OS</h2>
+            <p className="text-sm text-gray-500">{order.customer?.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <ServiceOrderPhotos
+            photos={photos.map(photo => ({ key: photo.id, url: photo.photo_url, photo_type: photo.photo_type }))}
+            onAdd={handleAdd}
+            onRemove={handleRemove}
+            disabled={uploading}
+          />
+        )}
+
+        {uploading && <p className="text-sm text-gray-500">Enviando fotos...</p>}
+
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!order.include_photos}
+            onChange={(e) => toggleIncludePhotos(e.target.checked)}
+            className="h-4 w-4 mr-2 rounded border-gray-300 text-blue-600"
+          />
+          Incluir fotos no PDF da OS
+        </label>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
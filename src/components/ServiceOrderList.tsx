@@ -1,17 +1,52 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { format } from 'date-fns';
-import { FileText, CheckCircle, Clock, FileDown, Upload, Trash2 } from 'lucide-react';
-import type { ServiceOrder } from '../types';
+import { FileText, CheckCircle, Clock, FileDown, Upload, Trash2, Pencil, RotateCcw, Camera, PenLine, Search, ThumbsUp, ThumbsDown, ArrowRightCircle, History, CalendarClock, Truck, Package, XCircle, Receipt, ListOrdered, ListChecks, ShieldCheck, FileCheck, QrCode } from 'lucide-react';
+import { getServiceTypeLabel } from '../lib/servicePrices';
+import { deleteOrderPhoto, loadOrderPhotos } from '../lib/photos';
+import { getOrderNumber, orderFileName } from '../lib/orderNumbers';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS, changeOrderStatus, getNextStatuses, isClosed, isQuote, loadStatusTransitions, reopenServiceOrder } from '../lib/orderStatus';
+import { approveQuote, convertQuoteToOrder, getQuoteRevisionLabel, isQuoteExpired, loadQuoteRevisions, rejectQuote } from '../lib/quotes';
+import { getSignedUrl } from '../lib/storage';
+import { getCompanyStoragePath } from '../lib/team';
+import { getDocumentFileName, loadOrderDocumentData, renderOrderDocument, savePdf, type DocumentTemplate } from '../lib/documents';
+import { createWarrantyReturn, formatWarrantyDate, getWarrantyUntil, isUnderWarranty } from '../lib/warranty';
+import { ServiceOrderGallery } from './ServiceOrderGallery';
+import { ServiceOrderSignatures } from './ServiceOrderSignatures';
+import { ServiceOrderTimeline } from './ServiceOrderTimeline';
+import { ServiceOrderChecklist } from './ServiceOrderChecklist';
+import { ScheduleOrderModal } from './ScheduleOrderModal';
+import { ReceiptModal } from './ReceiptModal';
+import { PixModal } from './PixModal';
+import type { QuoteRevision, ServiceOrder, ServiceOrderStatus, ServiceOrderStatusTransition } from '../types';
 import toast from 'react-hot-toast';
-import html2pdf from 'html2pdf.js';
 
-export function ServiceOrderList() {
+interface ServiceOrderListProps {
+  onEdit?: (orderId: string) => void;
+  // Técnicos acompanham e atualizam as OS, mas não aprovam, agendam nem excluem
+  canManage?: boolean;
+}
+
+export function ServiceOrderList({ onEdit, canManage = true }: ServiceOrderListProps) {
   const [orders, setOrders] = useState<ServiceOrder[]>([]);
   const [loading, setLoading] = useState(true);
+  const [galleryOrder, setGalleryOrder] = useState<ServiceOrder | null>(null);
+  const [signingOrder, setSigningOrder] = useState<ServiceOrder | null>(null);
+  const [search, setSearch] = useState('');
+  const [view, setView] = useState<'orders' | 'quotes'>('orders');
+  const [revisions, setRevisions] = useState<Record<string, QuoteRevision[]>>({});
+  const [transitions, setTransitions] = useState<ServiceOrderStatusTransition[]>([]);
+  const [historyOrderId, setHistoryOrderId] = useState<string | null>(null);
+  const [checklistOrderId, setChecklistOrderId] = useState<string | null>(null);
+  const [schedulingOrder, setSchedulingOrder] = useState<ServiceOrder | null>(null);
+  const [receiptOrder, setReceiptOrder] = useState<ServiceOrder | null>(null);
+  const [pixOrder, setPixOrder] = useState<ServiceOrder | null>(null);
 
   useEffect(() => {
     loadOrders();
+    loadStatusTransitions()
+      .then(setTransitions)
+      .catch(error => console.error('Error loading status transitions:', error));
   }, []);
 
   const loadOrders = async () => {
@@ -20,7 +55,8 @@ export function ServiceOrderList() {
         .from('service_orders')
         .select(`
           *,
-          customer:customers(*)
+          customer:customers(*),
+          order_services(warranty_until)
         `)
         .order('created_at', { ascending: false });
 
@@ -34,50 +70,196 @@ export function ServiceOrderList() {
     }
   };
 
-  const updateOrderStatus = async (orderId: string, status: 'pending' | 'in_progress' | 'completed') => {
-    try {
-      const { error } = await supabase
-        .from('service_orders')
-        .update({ status })
-        .eq('id', orderId);
+  const updateOrderStatus = async (order: ServiceOrder, status: ServiceOrderStatus) => {
+    // Voltar de "Concluído" para "Em Andamento" é uma reabertura registrada
+    if (order.status === 'completed' && status === 'in_progress') {
+      await reopenOrder(order, status);
+      return;
+    }
 
-      if (error) throw error;
+    const transition = transitions.find(t => t.from_status === order.status && t.to_status === status);
+    if (!transition) {
+      toast.error('Mudança de situação não permitida');
+      return;
+    }
+
+    let reason = '';
+    if (transition.requires_reason) {
+      const answer = window.prompt(`Informe o motivo para mudar a situação para "${ORDER_STATUS_LABELS[status]}":`);
+      if (answer === null) return;
+      if (!answer.trim()) {
+        toast.error('Informe o motivo da mudança de situação');
+        return;
+      }
+      reason = answer.trim();
+    }
+
+    try {
+      await changeOrderStatus(order.id, status, reason);
 
-      setOrders(orders.map(order => 
-        order.id === orderId ? { ...order, status } : order
+      setOrders(prev => prev.map(o =>
+        o.id === order.id ? { ...o, status, status_reason: reason || undefined } : o
       ));
     } catch (error) {
       console.error('Error updating order status:', error);
+      toast.error((error as Error).message || 'Erro ao atualizar situação da OS');
+    }
+  };
+
+  const reopenOrder = async (order: ServiceOrder, newStatus: ServiceOrderStatus = 'in_progress') => {
+    const reason = window.prompt('Esta OS está concluída. Informe o motivo da reabertura:');
+
+    if (reason === null) return false;
+    if (!reason.trim()) {
+      toast.error('Informe o motivo para reabrir a OS');
+      return false;
+    }
+
+    try {
+      await reopenServiceOrder(order.id, newStatus, reason.trim());
+
+      setOrders(prev => prev.map(o =>
+        o.id === order.id ? { ...o, status: newStatus, status_reason: reason.trim() } : o
+      ));
+      toast.success('Ordem de serviço reaberta');
+      return true;
+    } catch (error) {
+      console.error('Error reopening order:', error);
+      toast.error((error as Error).message || 'Erro ao reabrir ordem de serviço');
+      return false;
+    }
+  };
+
+  const handleEdit = async (order: ServiceOrder) => {
+    if (!onEdit) return;
+
+    if (order.status === 'completed') {
+      const reopened = await reopenOrder(order);
+      if (!reopened) return;
+    }
+
+    onEdit(order.id);
+  };
+
+  const handleApproveQuote = async (quote: ServiceOrder) => {
+    if (isQuoteExpired(quote)) {
+      toast.error('Este orçamento está vencido. Altere a validade antes de aprová-lo.');
+      return;
+    }
+
+    try {
+      const decision = await approveQuote(quote.id);
+      setOrders(prev => prev.map(o => o.id === quote.id ? { ...o, ...decision, quote_decision_reason: undefined } : o));
+      toast.success('Orçamento aprovado');
+    } catch (error) {
+      console.error('Error approving quote:', error);
+      toast.error((error as Error).message || 'Erro ao aprovar orçamento');
+    }
+  };
+
+  const handleRejectQuote = async (quote: ServiceOrder) => {
+    const reason = window.prompt('Informe o motivo da recusa do orçamento:');
+
+    if (reason === null) return;
+    if (!reason.trim()) {
+      toast.error('Informe o motivo da recusa');
+      return;
+    }
+
+    try {
+      const decision = await rejectQuote(quote.id, reason.trim());
+      setOrders(prev => prev.map(o => o.id === quote.id ? { ...o, ...decision, quote_decision_reason: reason.trim() } : o));
+      toast.success('Orçamento recusado');
+    } catch (error) {
+      console.error('Error rejecting quote:', error);
+      toast.error((error as Error).message || 'Erro ao recusar orçamento');
+    }
+  };
+
+  const handleConvertQuote = async (quote: ServiceOrder) => {
+    try {
+      await convertQuoteToOrder(quote.id);
+      toast.success('Ordem de serviço criada a partir do orçamento');
+      setView('orders');
+      loadOrders();
+    } catch (error) {
+      console.error('Error converting quote:', error);
+      toast.error((error as Error).message || 'Erro ao converter orçamento');
+    }
+  };
+
+  const handleWarrantyReturn = async (order: ServiceOrder) => {
+    const description = window.prompt('Descreva o problema relatado pelo cliente:');
+
+    if (description === null) return;
+    if (!description.trim()) {
+      toast.error('Descreva o problema relatado pelo cliente');
+      return;
+    }
+
+    try {
+      await createWarrantyReturn(order, description.trim());
+      toast.success('OS de retorno em garantia criada');
+      loadOrders();
+    } catch (error) {
+      console.error('Error creating warranty return:', error);
+      toast.error((error as Error).message || 'Erro ao abrir retorno em garantia');
+    }
+  };
+
+  const toggleRevisions = async (quote: ServiceOrder) => {
+    if (revisions[quote.id]) {
+      setRevisions(prev => {
+        const next = { ...prev };
+        delete next[quote.id];
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const data = await loadQuoteRevisions(quote.id);
+      setRevisions(prev => ({ ...prev, [quote.id]: data }));
+    } catch (error) {
+      console.error('Error loading quote revisions:', error);
+      toast.error('Erro ao carregar revisões do orçamento');
+    }
+  };
+
+  // O bucket é privado: a OS assinada abre por uma URL assinada, gerada no clique
+  const openSignedOrder = async (order: ServiceOrder) => {
+    if (!order.signed_order_url) return;
+
+    // A aba é aberta antes da chamada para o navegador não bloquear o pop-up
+    const tab = window.open('', '_blank');
+    try {
+      const url = await getSignedUrl('service-orders', order.signed_order_url);
+      if (tab) tab.location.href = url;
+    } catch (error) {
+      tab?.close();
+      console.error('Erro ao abrir OS assinada:', error);
+      toast.error('Erro ao abrir ordem de serviço assinada');
     }
   };
 
   const handleSignedOrderUpload = async (orderId: string, file: File) => {
     try {
-      // Upload do arquivo
-      const filename = `${Date.now()}_${file.name}`;
+      // Upload do arquivo (na pasta da empresa, no mesmo bucket das fotos e assinaturas)
+      const path = await getCompanyStoragePath(`orders/${Date.now()}_${file.name}`);
       const { error: uploadError } = await supabase.storage
-        .from('service_orders')
-        .upload(`orders/${filename}`, file);
+        .from('service-orders')
+        .upload(path, file);
 
       if (uploadError) {
         console.error('Upload error:', uploadError);
         throw uploadError;
       }
 
-      // Pegar a URL pública
-      const { data } = await supabase.storage
-        .from('service_orders')
-        .getPublicUrl(`orders/${filename}`);
-
-      if (!data?.publicUrl) {
-        throw new Error('Failed to get public URL');
-      }
-
-      // Atualizar a ordem de serviço
-      const { error: updateError } = await supabase
-        .from('service_orders')
-        .update({ signed_order_url: data.publicUrl })
-        .eq('id', orderId);
+      // Atualizar a ordem de serviço com o caminho do arquivo (o técnico só altera a OS pelas funções do banco)
+      const { error: updateError } = await supabase.rpc('set_service_order_signed_url', {
+        p_order_id: orderId,
+        p_url: path
+      });
 
       if (updateError) {
         console.error('Update error:', updateError);
@@ -92,189 +274,16 @@ export function ServiceOrderList() {
     }
   };
 
-  const generatePDF = async (order: ServiceOrder) => {
+  // signed: também envia o PDF gerado como a OS assinada (assinaturas feitas no aparelho)
+  const generatePDF = async (order: ServiceOrder, { template = isQuote(order) ? 'quote' : 'service_order', signed = false }: { template?: DocumentTemplate; signed?: boolean } = {}) => {
     try {
-      // Buscar os serviços relacionados a esta OS
-      const { data: services, error: servicesError } = await supabase
-        .from('order_services')
-        .select(`
-          service_type,
-          equipment_type,
-          equipment_power,
-          description,
-          price
-        `)
-        .eq('service_order_id', order.id);
-
-      if (servicesError) throw servicesError;
-
-      // Buscar os materiais relacionados a esta OS
-      const { data: materials, error: materialsError } = await supabase
-        .from('service_order_materials')
-        .select(`
-          quantity,
-          unit_price,
-          material:materials (
-            name,
-            unit
-          )
-        `)
-        .eq('service_order_id', order.id);
-
-      if (materialsError) throw materialsError;
-
-      // Busca informações da empresa
-      const companyInfo = await getCompanyInfo();
-
-      const element = document.createElement('div');
-      
-      // Converter a URL da logo em uma imagem base64 para garantir que seja incluída no PDF
-      let logoBase64 = '';
-      if (companyInfo?.logo) {
-        try {
-          const response = await fetch(companyInfo.logo);
-          const blob = await response.blob();
-          logoBase64 = await new Promise((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(reader.result as string);
-            reader.readAsDataURL(blob);
-          });
-        } catch (error) {
-          console.error('Error converting logo to base64:', error);
-        }
-      }
-
-      element.innerHTML = `
-        <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px;">
-          <!-- Cabeçalho com Logo e Informações da Empresa -->
-          <div style="display: flex; justify-content: space-between; align-items: start; margin-bottom: 30px; border-bottom: 2px solid #000; padding-bottom: 20px;">
-            <div style="text-align: left;">
-              <h2 style="margin: 0; font-size: 24px;">${companyInfo?.company_name || ''}</h2>
-              <p style="margin: 5px 0;">CNPJ: ${companyInfo?.cnpj || ''}</p>
-              <p style="margin: 5px 0;">Tel: ${companyInfo?.phone || ''}</p>
-              <p style="margin: 5px 0;">Email: ${companyInfo?.email || ''}</p>
-            </div>
-            ${logoBase64 ? `
-              <div style="text-align: right;">
-                <img src="${logoBase64}" alt="Logo" style="max-height: 120px; max-width: 200px; object-fit: contain;"/>
-              </div>
-            ` : ''}
-          </div>
-
-          <!-- Informações do Cliente -->
-          <div style="margin-bottom: 30px;">
-            <h3 style="margin-bottom: 10px; border-bottom: 1px solid #ccc; padding-bottom: 5px;">Informações do Cliente</h3>
-            <p style="margin: 5px 0;"><strong>Nome:</strong> ${order.customer?.name || ''}</p>
-            <p style="margin: 5px 0;"><strong>Telefone:</strong> ${order.customer?.phone || ''}</p>
-            <p style="margin: 5px 0;"><strong>Endereço:</strong> ${order.address?.street ? `${order.address.street}, ${order.address.number}` : ''}</p>
-            ${order.address?.complement ? `<p style="margin: 5px 0;"><strong>Complemento:</strong> ${order.address.complement}</p>` : ''}
-            <p style="margin: 5px 0;">${order.address?.neighborhood || ''} - ${order.address?.city || ''} - ${order.address?.state || ''}</p>
-            ${order.address?.zipCode ? `<p style="margin: 5px 0;"><strong>CEP:</strong> ${order.address.zipCode}</p>` : ''}
-          </div>
-
-          <!-- Serviços Realizados -->
-          <div style="margin-bottom: 30px;">
-            <h3 style="margin-bottom: 10px; border-bottom: 1px solid #ccc; padding-bottom: 5px;">Serviços Realizados</h3>
-            ${services?.map((service, index) => `
-              <div style="margin-left: 20px; margin-bottom: 15px; padding: 10px; background-color: #f9fafb; border-radius: 4px;">
-                <h4 style="margin: 0 0 10px 0;">Serviço ${index + 1}</h4>
-                <p style="margin: 5px 0;"><strong>Tipo de Serviço:</strong> ${
-                  service.service_type === 'installation' ? 'Instalação' :
-                  service.service_type === 'maintenance' ? 'Manutenção' :
-                  service.service_type === 'cleaning' ? 'Limpeza' :
-                  service.service_type === 'gas_recharge' ? 'Recarga de Gás' :
-                  service.service_type === 'other' ? 'Outro' : '-'
-                }</p>
-                ${service.equipment_type ? `<p style="margin: 5px 0;"><strong>Equipamento:</strong> ${
-                  service.equipment_type === 'split' ? 'Split' :
-                  service.equipment_type === 'window' ? 'Janela' :
-                  service.equipment_type === 'portable' ? 'Portátil' :
-                  service.equipment_type === 'multi_split' ? 'Multi Split' :
-                  service.equipment_type === 'cassete' ? 'Cassete' :
-                  service.equipment_type === 'piso_teto' ? 'Piso Teto' : service.equipment_type
-                }</p>` : ''}
-                ${service.equipment_power ? `<p style="margin: 5px 0;"><strong>Potência:</strong> ${service.equipment_power} BTUs</p>` : ''}
-                ${service.description ? `<p style="margin: 5px 0;"><strong>Descrição:</strong> ${service.description}</p>` : ''}
-              </div>
-            `).join('')}
-          </div>
-
-          <!-- Materiais Utilizados -->
-          <div style="margin-bottom: 30px;">
-            <h3 style="margin-bottom: 10px; border-bottom: 1px solid #ccc; padding-bottom: 5px;">Materiais Utilizados</h3>
-            <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px;">
-              <thead>
-                <tr style="background-color: #f3f4f6;">
-                  <th style="padding: 8px; text-align: left; border: 1px solid #e5e7eb;">Material</th>
-                  <th style="padding: 8px; text-align: center; border: 1px solid #e5e7eb;">Qtd.</th>
-                  <th style="padding: 8px; text-align: right; border: 1px solid #e5e7eb;">Valor Unit.</th>
-                  <th style="padding: 8px; text-align: right; border: 1px solid #e5e7eb;">Total</th>
-                </tr>
-              </thead>
-              <tbody>
-                ${materials?.map(item => `
-                  <tr>
-                    <td style="padding: 8px; border: 1px solid #e5e7eb;">${item.material.name}</td>
-                    <td style="padding: 8px; text-align: center; border: 1px solid #e5e7eb;">${item.quantity}</td>
-                    <td style="padding: 8px; text-align: right; border: 1px solid #e5e7eb;">R$ ${item.unit_price.toFixed(2)}</td>
-                    <td style="padding: 8px; text-align: right; border: 1px solid #e5e7eb;">R$ ${(item.quantity * item.unit_price).toFixed(2)}</td>
-                  </tr>
-                `).join('')}
-              </tbody>
-            </table>
-          </div>
-
-          <!-- Valor Total -->
-          <div style="margin-bottom: 30px; text-align: right;">
-            <table style="width: 300px; margin-left: auto;">
-              <tr>
-                <td style="padding: 8px;"><strong>Valor dos Materiais:</strong></td>
-                <td style="padding: 8px; text-align: right;">R$ ${order.materials_amount?.toFixed(2) || '0.00'}</td>
-              </tr>
-              <tr>
-                <td style="padding: 8px;"><strong>Valor do Serviço:</strong></td>
-                <td style="padding: 8px; text-align: right;">R$ ${order.services_amount?.toFixed(2) || '0.00'}</td>
-              </tr>
-              <tr>
-                <td style="padding: 8px;"><strong>Desconto:</strong></td>
-                <td style="padding: 8px; text-align: right; color: #047857;">- R$ ${order.discount_amount?.toFixed(2) || '0.00'}</td>
-              </tr>
-              <tr style="font-weight: bold; font-size: 1.1em;">
-                <td style="padding: 8px; border-top: 2px solid #000;"><strong>Total Final:</strong></td>
-                <td style="padding: 8px; text-align: right; border-top: 2px solid #000;">R$ ${order.total_amount?.toFixed(2) || '0.00'}</td>
-              </tr>
-            </table>
-          </div>
-
-          <!-- Assinaturas -->
-          <div style="margin-top: 50px;">
-            <div style="display: flex; justify-content: space-between;">
-              <div style="width: 45%; text-align: center;">
-                <div style="border-top: 1px solid #000; padding-top: 5px;">
-                  <p style="margin: 0;">Cliente</p>
-                  <p style="margin: 5px 0; font-size: 12px;">${order.customer?.name || ''}</p>
-                </div>
-              </div>
-              <div style="width: 45%; text-align: center;">
-                <div style="border-top: 1px solid #000; padding-top: 5px;">
-                  <p style="margin: 0;">${companyInfo?.company_name || ''}</p>
-                  <p style="margin: 5px 0; font-size: 12px;">CNPJ: ${companyInfo?.cnpj || ''}</p>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-      `;
+      const data = await loadOrderDocumentData(order);
 
-      const opt = {
-        margin: 10,
-        filename: `orcamento_${order.id}.pdf`,
-        image: { type: 'jpeg', quality: 0.98 },
-        html2canvas: { scale: 2 },
-        jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
-      };
-
-      await html2pdf().from(element).set(opt).save();
+      await savePdf(await renderOrderDocument(template, data), getDocumentFileName(template, data), {
+        onBlob: signed
+          ? blob => handleSignedOrderUpload(order.id, new File([blob], orderFileName('OS_assinada', order), { type: 'application/pdf' }))
+          : undefined
+      });
 
       toast.success('PDF gerado com sucesso!');
     } catch (error) {
@@ -283,67 +292,38 @@ export function ServiceOrderList() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return 'text-green-600 bg-green-100';
-      case 'in_progress':
-        return 'text-yellow-600 bg-yellow-100';
-      default:
-        return 'text-gray-600 bg-gray-100';
-    }
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
+      case 'paid':
         return <CheckCircle className="h-5 w-5 text-green-600" />;
+      case 'invoiced':
+        return <Receipt className="h-5 w-5 text-teal-600" />;
+      case 'scheduled':
+        return <CalendarClock className="h-5 w-5 text-blue-600" />;
+      case 'en_route':
+        return <Truck className="h-5 w-5 text-indigo-600" />;
       case 'in_progress':
         return <Clock className="h-5 w-5 text-yellow-600" />;
+      case 'awaiting_parts':
+        return <Package className="h-5 w-5 text-orange-600" />;
+      case 'cancelled':
+        return <XCircle className="h-5 w-5 text-red-600" />;
       default:
         return <FileText className="h-5 w-5 text-gray-600" />;
     }
   };
 
-  const getCompanyInfo = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('company_info')
-        .select('*')
-        .single();
-
-      if (error) throw error;
-
-      console.log('Company Info Raw Data:', data);
-
-      const companyInfo = {
-        company_name: data?.name || '',
-        cnpj: data?.cnpj || '',
-        phone: data?.phone || '',
-        email: data?.email || '',
-        logo: data?.logo || ''
-      };
-
-      console.log('Company Info Mapped:', companyInfo);
-      return companyInfo;
-    } catch (error) {
-      console.error('Error loading company info:', error);
-      return null;
-    }
-  };
-
   const handleDelete = async (orderId: string) => {
     const isConfirmed = window.confirm('Tem certeza que deseja excluir esta Ordem de Serviço? Esta ação não pode ser desfeita.');
     
     if (!isConfirmed) return;
 
     try {
-      const { error: materialsError } = await supabase
-        .from('service_order_materials')
-        .delete()
-        .eq('service_order_id', orderId);
-
-      if (materialsError) throw materialsError;
+      // Serviços, materiais e fotos saem junto com a OS (ON DELETE CASCADE);
+      // os arquivos das fotos precisam ser removidos do bucket à parte
+      const photos = await loadOrderPhotos(orderId);
+      await Promise.all(photos.map(deleteOrderPhoto));
 
       const { error } = await supabase
         .from('service_orders')
@@ -361,6 +341,13 @@ export function ServiceOrderList() {
     }
   };
 
+  const searchTerm = search.trim().toLowerCase();
+  const viewOrders = orders.filter(order => isQuote(order) === (view === 'quotes'));
+  const filteredOrders = searchTerm
+    ? viewOrders.filter(order => [order.order_number, order.customer?.name, order.customer?.phone]
+        .some(value => value?.toLowerCase().includes(searchTerm)))
+    : viewOrders;
+
   if (loading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -373,137 +360,411 @@ export function ServiceOrderList() {
     <div className="space-y-6">
       <div className="bg-white shadow rounded-lg">
         <div className="px-4 py-5 sm:px-6">
-          <h2 className="text-lg font-medium text-gray-900">Ordens de Serviço</h2>
-          <p className="mt-1 text-sm text-gray-500">Lista de todas as ordens de serviço</p>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">{view === 'quotes' ? 'Orçamentos' : 'Ordens de Serviço'}</h2>
+              <p className="mt-1 text-sm text-gray-500">
+                {view === 'quotes' ? 'Lista de todos os orçamentos' : 'Lista de todas as ordens de serviço'}
+              </p>
+            </div>
+            <div className="inline-flex rounded-md shadow-sm">
+              <button
+                onClick={() => setView('orders')}
+                className={`px-4 py-2 text-sm font-medium border rounded-l-md ${view === 'orders' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                Ordens de Serviço
+              </button>
+              <button
+                onClick={() => setView('quotes')}
+                className={`px-4 py-2 text-sm font-medium border-t border-b border-r rounded-r-md ${view === 'quotes' ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+              >
+                Orçamentos
+              </button>
+            </div>
+          </div>
+          <div className="relative mt-4">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={view === 'quotes' ? 'Buscar por número, cliente ou telefone' : 'Buscar por número da OS, cliente ou telefone'}
+              className="block w-full pl-9 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
         </div>
         <div className="border-t border-gray-200">
           <ul className="divide-y divide-gray-200">
-            {orders.map((order) => (
-              <li key={order.id} className="px-4 py-4 sm:px-6">
-                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
-                  <div className="flex items-center mb-4 sm:mb-0">
-                    {getStatusIcon(order.status)}
-                    <div className="ml-4">
-                      <h3 className="text-sm font-medium text-gray-900">
-                        {order.customer?.name}
-                      </h3>
-                      <div className="mt-1 text-sm text-gray-500">
-                        <p>Serviço: {
-                          order.service_type === 'installation' ? 'Instalação' :
-                          order.service_type === 'maintenance' ? 'Manutenção' :
-                          order.service_type === 'cleaning' ? 'Limpeza' :
-                          order.service_type === 'gas_recharge' ? 'Recarga de Gás' :
-                          order.service_type === 'other' ? 'Outro' : '-'
-                        }</p>
-                        <p>Data: {format(new Date(order.created_at), 'dd/MM/yyyy HH:mm')}</p>
+            {filteredOrders.map((order) => {
+              const quote = isQuote(order);
+              const expired = isQuoteExpired(order);
+              const sourceQuote = order.quote_id ? orders.find(o => o.id === order.quote_id) : undefined;
+              const convertedOrder = quote ? orders.find(o => o.quote_id === order.id) : undefined;
+              const warrantyUntil = quote ? null : getWarrantyUntil(order.order_services);
+              const originalOrder = order.warranty_order_id ? orders.find(o => o.id === order.warranty_order_id) : undefined;
+              const warrantyReturns = orders.filter(o => o.warranty_order_id === order.id);
+
+              return (
+                <li key={order.id} className="px-4 py-4 sm:px-6">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+                    <div className="flex items-center mb-4 sm:mb-0">
+                      {getStatusIcon(order.status)}
+                      <div className="ml-4">
+                        <h3 className="text-sm font-medium text-gray-900">
+                          <span className="text-blue-600 mr-2">{getOrderNumber(order)}</span>
+                          {quote && <span className="text-gray-500 mr-2">{getQuoteRevisionLabel(order)}</span>}
+                          {order.customer?.name}
+                        </h3>
+                        <div className="mt-1 text-sm text-gray-500">
+                          <p>Serviço: {getServiceTypeLabel(order.service_type)}</p>
+                          <p>Data: {format(new Date(order.created_at), 'dd/MM/yyyy HH:mm')}</p>
+                          {quote && order.valid_until && (
+                            <p className={expired ? 'text-red-600' : undefined}>
+                              Válido até: {format(new Date(`${order.valid_until}T00:00:00`), 'dd/MM/yyyy')}
+                            </p>
+                          )}
+                          {order.scheduled_start && (
+                            <p>
+                              Agendada: {format(new Date(order.scheduled_start), 'dd/MM/yyyy HH:mm')}
+                              {order.scheduled_end && ` às ${format(new Date(order.scheduled_end), 'HH:mm')}`}
+                            </p>
+                          )}
+                          {sourceQuote && <p>Gerada a partir do orçamento {getOrderNumber(sourceQuote)}</p>}
+                          {convertedOrder && <p>Convertido na OS {getOrderNumber(convertedOrder)}</p>}
+                          {warrantyUntil && (
+                            <p className={isUnderWarranty(warrantyUntil) ? 'text-green-700' : undefined}>
+                              {isUnderWarranty(warrantyUntil) ? 'Garantia até' : 'Garantia vencida em'} {formatWarrantyDate(warrantyUntil)}
+                            </p>
+                          )}
+                          {originalOrder && <p>Retorno em garantia da OS {getOrderNumber(originalOrder)}</p>}
+                          {warrantyReturns.length > 0 && (
+                            <p>Retornos em garantia: {warrantyReturns.map(o => getOrderNumber(o)).join(', ')}</p>
+                          )}
+                          {order.status === 'quote_rejected' && order.quote_decision_reason && (
+                            <p>Motivo da recusa: {order.quote_decision_reason}</p>
+                          )}
+                          {order.status === 'cancelled' && order.status_reason && (
+                            <p>Motivo do cancelamento: {order.status_reason}</p>
+                          )}
+                        </div>
                       </div>
                     </div>
+                    <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${expired ? 'text-red-600 bg-red-100' : ORDER_STATUS_COLORS[order.status] || 'text-gray-600 bg-gray-100'}`}>
+                        {expired ? 'Orçamento Vencido' : ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                      {!quote && getNextStatuses(transitions, order.status).length > 0 && (
+                        <select
+                          value={order.status}
+                          onChange={(e) => updateOrderStatus(order, e.target.value as ServiceOrderStatus)}
+                          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                        >
+                          <option value={order.status}>{ORDER_STATUS_LABELS[order.status]}</option>
+                          {getNextStatuses(transitions, order.status).map(transition => (
+                            <option key={transition.to_status} value={transition.to_status}>
+                              {ORDER_STATUS_LABELS[transition.to_status] || transition.to_status}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
                   </div>
-                  <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-2">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-                      {order.status === 'completed' ? 'Concluído' :
-                       order.status === 'in_progress' ? 'Em Andamento' : 'Orçamento'}
-                    </span>
-                    <select
-                      value={order.status}
-                      onChange={(e) => updateOrderStatus(order.id, e.target.value as 'pending' | 'in_progress' | 'completed')}
-                      className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
-                    >
-                      <option value="pending">Orçamento</option>
-                      <option value="in_progress">Em Andamento</option>
-                      <option value="completed">Concluído</option>
-                    </select>
-                  </div>
-                </div>
-                <div className="mt-2">
-                  <p className="text-sm text-gray-500">{order.description}</p>
-                </div>
-                {order.total_amount && (
-                  <div className="mt-2 text-sm font-medium text-gray-900">
-                    Valor Total: {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(order.total_amount)}
-                  </div>
-                )}
-                <div className="mt-4 flex flex-wrap items-center gap-2">
-                  <div className="flex-1 flex gap-2">
-                    <button
-                      onClick={() => generatePDF(order)}
-                      className="inline-flex items-center px-4 py-2 border border-blue-500 shadow-sm text-sm font-medium rounded text-white bg-blue-600 hover:bg-blue-700"
-                    >
-                      <FileDown className="h-5 w-5 mr-2" />
-                      Gerar OS
-                    </button>
-
-                    <button
-                      onClick={() => handleDelete(order.id)}
-                      className="text-red-600 hover:text-red-900 flex items-center"
-                    >
-                      <Trash2 className="h-4 w-4 mr-1" />
-                      Excluir
-                    </button>
+                  <div className="mt-2">
+                    <p className="text-sm text-gray-500">{order.description}</p>
                   </div>
-
-                  <div className="flex items-center gap-2">
-                    {order.signed_order_url ? (
-                      <>
-                        <a
-                          href={order.signed_order_url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="inline-flex items-center px-4 py-2 border border-green-500 shadow-sm text-sm font-medium rounded text-white bg-green-600 hover:bg-green-700"
+                  {!!order.total_amount && (
+                    <div className="mt-2 text-sm font-medium text-gray-900">
+                      Valor Total: {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(order.total_amount)}
+                    </div>
+                  )}
+                  <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <div className="flex-1 flex gap-2">
+                      <button
+                        onClick={() => generatePDF(order)}
+                        className="inline-flex items-center px-4 py-2 border border-blue-500 shadow-sm text-sm font-medium rounded text-white bg-blue-600 hover:bg-blue-700"
+                      >
+                        <FileDown className="h-5 w-5 mr-2" />
+                        {quote ? 'Gerar Orçamento' : 'Gerar OS'}
+                      </button>
+
+                      {(order.total_amount || 0) > 0 && order.status !== 'cancelled' && order.status !== 'quote_rejected' && (
+                        <button
+                          onClick={() => setPixOrder(order)}
+                          className="text-gray-700 hover:text-gray-900 flex items-center"
                         >
-                          <FileDown className="h-5 w-5 mr-2" />
-                          Baixar OS Assinada
-                        </a>
+                          <QrCode className="h-4 w-4 mr-1" />
+                          PIX
+                        </button>
+                      )}
+
+                      {isClosed(order) && order.status !== 'cancelled' && (
+                        <>
+                          <button
+                            onClick={() => generatePDF(order, { template: 'completion_report' })}
+                            className="text-gray-700 hover:text-gray-900 flex items-center"
+                          >
+                            <FileCheck className="h-4 w-4 mr-1" />
+                            Relatório
+                          </button>
+                          {canManage && (
+                            <button
+                              onClick={() => setReceiptOrder(order)}
+                              className="text-gray-700 hover:text-gray-900 flex items-center"
+                            >
+                              <Receipt className="h-4 w-4 mr-1" />
+                              Recibo
+                            </button>
+                          )}
+                        </>
+                      )}
+
+                      {canManage && order.status === 'quote' && (
+                        <>
+                          <button
+                            onClick={() => handleApproveQuote(order)}
+                            className="text-green-600 hover:text-green-800 flex items-center"
+                          >
+                            <ThumbsUp className="h-4 w-4 mr-1" />
+                            Aprovar
+                          </button>
+                          <button
+                            onClick={() => handleRejectQuote(order)}
+                            className="text-red-600 hover:text-red-800 flex items-center"
+                          >
+                            <ThumbsDown className="h-4 w-4 mr-1" />
+                            Recusar
+                          </button>
+                        </>
+                      )}
+
+                      {canManage && order.status === 'quote_approved' && !convertedOrder && (
+                        <button
+                          onClick={() => handleConvertQuote(order)}
+                          className="text-blue-600 hover:text-blue-800 flex items-center"
+                        >
+                          <ArrowRightCircle className="h-4 w-4 mr-1" />
+                          Converter em OS
+                        </button>
+                      )}
+
+                      {quote && (order.quote_revision || 1) > 1 && (
+                        <button
+                          onClick={() => toggleRevisions(order)}
+                          className="text-gray-700 hover:text-gray-900 flex items-center"
+                        >
+                          <History className="h-4 w-4 mr-1" />
+                          Revisões
+                        </button>
+                      )}
+
+                      <button
+                        onClick={() => setSigningOrder(order)}
+                        className="text-gray-700 hover:text-gray-900 flex items-center"
+                      >
+                        <PenLine className="h-4 w-4 mr-1" />
+                        Assinar
+                      </button>
+
+                      <button
+                        onClick={() => setGalleryOrder(order)}
+                        className="text-gray-700 hover:text-gray-900 flex items-center"
+                      >
+                        <Camera className="h-4 w-4 mr-1" />
+                        Fotos
+                      </button>
+
+                      {onEdit && order.status !== 'quote_approved' && (!isClosed(order) || order.status === 'completed') && (
+                        <button
+                          onClick={() => handleEdit(order)}
+                          className="text-gray-700 hover:text-gray-900 flex items-center"
+                        >
+                          {order.status === 'completed' ? (
+                            <>
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Reabrir
+                            </>
+                          ) : (
+                            <>
+                              <Pencil className="h-4 w-4 mr-1" />
+                              Editar
+                            </>
+                          )}
+                        </button>
+                      )}
+
+                      {canManage && !quote && !isClosed(order) && (
+                        <button
+                          onClick={() => setSchedulingOrder(order)}
+                          className="text-gray-700 hover:text-gray-900 flex items-center"
+                        >
+                          <CalendarClock className="h-4 w-4 mr-1" />
+                          Agendar
+                        </button>
+                      )}
+
+                      {!quote && (
+                        <button
+                          onClick={() => setHistoryOrderId(historyOrderId === order.id ? null : order.id)}
+                          className="text-gray-700 hover:text-gray-900 flex items-center"
+                        >
+                          <ListOrdered className="h-4 w-4 mr-1" />
+                          Histórico
+                        </button>
+                      )}
+
+                      {canManage && !order.warranty_order_id && order.status !== 'cancelled' && isUnderWarranty(warrantyUntil) && (
+                        <button
+                          onClick={() => handleWarrantyReturn(order)}
+                          className="text-gray-700 hover:text-gray-900 flex items-center"
+                        >
+                          <ShieldCheck className="h-4 w-4 mr-1" />
+                          Retorno em garantia
+                        </button>
+                      )}
+
+                      {order.maintenance_plan_id && (
+                        <button
+                          onClick={() => setChecklistOrderId(checklistOrderId === order.id ? null : order.id)}
+                          className="text-gray-700 hover:text-gray-900 flex items-center"
+                        >
+                          <ListChecks className="h-4 w-4 mr-1" />
+                          Checklist
+                        </button>
+                      )}
+
+                      {canManage && (
+                        <button
+                          onClick={() => handleDelete(order.id)}
+                          className="text-red-600 hover:text-red-900 flex items-center"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Excluir
+                        </button>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {order.signed_order_url ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => openSignedOrder(order)}
+                            className="inline-flex items-center px-4 py-2 border border-green-500 shadow-sm text-sm font-medium rounded text-white bg-green-600 hover:bg-green-700"
+                          >
+                            <FileDown className="h-5 w-5 mr-2" />
+                            Baixar OS Assinada
+                          </button>
+                          <div className="relative">
+                            <input
+                              type="file"
+                              accept=".pdf,image/*"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file && window.confirm('Esta OS já possui uma assinatura. Deseja substituí-la?')) {
+                                  handleSignedOrderUpload(order.id, file);
+                                }
+                              }}
+                              className="hidden"
+                              id={`signed-order-update-${order.id}`}
+                            />
+                            <label
+                              htmlFor={`signed-order-update-${order.id}`}
+                              className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
+                            >
+                              <Upload className="h-5 w-5 mr-2" />
+                              Atualizar OS Assinada
+                            </label>
+                          </div>
+                        </>
+                      ) : (
                         <div className="relative">
                           <input
                             type="file"
                             accept=".pdf,image/*"
                             onChange={(e) => {
                               const file = e.target.files?.[0];
-                              if (file && window.confirm('Esta OS já possui uma assinatura. Deseja substituí-la?')) {
-                                handleSignedOrderUpload(order.id, file);
-                              }
+                              if (file) handleSignedOrderUpload(order.id, file);
                             }}
                             className="hidden"
-                            id={`signed-order-update-${order.id}`}
+                            id={`signed-order-upload-${order.id}`}
                           />
                           <label
-                            htmlFor={`signed-order-update-${order.id}`}
-                            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded text-gray-700 bg-white hover:bg-gray-50 cursor-pointer"
+                            htmlFor={`signed-order-upload-${order.id}`}
+                            className="inline-flex items-center px-4 py-2 border border-blue-500 shadow-sm text-sm font-medium rounded text-white bg-blue-600 hover:bg-blue-700 cursor-pointer"
                           >
                             <Upload className="h-5 w-5 mr-2" />
-                            Atualizar OS Assinada
+                            Enviar OS Assinada
                           </label>
                         </div>
-                      </>
-                    ) : (
-                      <div className="relative">
-                        <input
-                          type="file"
-                          accept=".pdf,image/*"
-                          onChange={(e) => {
-                            const file = e.target.files?.[0];
-                            if (file) handleSignedOrderUpload(order.id, file);
-                          }}
-                          className="hidden"
-                          id={`signed-order-upload-${order.id}`}
-                        />
-                        <label
-                          htmlFor={`signed-order-upload-${order.id}`}
-                          className="inline-flex items-center px-4 py-2 border border-blue-500 shadow-sm text-sm font-medium rounded text-white bg-blue-600 hover:bg-blue-700 cursor-pointer"
-                        >
-                          <Upload className="h-5 w-5 mr-2" />
-                          Enviar OS Assinada
-                        </label>
-                      </div>
-                    )}
+                      )}
+                    </div>
                   </div>
-                </div>
-              </li>
-            ))}
+                  {historyOrderId === order.id && (
+                    <div className="mt-3 p-3 bg-gray-50 rounded-md">
+                      <ServiceOrderTimeline key={order.status} orderId={order.id} />
+                    </div>
+                  )}
+                  {checklistOrderId === order.id && (
+                    <div className="mt-3 p-3 bg-gray-50 rounded-md">
+                      <ServiceOrderChecklist orderId={order.id} readOnly={order.status === 'cancelled'} />
+                    </div>
+                  )}
+                  {revisions[order.id] && (
+                    <div className="mt-3 p-3 bg-gray-50 rounded-md text-sm text-gray-600 space-y-1">
+                      {revisions[order.id].length === 0 ? (
+                        <p>Nenhuma revisão anterior registrada</p>
+                      ) : revisions[order.id].map(revision => (
+                        <p key={revision.id}>
+                          v{revision.revision} — alterado em {format(new Date(revision.created_at), 'dd/MM/yyyy HH:mm')} —{' '}
+                          {new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(revision.snapshot.total_amount || 0)}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
           </ul>
         </div>
       </div>
+
+      {signingOrder && (
+        <ServiceOrderSignatures
+          order={signingOrder}
+          onClose={() => setSigningOrder(null)}
+          onGenerateSignedPDF={(order) => generatePDF(order, { signed: true })}
+        />
+      )}
+
+      {schedulingOrder && (
+        <ScheduleOrderModal
+          order={schedulingOrder}
+          onClose={() => setSchedulingOrder(null)}
+          onSaved={() => {
+            setSchedulingOrder(null);
+            loadOrders();
+          }}
+        />
+      )}
+
+      {receiptOrder && (
+        <ReceiptModal order={receiptOrder} onClose={() => setReceiptOrder(null)} />
+      )}
+
+      {pixOrder && (
+        <PixModal order={pixOrder} onClose={() => setPixOrder(null)} />
+      )}
+
+      {galleryOrder && (
+        <ServiceOrderGallery
+          order={galleryOrder}
+          onClose={() => setGalleryOrder(null)}
+          onIncludePhotosChange={(includePhotos) => {
+            setGalleryOrder({ ...galleryOrder, include_photos: includePhotos });
+            setOrders(prev => prev.map(o => o.id === galleryOrder.id ? { ...o, include_photos: includePhotos } : o));
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
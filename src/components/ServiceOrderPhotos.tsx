@@ -0,0 +1,92 @@
+import { Camera, Image as ImageIcon, X } from 'lucide-react';
+import { PHOTO_TYPES, type PhotoType } from '../lib/photos';
+
+export interface PhotoItem {
+  key: string;
+  url: string;
+  photo_type: PhotoType;
+}
+
+interface ServiceOrderPhotosProps {
+  photos: PhotoItem[];
+  onAdd: (files: File[], photoType: PhotoType) => void;
+  onRemove: (key: string) => void;
+  disabled?: boolean;
+}
+
+export function ServiceOrderPhotos({ photos, onAdd, onRemove, disabled }: ServiceOrderPhotosProps) {
+  const handleFiles = (files: FileList | null, photoType: PhotoType) => {
+    const images = Array.from(files || []).filter(file => file.type.startsWith('image/'));
+    if (images.length > 0) onAdd(images, photoType);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {PHOTO_TYPES.map(({ value, label }) => {
+        const typePhotos = photos.filter(photo => photo.photo_type === value);
+
+        return (
+          <div key={value} className="p-4 bg-gray-50 rounded-lg">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-medium text-gray-700">{label}</h4>
+              <span className="text-xs text-gray-500">{typePhotos.length} foto(s)</span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {typePhotos.map(photo => (
+                <div key={photo.key} className="relative aspect-square">
+                  <a href={photo.url} target="_blank" rel="noopener noreferrer">
+                    <img src={photo.url} alt={label} className="h-full w-full object-cover rounded-md" />
+                  </a>
+                  {!disabled && (
+                    <button
+                      type="button"
+                      onClick={() => onRemove(photo.key)}
+                      className="absolute -top-2 -right-2 p-1 rounded-full bg-red-600 text-white shadow"
+                      aria-label="Remover foto"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {!disabled && (
+              <div className="flex gap-2">
+                <label className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                  <Camera className="h-4 w-4 mr-1" />
+                  Câmera
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    className="hidden"
+                    onChange={(e) => {
+                      handleFiles(e.target.files, value);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <label className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                  <ImageIcon className="h-4 w-4 mr-1" />
+                  Galeria
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      handleFiles(e.target.files, value);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
\ No newline at end of file
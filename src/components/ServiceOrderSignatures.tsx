@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { FileDown, MapPin, PenLine, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCoordinates } from '../lib/geolocation';
+import { SIGNER_ROLE_LABELS, loadOrderSignatures, saveSignature } from '../lib/signatures';
+import { SignaturePad } from './SignaturePad';
+import type { ServiceOrder, ServiceOrderSignature, SignerRole } from '../types';
+
+interface ServiceOrderSignaturesProps {
+  order: ServiceOrder;
+  onClose: () => void;
+  onGenerateSignedPDF: (order: ServiceOrder) => Promise<void>;
+}
+
+const SIGNER_ROLES: SignerRole[] = ['customer', 'technician'];
+
+export function ServiceOrderSignatures({ order, onClose, onGenerateSignedPDF }: ServiceOrderSignaturesProps) {
+  const [signatures, setSignatures] = useState<ServiceOrderSignature[]>([]);
+  const [drafts, setDrafts] = useState<Record<SignerRole, string | null>>({ customer: null, technician: null });
+  const [names, setNames] = useState<Record<SignerRole, string>>({ customer: order.customer?.name || '', technician: '' });
+  const [editing, setEditing] = useState<Record<SignerRole, boolean>>({ customer: false, technician: false });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<SignerRole | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    loadOrderSignatures(order.id)
+      .then(setSignatures)
+      .catch(error => {
+        console.error('Erro ao carregar assinaturas:', error);
+        toast.error('Erro ao carregar assinaturas');
+      })
+      .finally(() => setLoading(false));
+  }, [order.id]);
+
+  const handleSave = async (role: SignerRole) => {
+    const dataUrl = drafts[role];
+    if (!names[role].trim()) {
+      toast.error('Informe o nome de quem está assinando');
+      return;
+    }
+    if (!dataUrl) {
+      toast.error('Desenhe a assinatura antes de salvar');
+      return;
+    }
+
+    setSaving(role);
+    try {
+      const signature = await saveSignature(order.id, role, names[role].trim(), dataUrl);
+      setSignatures(prev => [...prev.filter(s => s.signer_role !== role), signature]);
+      setDrafts(prev => ({ ...prev, [role]: null }));
+      setEditing(prev => ({ ...prev, [role]: false }));
+      toast.success('Assinatura salva com sucesso!');
+    } catch (error) {
+      console.error('Erro ao salvar assinatura:', error);
+      toast.error('Erro ao salvar assinatura');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      await onGenerateSignedPDF(order);
+      onClose();
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const isComplete = SIGNER_ROLES.every(role => signatures.some(s => s.signer_role === role));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-full overflow-y-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Assinaturas da OS</h2>
+            <p className="text-sm text-gray-500">{order.customer?.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700" aria-label="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          SIGNER_ROLES.map(role => {
+            const signature = signatures.find(s => s.signer_role === role);
+            const showPad = !signature || editing[role];
+            const location = signature ? formatCoordinates(signature.location_lat, signature.location_lng) : '';
+
+            return (
+              <div key={role} className="p-4 bg-gray-50 rounded-lg space-y-3">
+                <h3 className="text-sm font-medium text-gray-700">{SIGNER_ROLE_LABELS[role]}</h3>
+
+                {signature && !editing[role] && (
+                  <div className="space-y-2">
+                    <img src={signature.signature_url} alt={`Assinatura ${SIGNER_ROLE_LABELS[role]}`} className="h-24 bg-white border rounded-md" />
+                    <p className="text-sm text-gray-700">{signature.signer_name}</p>
+                    <p className="text-xs text-gray-500">
+                      Assinado em {format(new Date(signature.signed_at), 'dd/MM/yyyy HH:mm')}
+                    </p>
+                    {location && (
+                      <p className="text-xs text-gray-500 flex items-center">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        {location}
+                      </p>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setEditing(prev => ({ ...prev, [role]: true }))}
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <PenLine className="h-4 w-4 mr-1" />
+                      Assinar novamente
+                    </button>
+                  </div>
+                )}
+
+                {showPad && (
+                  <div className="space-y-3">
+                    <input
+                      type="text"
+                      value={names[role]}
+                      onChange={(e) => setNames(prev => ({ ...prev, [role]: e.target.value }))}
+                      placeholder="Nome de quem assina"
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                    <SignaturePad onChange={(dataUrl) => setDrafts(prev => ({ ...prev, [role]: dataUrl }))} />
+                    <div className="flex justify-end space-x-2">
+                      {signature && (
+                        <button
+                          type="button"
+                          onClick={() => setEditing(prev => ({ ...prev, [role]: false }))}
+                          className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                        >
+                          Cancelar
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleSave(role)}
+                        disabled={saving === role}
+                        className="inline-flex items-center px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Save className="h-4 w-4 mr-1" />
+                        Salvar assinatura
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleGenerate}
+            disabled={!isComplete || generating}
+            className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+          >
+            <FileDown className="h-5 w-5 mr-2" />
+            Gerar OS Assinada
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS, describeStatusChange, loadStatusHistory } from '../lib/orderStatus';
+import type { ServiceOrderStatusChange } from '../types';
+
+interface ServiceOrderTimelineProps {
+  orderId: string;
+}
+
+export function ServiceOrderTimeline({ orderId }: ServiceOrderTimelineProps) {
+  const [history, setHistory] = useState<ServiceOrderStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadStatusHistory(orderId)
+      .then(setHistory)
+      .catch(error => {
+        console.error('Erro ao carregar histórico da OS:', error);
+        toast.error('Erro ao carregar histórico da OS');
+      })
+      .finally(() => setLoading(false));
+  }, [orderId]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-16">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">Nenhuma mudança de situação registrada</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {history.map(change => (
+        <li key={change.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <div className="flex flex-wrap items-center gap-2">
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${ORDER_STATUS_COLORS[change.to_status] || 'text-gray-600 bg-gray-100'}`}>
+              {ORDER_STATUS_LABELS[change.to_status] || change.to_status}
+            </span>
+            <span className="text-xs text-gray-500">{format(new Date(change.changed_at), 'dd/MM/yyyy HH:mm')}</span>
+          </div>
+          <p className="mt-1 text-sm text-gray-700">{describeStatusChange(change)}</p>
+          {change.changed_by_email && <p className="text-xs text-gray-500">Por {change.changed_by_email}</p>}
+          {change.reason && <p className="text-xs text-gray-500">Motivo: {change.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
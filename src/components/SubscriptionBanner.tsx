@@ -0,0 +1,43 @@
+import { AlertTriangle, Clock } from 'lucide-react';
+import { SUBSCRIPTION_CHECKOUT_URL, getDaysLeft, isSubscriptionActive } from '../lib/subscription';
+import type { Subscription } from '../types';
+
+interface SubscriptionBannerProps {
+  subscription: Subscription | null;
+}
+
+export function SubscriptionBanner({ subscription }: SubscriptionBannerProps) {
+  const active = isSubscriptionActive(subscription);
+  if (active && subscription?.status === 'active') return null;
+
+  const daysLeft = getDaysLeft(subscription);
+  const days = `${daysLeft} ${daysLeft === 1 ? 'dia' : 'dias'}`;
+
+  let message = 'Assinatura expirada: modo somente leitura.';
+  if (active && subscription?.status === 'cancelled') {
+    message = `Assinatura cancelada: acesso completo por mais ${days}.`;
+  } else if (active) {
+    message = daysLeft === 0 ? 'Seu período de teste termina hoje.' : `Seu período de teste termina em ${days}.`;
+  }
+
+  return (
+    <div className={`mb-4 px-4 py-3 rounded-md flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm ${
+      active ? 'bg-blue-50 text-blue-800' : 'bg-red-50 text-red-800'
+    }`}>
+      <span className="flex items-center">
+        {active ? <Clock className="h-4 w-4 mr-2" /> : <AlertTriangle className="h-4 w-4 mr-2" />}
+        {message}
+      </span>
+      {SUBSCRIPTION_CHECKOUT_URL && (
+        <a
+          href={SUBSCRIPTION_CHECKOUT_URL}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium underline"
+        >
+          Assinar agora
+        </a>
+      )}
+    </div>
+  );
+}
\ No newline at end of file
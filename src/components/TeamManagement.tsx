@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Send, Trash2, UserPlus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  TEAM_ROLE_DESCRIPTIONS,
+  TEAM_ROLE_LABELS,
+  getAssignableRoles,
+  inviteTeamMember,
+  loadTeamMembers,
+  removeTeamMember,
+  updateMemberRole
+} from '../lib/team';
+import type { TeamMember, TeamRole } from '../types';
+
+interface TeamManagementProps {
+  currentMember: TeamMember;
+}
+
+interface InviteDraft {
+  email: string;
+  name: string;
+  role: TeamRole;
+}
+
+export function TeamManagement({ currentMember }: TeamManagementProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [invite, setInvite] = useState<InviteDraft | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const assignableRoles = getAssignableRoles(currentMember.role);
+
+  useEffect(() => {
+    loadTeamMembers()
+      .then(setMembers)
+      .catch(error => {
+        console.error('Erro ao carregar equipe:', error);
+        toast.error('Erro ao carregar equipe');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Escritório não altera donos; ninguém altera o próprio acesso por aqui
+  const canManage = (member: TeamMember) =>
+    member.id !== currentMember.id && assignableRoles.includes(member.role);
+
+  const handleInvite = async () => {
+    if (!invite) return;
+    if (!invite.email.trim()) {
+      toast.error('Informe o email');
+      return;
+    }
+
+    setSending(true);
+    try {
+      const { member, emailSent } = await inviteTeamMember(invite.email.trim(), invite.role, invite.name.trim());
+      setMembers(prev => [...prev, member]);
+      setInvite(null);
+      if (emailSent) {
+        toast.success('Convite enviado por email!');
+      } else {
+        toast.success('Convite registrado. Peça para a pessoa criar a conta com este email.');
+      }
+    } catch (error) {
+      console.error('Erro ao convidar membro:', error);
+      toast.error((error as Error).message || 'Erro ao convidar membro');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: TeamRole) => {
+    try {
+      await updateMemberRole(member.id, role);
+      setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m));
+      toast.success('Papel atualizado');
+    } catch (error) {
+      console.error('Erro ao atualizar papel:', error);
+      toast.error((error as Error).message || 'Erro ao atualizar papel');
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!window.confirm(`Remover ${member.name || member.email} da equipe?`)) return;
+
+    try {
+      await removeTeamMember(member.id);
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+      toast.success('Membro removido');
+    } catch (error) {
+      console.error('Erro ao remover membro:', error);
+      toast.error((error as Error).message || 'Erro ao remover membro');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Equipe</h2>
+          <p className="mt-1 text-sm text-gray-500">Quem tem acesso ao sistema e o que cada um pode fazer</p>
+        </div>
+        <button
+          onClick={() => setInvite({ email: '', name: '', role: 'technician' })}
+          className="inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <UserPlus className="h-5 w-5 mr-2" />
+          Convidar
+        </button>
+      </div>
+
+      {invite && (
+        <div className="mx-4 sm:mx-6 mb-4 p-4 bg-gray-50 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Email</label>
+              <input
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Nome</label>
+              <input
+                type="text"
+                value={invite.name}
+                onChange={(e) => setInvite({ ...invite, name: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Papel</label>
+              <select
+                value={invite.role}
+                onChange={(e) => setInvite({ ...invite, role: e.target.value as TeamRole })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {assignableRoles.map(role => (
+                  <option key={role} value={role}>{TEAM_ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{TEAM_ROLE_DESCRIPTIONS[invite.role]}</p>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setInvite(null)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleInvite}
+              disabled={sending}
+              className="inline-flex items-center px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4 mr-1" />
+              Enviar convite
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="border-t border-gray-200">
+        {loading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {members.map((member) => (
+              <li key={member.id} className="px-4 py-4 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {member.name || member.email}
+                    {member.id === currentMember.id && <span className="ml-2 text-xs text-gray-500">(você)</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">{member.name ? member.email : ''}</p>
+                  {member.accepted_at ? (
+                    <p className="text-xs text-green-700">Entrou em {format(new Date(member.accepted_at), 'dd/MM/yyyy')}</p>
+                  ) : (
+                    <p className="text-xs text-yellow-700">Convite pendente desde {format(new Date(member.invited_at), 'dd/MM/yyyy')}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {canManage(member) ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                        className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+                      >
+                        {assignableRoles.map(role => (
+                          <option key={role} value={role}>{TEAM_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRemove(member)}
+                        className="p-2 text-red-600 hover:text-red-800"
+                        aria-label="Remover membro"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium text-gray-700 bg-gray-100">
+                      {TEAM_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
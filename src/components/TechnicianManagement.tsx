@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Plus, Pencil, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { loadTechnicians } from '../lib/schedule';
+import type { Technician } from '../types';
+
+interface TechnicianManagementProps {
+  onBack: () => void;
+}
+
+interface TechnicianDraft {
+  id?: string;
+  name: string;
+  phone: string;
+  email: string;
+  color: string;
+  active: boolean;
+}
+
+const TECHNICIAN_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+const toDraft = (technician?: Technician, index = 0): TechnicianDraft => ({
+  id: technician?.id,
+  name: technician?.name || '',
+  phone: technician?.phone || '',
+  email: technician?.email || '',
+  color: technician?.color || TECHNICIAN_COLORS[index % TECHNICIAN_COLORS.length],
+  active: technician?.active ?? true
+});
+
+export function TechnicianManagement({ onBack }: TechnicianManagementProps) {
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<TechnicianDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTechnicians({ includeInactive: true })
+      .then(setTechnicians)
+      .catch(error => {
+        console.error('Erro ao carregar técnicos:', error);
+        toast.error('Erro ao carregar técnicos');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error('Informe o nome do técnico');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name: draft.name.trim(),
+        phone: draft.phone.trim() || null,
+        email: draft.email.trim() || null,
+        color: draft.color,
+        active: draft.active,
+        updated_at: new Date().toISOString()
+      };
+
+      const { data, error } = draft.id
+        ? await supabase.from('technicians').update(values).eq('id', draft.id).select().single()
+        : await supabase.from('technicians').insert([values]).select().single();
+
+      if (error) throw error;
+
+      setTechnicians(prev => (prev.some(t => t.id === data.id)
+        ? prev.map(t => t.id === data.id ? data : t)
+        : [...prev, data]
+      ).sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft(null);
+      toast.success('Técnico salvo com sucesso!');
+    } catch (error) {
+      console.error('Erro ao salvar técnico:', error);
+      toast.error('Erro ao salvar técnico');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-5 sm:px-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center">
+          <button onClick={onBack} className="p-2 mr-2 text-gray-500 hover:text-gray-700" aria-label="Voltar">
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Técnicos</h2>
+            <p className="mt-1 text-sm text-gray-500">Equipe que pode ser escalada nas ordens de serviço</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setDraft(toDraft(undefined, technicians.length))}
+          className="inline-flex items-center justify-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          <Plus className="h-5 w-5 mr-2" />
+          Novo Técnico
+        </button>
+      </div>
+
+      {draft && (
+        <div className="mx-4 sm:mx-6 mb-4 p-4 bg-gray-50 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Nome</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Telefone</label>
+              <input
+                type="tel"
+                value={draft.phone}
+                onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Email</label>
+              <input
+                type="email"
+                value={draft.email}
+                onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+              <p className="mt-1 text-xs text-gray-500">Ao entrar no sistema com este email, o técnico vê os serviços do dia</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Cor na agenda</span>
+              {TECHNICIAN_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, color })}
+                  className={`h-6 w-6 rounded-full border-2 ${draft.color === color ? 'border-gray-900' : 'border-white'}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={`Cor ${color}`}
+                />
+              ))}
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.active}
+                onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Ativo
+            </label>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center px-3 py-2 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4 mr-1" />
+              Salvar
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="border-t border-gray-200">
+        {loading ? (
+          <div className="flex justify-center items-center h-24">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : technicians.length === 0 ? (
+          <p className="px-4 py-4 sm:px-6 text-sm text-gray-500">Nenhum técnico cadastrado.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {technicians.map((technician) => (
+              <li key={technician.id} className="px-4 py-4 sm:px-6 flex items-center justify-between">
+                <div className="flex items-center">
+                  <span className="h-3 w-3 rounded-full mr-3" style={{ backgroundColor: technician.color }} />
+                  <div>
+                    <p className={`text-sm font-medium ${technician.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                      {technician.name}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {[technician.phone, technician.email].filter(Boolean).join(' · ') || '-'}
+                    </p>
+                    {technician.user_id && <p className="text-xs text-green-700">Acesso ao app vinculado</p>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => setDraft(toDraft(technician))}
+                  className="p-2 text-gray-500 hover:text-gray-700"
+                  aria-label="Editar técnico"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
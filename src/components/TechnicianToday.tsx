@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { differenceInMinutes, format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Clock, LogIn, LogOut, MapPin, Navigation, Package, Phone, CheckCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatAddress } from '../lib/customers';
+import { tryGetCurrentPosition } from '../lib/geolocation';
+import { getOrderNumber } from '../lib/orderNumbers';
+import { ORDER_STATUS_COLORS, ORDER_STATUS_LABELS, isClosed } from '../lib/orderStatus';
+import { formatDuration } from '../lib/schedule';
+import { checkIn, checkOut, getNavigationUrl, getPhoneUrl, loadTechnicianVisits, loadTodayJobs } from '../lib/technicianJobs';
+import { ServiceOrderChecklist } from './ServiceOrderChecklist';
+import type { ServiceOrder, ServiceOrderVisit, Technician } from '../types';
+
+interface TechnicianTodayProps {
+  technician: Technician;
+}
+
+export function TechnicianToday({ technician }: TechnicianTodayProps) {
+  const [jobs, setJobs] = useState<ServiceOrder[]>([]);
+  const [visits, setVisits] = useState<ServiceOrderVisit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyOrderId, setBusyOrderId] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  // Atualiza o tempo no local da visita em andamento
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(new Date()), 60000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const todayJobs = await loadTodayJobs(technician.id);
+      setJobs(todayJobs);
+      setVisits(await loadTechnicianVisits(technician.id, todayJobs.map(job => job.id)));
+    } catch (error) {
+      console.error('Erro ao carregar serviços do dia:', error);
+      toast.error('Erro ao carregar serviços do dia');
+    } finally {
+      setLoading(false);
+    }
+  }, [technician.id]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const getLocation = async () => {
+    const location = await tryGetCurrentPosition();
+    if (!location) {
+      toast.error('Não foi possível capturar a localização; o horário foi registrado mesmo assim');
+    }
+    return location;
+  };
+
+  const handleCheckIn = async (job: ServiceOrder) => {
+    setBusyOrderId(job.id);
+    try {
+      await checkIn(job.id, await getLocation());
+      toast.success('Check-in registrado');
+      await loadJobs();
+    } catch (error) {
+      console.error('Erro no check-in:', error);
+      toast.error((error as Error).message || 'Erro ao fazer check-in');
+    } finally {
+      setBusyOrderId(null);
+    }
+  };
+
+  const handleCheckOut = async (job: ServiceOrder, status: 'completed' | 'awaiting_parts') => {
+    setBusyOrderId(job.id);
+    try {
+      const visit = await checkOut(job.id, await getLocation(), status);
+      toast.success(`Check-out registrado${visit.minutes_on_site != null ? ` · ${formatDuration(visit.minutes_on_site)} no local` : ''}`);
+      await loadJobs();
+    } catch (error) {
+      console.error('Erro no check-out:', error);
+      toast.error((error as Error).message || 'Erro ao fazer check-out');
+    } finally {
+      setBusyOrderId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto space-y-4">
+      <div className="px-1">
+        <h2 className="text-lg font-medium text-gray-900">Meus serviços de hoje</h2>
+        <p className="text-sm text-gray-500 capitalize">{format(now, "EEEE, dd 'de' MMMM", { locale: ptBR })}</p>
+      </div>
+
+      {jobs.length === 0 && (
+        <div className="bg-white shadow rounded-lg p-6 text-center text-sm text-gray-500">
+          Nenhum serviço agendado para você hoje.
+        </div>
+      )}
+
+      {jobs.map(job => {
+        const jobVisits = visits.filter(visit => visit.service_order_id === job.id);
+        const openVisit = jobVisits.find(visit => !visit.check_out_at);
+        const minutesOnSite = jobVisits.reduce((total, visit) => total + (visit.check_out_at
+          ? visit.minutes_on_site || 0
+          : differenceInMinutes(now, new Date(visit.check_in_at))), 0);
+        const phoneUrl = getPhoneUrl(job);
+        const navigationUrl = getNavigationUrl(job);
+        const busy = busyOrderId === job.id;
+
+        return (
+          <div key={job.id} className={`bg-white shadow rounded-lg p-4 space-y-3 ${openVisit ? 'ring-2 ring-blue-500' : ''}`}>
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900 flex items-center">
+                  <Clock className="h-4 w-4 mr-1 text-gray-500" />
+                  {job.scheduled_start && format(new Date(job.scheduled_start), 'HH:mm')}
+                  {job.scheduled_end && ` – ${format(new Date(job.scheduled_end), 'HH:mm')}`}
+                  <span className="ml-2 text-blue-600">{getOrderNumber(job)}</span>
+                </p>
+                <p className="mt-1 text-base font-semibold text-gray-900">{job.customer?.name}</p>
+              </div>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ORDER_STATUS_COLORS[job.status] || 'text-gray-600 bg-gray-100'}`}>
+                {ORDER_STATUS_LABELS[job.status] || job.status}
+              </span>
+            </div>
+
+            {formatAddress(job.address) && (
+              <p className="text-sm text-gray-600 flex items-start">
+                <MapPin className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0 text-gray-400" />
+                {formatAddress(job.address)}
+              </p>
+            )}
+            {job.description && <p className="text-sm text-gray-600">{job.description}</p>}
+
+            {job.maintenance_plan_id && (
+              <div className="p-3 bg-gray-50 rounded-md">
+                <ServiceOrderChecklist orderId={job.id} readOnly={isClosed(job)} />
+              </div>
+            )}
+
+            {jobVisits.length > 0 && (
+              <p className="text-sm text-gray-700">
+                {openVisit
+                  ? `No local desde ${format(new Date(openVisit.check_in_at), 'HH:mm')} · ${formatDuration(minutesOnSite)}`
+                  : `Tempo no local: ${formatDuration(minutesOnSite)}`}
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <a
+                href={phoneUrl || undefined}
+                aria-disabled={!phoneUrl}
+                className={`inline-flex items-center justify-center px-3 py-3 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 ${phoneUrl ? '' : 'pointer-events-none opacity-50'}`}
+              >
+                <Phone className="h-5 w-5 mr-2" />
+                Ligar
+              </a>
+              <a
+                href={navigationUrl || undefined}
+                target="_blank"
+                rel="noopener noreferrer"
+                aria-disabled={!navigationUrl}
+                className={`inline-flex items-center justify-center px-3 py-3 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 ${navigationUrl ? '' : 'pointer-events-none opacity-50'}`}
+              >
+                <Navigation className="h-5 w-5 mr-2" />
+                Navegar
+              </a>
+            </div>
+
+            {openVisit ? (
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => handleCheckOut(job, 'completed')}
+                  disabled={busy}
+                  className="inline-flex items-center justify-center px-3 py-3 border border-transparent rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                >
+                  <CheckCircle className="h-5 w-5 mr-2" />
+                  Concluir
+                </button>
+                <button
+                  onClick={() => handleCheckOut(job, 'awaiting_parts')}
+                  disabled={busy}
+                  className="inline-flex items-center justify-center px-3 py-3 border border-transparent rounded-md text-sm font-medium text-white bg-orange-500 hover:bg-orange-600 disabled:opacity-50"
+                >
+                  <Package className="h-5 w-5 mr-2" />
+                  Aguardar peças
+                </button>
+                <p className="col-span-2 text-xs text-gray-500 flex items-center justify-center">
+                  <LogOut className="h-3 w-3 mr-1" />
+                  As duas opções registram o check-out
+                </p>
+              </div>
+            ) : !isClosed(job) && (
+              <button
+                onClick={() => handleCheckIn(job)}
+                disabled={busy}
+                className="w-full inline-flex items-center justify-center px-3 py-3 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <LogIn className="h-5 w-5 mr-2" />
+                Check-in
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+const UNITS = [
+  '', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove',
+  'dez', 'onze', 'doze', 'treze', 'quatorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove'
+];
+const TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const HUNDREDS = ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'];
+// Singular e plural de cada grupo de três dígitos, a partir do milhar
+const SCALES = [['', ''], ['mil', 'mil'], ['milhão', 'milhões'], ['bilhão', 'bilhões']];
+
+// 1 a 999
+function hundredsInWords(value: number) {
+  if (value === 100) return 'cem';
+
+  const rest = value % 100;
+  const parts = [HUNDREDS[Math.floor(value / 100)]];
+  if (rest < 20) {
+    parts.push(UNITS[rest]);
+  } else {
+    parts.push(TENS[Math.floor(rest / 10)], UNITS[rest % 10]);
+  }
+  return parts.filter(Boolean).join(' e ');
+}
+
+export function integerInWords(value: number) {
+  if (value === 0) return 'zero';
+
+  const groups: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  const parts = groups
+    .map((group, scale) => ({ group, scale }))
+    .filter(({ group }) => group > 0)
+    .reverse()
+    .map(({ group, scale }) => {
+      // "mil", e não "um mil"
+      if (scale === 1 && group === 1) return { group, words: 'mil' };
+      const [singular, plural] = SCALES[scale];
+      return { group, words: [hundredsInWords(group), group === 1 ? singular : plural].filter(Boolean).join(' ') };
+    });
+
+  // O último grupo leva "e" quando é menor que cem ou centena redonda: "mil e duzentos", "mil e cinquenta"
+  return parts
+    .map(({ group, words }, index) =>
+      index > 0 && index === parts.length - 1 && (group < 100 || group % 100 === 0) ? `e ${words}` : words)
+    .join(' ');
+}
+
+// Valor por extenso em reais: 1200.5 -> "mil e duzentos reais e cinquenta centavos"
+export function formatAmountInWords(value: number) {
+  const cents = Math.round(Math.abs(value) * 100);
+  const reais = Math.floor(cents / 100);
+  const centavos = cents % 100;
+  const parts: string[] = [];
+
+  if (reais > 0 || centavos === 0) {
+    // Milhões redondos pedem "de": "um milhão de reais"
+    const of = reais >= 1_000_000 && reais % 1_000_000 === 0 ? ' de' : '';
+    parts.push(`${integerInWords(reais)}${of} ${reais === 1 ? 'real' : 'reais'}`);
+  }
+  if (centavos > 0) {
+    parts.push(`${integerInWords(centavos)} ${centavos === 1 ? 'centavo' : 'centavos'}`);
+  }
+
+  return parts.join(' e ');
+}
\ No newline at end of file
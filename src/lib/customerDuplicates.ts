@@ -0,0 +1,173 @@
+import { supabase } from './supabase';
+import { normalizePhone } from './customers';
+import type { Customer, ServiceOrderAddress } from '../types';
+
+export type DuplicateReason = 'phone' | 'name' | 'address';
+
+export interface DuplicateGroup {
+  customers: Customer[];
+  reasons: DuplicateReason[];
+  orderCounts: Record<string, number>;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Mesmo telefone',
+  name: 'Nome parecido',
+  address: 'Mesmo endereço nas OS'
+};
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+export function normalizeName(name?: string) {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeAddress(address?: Partial<ServiceOrderAddress> | null) {
+  if (!address?.street) return '';
+
+  return [address.street, address.number, address.complement, address.city]
+    .map(part => normalizeName(part))
+    .join('|');
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+export function nameSimilarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Agrupa clientes que provavelmente são a mesma pessoa. Dois clientes caem no
+ * mesmo grupo quando compartilham telefone, têm nomes parecidos ou possuem OS
+ * no mesmo endereço; os grupos são transitivos (A~B e B~C juntam A, B e C).
+ */
+export async function findDuplicateGroups(): Promise<DuplicateGroup[]> {
+  const [{ data: customers, error: customersError }, { data: orders, error: ordersError }] = await Promise.all([
+    supabase.from('customers').select('*').order('created_at'),
+    supabase.from('service_orders').select('customer_id, address')
+  ]);
+
+  if (customersError) throw customersError;
+  if (ordersError) throw ordersError;
+
+  const list: Customer[] = customers || [];
+  const parent = new Map<string, string>(list.map(customer => [customer.id, customer.id]));
+  const reasons = new Map<string, Set<DuplicateReason>>();
+
+  const find = (id: string): string => {
+    const root = parent.get(id)!;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  const link = (ids: string[], reason: DuplicateReason) => {
+    const unique = [...new Set(ids)].filter(id => parent.has(id));
+    if (unique.length < 2) return;
+
+    unique.forEach(id => {
+      if (!reasons.has(id)) reasons.set(id, new Set());
+      reasons.get(id)!.add(reason);
+    });
+
+    const root = find(unique[0]);
+    unique.slice(1).forEach(id => parent.set(find(id), root));
+  };
+
+  const linkByKey = (entries: Array<[string, string]>, reason: DuplicateReason) => {
+    const buckets = new Map<string, string[]>();
+    entries.forEach(([key, id]) => {
+      if (!key) return;
+      buckets.set(key, [...(buckets.get(key) || []), id]);
+    });
+    buckets.forEach(ids => link(ids, reason));
+  };
+
+  linkByKey(
+    list.flatMap(customer =>
+      [customer.phone, ...(customer.phones || [])].map(phone => [normalizePhone(phone), customer.id] as [string, string])
+    ),
+    'phone'
+  );
+
+  linkByKey(
+    (orders || []).map(order => [normalizeAddress(order.address), order.customer_id] as [string, string]),
+    'address'
+  );
+
+  // Nomes só são comparados dentro da mesma inicial para não comparar todos contra todos
+  const byInitial = new Map<string, Array<{ id: string; name: string }>>();
+  list.forEach(customer => {
+    const name = normalizeName(customer.name);
+    if (!name) return;
+    byInitial.set(name[0], [...(byInitial.get(name[0]) || []), { id: customer.id, name }]);
+  });
+  byInitial.forEach(entries => {
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        if (nameSimilarity(entries[i].name, entries[j].name) >= NAME_SIMILARITY_THRESHOLD) {
+          link([entries[i].id, entries[j].id], 'name');
+        }
+      }
+    }
+  });
+
+  const orderCounts: Record<string, number> = {};
+  (orders || []).forEach(order => {
+    orderCounts[order.customer_id] = (orderCounts[order.customer_id] || 0) + 1;
+  });
+
+  const groups = new Map<string, Customer[]>();
+  list.forEach(customer => {
+    const root = find(customer.id);
+    groups.set(root, [...(groups.get(root) || []), customer]);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => ({
+      customers: group,
+      reasons: [...new Set(group.flatMap(customer => [...(reasons.get(customer.id) || [])]))],
+      orderCounts: Object.fromEntries(group.map(customer => [customer.id, orderCounts[customer.id] || 0]))
+    }));
+}
+
+export async function mergeCustomers(survivorId: string, duplicateIds: string[]): Promise<string> {
+  const { data, error } = await supabase.rpc('merge_customers', {
+    p_survivor_id: survivorId,
+    p_duplicate_ids: duplicateIds
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function undoCustomerMerge(mergeId: string) {
+  const { error } = await supabase.rpc('undo_customer_merge', { p_merge_id: mergeId });
+  if (error) throw error;
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import { onlyDigits } from './text';
+import type { Customer, ServiceOrderAddress } from '../types';
+
+// Compara só os 8 últimos dígitos: ignora +55, DDD e o 9 extra dos celulares antigos
+export function normalizePhone(phone?: string) {
+  const digits = onlyDigits(phone);
+  return digits.length >= 8 ? digits.slice(-8) : '';
+}
+
+// Formata CPF (11 dígitos) ou CNPJ (14 dígitos); outros valores voltam como vieram
+export function formatDocument(value?: string) {
+  const digits = onlyDigits(value);
+
+  if (digits.length === 11) {
+    return digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
+  }
+  if (digits.length === 14) {
+    return digits.replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, '$1.$2.$3/$4-$5');
+  }
+  return value || '';
+}
+
+export function formatAddress(address?: Partial<ServiceOrderAddress> | null) {
+  if (!address?.street) return '';
+
+  return [
+    `${address.street}, ${address.number || 's/n'}`,
+    address.complement,
+    address.neighborhood,
+    [address.city, address.state].filter(Boolean).join(' - ')
+  ].filter(Boolean).join(' - ');
+}
+
+export async function searchCustomers(term: string, limit = 10): Promise<Customer[]> {
+  // Vírgulas e parênteses quebram o filtro "or" do PostgREST
+  const query = term.replace(/[,()]/g, ' ').trim();
+
+  let request = supabase
+    .from('customers')
+    .select('*')
+    .order('name')
+    .limit(limit);
+
+  if (query) {
+    const filters = [`name.ilike.%${query}%`];
+    const digits = onlyDigits(query);
+    if (digits) {
+      // phone_digits junta o telefone principal e os adicionais, só com dígitos
+      filters.push(`phone_digits.ilike.%${normalizePhone(digits) || digits}%`, `document.ilike.%${digits}%`);
+    }
+    request = request.or(filters.join(','));
+  }
+
+  const { data, error } = await request;
+  if (error) throw error;
+  return data || [];
+}
+
+// Endereço sugerido ao escolher um cliente: o primeiro salvo ou o da última OS
+export async function getDefaultAddress(customer: Customer): Promise<ServiceOrderAddress | null> {
+  if (customer.addresses && customer.addresses.length > 0) {
+    return customer.addresses[0];
+  }
+
+  const { data, error } = await supabase
+    .from('service_orders')
+    .select('address')
+    .eq('customer_id', customer.id)
+    .not('address', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+  return data?.[0]?.address || null;
+}
\ No newline at end of file
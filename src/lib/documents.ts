@@ -0,0 +1,597 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import html2pdf from 'html2pdf.js';
+import { supabase } from './supabase';
+import { formatAmountInWords } from './amountInWords';
+import { formatDocument } from './customers';
+import { formatCoordinates } from './geolocation';
+import { getOrderNumber, orderFileName } from './orderNumbers';
+import { describeStatusChange, loadStatusHistory } from './orderStatus';
+import { PHOTO_TYPES, fetchAsDataUrl, loadOrderPhotos } from './photos';
+import { getCompanyPixPayload } from './pix';
+import { renderQrCodeDataUrl } from './qrcode';
+import { getQuoteRevisionLabel } from './quotes';
+import { getPaymentMethodLabel } from './receipts';
+import { getEquipmentTypeLabel, getServiceTypeLabel } from './servicePrices';
+import { loadOrderSignatures } from './signatures';
+import { getSignedUrl } from './storage';
+import { formatWarrantyDate } from './warranty';
+import type {
+  CompanyInformation,
+  Customer,
+  OrderService,
+  PaymentReceipt,
+  PdfHeaderLayout,
+  ServiceOrder,
+  ServiceOrderPhoto,
+  ServiceOrderSignature,
+  ServiceOrderStatusChange
+} from '../types';
+
+export type DocumentTemplate = 'quote' | 'service_order' | 'receipt' | 'completion_report';
+
+export const DOCUMENT_TITLES: Record<DocumentTemplate, string> = {
+  quote: 'Orçamento',
+  service_order: 'Ordem de Serviço',
+  receipt: 'Recibo',
+  completion_report: 'Relatório de Conclusão'
+};
+
+const FILE_PREFIXES: Record<DocumentTemplate, string> = {
+  quote: 'orcamento',
+  service_order: 'OS',
+  receipt: 'recibo',
+  completion_report: 'relatorio'
+};
+
+export type DocumentOrder = Pick<ServiceOrder,
+  | 'id' | 'order_number' | 'status' | 'created_at' | 'address' | 'include_photos' | 'valid_until' | 'quote_revision'
+  | 'services_amount' | 'materials_amount' | 'discount_amount' | 'total_amount'
+>;
+
+export type DocumentService = Pick<OrderService,
+  'service_type' | 'equipment_type' | 'equipment_power' | 'description' | 'price' | 'warranty_until'
+> & { id?: string };
+
+export interface DocumentMaterial {
+  order_service_id?: string;
+  name: string;
+  unit?: string;
+  quantity: number;
+  unit_price: number;
+}
+
+// Tudo o que os modelos precisam, já carregado: montar o HTML não consulta o banco
+export interface OrderDocumentData {
+  order: DocumentOrder;
+  company: CompanyInformation | null;
+  customer?: Pick<Customer, 'name' | 'phone' | 'document'>;
+  services: DocumentService[];
+  materials: DocumentMaterial[];
+  photos: Array<Pick<ServiceOrderPhoto, 'photo_url' | 'photo_type'>>;
+  signatures: ServiceOrderSignature[];
+  statusHistory: ServiceOrderStatusChange[];
+  // Pagamento do recibo; sem ele, o recibo é do valor total da OS
+  receipt?: PaymentReceipt;
+  // Documento gerado do formulário antes de a OS ser salva (ainda sem número)
+  draft?: boolean;
+}
+
+// Texto digitado pelo usuário nunca entra cru no innerHTML
+export function escapeHtml(value: unknown) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export const formatMoney = (value?: number | null) => `R$ ${Number(value || 0).toFixed(2)}`;
+
+export async function loadCompanyInfo(): Promise<CompanyInformation | null> {
+  const { data, error } = await supabase
+    .from('company_info')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Erro ao carregar empresa:', error);
+    return null;
+  }
+  return data;
+}
+
+// Dados de uma OS já salva para qualquer um dos modelos
+export async function loadOrderDocumentData(order: ServiceOrder): Promise<OrderDocumentData> {
+  const [servicesResult, materialsResult, company, photos, signatures, statusHistory] = await Promise.all([
+    supabase
+      .from('order_services')
+      .select('id, service_type, equipment_type, equipment_power, description, price, warranty_until')
+      .eq('service_order_id', order.id)
+      .order('created_at'),
+    supabase
+      .from('service_order_materials')
+      .select('order_service_id, quantity, unit_price, material:materials(name, unit)')
+      .eq('service_order_id', order.id),
+    loadCompanyInfo(),
+    loadOrderPhotos(order.id),
+    loadOrderSignatures(order.id),
+    loadStatusHistory(order.id)
+  ]);
+
+  if (servicesResult.error) throw servicesResult.error;
+  if (materialsResult.error) throw materialsResult.error;
+
+  return {
+    order,
+    company,
+    customer: order.customer,
+    services: servicesResult.data || [],
+    materials: (materialsResult.data || []).map(item => {
+      const material = item.material as unknown as { name?: string; unit?: string } | null;
+      return {
+        order_service_id: item.order_service_id || undefined,
+        name: material?.name || '',
+        unit: material?.unit,
+        quantity: item.quantity,
+        unit_price: item.unit_price
+      };
+    }),
+    photos,
+    signatures,
+    statusHistory
+  };
+}
+
+// Blocos comuns
+
+const cell = 'padding: 8px; border: 1px solid #e5e7eb;';
+
+export const PDF_HEADER_LAYOUTS: Array<{ value: PdfHeaderLayout; label: string }> = [
+  { value: 'logo_right', label: 'Dados à esquerda, logo à direita' },
+  { value: 'logo_left', label: 'Logo à esquerda, dados à direita' },
+  { value: 'centered', label: 'Centralizado' }
+];
+
+export const DEFAULT_BRAND_COLORS = { primary: '#000000', secondary: '#f3f4f6' };
+
+// As cores entram direto no style: qualquer valor fora do formato #rrggbb volta ao padrão
+const pickColor = (value: string | undefined, fallback: string) =>
+  value && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+
+export const getBrandColors = (company: CompanyInformation | null) => ({
+  primary: pickColor(company?.brand_primary_color, DEFAULT_BRAND_COLORS.primary),
+  secondary: pickColor(company?.brand_secondary_color, DEFAULT_BRAND_COLORS.secondary)
+});
+
+const sectionTitle = (company: CompanyInformation | null) =>
+  `margin-bottom: 10px; border-bottom: 1px solid #ccc; padding-bottom: 5px; color: ${getBrandColors(company).primary};`;
+
+// Texto livre com quebras de linha preservadas
+const renderText = (value?: string | null) => escapeHtml(value).replace(/\n/g, '<br>');
+
+export const wrapDocument = (content: string, style = '') =>
+  `<div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; ${style}">${content}</div>`;
+
+export async function renderCompanyHeader(company: CompanyInformation | null) {
+  // O html2canvas só inclui a logo no PDF se ela estiver em base64
+  const logo = company?.logo
+    ? await getSignedUrl('company', company.logo).then(fetchAsDataUrl).catch(() => '')
+    : '';
+  const { primary } = getBrandColors(company);
+  const layout = company?.pdf_header_layout || 'logo_right';
+  const centered = layout === 'centered';
+
+  const details = `
+    <div style="text-align: ${centered ? 'center' : layout === 'logo_left' ? 'right' : 'left'};">
+      <h2 style="margin: 0; font-size: 24px; color: ${primary};">${escapeHtml(company?.name)}</h2>
+      <p style="margin: 5px 0;">CNPJ: ${escapeHtml(company?.cnpj)}</p>
+      <p style="margin: 5px 0;">Tel: ${escapeHtml(company?.phone)}</p>
+      <p style="margin: 5px 0;">Email: ${escapeHtml(company?.email)}</p>
+    </div>
+  `;
+  const logoBlock = logo ? `
+    <div style="text-align: ${centered ? 'center' : layout === 'logo_left' ? 'left' : 'right'};${centered ? ' margin-bottom: 10px;' : ''}">
+      <img src="${logo}" alt="Logo" style="max-height: 120px; max-width: 200px; object-fit: contain;"/>
+    </div>
+  ` : '';
+
+  return `
+    <div style="${centered ? '' : 'display: flex; justify-content: space-between; align-items: start; '}margin-bottom: 30px; border-bottom: 2px solid ${primary}; padding-bottom: 20px;">
+      ${layout === 'logo_right' ? `${details}${logoBlock}` : `${logoBlock}${details}`}
+    </div>
+  `;
+}
+
+// Texto de rodapé da empresa, no fim de todos os documentos
+export function renderFooter(company: CompanyInformation | null) {
+  if (!company?.pdf_footer_text?.trim()) return '';
+
+  return `
+    <div style="margin-top: 30px; padding-top: 10px; border-top: 1px solid ${getBrandColors(company).primary}; font-size: 11px; color: #666; text-align: center;">
+      ${renderText(company.pdf_footer_text)}
+    </div>
+  `;
+}
+
+const getDocumentNumber = ({ order, draft }: OrderDocumentData, template: DocumentTemplate) =>
+  draft ? (template === 'quote' ? '(NOVO)' : '(NOVA)') : escapeHtml(getOrderNumber(order));
+
+function renderTitle(data: OrderDocumentData, template: DocumentTemplate, details: string[] = []) {
+  const revision = template === 'quote' && !data.draft ? ` (${getQuoteRevisionLabel(data.order)})` : '';
+
+  return `
+    <div style="text-align: right; margin-bottom: 20px;">
+      <h1 style="margin: 0; font-size: 22px;">${DOCUMENT_TITLES[template]} ${getDocumentNumber(data, template)}${revision}</h1>
+      <p style="margin: 5px 0;">Data: ${format(new Date(data.order.created_at), 'dd/MM/yyyy')}</p>
+      ${details.map(detail => `<p style="margin: 5px 0;">${detail}</p>`).join('')}
+    </div>
+  `;
+}
+
+function renderCustomerSection({ company, customer, order: { address } }: OrderDocumentData) {
+  return `
+    <div style="margin-bottom: 30px;">
+      <h3 style="${sectionTitle(company)}">Informações do Cliente</h3>
+      <p style="margin: 5px 0;"><strong>Nome:</strong> ${escapeHtml(customer?.name)}</p>
+      ${customer?.document ? `<p style="margin: 5px 0;"><strong>CPF/CNPJ:</strong> ${escapeHtml(formatDocument(customer.document))}</p>` : ''}
+      <p style="margin: 5px 0;"><strong>Telefone:</strong> ${escapeHtml(customer?.phone)}</p>
+      <p style="margin: 5px 0;"><strong>Endereço:</strong> ${address?.street ? `${escapeHtml(address.street)}, ${escapeHtml(address.number)}` : ''}</p>
+      ${address?.complement ? `<p style="margin: 5px 0;"><strong>Complemento:</strong> ${escapeHtml(address.complement)}</p>` : ''}
+      <p style="margin: 5px 0;">${escapeHtml(address?.neighborhood)} - ${escapeHtml(address?.city)} - ${escapeHtml(address?.state)}</p>
+      ${address?.zipCode ? `<p style="margin: 5px 0;"><strong>CEP:</strong> ${escapeHtml(address.zipCode)}</p>` : ''}
+    </div>
+  `;
+}
+
+function renderMaterialsTable(items: DocumentMaterial[], company: CompanyInformation | null) {
+  if (items.length === 0) return '';
+
+  return `
+    <table style="width: 100%; border-collapse: collapse; margin-top: 10px;">
+      <thead>
+        <tr style="background-color: ${getBrandColors(company).secondary};">
+          <th style="${cell} text-align: left;">Material</th>
+          <th style="${cell} text-align: center;">Qtd.</th>
+          <th style="${cell} text-align: right;">Valor Unit.</th>
+          <th style="${cell} text-align: right;">Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${items.map(item => `
+          <tr>
+            <td style="${cell}">${escapeHtml(item.name)}</td>
+            <td style="${cell} text-align: center;">${item.quantity} ${escapeHtml(item.unit)}</td>
+            <td style="${cell} text-align: right;">${formatMoney(item.unit_price)}</td>
+            <td style="${cell} text-align: right;">${formatMoney(item.unit_price * item.quantity)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+function renderServicesSection({ company, services, materials }: OrderDocumentData, heading: string, { showWarranty = false } = {}) {
+  const serviceIds = services.map(service => service.id).filter(Boolean);
+  const generalMaterials = materials.filter(item => !item.order_service_id || !serviceIds.includes(item.order_service_id));
+
+  return `
+    <div style="margin-bottom: 30px;">
+      <h3 style="${sectionTitle(company)}">${heading}</h3>
+      ${services.map((service, index) => `
+        <div style="margin-left: 20px; margin-bottom: 15px; padding: 10px; background-color: #f9fafb; border-radius: 4px;">
+          <h4 style="margin: 0 0 10px 0;">Serviço ${index + 1}</h4>
+          <p style="margin: 5px 0;"><strong>Tipo de Serviço:</strong> ${escapeHtml(getServiceTypeLabel(service.service_type))}</p>
+          ${service.equipment_type ? `<p style="margin: 5px 0;"><strong>Equipamento:</strong> ${escapeHtml(getEquipmentTypeLabel(service.equipment_type))}</p>` : ''}
+          ${service.equipment_power ? `<p style="margin: 5px 0;"><strong>Potência:</strong> ${escapeHtml(service.equipment_power)} BTUs</p>` : ''}
+          ${service.description ? `<p style="margin: 5px 0;"><strong>Descrição:</strong> ${escapeHtml(service.description)}</p>` : ''}
+          ${service.price ? `<p style="margin: 5px 0;"><strong>Valor:</strong> ${formatMoney(service.price)}</p>` : ''}
+          ${showWarranty && service.warranty_until ? `<p style="margin: 5px 0;"><strong>Garantia até:</strong> ${formatWarrantyDate(service.warranty_until)}</p>` : ''}
+          ${service.id ? renderMaterialsTable(materials.filter(item => item.order_service_id === service.id), company) : ''}
+        </div>
+      `).join('')}
+    </div>
+
+    ${generalMaterials.length > 0 ? `
+      <div style="margin-bottom: 30px;">
+        <h3 style="${sectionTitle(company)}">${serviceIds.length > 0 ? 'Outros Materiais' : 'Materiais Utilizados'}</h3>
+        ${renderMaterialsTable(generalMaterials, company)}
+      </div>
+    ` : ''}
+  `;
+}
+
+async function renderPhotosSection({ company, photos }: OrderDocumentData) {
+  if (photos.length === 0) return '';
+
+  const groups = await Promise.all(PHOTO_TYPES.map(async ({ value, label }) => {
+    const urls = await Promise.all(photos
+      .filter(photo => photo.photo_type === value)
+      .map(photo => fetchAsDataUrl(photo.photo_url).catch(() => '')));
+    const images = urls.filter(Boolean);
+
+    return images.length === 0 ? '' : `
+      <div style="margin-bottom: 15px; page-break-inside: avoid;">
+        <h4 style="margin: 0 0 10px 0;">${label}</h4>
+        <div style="display: flex; flex-wrap: wrap; gap: 10px;">
+          ${images.map(src => `<img src="${src}" style="width: 30%; height: 150px; object-fit: cover; border: 1px solid #e5e7eb;"/>`).join('')}
+        </div>
+      </div>
+    `;
+  }));
+
+  return `
+    <div style="margin-bottom: 30px;">
+      <h3 style="${sectionTitle(company)}">Registro Fotográfico</h3>
+      ${groups.join('')}
+    </div>
+  `;
+}
+
+function renderTotals({ company, order }: OrderDocumentData) {
+  const { primary } = getBrandColors(company);
+
+  return `
+    <div style="margin-bottom: 30px; text-align: right; page-break-inside: avoid;">
+      <table style="width: 300px; margin-left: auto;">
+        <tr>
+          <td style="padding: 8px;"><strong>Valor dos Materiais:</strong></td>
+          <td style="padding: 8px; text-align: right;">${formatMoney(order.materials_amount)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px;"><strong>Valor do Serviço:</strong></td>
+          <td style="padding: 8px; text-align: right;">${formatMoney(order.services_amount)}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px;"><strong>Desconto:</strong></td>
+          <td style="padding: 8px; text-align: right; color: #047857;">- ${formatMoney(order.discount_amount)}</td>
+        </tr>
+        <tr style="font-weight: bold; font-size: 1.1em;">
+          <td style="padding: 8px; border-top: 2px solid ${primary};"><strong>Total Final:</strong></td>
+          <td style="padding: 8px; text-align: right; border-top: 2px solid ${primary};">${formatMoney(order.total_amount)}</td>
+        </tr>
+      </table>
+    </div>
+  `;
+}
+
+// Código "copia e cola" do valor total; txid é o número da OS (rascunhos ainda não têm)
+export const getOrderPixPayload = ({ company, order, draft }: Pick<OrderDocumentData, 'company' | 'order' | 'draft'>) =>
+  (order.total_amount || 0) > 0
+    ? getCompanyPixPayload(company, order.total_amount || 0, draft ? undefined : getOrderNumber(order))
+    : null;
+
+function renderPixSection(data: OrderDocumentData) {
+  const payload = getOrderPixPayload(data);
+  if (!payload) return '';
+
+  return `
+    <div style="margin-bottom: 30px; display: flex; align-items: center; gap: 20px; page-break-inside: avoid;">
+      <img src="${renderQrCodeDataUrl(payload, { scale: 4 })}" style="width: 140px; height: 140px;" />
+      <div style="flex: 1; font-size: 12px;">
+        <h3 style="${sectionTitle(data.company)}">Pague com PIX</h3>
+        <p style="margin: 5px 0;">Aponte a câmera do app do banco para o QR Code ou use o código PIX copia e cola:</p>
+        <p style="margin: 5px 0; font-family: monospace; word-break: break-all;">${escapeHtml(payload)}</p>
+      </div>
+    </div>
+  `;
+}
+
+const renderLines = (lines: string[]) => lines
+  .map((line, index) => index === 0
+    ? `<p style="margin: 0;">${escapeHtml(line)}</p>`
+    : `<p style="margin: 5px 0; font-size: 12px;">${escapeHtml(line)}</p>`)
+  .join('');
+
+// Linha de assinatura: imagem (quando assinada no aparelho), nome e detalhes
+export async function renderSignatureBlock(signature: ServiceOrderSignature | undefined, lines: string[]) {
+  if (!signature) {
+    return `
+      <div style="border-top: 1px solid #000; padding-top: 5px;">
+        ${renderLines(lines)}
+      </div>
+    `;
+  }
+
+  const image = await fetchAsDataUrl(signature.signature_url).catch(() => '');
+  const location = formatCoordinates(signature.location_lat, signature.location_lng);
+
+  return `
+    ${image ? `<img src="${image}" alt="Assinatura" style="max-height: 80px; max-width: 100%; object-fit: contain;"/>` : ''}
+    <div style="border-top: 1px solid #000; padding-top: 5px;">
+      ${renderLines(lines)}
+      <p style="margin: 5px 0; font-size: 10px; color: #666;">
+        Assinado por ${escapeHtml(signature.signer_name)} em ${format(new Date(signature.signed_at), 'dd/MM/yyyy HH:mm')}
+        ${location ? `<br>Local: ${escapeHtml(location)}` : ''}
+      </p>
+    </div>
+  `;
+}
+
+async function renderSignatures({ signatures, customer, company }: OrderDocumentData) {
+  const customerSignature = await renderSignatureBlock(
+    signatures.find(signature => signature.signer_role === 'customer'),
+    ['Cliente', customer?.name || '']
+  );
+  const technicianSignature = await renderSignatureBlock(
+    signatures.find(signature => signature.signer_role === 'technician'),
+    [company?.name || '', `CNPJ: ${company?.cnpj || ''}`]
+  );
+
+  return `
+    <div style="margin-top: 50px; page-break-inside: avoid;">
+      <div style="display: flex; justify-content: space-between; align-items: flex-end;">
+        <div style="width: 45%; text-align: center;">
+          ${customerSignature}
+        </div>
+        <div style="width: 45%; text-align: center;">
+          ${technicianSignature}
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+// Histórico de situações no rodapé
+function renderStatusTimeline(history: ServiceOrderStatusChange[]) {
+  if (history.length === 0) return '';
+
+  return `
+    <div style="margin-top: 30px; padding-top: 10px; border-top: 1px solid #ccc; font-size: 10px; color: #666; page-break-inside: avoid;">
+      <p style="margin: 0 0 5px 0; font-weight: bold;">Histórico da OS</p>
+      ${history.map(change => `
+        <p style="margin: 2px 0;">
+          ${format(new Date(change.changed_at), 'dd/MM/yyyy HH:mm')} — ${escapeHtml(describeStatusChange(change))}
+          ${change.changed_by_email ? ` (${escapeHtml(change.changed_by_email)})` : ''}
+          ${change.reason ? ` — Motivo: ${escapeHtml(change.reason)}` : ''}
+        </p>
+      `).join('')}
+    </div>
+  `;
+}
+
+// Condições da empresa: pagamento, garantia dos tipos de serviço do documento e validade do orçamento
+function renderTerms({ company, order, services }: OrderDocumentData, template: DocumentTemplate) {
+  const warrantyClauses = Array.from(new Set(services.map(service => service.service_type)))
+    .map(serviceType => ({ serviceType, clause: company?.warranty_terms?.[serviceType]?.trim() }))
+    .filter(({ clause }) => !!clause);
+  const validity = template === 'quote' ? formatQuoteValidityText(company, order.valid_until) : '';
+  const payment = template !== 'completion_report' ? company?.payment_terms?.trim() : '';
+
+  if (!payment && warrantyClauses.length === 0 && !validity) return '';
+
+  return `
+    <div style="margin-bottom: 30px; font-size: 12px; page-break-inside: avoid;">
+      <h3 style="${sectionTitle(company)}">Condições</h3>
+      ${payment ? `<p style="margin: 5px 0;"><strong>Pagamento:</strong> ${renderText(payment)}</p>` : ''}
+      ${warrantyClauses.map(({ serviceType, clause }) => `
+        <p style="margin: 5px 0;"><strong>Garantia (${escapeHtml(getServiceTypeLabel(serviceType))}):</strong> ${renderText(clause)}</p>
+      `).join('')}
+      ${validity ? `<p style="margin: 5px 0;"><strong>Validade:</strong> ${renderText(validity)}</p>` : ''}
+    </div>
+  `;
+}
+
+// {validade} no texto vira a data de validade do orçamento
+export function formatQuoteValidityText(company: CompanyInformation | null, validUntil?: string | null) {
+  const text = company?.quote_validity_text?.trim();
+  if (!text) return '';
+
+  return text.replace(/\{validade\}/g, validUntil ? format(new Date(`${validUntil}T00:00:00`), 'dd/MM/yyyy') : '-');
+}
+
+const getCompletedAt = (history: ServiceOrderStatusChange[]) =>
+  history.find(change => change.to_status === 'completed')?.changed_at;
+
+// Modelos
+
+const TEMPLATES: Record<DocumentTemplate, (data: OrderDocumentData) => Promise<string>> = {
+  quote: async data => `
+    ${await renderCompanyHeader(data.company)}
+    ${renderTitle(data, 'quote', data.order.valid_until
+      ? [`Válido até: ${format(new Date(`${data.order.valid_until}T00:00:00`), 'dd/MM/yyyy')}`]
+      : [])}
+    ${renderCustomerSection(data)}
+    ${renderServicesSection(data, 'Serviços Orçados')}
+    ${data.order.include_photos ? await renderPhotosSection(data) : ''}
+    ${renderTotals(data)}
+    ${renderPixSection(data)}
+    ${renderTerms(data, 'quote')}
+    ${await renderSignatures(data)}
+  `,
+
+  service_order: async data => `
+    ${await renderCompanyHeader(data.company)}
+    ${renderTitle(data, 'service_order')}
+    ${renderCustomerSection(data)}
+    ${renderServicesSection(data, 'Serviços Realizados', { showWarranty: true })}
+    ${data.order.include_photos ? await renderPhotosSection(data) : ''}
+    ${renderTotals(data)}
+    ${renderPixSection(data)}
+    ${renderTerms(data, 'service_order')}
+    ${await renderSignatures(data)}
+    ${renderStatusTimeline(data.statusHistory)}
+  `,
+
+  receipt: async data => {
+    const { order, customer, company, services, receipt } = data;
+    const serviceNames = Array.from(new Set(services.map(service => getServiceTypeLabel(service.service_type))));
+    const amount = receipt ? Number(receipt.amount) : order.total_amount || 0;
+    const payerName = receipt?.payer_name || customer?.name;
+    const payerDocument = receipt ? receipt.payer_document : customer?.document;
+    const paidAt = receipt ? new Date(`${receipt.paid_at}T00:00:00`) : new Date();
+    const partial = amount < (order.total_amount || 0);
+
+    return `
+      ${await renderCompanyHeader(company)}
+      <div style="text-align: right; margin-bottom: 20px;">
+        <h1 style="margin: 0; font-size: 22px;">${DOCUMENT_TITLES.receipt}${receipt ? ` ${escapeHtml(receipt.receipt_number)}` : ''}</h1>
+        <p style="margin: 5px 0;"><strong>Valor: ${formatMoney(amount)}</strong></p>
+      </div>
+      <p style="margin: 30px 0; font-size: 15px; line-height: 1.8; text-align: justify;">
+        Recebemos de <strong>${escapeHtml(payerName)}</strong>${payerDocument ? `, CPF/CNPJ ${escapeHtml(formatDocument(payerDocument))},` : ''}
+        a importância de <strong>${formatMoney(amount)}</strong> (${formatAmountInWords(amount)}),
+        ${partial ? `como pagamento parcial do total de ${formatMoney(order.total_amount)}, ` : ''}referente a
+        ${escapeHtml(serviceNames.join(', ') || 'serviços')} conforme ${DOCUMENT_TITLES.service_order} ${getDocumentNumber(data, 'service_order')}${receipt ? `,
+        por meio de ${escapeHtml(getPaymentMethodLabel(receipt.payment_method))}` : ''}.
+        Para maior clareza, firmamos o presente recibo.
+      </p>
+      <p style="margin: 30px 0; text-align: right;">
+        ${order.address?.city ? `${escapeHtml(order.address.city)}, ` : ''}${format(paidAt, "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+      </p>
+      <div style="margin: 60px auto 0; width: 60%; text-align: center;">
+        ${await renderSignatureBlock(undefined, [company?.name || '', `CNPJ: ${company?.cnpj || ''}`])}
+      </div>
+    `;
+  },
+
+  completion_report: async data => {
+    const completedAt = getCompletedAt(data.statusHistory);
+
+    return `
+      ${await renderCompanyHeader(data.company)}
+      ${renderTitle(data, 'completion_report', [
+        `${DOCUMENT_TITLES.service_order} ${getDocumentNumber(data, 'service_order')}`,
+        ...(completedAt ? [`Concluída em: ${format(new Date(completedAt), 'dd/MM/yyyy HH:mm')}`] : [])
+      ])}
+      ${renderCustomerSection(data)}
+      ${renderServicesSection(data, 'Serviços Executados', { showWarranty: true })}
+      ${await renderPhotosSection(data)}
+      ${renderTerms(data, 'completion_report')}
+      ${await renderSignatures(data)}
+      ${renderStatusTimeline(data.statusHistory)}
+    `;
+  }
+};
+
+export async function renderOrderDocument(template: DocumentTemplate, data: OrderDocumentData) {
+  return wrapDocument(`${await TEMPLATES[template](data)}${renderFooter(data.company)}`);
+}
+
+export function getDocumentFileName(template: DocumentTemplate, { order, draft, receipt }: OrderDocumentData) {
+  if (draft) return `${FILE_PREFIXES[template]}_${template === 'quote' ? 'novo' : 'nova'}.pdf`;
+  if (template === 'receipt' && receipt) return `${FILE_PREFIXES.receipt}_${receipt.receipt_number.replace(/[^\w-]/g, '_')}.pdf`;
+  return orderFileName(FILE_PREFIXES[template], order);
+}
+
+// Único caminho de renderização de PDF do sistema. onBlob recebe o arquivo antes do
+// download (ex.: para enviar a OS assinada ao storage)
+export async function savePdf(html: string, filename: string, { onBlob }: { onBlob?: (blob: Blob) => Promise<void> } = {}) {
+  const element = document.createElement('div');
+  element.innerHTML = html;
+
+  const worker = html2pdf().from(element).set({
+    margin: 10,
+    filename,
+    image: { type: 'jpeg', quality: 0.98 },
+    html2canvas: { scale: 2 },
+    jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
+  });
+
+  if (onBlob) {
+    await onBlob(await worker.outputPdf('blob'));
+  }
+
+  await worker.save();
+}
\ No newline at end of file
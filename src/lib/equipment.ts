@@ -0,0 +1,83 @@
+import { supabase } from './supabase';
+import { getEquipmentTypeLabel } from './servicePrices';
+import { isQuote } from './orderStatus';
+import type { CustomerEquipment, EquipmentServiceRecord } from '../types';
+
+export const REFRIGERANT_OPTIONS = ['R-410A', 'R-32', 'R-22', 'R-134a', 'R-407C'];
+
+// null limpa o campo no banco (undefined não é enviado)
+export type EquipmentInput = Pick<CustomerEquipment, 'customer_id'> & {
+  [K in Exclude<keyof CustomerEquipment, 'id' | 'customer_id' | 'created_at' | 'updated_at' | 'installed_by_order_id'>]: CustomerEquipment[K] | null;
+};
+
+export async function loadCustomerEquipment(customerId: string): Promise<CustomerEquipment[]> {
+  const { data, error } = await supabase
+    .from('customer_equipment')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function loadEquipment(equipmentId: string): Promise<CustomerEquipment> {
+  const { data, error } = await supabase
+    .from('customer_equipment')
+    .select('*')
+    .eq('id', equipmentId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function saveEquipment(equipmentId: string | null, equipment: EquipmentInput): Promise<CustomerEquipment> {
+  const values = { ...equipment, updated_at: new Date().toISOString() };
+
+  const { data, error } = equipmentId
+    ? await supabase.from('customer_equipment').update(values).eq('id', equipmentId).select().single()
+    : await supabase.from('customer_equipment').insert([values]).select().single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteEquipment(equipmentId: string) {
+  const { error } = await supabase
+    .from('customer_equipment')
+    .delete()
+    .eq('id', equipmentId);
+
+  if (error) throw error;
+}
+
+// Data em que o serviço foi feito: a do agendamento, ou a da criação da OS
+export const getServiceDate = (record: EquipmentServiceRecord) =>
+  record.service_order.scheduled_start || record.service_order.created_at;
+
+// Serviços executados no equipamento, do mais recente ao mais antigo. Orçamentos e OS
+// canceladas ficam de fora
+export async function loadEquipmentHistory(equipmentIds: string[]): Promise<EquipmentServiceRecord[]> {
+  if (equipmentIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('order_services')
+    .select('*, service_order:service_orders(*)')
+    .in('equipment_id', equipmentIds);
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as EquipmentServiceRecord[])
+    .filter(record => record.service_order && !isQuote(record.service_order) && record.service_order.status !== 'cancelled')
+    .sort((a, b) => getServiceDate(b).localeCompare(getServiceDate(a)));
+}
+
+export function formatEquipmentLabel(equipment: Partial<CustomerEquipment>) {
+  return [
+    equipment.room,
+    equipment.equipment_type ? getEquipmentTypeLabel(equipment.equipment_type) : '',
+    [equipment.brand, equipment.model].filter(Boolean).join(' '),
+    equipment.equipment_power ? `${equipment.equipment_power} BTUs` : ''
+  ].filter(Boolean).join(' - ') || 'Equipamento sem identificação';
+}
\ No newline at end of file
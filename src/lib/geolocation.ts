@@ -0,0 +1,33 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+export async function getCurrentPosition(): Promise<Coordinates> {
+  if (!navigator.geolocation) {
+    throw new Error('Geolocalização não suportada pelo navegador');
+  }
+
+  const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: true,
+      timeout: 5000,
+      maximumAge: 0
+    });
+  });
+
+  return { lat: position.coords.latitude, lng: position.coords.longitude };
+}
+
+// Para registros em que a localização é um complemento: sem permissão, segue sem ela
+export async function tryGetCurrentPosition(): Promise<Coordinates | null> {
+  try {
+    return await getCurrentPosition();
+  } catch (error) {
+    console.error('Geolocation error:', error);
+    return null;
+  }
+}
+
+export const formatCoordinates = (lat?: number | null, lng?: number | null) =>
+  lat != null && lng != null ? `${lat.toFixed(5)}, ${lng.toFixed(5)}` : '';
\ No newline at end of file
@@ -0,0 +1,338 @@
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from './supabase';
+import { formatAddress, formatDocument } from './customers';
+import { escapeHtml, loadCompanyInfo, renderCompanyHeader, renderFooter, wrapDocument } from './documents';
+import { fetchAsDataUrl } from './photos';
+import { getOrderNumber } from './orderNumbers';
+import { ORDER_STATUS_LABELS } from './orderStatus';
+import { getEquipmentTypeLabel } from './servicePrices';
+import { getSignedUrl } from './storage';
+import { getCompanyStoragePath } from './team';
+import type {
+  CompanyInformation,
+  MaintenancePlan,
+  MaintenancePlanEquipment,
+  MaintenancePlanTask,
+  ServiceOrder,
+  ServiceOrderChecklistItem
+} from '../types';
+
+export const FREQUENCY_OPTIONS = [
+  { value: 1, label: 'Mensal' },
+  { value: 2, label: 'Bimestral' },
+  { value: 3, label: 'Trimestral' },
+  { value: 6, label: 'Semestral' },
+  { value: 12, label: 'Anual' }
+];
+
+export const getFrequencyLabel = (months: number) =>
+  FREQUENCY_OPTIONS.find(option => option.value === months)?.label || `A cada ${months} meses`;
+
+// Rotina básica de um PMOC para splits; o responsável técnico ajusta por instalação
+export const DEFAULT_PMOC_TASKS: MaintenancePlanTask[] = [
+  { description: 'Limpeza dos filtros de ar', frequency_months: 1 },
+  { description: 'Limpeza da bandeja e verificação do dreno', frequency_months: 1 },
+  { description: 'Verificação de ruídos e vibrações anormais', frequency_months: 1 },
+  { description: 'Limpeza da serpentina do evaporador', frequency_months: 3 },
+  { description: 'Inspeção elétrica e reaperto de conexões', frequency_months: 3 },
+  { description: 'Medição de temperatura de insuflamento e corrente', frequency_months: 3 },
+  { description: 'Limpeza da unidade condensadora', frequency_months: 6 },
+  { description: 'Verificação de vazamentos e pressão do gás refrigerante', frequency_months: 6 },
+  { description: 'Higienização completa com bactericida', frequency_months: 12 }
+];
+
+export type MaintenancePlanInput = Omit<MaintenancePlan, 'id' | 'created_at' | 'updated_at' | 'customer'>;
+
+export type PlanOrder = ServiceOrder & { checklist: ServiceOrderChecklistItem[] };
+
+const PLAN_SELECT = `
+  *,
+  customer:customers(*),
+  equipment:maintenance_plan_equipment(*),
+  tasks:maintenance_plan_tasks(*)
+`;
+
+const byCreation = <T extends { created_at?: string }>(a: T, b: T) =>
+  (a.created_at || '').localeCompare(b.created_at || '');
+
+export async function loadMaintenancePlans(): Promise<MaintenancePlan[]> {
+  const { data, error } = await supabase
+    .from('maintenance_plans')
+    .select(PLAN_SELECT)
+    .order('name');
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as MaintenancePlan[]).map(plan => ({
+    ...plan,
+    equipment: [...(plan.equipment || [])].sort(byCreation),
+    tasks: [...(plan.tasks || [])].sort(byCreation)
+  }));
+}
+
+export async function saveMaintenancePlan(planId: string | null, plan: MaintenancePlanInput): Promise<string> {
+  const { data, error } = await supabase.rpc('save_maintenance_plan', {
+    p_plan_id: planId,
+    p_plan: plan
+  });
+
+  if (error) throw error;
+  return data as string;
+}
+
+// Gera as OS dos meses em que há tarefas; meses que já têm OS são ignorados
+export async function generatePlanOrders(planId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('generate_maintenance_orders', { p_plan_id: planId });
+
+  if (error) throw error;
+  return data as number;
+}
+
+export async function generateDueMaintenanceOrders(): Promise<number> {
+  const { data, error } = await supabase.rpc('generate_due_maintenance_orders');
+
+  if (error) throw error;
+  return data as number;
+}
+
+// Devolve o caminho no bucket da empresa, que é o que fica em engineer_signature_url
+export async function uploadEngineerSignature(dataUrl: string): Promise<string> {
+  const blob = await (await fetch(dataUrl)).blob();
+  const path = await getCompanyStoragePath(`engineers/signature_${Date.now()}.png`);
+
+  const { error } = await supabase.storage
+    .from('company')
+    .upload(path, blob, { contentType: 'image/png' });
+
+  if (error) throw error;
+  return path;
+}
+
+export async function loadChecklist(orderId: string): Promise<ServiceOrderChecklistItem[]> {
+  const { data, error } = await supabase
+    .from('service_order_checklist_items')
+    .select('*')
+    .eq('service_order_id', orderId)
+    .order('position');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function updateChecklistItem(
+  itemId: string,
+  changes: Partial<Pick<ServiceOrderChecklistItem, 'done' | 'notes'>>
+): Promise<ServiceOrderChecklistItem> {
+  const { data, error } = await supabase.rpc('update_checklist_item', {
+    p_item_id: itemId,
+    p_done: changes.done ?? null,
+    p_notes: changes.notes ?? null
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// OS do plano entre os meses informados (inclusive), com o checklist de cada visita
+export async function loadPlanOrders(planId: string, fromMonth: Date, toMonth: Date): Promise<PlanOrder[]> {
+  const { data, error } = await supabase
+    .from('service_orders')
+    .select('*, checklist:service_order_checklist_items(*)')
+    .eq('maintenance_plan_id', planId)
+    .gte('maintenance_period', format(startOfMonth(fromMonth), 'yyyy-MM-dd'))
+    .lte('maintenance_period', format(startOfMonth(toMonth), 'yyyy-MM-dd'))
+    .order('maintenance_period');
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as PlanOrder[]).map(order => ({
+    ...order,
+    checklist: [...(order.checklist || [])].sort((a, b) => a.position - b.position)
+  }));
+}
+
+// Mesma regra do banco: a periodicidade conta a partir do mês de início do plano
+export function getTasksDueInMonth(plan: Pick<MaintenancePlan, 'start_date' | 'tasks'>, month: Date): MaintenancePlanTask[] {
+  const start = startOfMonth(parseISO(plan.start_date));
+  const index = (month.getFullYear() - start.getFullYear()) * 12 + month.getMonth() - start.getMonth();
+  if (index < 0) return [];
+  return (plan.tasks || []).filter(task => index % task.frequency_months === 0);
+}
+
+export function formatPlanEquipment(equipment: MaintenancePlanEquipment) {
+  return [
+    equipment.location,
+    [equipment.brand, equipment.model].filter(Boolean).join(' '),
+    equipment.equipment_power ? `${equipment.equipment_power} BTUs` : '',
+    equipment.serial_number ? `Série ${equipment.serial_number}` : ''
+  ].filter(Boolean).join(' - ');
+}
+
+// Documentos do PMOC
+
+const cell = 'padding: 6px; border: 1px solid #e5e7eb;';
+const sectionTitle = 'margin: 20px 0 10px; border-bottom: 1px solid #ccc; padding-bottom: 5px;';
+
+async function renderHeader(company: CompanyInformation | null, title: string, subtitle: string) {
+  return `
+    ${await renderCompanyHeader(company)}
+    <div style="text-align: center; margin-bottom: 20px;">
+      <h1 style="margin: 0; font-size: 20px;">${title}</h1>
+      <p style="margin: 5px 0;">${escapeHtml(subtitle)}</p>
+    </div>
+  `;
+}
+
+function renderPlanInfo(plan: MaintenancePlan) {
+  return `
+    <h3 style="${sectionTitle}">Identificação</h3>
+    <p style="margin: 4px 0;"><strong>Cliente:</strong> ${escapeHtml(plan.customer?.name)}${plan.customer?.document ? ` - ${escapeHtml(formatDocument(plan.customer.document))}` : ''}</p>
+    <p style="margin: 4px 0;"><strong>Local:</strong> ${escapeHtml(formatAddress(plan.address) || '-')}</p>
+    <p style="margin: 4px 0;"><strong>Vigência:</strong> ${format(parseISO(plan.start_date), 'dd/MM/yyyy')}${plan.end_date ? ` a ${format(parseISO(plan.end_date), 'dd/MM/yyyy')}` : ' (prazo indeterminado)'}</p>
+    <p style="margin: 4px 0;"><strong>Responsável técnico:</strong> ${escapeHtml(plan.engineer_name || '-')}${plan.engineer_registration ? ` - CREA ${escapeHtml(plan.engineer_registration)}` : ''}${plan.engineer_art ? ` - ART ${escapeHtml(plan.engineer_art)}` : ''}</p>
+  `;
+}
+
+function renderEquipmentTable(equipment: MaintenancePlanEquipment[]) {
+  if (equipment.length === 0) return '<p>Nenhum equipamento cadastrado.</p>';
+
+  return `
+    <table style="width: 100%; border-collapse: collapse; font-size: 12px;">
+      <thead>
+        <tr style="background-color: #f3f4f6;">
+          <th style="${cell} text-align: left;">Local</th>
+          <th style="${cell} text-align: left;">Tipo</th>
+          <th style="${cell} text-align: left;">Marca / Modelo</th>
+          <th style="${cell} text-align: left;">Capacidade</th>
+          <th style="${cell} text-align: left;">Nº de série</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${equipment.map(item => `
+          <tr>
+            <td style="${cell}">${escapeHtml(item.location || '-')}</td>
+            <td style="${cell}">${item.equipment_type ? getEquipmentTypeLabel(item.equipment_type) : '-'}</td>
+            <td style="${cell}">${escapeHtml([item.brand, item.model].filter(Boolean).join(' ') || '-')}</td>
+            <td style="${cell}">${item.equipment_power ? `${escapeHtml(item.equipment_power)} BTUs` : '-'}</td>
+            <td style="${cell}">${escapeHtml(item.serial_number || '-')}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+async function renderEngineerSignature(plan: MaintenancePlan) {
+  const image = plan.engineer_signature_url
+    ? await getSignedUrl('company', plan.engineer_signature_url).then(fetchAsDataUrl).catch(() => '')
+    : '';
+
+  return `
+    <div style="margin: 50px auto 0; width: 60%; text-align: center;">
+      ${image ? `<img src="${image}" alt="Assinatura" style="max-height: 80px; max-width: 100%; object-fit: contain;"/>` : ''}
+      <div style="border-top: 1px solid #000; padding-top: 5px;">
+        <p style="margin: 0;">${escapeHtml(plan.engineer_name || 'Responsável técnico')}</p>
+        ${plan.engineer_registration ? `<p style="margin: 5px 0; font-size: 12px;">CREA ${escapeHtml(plan.engineer_registration)}</p>` : ''}
+        ${plan.engineer_art ? `<p style="margin: 5px 0; font-size: 12px;">ART ${escapeHtml(plan.engineer_art)}</p>` : ''}
+      </div>
+    </div>
+  `;
+}
+
+const wrap = (content: string) => wrapDocument(content, 'font-size: 13px;');
+
+// Plano de Manutenção, Operação e Controle: equipamentos, rotinas e cronograma de 12 meses
+export async function renderPmocDocument(plan: MaintenancePlan, firstMonth = startOfMonth(new Date())) {
+  const months = Array.from({ length: 12 }, (_, index) => addMonths(firstMonth, index));
+  const tasks = plan.tasks || [];
+
+  const company = await loadCompanyInfo();
+
+  return wrap(`
+    ${await renderHeader(company, 'PMOC - Plano de Manutenção, Operação e Controle', `${plan.name} · Lei nº 13.589/2018`)}
+    ${renderPlanInfo(plan)}
+
+    <h3 style="${sectionTitle}">Equipamentos</h3>
+    ${renderEquipmentTable(plan.equipment || [])}
+
+    <h3 style="${sectionTitle}">Rotinas e cronograma</h3>
+    <table style="width: 100%; border-collapse: collapse; font-size: 11px;">
+      <thead>
+        <tr style="background-color: #f3f4f6;">
+          <th style="${cell} text-align: left;">Tarefa</th>
+          <th style="${cell} text-align: left;">Periodicidade</th>
+          ${months.map(month => `<th style="${cell} text-align: center;">${format(month, 'MMM/yy', { locale: ptBR })}</th>`).join('')}
+        </tr>
+      </thead>
+      <tbody>
+        ${tasks.map(task => `
+          <tr>
+            <td style="${cell}">${escapeHtml(task.description)}</td>
+            <td style="${cell}">${getFrequencyLabel(task.frequency_months)}</td>
+            ${months.map(month => `<td style="${cell} text-align: center;">${getTasksDueInMonth(plan, month).includes(task) ? 'X' : ''}</td>`).join('')}
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+
+    ${plan.notes ? `<h3 style="${sectionTitle}">Observações</h3><p>${escapeHtml(plan.notes)}</p>` : ''}
+
+    ${await renderEngineerSignature(plan)}
+    ${renderFooter(company)}
+  `);
+}
+
+// Relatório de execução: o que foi feito em cada visita do período, item a item
+export async function renderExecutionReport(plan: MaintenancePlan, orders: PlanOrder[], fromMonth: Date, toMonth: Date) {
+  const period = `${format(fromMonth, 'MM/yyyy')} a ${format(toMonth, 'MM/yyyy')}`;
+
+  const visits = orders.map(order => {
+    const done = order.checklist.filter(item => item.done).length;
+
+    return `
+      <div style="margin-bottom: 15px; page-break-inside: avoid;">
+        <h4 style="margin: 10px 0 5px;">
+          ${order.maintenance_period ? format(parseISO(order.maintenance_period), 'MMMM/yyyy', { locale: ptBR }) : ''}
+          · ${escapeHtml(getOrderNumber(order))} · ${ORDER_STATUS_LABELS[order.status] || order.status}
+        </h4>
+        <p style="margin: 0 0 5px; font-size: 12px;">
+          ${order.scheduled_start ? `Visita: ${format(new Date(order.scheduled_start), 'dd/MM/yyyy HH:mm')} · ` : ''}Executado: ${done} de ${order.checklist.length} itens
+        </p>
+        <table style="width: 100%; border-collapse: collapse; font-size: 11px;">
+          <thead>
+            <tr style="background-color: #f3f4f6;">
+              <th style="${cell} text-align: left;">Equipamento</th>
+              <th style="${cell} text-align: left;">Tarefa</th>
+              <th style="${cell} text-align: center;">Feito</th>
+              <th style="${cell} text-align: left;">Observações</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${order.checklist.map(item => `
+              <tr>
+                <td style="${cell}">${escapeHtml(item.equipment_label || '-')}</td>
+                <td style="${cell}">${escapeHtml(item.description)}</td>
+                <td style="${cell} text-align: center;">${item.done ? `Sim${item.done_at ? ` (${format(new Date(item.done_at), 'dd/MM')})` : ''}` : 'Não'}</td>
+                <td style="${cell}">${escapeHtml(item.notes)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    `;
+  }).join('');
+
+  const company = await loadCompanyInfo();
+
+  return wrap(`
+    ${await renderHeader(company, 'Relatório de Execução do PMOC', `${plan.name} · Período ${period}`)}
+    ${renderPlanInfo(plan)}
+
+    <h3 style="${sectionTitle}">Visitas</h3>
+    ${visits || '<p>Nenhuma visita no período.</p>'}
+
+    ${await renderEngineerSignature(plan)}
+    ${renderFooter(company)}
+  `);
+}
\ No newline at end of file
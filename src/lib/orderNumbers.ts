@@ -0,0 +1,15 @@
+import type { ServiceOrder } from '../types';
+
+// Mesmo formato da função format_service_order_number do banco
+export function formatOrderNumber(prefix: string | undefined, year: number | null, sequence: number) {
+  const cleanPrefix = prefix?.trim() || 'OS';
+  return `${cleanPrefix}-${year ? `${year}-` : ''}${String(sequence).padStart(5, '0')}`;
+}
+
+// OS criadas antes da numeração (ou ainda não salvas) mostram o início do UUID
+export const getOrderNumber = (order: Pick<ServiceOrder, 'id' | 'order_number'>) =>
+  order.order_number || `#${order.id.slice(0, 8)}`;
+
+// Nome de arquivo seguro a partir do número da OS
+export const orderFileName = (prefix: string, order: Pick<ServiceOrder, 'id' | 'order_number'>) =>
+  `${prefix}_${(order.order_number || order.id).replace(/[^\w-]/g, '_')}.pdf`;
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { supabase } from './supabase';
+import type { QuoteStatus, ServiceOrder, ServiceOrderStatus, ServiceOrderStatusChange, ServiceOrderStatusTransition } from '../types';
+
+export const ORDER_STATUS_LABELS: Record<ServiceOrderStatus, string> = {
+  quote: 'Orçamento',
+  quote_approved: 'Orçamento Aprovado',
+  quote_rejected: 'Orçamento Recusado',
+  pending: 'Pendente',
+  scheduled: 'Agendado',
+  en_route: 'A Caminho',
+  in_progress: 'Em Andamento',
+  awaiting_parts: 'Aguardando Peças',
+  completed: 'Concluído',
+  invoiced: 'Faturado',
+  paid: 'Pago',
+  cancelled: 'Cancelado'
+};
+
+export const ORDER_STATUS_COLORS: Record<ServiceOrderStatus, string> = {
+  quote: 'text-gray-600 bg-gray-100',
+  quote_approved: 'text-green-600 bg-green-100',
+  quote_rejected: 'text-red-600 bg-red-100',
+  pending: 'text-gray-600 bg-gray-100',
+  scheduled: 'text-blue-600 bg-blue-100',
+  en_route: 'text-indigo-600 bg-indigo-100',
+  in_progress: 'text-yellow-600 bg-yellow-100',
+  awaiting_parts: 'text-orange-600 bg-orange-100',
+  completed: 'text-green-600 bg-green-100',
+  invoiced: 'text-teal-600 bg-teal-100',
+  paid: 'text-emerald-700 bg-emerald-100',
+  cancelled: 'text-red-600 bg-red-100'
+};
+
+export const QUOTE_STATUSES: QuoteStatus[] = ['quote', 'quote_approved', 'quote_rejected'];
+
+// Situações em que a OS não pode mais ser editada (é preciso reabri-la antes)
+export const CLOSED_STATUSES: ServiceOrderStatus[] = ['completed', 'invoiced', 'paid', 'cancelled'];
+
+export const isQuote = (order: Pick<ServiceOrder, 'status'>) =>
+  (QUOTE_STATUSES as ServiceOrderStatus[]).includes(order.status);
+
+export const isClosed = (order: Pick<ServiceOrder, 'status'>) =>
+  CLOSED_STATUSES.includes(order.status);
+
+// As transições permitidas ficam no banco (service_order_status_transitions), que também as valida
+export async function loadStatusTransitions(): Promise<ServiceOrderStatusTransition[]> {
+  const { data, error } = await supabase
+    .from('service_order_status_transitions')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export const getNextStatuses = (transitions: ServiceOrderStatusTransition[], status: ServiceOrderStatus) =>
+  transitions.filter(transition => transition.from_status === status);
+
+export async function changeOrderStatus(orderId: string, status: ServiceOrderStatus, reason?: string) {
+  const { error } = await supabase.rpc('change_service_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+    p_reason: reason || null
+  });
+
+  if (error) throw error;
+}
+
+// Registra a reabertura e muda a situação na mesma transação
+export async function reopenServiceOrder(orderId: string, status: ServiceOrderStatus, reason: string) {
+  const { error } = await supabase.rpc('reopen_service_order', {
+    p_order_id: orderId,
+    p_new_status: status,
+    p_reason: reason
+  });
+
+  if (error) throw error;
+}
+
+export async function loadStatusHistory(orderId: string): Promise<ServiceOrderStatusChange[]> {
+  const { data, error } = await supabase
+    .from('service_order_status_history')
+    .select('*')
+    .eq('service_order_id', orderId)
+    .order('changed_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export const describeStatusChange = (change: ServiceOrderStatusChange) =>
+  change.from_status
+    ? `${ORDER_STATUS_LABELS[change.from_status] || change.from_status} → ${ORDER_STATUS_LABELS[change.to_status] || change.to_status}`
+    : ORDER_STATUS_LABELS[change.to_status] || change.to_status;
\ No newline at end of file
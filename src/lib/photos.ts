@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+import { getSignedUrls } from './storage';
+import { getCompanyStoragePath } from './team';
+import type { ServiceOrderPhoto } from '../types';
+
+export type PhotoType = ServiceOrderPhoto['photo_type'];
+
+export const PHOTO_TYPES: Array<{ value: PhotoType; label: string }> = [
+  { value: 'before', label: 'Antes' },
+  { value: 'during', label: 'Durante' },
+  { value: 'after', label: 'Depois' }
+];
+
+const PHOTOS_BUCKET = 'service-orders';
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+const loadImage = (file: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Não foi possível ler a imagem'));
+  };
+  image.src = url;
+});
+
+// Reduz fotos da câmera (muitas vezes 4000px+) para no máximo 1600px em JPEG
+export async function compressImage(file: File): Promise<Blob> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.width, image.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return file;
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  return blob && blob.size < file.size ? blob : file;
+}
+
+export async function uploadOrderPhoto(orderId: string, file: File, photoType: PhotoType): Promise<ServiceOrderPhoto> {
+  const compressed = await compressImage(file);
+  const extension = compressed.type === 'image/jpeg' ? 'jpg' : file.name.substring(file.name.lastIndexOf('.') + 1);
+  const path = await getCompanyStoragePath(`photos/${orderId}/${Date.now()}_${photoType}.${extension}`);
+
+  const { error: uploadError } = await supabase.storage
+    .from(PHOTOS_BUCKET)
+    .upload(path, compressed, { contentType: compressed.type || file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('service_order_photos')
+    .insert([{
+      service_order_id: orderId,
+      photo_url: path,
+      photo_type: photoType,
+      storage_path: path
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  const [photo] = await withSignedUrls([data]);
+  return photo;
+}
+
+export async function deleteOrderPhoto(photo: ServiceOrderPhoto) {
+  const { error } = await supabase
+    .from('service_order_photos')
+    .delete()
+    .eq('id', photo.id);
+
+  if (error) throw error;
+
+  if (photo.storage_path) {
+    const { error: storageError } = await supabase.storage
+      .from(PHOTOS_BUCKET)
+      .remove([photo.storage_path]);
+
+    // O registro já foi removido; um arquivo órfão no bucket não impede o fluxo
+    if (storageError) console.error('Erro ao remover arquivo da foto:', storageError);
+  }
+}
+
+export async function loadOrderPhotos(orderId: string): Promise<ServiceOrderPhoto[]> {
+  const { data, error } = await supabase
+    .from('service_order_photos')
+    .select('*')
+    .eq('service_order_id', orderId)
+    .order('created_at');
+
+  if (error) throw error;
+  return withSignedUrls(data || []);
+}
+
+// photo_url guarda o caminho no bucket (privado); na tela vai a URL assinada
+async function withSignedUrls(photos: ServiceOrderPhoto[]): Promise<ServiceOrderPhoto[]> {
+  const urls = await getSignedUrls(PHOTOS_BUCKET, photos.map(photo => photo.photo_url));
+  return photos.map(photo => ({ ...photo, photo_url: urls.get(photo.photo_url) || '' }));
+}
+
+// O html2canvas só desenha imagens de outra origem se já estiverem em base64
+export async function fetchAsDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildPixPayload, crc16, normalizePixKey, toPixTxid } from './pix';
+
+describe('crc16', () => {
+  it('calcula o CRC16-CCITT-FALSE do vetor de verificação', () => {
+    expect(crc16('123456789')).toBe('29B1');
+  });
+
+  it('completa com zeros à esquerda', () => {
+    expect(crc16('')).toBe('FFFF');
+  });
+});
+
+describe('buildPixPayload', () => {
+  it('gera o BR Code do exemplo do manual do Banco Central', () => {
+    expect(buildPixPayload({
+      key: '123e4567-e12b-12d1-a456-426655440000',
+      merchantName: 'Fulano de Tal',
+      merchantCity: 'BRASILIA'
+    })).toBe(
+      '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+      '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D'
+    );
+  });
+
+  it('inclui valor e identificador da transação, sem acentos', () => {
+    expect(buildPixPayload({
+      key: normalizePixKey('phone', '(11) 99999-8888'),
+      merchantName: 'REFRIGERAÇÃO SÃO JOSÉ',
+      merchantCity: 'SÃO PAULO',
+      amount: 150.5,
+      txid: 'OS-2026-00012'
+    })).toBe(
+      '00020126360014br.gov.bcb.pix0114+55119999988885204000053039865406150.50' +
+      '5802BR5921REFRIGERACAO SAO JOSE6009SAO PAULO62150511OS2026000126304FEE1'
+    );
+  });
+
+  it('limita nome a 25 e cidade a 15 caracteres', () => {
+    const payload = buildPixPayload({
+      key: 'contato@empresa.com.br',
+      merchantName: 'Climatização e Refrigeração Industrial Ltda',
+      merchantCity: 'São José dos Campos'
+    });
+
+    expect(payload).toContain('5925Climatizacao e Refrigera');
+    expect(payload).toContain('6015Sao Jose dos Ca');
+  });
+});
+
+describe('normalizePixKey', () => {
+  it('deixa documentos só com dígitos e e-mail em minúsculas', () => {
+    expect(normalizePixKey('cnpj', '12.345.678/0001-90')).toBe('12345678000190');
+    expect(normalizePixKey('email', ' Contato@Empresa.com.br ')).toBe('contato@empresa.com.br');
+  });
+
+  it('acrescenta +55 ao telefone sem código do país', () => {
+    expect(normalizePixKey('phone', '(11) 99999-8888')).toBe('+5511999998888');
+    expect(normalizePixKey('phone', '+55 11 99999-8888')).toBe('+5511999998888');
+  });
+});
+
+describe('toPixTxid', () => {
+  it('mantém só letras e números, até 25', () => {
+    expect(toPixTxid('OS-2026-00012')).toBe('OS202600012');
+    expect(toPixTxid('A'.repeat(30))).toHaveLength(25);
+  });
+
+  it('usa *** quando não há identificador', () => {
+    expect(toPixTxid()).toBe('***');
+    expect(toPixTxid('---')).toBe('***');
+  });
+});
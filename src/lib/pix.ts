@@ -0,0 +1,93 @@
+import { onlyDigits } from './text';
+import type { CompanyInformation, PixKeyType } from '../types';
+
+export const PIX_KEY_TYPES: Array<{ value: PixKeyType; label: string }> = [
+  { value: 'cnpj', label: 'CNPJ' },
+  { value: 'cpf', label: 'CPF' },
+  { value: 'email', label: 'E-mail' },
+  { value: 'phone', label: 'Telefone' },
+  { value: 'random', label: 'Chave aleatória' }
+];
+
+// Chave no formato do DICT: documentos só com dígitos, telefone com +55 e e-mail/EVP em minúsculas
+export function normalizePixKey(type: PixKeyType, key: string) {
+  const value = key.trim();
+
+  switch (type) {
+    case 'cpf':
+    case 'cnpj':
+      return onlyDigits(value);
+    case 'phone': {
+      const digits = onlyDigits(value);
+      return `+${digits.length <= 11 ? `55${digits}` : digits}`;
+    }
+    default:
+      return value.toLowerCase();
+  }
+}
+
+// Nome e cidade do recebedor aceitam só ASCII, sem acentos
+const toAscii = (value: string, maxLength: number) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '').trim().slice(0, maxLength);
+
+// Identificador da transação no QR estático: até 25 letras e números
+export const toPixTxid = (value?: string) =>
+  (value || '').replace(/[^A-Za-z0-9]/g, '').slice(0, 25) || '***';
+
+// Campo EMV: ID, tamanho com dois dígitos e valor
+const field = (id: string, value: string) => `${id}${value.length.toString().padStart(2, '0')}${value}`;
+
+// CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF), como pede o padrão BR Code
+export function crc16(payload: string) {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+export interface PixPayloadInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  txid?: string;
+}
+
+// BR Code estático (EMV QRCPS-MPM), calculado inteiramente no aparelho
+export function buildPixPayload({ key, merchantName, merchantCity, amount, txid }: PixPayloadInput) {
+  const payload = [
+    field('00', '01'),
+    field('26', field('00', 'br.gov.bcb.pix') + field('01', key)),
+    field('52', '0000'),
+    field('53', '986'),
+    amount && amount > 0 ? field('54', amount.toFixed(2)) : '',
+    field('58', 'BR'),
+    field('59', toAscii(merchantName, 25)),
+    field('60', toAscii(merchantCity, 15)),
+    field('62', field('05', toPixTxid(txid))),
+    '6304'
+  ].join('');
+
+  return payload + crc16(payload);
+}
+
+export const hasPixKey = (company: CompanyInformation | null) =>
+  !!company?.pix_key_type && !!company.pix_key?.trim() && !!company.pix_merchant_city?.trim();
+
+// Código "copia e cola" de um valor da empresa; null quando a chave PIX não está configurada
+export function getCompanyPixPayload(company: CompanyInformation | null, amount: number, txid?: string) {
+  if (!hasPixKey(company) || !company?.pix_key_type || !company.pix_key) return null;
+
+  return buildPixPayload({
+    key: normalizePixKey(company.pix_key_type, company.pix_key),
+    merchantName: company.pix_merchant_name?.trim() || company.name,
+    merchantCity: company.pix_merchant_city || '',
+    amount,
+    txid
+  });
+}
\ No newline at end of file
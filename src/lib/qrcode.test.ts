@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQrCode } from './qrcode';
+
+const toRows = (modules: boolean[][]) => modules.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+
+// Bits de formato da primeira cópia, ao redor do localizador superior esquerdo (bit 14 primeiro)
+function readFormatBits(modules: boolean[][]) {
+  const positions: Array<[number, number]> = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0]
+  ];
+  return positions.map(([y, x]) => (modules[y][x] ? '1' : '0')).reverse().join('');
+}
+
+describe('encodeQrCode', () => {
+  // Mesma matriz gerada por outras bibliotecas (modo byte, nível M, máscara 4)
+  it('gera a matriz conhecida da versão 1', () => {
+    expect(toRows(encodeQrCode('HELLO WORLD'))).toEqual([
+      '#######.##..#.#######',
+      '#.....#....#..#.....#',
+      '#.###.#..#.#..#.###.#',
+      '#.###.#.#..#..#.###.#',
+      '#.###.#.###.#.#.###.#',
+      '#.....#.#..#..#.....#',
+      '#######.#.#.#.#######',
+      '........#..##........',
+      '#...#.######.#####..#',
+      '...#....#.###....####',
+      '..######..##.##.#..#.',
+      '#####...##...#.......',
+      '#####.#.#.#.#.##..##.',
+      '........#.#.####.#.##',
+      '#######.###.#.#.##.#.',
+      '#.....#..#.###.##..##',
+      '#.###.#.##.#.##...##.',
+      '#.###.#..#..#...##.##',
+      '#.###.#..###...###...',
+      '#.....#....#.#.......',
+      '#######.#########.#.#'
+    ]);
+  });
+
+  it('grava os bits de formato do nível M com a máscara escolhida', () => {
+    // Tabela da ISO/IEC 18004: nível M, máscara 4
+    expect(readFormatBits(encodeQrCode('HELLO WORLD'))).toBe('100010111111001');
+  });
+
+  it('escolhe a menor versão que comporta o texto', () => {
+    expect(encodeQrCode('A'.repeat(14))).toHaveLength(21);
+    expect(encodeQrCode('A'.repeat(15))).toHaveLength(25);
+  });
+
+  it('comporta o BR Code de uma OS', () => {
+    const payload =
+      '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+      '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D';
+    const modules = encodeQrCode(payload);
+
+    expect(modules).toHaveLength(49);
+    // Localizadores nos três cantos
+    expect(toRows(modules).slice(0, 7).map(row => row.slice(0, 7))).toEqual([
+      '#######', '#.....#', '#.###.#', '#.###.#', '#.###.#', '#.....#', '#######'
+    ]);
+    expect(modules[0].slice(42).every(Boolean)).toBe(true);
+    expect(modules[48].slice(0, 7).every(Boolean)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { supabase } from './supabase';
+import type { QuoteRevision, ServiceOrder } from '../types';
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 15;
+
+export const defaultValidUntil = () =>
+  format(addDays(new Date(), DEFAULT_QUOTE_VALIDITY_DAYS), 'yyyy-MM-dd');
+
+// valid_until é uma data (sem horário): o orçamento vale até o fim do dia
+export const isQuoteExpired = (order: Pick<ServiceOrder, 'status' | 'valid_until'>) =>
+  order.status === 'quote' &&
+  !!order.valid_until &&
+  new Date(`${order.valid_until}T00:00:00`) < startOfDay(new Date());
+
+export const getQuoteRevisionLabel = (order: Pick<ServiceOrder, 'quote_revision'>) =>
+  `v${order.quote_revision || 1}`;
+
+async function decideQuote(quoteId: string, status: 'quote_approved' | 'quote_rejected', reason: string) {
+  const decision = {
+    status,
+    quote_decided_at: new Date().toISOString(),
+    quote_decision_reason: reason || null
+  };
+
+  const { data, error } = await supabase
+    .from('service_orders')
+    .update({ ...decision, status_reason: decision.quote_decision_reason })
+    .eq('id', quoteId)
+    .eq('status', 'quote')
+    .select('id');
+
+  if (error) throw error;
+  // Nenhuma linha: o orçamento já foi decidido ou alterado por outra pessoa
+  if (!data || data.length === 0) {
+    throw new Error('Este orçamento não está mais aguardando aprovação. Atualize a lista.');
+  }
+  return decision;
+}
+
+export const approveQuote = (quoteId: string, reason = '') =>
+  decideQuote(quoteId, 'quote_approved', reason);
+
+export const rejectQuote = (quoteId: string, reason: string) =>
+  decideQuote(quoteId, 'quote_rejected', reason);
+
+// Cria a OS a partir do orçamento aprovado e devolve o id da nova OS
+export async function convertQuoteToOrder(quoteId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('convert_quote_to_order', { p_quote_id: quoteId });
+
+  if (error) throw error;
+  return data as string;
+}
+
+export async function loadQuoteRevisions(quoteId: string): Promise<QuoteRevision[]> {
+  const { data, error } = await supabase
+    .from('quote_revisions')
+    .select('*')
+    .eq('quote_id', quoteId)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+import { getCompanyStoragePath } from './team';
+import type { PaymentMethod, PaymentReceipt, ServiceOrder } from '../types';
+
+export const PAYMENT_METHODS: Array<{ value: PaymentMethod; label: string }> = [
+  { value: 'pix', label: 'PIX' },
+  { value: 'cash', label: 'Dinheiro' },
+  { value: 'credit_card', label: 'Cartão de crédito' },
+  { value: 'debit_card', label: 'Cartão de débito' },
+  { value: 'bank_transfer', label: 'Transferência bancária' },
+  { value: 'boleto', label: 'Boleto' },
+  { value: 'check', label: 'Cheque' }
+];
+
+export const getPaymentMethodLabel = (method?: string) =>
+  PAYMENT_METHODS.find(item => item.value === method)?.label || method || '';
+
+const RECEIPTS_BUCKET = 'service-orders';
+
+export interface ReceiptInput {
+  amount: number;
+  paymentMethod: PaymentMethod;
+  paidAt: string;
+  payerName: string;
+  payerDocument: string;
+}
+
+export async function loadOrderReceipts(orderId: string): Promise<PaymentReceipt[]> {
+  const { data, error } = await supabase
+    .from('payment_receipts')
+    .select('*')
+    .eq('service_order_id', orderId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Quanto ainda falta receber da OS, descontados os recibos já emitidos
+export const getOutstandingAmount = (order: Pick<ServiceOrder, 'total_amount'>, receipts: PaymentReceipt[]) =>
+  Math.max(0, Math.round(((order.total_amount || 0) - receipts.reduce((sum, receipt) => sum + Number(receipt.amount), 0)) * 100) / 100);
+
+// Registra o recibo e recebe o número sequencial da empresa
+export async function issueReceipt(order: Pick<ServiceOrder, 'id'>, input: ReceiptInput): Promise<PaymentReceipt> {
+  const { data, error } = await supabase.rpc('issue_payment_receipt', {
+    p_order_id: order.id,
+    p_amount: input.amount,
+    p_payment_method: input.paymentMethod,
+    p_paid_at: input.paidAt,
+    p_payer_name: input.payerName,
+    p_payer_document: input.payerDocument
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Guarda o PDF do recibo no bucket das OS, na pasta da empresa
+export async function saveReceiptPdf(receipt: PaymentReceipt, blob: Blob): Promise<PaymentReceipt> {
+  const storagePath = await getCompanyStoragePath(`receipts/${receipt.receipt_number.replace(/[^\w-]/g, '_')}.pdf`);
+
+  const { error: uploadError } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .upload(storagePath, blob, { contentType: 'application/pdf', upsert: true });
+
+  if (uploadError) throw uploadError;
+
+  // O bucket é privado: pdf_url guarda o caminho, como as fotos e assinaturas
+  const { data, error } = await supabase.rpc('set_payment_receipt_pdf', {
+    p_receipt_id: receipt.id,
+    p_storage_path: storagePath
+  });
+
+  if (error) throw error;
+  return data;
+}
\ No newline at end of file
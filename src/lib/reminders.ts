@@ -0,0 +1,232 @@
+import { addMonths, endOfMonth, format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import { formatEquipmentLabel, getServiceDate } from './equipment';
+import { isClosed, isQuote } from './orderStatus';
+import { getEquipmentTypeLabel } from './servicePrices';
+import type { Customer, CustomerEquipment, EquipmentServiceRecord, MaintenanceReminder, ReminderMessage } from '../types';
+
+// Serviços que iniciam a contagem para a próxima limpeza
+export const REMINDER_SERVICE_TYPES = ['cleaning', 'installation'];
+
+export const DEFAULT_REMINDER_MONTHS: Record<string, string> = { cleaning: '6', installation: '6' };
+
+export interface ReminderServiceRecord extends EquipmentServiceRecord {
+  equipment: CustomerEquipment | null;
+}
+
+export interface CustomerReminders {
+  customer: Customer;
+  reminders: MaintenanceReminder[];
+}
+
+export async function loadReminderIntervals(): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('service_prices')
+    .select('reminder_months')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const months: Record<string, string> = data?.reminder_months || DEFAULT_REMINDER_MONTHS;
+  return Object.fromEntries(
+    Object.entries(months).map(([serviceType, value]) => [serviceType, parseInt(value, 10) || 0])
+  );
+}
+
+export async function loadReminderRecords(): Promise<ReminderServiceRecord[]> {
+  const { data, error } = await supabase
+    .from('order_services')
+    .select('*, service_order:service_orders(*, customer:customers(*)), equipment:customer_equipment(*)')
+    .in('service_type', REMINDER_SERVICE_TYPES);
+
+  if (error) throw error;
+  return (data || []) as unknown as ReminderServiceRecord[];
+}
+
+// Serviços sem equipamento cadastrado são agrupados pelo tipo e capacidade no mesmo cliente
+const getReminderKey = (record: ReminderServiceRecord) =>
+  record.equipment_id || `${record.service_order.customer_id}:${record.equipment_type || ''}:${record.equipment_power || ''}`;
+
+// Próxima limpeza de cada equipamento: a partir do último serviço concluído, somando o
+// intervalo do tipo de serviço. Equipamentos com limpeza já aberta em outra OS ficam de fora
+export function computeMaintenanceReminders(
+  records: ReminderServiceRecord[],
+  intervals: Record<string, number>
+): MaintenanceReminder[] {
+  const latest = new Map<string, ReminderServiceRecord>();
+  const alreadyOpen = new Set<string>();
+
+  records.forEach(record => {
+    const order = record.service_order;
+    if (!order?.customer || isQuote(order) || order.status === 'cancelled') return;
+
+    const key = getReminderKey(record);
+    if (!isClosed(order)) {
+      if (record.service_type === 'cleaning') alreadyOpen.add(key);
+      return;
+    }
+
+    const current = latest.get(key);
+    if (!current || getServiceDate(record) > getServiceDate(current)) {
+      latest.set(key, record);
+    }
+  });
+
+  const reminders: MaintenanceReminder[] = [];
+  latest.forEach((record, key) => {
+    const months = intervals[record.service_type] || 0;
+    if (months <= 0 || alreadyOpen.has(key)) return;
+
+    const lastServiceDate = getServiceDate(record);
+    const dueDate = format(addMonths(parseISO(lastServiceDate), months), 'yyyy-MM-dd');
+
+    reminders.push({
+      id: `${key}:${dueDate}`,
+      customer: record.service_order.customer as Customer,
+      equipment_id: record.equipment_id,
+      equipment_label: record.equipment
+        ? formatEquipmentLabel(record.equipment)
+        : [
+            record.equipment_type ? getEquipmentTypeLabel(record.equipment_type) : '',
+            record.equipment_power ? `${record.equipment_power} BTUs` : ''
+          ].filter(Boolean).join(' - ') || 'Ar-condicionado',
+      last_service_type: record.service_type,
+      last_service_date: lastServiceDate,
+      due_date: dueDate
+    });
+  });
+
+  return reminders.sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
+
+// Clientes com limpeza vencendo até o fim do mês (inclui as atrasadas de meses anteriores)
+export function getDueCustomers(reminders: MaintenanceReminder[], month: Date): CustomerReminders[] {
+  const monthEnd = format(endOfMonth(month), 'yyyy-MM-dd');
+  const byCustomer = new Map<string, CustomerReminders>();
+
+  reminders
+    .filter(reminder => reminder.due_date <= monthEnd)
+    .forEach(reminder => {
+      const entry = byCustomer.get(reminder.customer.id) || { customer: reminder.customer, reminders: [] };
+      entry.reminders.push(reminder);
+      byCustomer.set(reminder.customer.id, entry);
+    });
+
+  return Array.from(byCustomer.values())
+    .sort((a, b) => a.reminders[0].due_date.localeCompare(b.reminders[0].due_date));
+}
+
+// Mensagens
+
+export const getCustomerPhone = (customer: Customer) =>
+  customer.phone || customer.phones?.find(Boolean) || '';
+
+export function buildReminderText(customer: Customer, reminders: MaintenanceReminder[], companyName: string) {
+  const units = reminders.map(reminder =>
+    `- ${reminder.equipment_label} (último serviço em ${format(parseISO(reminder.last_service_date), 'dd/MM/yyyy')})`
+  );
+
+  return [
+    `Olá, ${customer.name}! Aqui é da ${companyName || 'nossa equipe de climatização'}.`,
+    reminders.length > 1
+      ? 'Está na hora da limpeza preventiva dos seus aparelhos de ar-condicionado:'
+      : 'Está na hora da limpeza preventiva do seu ar-condicionado:',
+    ...units,
+    'A limpeza regular mantém o aparelho eficiente, economiza energia e deixa o ar mais saudável. Podemos agendar uma visita?'
+  ].join('\n');
+}
+
+// Link do WhatsApp (click-to-chat); números sem DDI recebem o 55 do Brasil
+export function getWhatsAppLink(phone: string, text: string) {
+  const digits = phone.replace(/\D/g, '');
+  const number = digits.length <= 11 ? `55${digits}` : digits;
+  return `https://wa.me/${number}?text=${encodeURIComponent(text)}`;
+}
+
+export const getEmailLink = (email: string, subject: string, body: string) =>
+  `mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+export type NewReminderMessage = Omit<ReminderMessage, 'id' | 'status' | 'queued_at' | 'sent_at'>;
+
+// Monta as mensagens de um cliente nos canais que ele tem cadastrados
+export function buildReminderMessages(entry: CustomerReminders, companyName: string): NewReminderMessage[] {
+  const { customer, reminders } = entry;
+  const body = buildReminderText(customer, reminders, companyName);
+  const subject = 'Hora da limpeza do seu ar-condicionado';
+  const base = {
+    customer_id: customer.id,
+    customer_name: customer.name,
+    reminder_ids: reminders.map(reminder => reminder.id),
+    body
+  };
+  const messages: NewReminderMessage[] = [];
+
+  const phone = getCustomerPhone(customer);
+  if (phone) {
+    messages.push({ ...base, channel: 'whatsapp', recipient: phone, link: getWhatsAppLink(phone, body) });
+  }
+  if (customer.email) {
+    messages.push({ ...base, channel: 'email', recipient: customer.email, subject, link: getEmailLink(customer.email, subject, body) });
+  }
+
+  return messages;
+}
+
+// Fila de envio
+
+export interface ReminderOutbox {
+  list(): Promise<ReminderMessage[]>;
+  enqueue(messages: NewReminderMessage[]): Promise<ReminderMessage[]>;
+  markSent(messageId: string): Promise<void>;
+  remove(messageId: string): Promise<void>;
+}
+
+// Fila guardada no navegador. Ainda não há serviço de envio: cada mensagem é aberta no
+// WhatsApp ou no e-mail por quem está no escritório e então marcada como enviada.
+// Um lembrete já na fila (mesmo canal) não é adicionado de novo
+export function createLocalOutbox(storageKey: string, storage: Storage = window.localStorage): ReminderOutbox {
+  const read = (): ReminderMessage[] => {
+    try {
+      return JSON.parse(storage.getItem(storageKey) || '[]');
+    } catch {
+      return [];
+    }
+  };
+  const write = (messages: ReminderMessage[]) => storage.setItem(storageKey, JSON.stringify(messages));
+
+  return {
+    async list() {
+      return read();
+    },
+
+    async enqueue(newMessages) {
+      const messages = read();
+      const queued = newMessages
+        .filter(message => !messages.some(existing =>
+          existing.channel === message.channel &&
+          message.reminder_ids.every(id => existing.reminder_ids.includes(id))
+        ))
+        .map(message => ({
+          ...message,
+          id: crypto.randomUUID(),
+          status: 'queued' as const,
+          queued_at: new Date().toISOString()
+        }));
+
+      write([...messages, ...queued]);
+      return queued;
+    },
+
+    async markSent(messageId) {
+      write(read().map(message =>
+        message.id === messageId ? { ...message, status: 'sent', sent_at: new Date().toISOString() } : message
+      ));
+    },
+
+    async remove(messageId) {
+      write(read().filter(message => message.id !== messageId));
+    }
+  };
+}
\ No newline at end of file
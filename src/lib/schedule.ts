@@ -0,0 +1,160 @@
+import { addMinutes, differenceInMinutes } from 'date-fns';
+import { supabase } from './supabase';
+import type { ServiceOrder, Technician } from '../types';
+
+export const DEFAULT_JOB_DURATION_MINUTES = 60;
+
+export const DURATION_OPTIONS = [30, 60, 90, 120, 180, 240, 480];
+
+export const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest}min`;
+  return rest ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+};
+
+// Técnicos atribuídos vêm da tabela de ligação; o select devolve { technician } por linha
+const ORDER_WITH_TECHNICIANS = `
+  *,
+  customer:customers(*),
+  assignments:service_order_technicians(technician:technicians(*))
+`;
+
+type OrderRow = ServiceOrder & { assignments?: { technician: Technician | null }[] };
+
+const withTechnicians = ({ assignments, ...order }: OrderRow): ServiceOrder => ({
+  ...order,
+  technicians: (assignments || [])
+    .map(assignment => assignment.technician)
+    .filter((technician): technician is Technician => !!technician)
+});
+
+export async function loadTechnicians({ includeInactive = false } = {}): Promise<Technician[]> {
+  let query = supabase
+    .from('technicians')
+    .select('*')
+    .order('name');
+
+  if (!includeInactive) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+}
+
+// OS agendadas que ocupam parte do intervalo [start, end), inclusive as que começaram antes
+export async function loadScheduledOrders(start: Date, end: Date): Promise<ServiceOrder[]> {
+  const { data, error } = await supabase
+    .from('service_orders')
+    .select(ORDER_WITH_TECHNICIANS)
+    .lt('scheduled_start', end.toISOString())
+    .gt('scheduled_until', start.toISOString())
+    .neq('status', 'cancelled')
+    .order('scheduled_start');
+
+  if (error) throw error;
+  return ((data || []) as unknown as OrderRow[]).map(withTechnicians);
+}
+
+// OS abertas ainda sem data, que podem ser arrastadas para a agenda
+export async function loadUnscheduledOrders(): Promise<ServiceOrder[]> {
+  const { data, error } = await supabase
+    .from('service_orders')
+    .select(ORDER_WITH_TECHNICIANS)
+    .is('scheduled_start', null)
+    .in('status', ['pending', 'scheduled', 'awaiting_parts'])
+    .order('created_at');
+
+  if (error) throw error;
+  return ((data || []) as unknown as OrderRow[]).map(withTechnicians);
+}
+
+export async function loadOrderTechnicianIds(orderId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('service_order_technicians')
+    .select('technician_id')
+    .eq('service_order_id', orderId);
+
+  if (error) throw error;
+  return (data || []).map(row => row.technician_id);
+}
+
+export interface ScheduleInput {
+  start: Date | null;
+  end: Date | null;
+  durationMinutes: number | null;
+  technicianIds: string[];
+}
+
+export async function scheduleOrder(orderId: string, { start, end, durationMinutes, technicianIds }: ScheduleInput) {
+  const { error } = await supabase.rpc('schedule_service_order', {
+    p_order_id: orderId,
+    p_start: start?.toISOString() ?? null,
+    p_end: end?.toISOString() ?? null,
+    p_duration_minutes: durationMinutes,
+    p_technician_ids: technicianIds
+  });
+
+  if (error) throw error;
+}
+
+export interface JobInterval {
+  start: Date;
+  end: Date;
+}
+
+// Período em que o técnico fica ocupado: início + duração estimada (ou a janela, ou o padrão).
+// O gatilho de scheduled_until no banco segue a mesma regra
+export function getJobInterval(order: Pick<ServiceOrder, 'scheduled_start' | 'scheduled_end' | 'estimated_duration_minutes'>): JobInterval | null {
+  if (!order.scheduled_start) return null;
+
+  const start = new Date(order.scheduled_start);
+  if (order.estimated_duration_minutes) {
+    return { start, end: addMinutes(start, order.estimated_duration_minutes) };
+  }
+
+  const windowEnd = order.scheduled_end ? new Date(order.scheduled_end) : null;
+  if (windowEnd && windowEnd > start) {
+    return { start, end: windowEnd };
+  }
+
+  return { start, end: addMinutes(start, DEFAULT_JOB_DURATION_MINUTES) };
+}
+
+export const getJobDurationMinutes = (order: Pick<ServiceOrder, 'scheduled_start' | 'scheduled_end' | 'estimated_duration_minutes'>) => {
+  const interval = getJobInterval(order);
+  return interval ? differenceInMinutes(interval.end, interval.start) : DEFAULT_JOB_DURATION_MINUTES;
+};
+
+export const intervalsOverlap = (a: JobInterval, b: JobInterval) => a.start < b.end && b.start < a.end;
+
+export interface ScheduleConflict {
+  order: ServiceOrder;
+  technician: Technician;
+}
+
+// Outras OS em que algum dos técnicos da OS já está ocupado no mesmo horário
+export function findConflicts(
+  order: Pick<ServiceOrder, 'id' | 'scheduled_start' | 'scheduled_end' | 'estimated_duration_minutes' | 'technicians'>,
+  others: ServiceOrder[]
+): ScheduleConflict[] {
+  const interval = getJobInterval(order);
+  if (!interval || !order.technicians?.length) return [];
+
+  return others.flatMap(other => {
+    if (other.id === order.id || other.status === 'cancelled') return [];
+
+    const otherInterval = getJobInterval(other);
+    if (!otherInterval || !intervalsOverlap(interval, otherInterval)) return [];
+
+    return (order.technicians || [])
+      .filter(technician => other.technicians?.some(t => t.id === technician.id))
+      .map(technician => ({ order: other, technician }));
+  });
+}
+
+export const findAllConflicts = (orders: ServiceOrder[]) =>
+  Object.fromEntries(orders.map(order => [order.id, findConflicts(order, orders)])) as Record<string, ScheduleConflict[]>;
\ No newline at end of file
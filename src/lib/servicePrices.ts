@@ -0,0 +1,72 @@
+import type { ServicePrices } from '../types';
+
+export const BTU_OPTIONS = [
+  { value: '7000', label: '7.000 BTUs' },
+  { value: '9000', label: '9.000 BTUs' },
+  { value: '12000', label: '12.000 BTUs' },
+  { value: '18000', label: '18.000 BTUs' },
+  { value: '24000', label: '24.000 BTUs' },
+  { value: '30000', label: '30.000 BTUs' },
+  { value: '36000', label: '36.000 BTUs' },
+  { value: '48000', label: '48.000 BTUs' },
+  { value: '60000', label: '60.000 BTUs' }
+];
+
+export const EQUIPMENT_TYPES = [
+  { id: 'split', label: 'Split' },
+  { id: 'cassete', label: 'Cassete' },
+  { id: 'piso_teto', label: 'Piso Teto' },
+  { id: 'multi_split', label: 'Multi Split' },
+  { id: 'janela', label: 'Janela' },
+  { id: 'portatil', label: 'Portátil' }
+];
+
+// Serviços cujo valor vem da tabela service_prices
+export const isTablePriced = (serviceType?: string) =>
+  serviceType === 'installation' || serviceType === 'cleaning';
+
+// Aceita tanto "150" quanto o formato antigo { "base_price": "150" }
+const toPrice = (value: unknown): number | null => {
+  const raw = typeof value === 'object' && value !== null
+    ? (value as { base_price?: string }).base_price
+    : value;
+  const parsed = parseFloat(String(raw ?? '').replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+};
+
+export function getTablePrice(
+  prices: ServicePrices,
+  serviceType?: string,
+  equipmentType?: string,
+  equipmentPower?: string
+): number | null {
+  if (!equipmentType) return null;
+
+  if (serviceType === 'cleaning') {
+    return toPrice(prices.cleaning_prices[equipmentType]);
+  }
+
+  if (serviceType === 'installation' && equipmentPower) {
+    return toPrice(prices.installation_prices[equipmentType]?.[equipmentPower]);
+  }
+
+  return null;
+}
+
+export const SERVICE_TYPES = [
+  { id: 'installation', label: 'Instalação' },
+  { id: 'maintenance', label: 'Manutenção' },
+  { id: 'cleaning', label: 'Limpeza' },
+  { id: 'gas_recharge', label: 'Recarga de Gás' },
+  { id: 'other', label: 'Outro' },
+  { id: 'warranty_return', label: 'Retorno em garantia' }
+];
+
+// service_orders.service_type recebe 'multiple' quando a OS tem serviços de tipos diferentes
+export const getServiceTypeLabel = (serviceType?: string) =>
+  serviceType === 'multiple'
+    ? 'Vários serviços'
+    : SERVICE_TYPES.find(({ id }) => id === serviceType)?.label || '-';
+
+export const getEquipmentTypeLabel = (equipmentType?: string) =>
+  EQUIPMENT_TYPES.find(({ id }) => id === equipmentType)?.label || equipmentType || '-';
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { supabase } from './supabase';
+import { getSignedUrls } from './storage';
+import { getCompanyStoragePath } from './team';
+import { tryGetCurrentPosition } from './geolocation';
+import type { ServiceOrderSignature, SignerRole } from '../types';
+
+export const SIGNER_ROLE_LABELS: Record<SignerRole, string> = {
+  customer: 'Cliente',
+  technician: 'Técnico'
+};
+
+const SIGNATURES_BUCKET = 'service-orders';
+
+export async function loadOrderSignatures(orderId: string): Promise<ServiceOrderSignature[]> {
+  const { data, error } = await supabase
+    .from('service_order_signatures')
+    .select('*')
+    .eq('service_order_id', orderId);
+
+  if (error) throw error;
+  return withSignedUrls(data || []);
+}
+
+// signature_url guarda o caminho no bucket (privado); na tela vai a URL assinada
+async function withSignedUrls(signatures: ServiceOrderSignature[]): Promise<ServiceOrderSignature[]> {
+  const urls = await getSignedUrls(SIGNATURES_BUCKET, signatures.map(signature => signature.signature_url));
+  return signatures.map(signature => ({ ...signature, signature_url: urls.get(signature.signature_url) || '' }));
+}
+
+// Grava a assinatura (PNG do canvas) substituindo a anterior do mesmo papel
+export async function saveSignature(
+  orderId: string,
+  signerRole: SignerRole,
+  signerName: string,
+  dataUrl: string
+): Promise<ServiceOrderSignature> {
+  const blob = await (await fetch(dataUrl)).blob();
+  const path = await getCompanyStoragePath(`signatures/${orderId}/${signerRole}_${Date.now()}.png`);
+  const location = await tryGetCurrentPosition();
+
+  const { error: uploadError } = await supabase.storage
+    .from(SIGNATURES_BUCKET)
+    .upload(path, blob, { contentType: 'image/png' });
+
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('service_order_signatures')
+    .upsert({
+      service_order_id: orderId,
+      signer_role: signerRole,
+      signer_name: signerName,
+      signature_url: path,
+      storage_path: path,
+      signed_at: new Date().toISOString(),
+      location_lat: location?.lat ?? null,
+      location_lng: location?.lng ?? null
+    }, { onConflict: 'service_order_id,signer_role' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  const [signature] = await withSignedUrls([data]);
+  return signature;
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { supabase } from './supabase';
+
+// Os buckets são privados: as colunas guardam o caminho do arquivo e a tela usa uma URL assinada
+const SIGNED_URL_EXPIRES_IN = 60 * 60;
+
+export async function getSignedUrl(bucket: string, path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(path, SIGNED_URL_EXPIRES_IN);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// Assina vários arquivos do mesmo bucket em uma chamada; devolve as URLs por caminho
+export async function getSignedUrls(bucket: string, paths: string[]): Promise<Map<string, string>> {
+  const unique = [...new Set(paths.filter(Boolean))];
+  if (unique.length === 0) return new Map();
+
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrls(unique, SIGNED_URL_EXPIRES_IN);
+
+  if (error) throw error;
+  return new Map(data.filter(item => item.path && item.signedUrl).map(item => [item.path as string, item.signedUrl]));
+}
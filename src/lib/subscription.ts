@@ -0,0 +1,32 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { supabase } from './supabase';
+import type { Subscription } from '../types';
+
+// Link do checkout da assinatura (opcional: sem ele a tela pede para falar com o suporte)
+export const SUBSCRIPTION_CHECKOUT_URL: string | undefined = import.meta.env.VITE_SUBSCRIPTION_CHECKOUT_URL;
+
+// Assinatura da empresa; no primeiro acesso cria o período de teste
+export async function ensureSubscription(): Promise<Subscription | null> {
+  const { data, error } = await supabase.rpc('create_trial_subscription');
+
+  if (error) throw error;
+  return data?.id ? data as Subscription : null;
+}
+
+export function getSubscriptionEnd(subscription: Subscription | null): Date | null {
+  const end = subscription?.current_period_ends_at || subscription?.trial_ends_at;
+  return end ? new Date(end) : null;
+}
+
+// Mesma regra de company_has_active_subscription no banco
+export function isSubscriptionActive(subscription: Subscription | null): boolean {
+  const end = getSubscriptionEnd(subscription);
+  return !!subscription
+    && subscription.status !== 'expired'
+    && !!end && end > new Date();
+}
+
+export function getDaysLeft(subscription: Subscription | null): number {
+  const end = getSubscriptionEnd(subscription);
+  return end ? Math.max(differenceInCalendarDays(end, new Date()), 0) : 0;
+}
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import type { TeamMember, TeamRole } from '../types';
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'Dono',
+  office_admin: 'Escritório',
+  technician: 'Técnico'
+};
+
+export const TEAM_ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  owner: 'Acesso total, inclusive à equipe e aos donos',
+  office_admin: 'Acesso total, exceto gerenciar donos',
+  technician: 'Vê e atualiza apenas as OS em que está escalado'
+};
+
+// Abas que cada papel pode abrir (o banco aplica as mesmas regras nas políticas)
+const TECHNICIAN_TABS = ['today', 'order-list'];
+
+export function isOfficeRole(role: TeamRole | null | undefined): boolean {
+  return role === 'owner' || role === 'office_admin';
+}
+
+export function canAccessTab(role: TeamRole | null | undefined, tab: string): boolean {
+  if (isOfficeRole(role)) return true;
+  return role === 'technician' && TECHNICIAN_TABS.includes(tab);
+}
+
+// Papéis que quem está logado pode atribuir a outros membros
+export function getAssignableRoles(role: TeamRole | null | undefined): TeamRole[] {
+  if (role === 'owner') return ['owner', 'office_admin', 'technician'];
+  if (role === 'office_admin') return ['office_admin', 'technician'];
+  return [];
+}
+
+// Aceita o convite pendente para o email do usuário (ou cria o dono numa instalação nova)
+export async function joinTeam(): Promise<TeamMember | null> {
+  const { data, error } = await supabase.rpc('join_team');
+
+  if (error) throw error;
+  return data?.id ? data as TeamMember : null;
+}
+
+// Caminho no storage dentro da pasta da empresa (as políticas só liberam "<company_id>/...")
+export async function getCompanyStoragePath(path: string): Promise<string> {
+  const { data, error } = await supabase.rpc('current_company_id');
+
+  if (error) throw error;
+  if (!data) throw new Error('Usuário sem empresa');
+  return `${data}/${path}`;
+}
+
+export async function loadTeamMembers(): Promise<TeamMember[]> {
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('*')
+    .order('invited_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Registra o convite e envia o link de acesso para o email convidado. Se o email não
+// sair, o convite continua valendo: basta a pessoa criar a conta com o mesmo email
+export async function inviteTeamMember(
+  email: string,
+  role: TeamRole,
+  name?: string
+): Promise<{ member: TeamMember; emailSent: boolean }> {
+  const { data, error } = await supabase.rpc('invite_team_member', {
+    p_email: email,
+    p_role: role,
+    p_name: name || null
+  });
+
+  if (error) throw error;
+
+  const { error: otpError } = await supabase.auth.signInWithOtp({
+    email: data.email,
+    options: { emailRedirectTo: window.location.origin }
+  });
+
+  if (otpError) {
+    console.error('Erro ao enviar convite por email:', otpError);
+  }
+
+  return { member: data as TeamMember, emailSent: !otpError };
+}
+
+export async function updateMemberRole(memberId: string, role: TeamRole): Promise<void> {
+  const { error } = await supabase
+    .from('team_members')
+    .update({ role })
+    .eq('id', memberId);
+
+  if (error) throw error;
+}
+
+export async function removeTeamMember(memberId: string): Promise<void> {
+  const { error } = await supabase
+    .from('team_members')
+    .delete()
+    .eq('id', memberId);
+
+  if (error) throw error;
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { addDays, startOfDay } from 'date-fns';
+import { supabase } from './supabase';
+import { formatAddress } from './customers';
+import { onlyDigits } from './text';
+import type { ServiceOrder, ServiceOrderVisit, Technician } from '../types';
+
+// Técnico vinculado ao usuário logado (vincula pelo email no primeiro acesso)
+export async function getCurrentTechnician(): Promise<Technician | null> {
+  const { data, error } = await supabase.rpc('current_technician');
+
+  if (error) throw error;
+  return data?.id ? data as Technician : null;
+}
+
+// Serviços de hoje do técnico, em ordem de horário
+export async function loadTodayJobs(technicianId: string): Promise<ServiceOrder[]> {
+  const today = startOfDay(new Date());
+
+  const { data, error } = await supabase
+    .from('service_orders')
+    .select(`
+      *,
+      customer:customers(*),
+      assignments:service_order_technicians!inner(technician_id)
+    `)
+    .eq('assignments.technician_id', technicianId)
+    .gte('scheduled_start', today.toISOString())
+    .lt('scheduled_start', addDays(today, 1).toISOString())
+    .neq('status', 'cancelled')
+    .order('scheduled_start');
+
+  if (error) throw error;
+  return (data || []) as unknown as ServiceOrder[];
+}
+
+export async function loadTechnicianVisits(technicianId: string, orderIds: string[]): Promise<ServiceOrderVisit[]> {
+  if (orderIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('service_order_visits')
+    .select('*')
+    .eq('technician_id', technicianId)
+    .in('service_order_id', orderIds)
+    .order('check_in_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function checkIn(orderId: string, location: { lat: number; lng: number } | null): Promise<ServiceOrderVisit> {
+  const { data, error } = await supabase.rpc('check_in_service_order', {
+    p_order_id: orderId,
+    p_lat: location?.lat ?? null,
+    p_lng: location?.lng ?? null
+  });
+
+  if (error) throw error;
+  return data as ServiceOrderVisit;
+}
+
+export async function checkOut(
+  orderId: string,
+  location: { lat: number; lng: number } | null,
+  status: 'completed' | 'awaiting_parts' = 'completed'
+): Promise<ServiceOrderVisit> {
+  const { data, error } = await supabase.rpc('check_out_service_order', {
+    p_order_id: orderId,
+    p_lat: location?.lat ?? null,
+    p_lng: location?.lng ?? null,
+    p_status: status
+  });
+
+  if (error) throw error;
+  return data as ServiceOrderVisit;
+}
+
+export const getPhoneUrl = (order: ServiceOrder) => {
+  const digits = onlyDigits(order.customer_phone || order.customer?.phone);
+  return digits ? `tel:${digits}` : '';
+};
+
+// Prefere as coordenadas salvas na OS; sem elas, navega pelo endereço
+export const getNavigationUrl = (order: ServiceOrder) => {
+  const destination = order.location_lat != null && order.location_lng != null
+    ? `${order.location_lat},${order.location_lng}`
+    : formatAddress(order.address);
+
+  return destination
+    ? `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`
+    : '';
+};
\ No newline at end of file
@@ -0,0 +1,2 @@
+// Funções de texto sem dependências: podem ser usadas em qualquer módulo (e nos testes)
+export const onlyDigits = (value?: string) => (value || '').replace(/\D/g, '');
@@ -0,0 +1,85 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from './supabase';
+import type { OrderService, ServiceOrder } from '../types';
+
+interface WarrantyReturnRow {
+  id: string;
+  order_services: { equipment: { brand?: string } | null }[];
+  warranty_order: {
+    assignments: { technician: { name?: string } | null }[];
+  } | null;
+}
+
+export interface WarrantyReturnSummary {
+  total: number;
+  byTechnician: Record<string, number>;
+  byBrand: Record<string, number>;
+}
+
+// Fim da garantia da OS: o maior prazo entre os serviços
+export function getWarrantyUntil(services: Pick<OrderService, 'warranty_until'>[] = []) {
+  return services.reduce<string | null>(
+    (latest, service) => service.warranty_until && (!latest || service.warranty_until > latest) ? service.warranty_until : latest,
+    null
+  );
+}
+
+export const isUnderWarranty = (warrantyUntil?: string | null) =>
+  !!warrantyUntil && warrantyUntil >= format(new Date(), 'yyyy-MM-dd');
+
+export const formatWarrantyDate = (warrantyUntil: string) =>
+  format(parseISO(warrantyUntil), 'dd/MM/yyyy');
+
+// Abre uma OS de retorno (valor zero) para os serviços da OS que ainda estão na garantia
+export async function createWarrantyReturn(order: Pick<ServiceOrder, 'id'>, description: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_warranty_return', {
+    p_order_id: order.id,
+    p_description: description
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Retornos em garantia abertos no período, contados pelos técnicos da OS original e pela
+// marca dos equipamentos atendidos. Um retorno com dois técnicos conta para os dois
+export async function loadWarrantyReturnSummary(start: Date, end: Date): Promise<WarrantyReturnSummary> {
+  const { data, error } = await supabase
+    .from('service_orders')
+    .select(`
+      id,
+      order_services(equipment:customer_equipment(brand)),
+      warranty_order:service_orders!warranty_order_id(
+        assignments:service_order_technicians(technician:technicians(name))
+      )
+    `)
+    .not('warranty_order_id', 'is', null)
+    .neq('status', 'cancelled')
+    .gte('created_at', start.toISOString())
+    .lte('created_at', end.toISOString());
+
+  if (error) throw error;
+
+  const summary: WarrantyReturnSummary = { total: 0, byTechnician: {}, byBrand: {} };
+  const count = (group: Record<string, number>, key: string) => {
+    group[key] = (group[key] || 0) + 1;
+  };
+
+  ((data || []) as unknown as WarrantyReturnRow[]).forEach(returnOrder => {
+    summary.total += 1;
+
+    const technicians = new Set(
+      (returnOrder.warranty_order?.assignments || []).map(({ technician }) => technician?.name || 'Técnico removido')
+    );
+    if (technicians.size === 0) technicians.add('Sem técnico');
+    technicians.forEach(name => count(summary.byTechnician, name));
+
+    const brands = new Set(
+      returnOrder.order_services.map(({ equipment }) => equipment?.brand?.trim() || 'Marca não informada')
+    );
+    if (brands.size === 0) brands.add('Marca não informada');
+    brands.forEach(brand => count(summary.byBrand, brand));
+  });
+
+  return summary;
+}
\ No newline at end of file
@@ -4,6 +4,10 @@ export interface Customer {
   email?: string;
   phone?: string;
   address?: string;
+  document?: string;
+  phones?: string[];
+  addresses?: CustomerAddress[];
+  created_at?: string;
 }
 
 export interface Material {
@@ -17,6 +21,7 @@ export interface Material {
 export interface ServiceOrderMaterial {
   id: string;
   material_id: string;
+  order_service_id?: string;
   quantity: number;
   unit_price: number;
   material?: Material;
@@ -24,8 +29,25 @@ export interface ServiceOrderMaterial {
 
 export interface ServiceOrderPhoto {
   id: string;
+  service_order_id?: string;
   photo_url: string;
   photo_type: 'before' | 'during' | 'after';
+  storage_path?: string;
+  created_at?: string;
+}
+
+export type SignerRole = 'customer' | 'technician';
+
+export interface ServiceOrderSignature {
+  id: string;
+  service_order_id: string;
+  signer_role: SignerRole;
+  signer_name: string;
+  signature_url: string;
+  storage_path?: string;
+  signed_at: string;
+  location_lat?: number | null;
+  location_lng?: number | null;
 }
 
 export interface ServiceOrderItem {
@@ -40,28 +62,326 @@ export interface ServiceOrderItem {
   }>;
 }
 
+export interface OrderService {
+  id: string;
+  service_order_id: string;
+  service_type: string;
+  equipment_type?: string;
+  equipment_power?: string;
+  equipment_id?: string;
+  description?: string;
+  price: number;
+  price_source?: PriceSource;
+  warranty_until?: string;
+}
+
+export type PriceSource = 'table' | 'manual';
+
+export type QuoteStatus = 'quote' | 'quote_approved' | 'quote_rejected';
+
+export type ServiceOrderStatus =
+  | QuoteStatus
+  | 'pending'
+  | 'scheduled'
+  | 'en_route'
+  | 'in_progress'
+  | 'awaiting_parts'
+  | 'completed'
+  | 'invoiced'
+  | 'paid'
+  | 'cancelled';
+
+export interface ServiceOrderAddress {
+  street: string;
+  number: string;
+  complement?: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+  zipCode: string;
+}
+
+export interface CustomerAddress extends ServiceOrderAddress {
+  label?: string;
+}
+
 export interface ServiceOrder {
   id: string;
+  order_number?: string;
   customer_id: string;
   services: ServiceOrderItem[];
   include_photos: boolean;
   location_lat?: number;
   location_lng?: number;
-  status: 'pending' | 'in_progress' | 'completed';
+  status: ServiceOrderStatus;
   total_amount: number;
   customer?: Customer;
   photos?: string[];
-  address: {
-    street: string;
-    number: string;
-    complement?: string;
-    neighborhood: string;
-    city: string;
-    state: string;
-    zipCode: string;
-  };
+  address: ServiceOrderAddress;
+  service_type?: string;
+  equipment_type?: string;
+  equipment_power?: string;
+  description?: string;
+  customer_phone?: string;
+  materials_amount?: number;
+  services_amount?: number;
+  discount_amount?: number;
+  signed_order_url?: string;
+  status_reason?: string;
+  valid_until?: string;
+  quote_revision?: number;
+  quote_decided_at?: string;
+  quote_decision_reason?: string;
+  quote_id?: string;
+  scheduled_start?: string;
+  scheduled_end?: string;
+  estimated_duration_minutes?: number;
+  scheduled_until?: string;
+  technicians?: Technician[];
+  maintenance_plan_id?: string;
+  maintenance_period?: string;
+  warranty_order_id?: string;
+  created_at: string;
+  updated_at?: string;
+  order_services?: OrderService[];
+  materials?: ServiceOrderMaterial[];
+}
+
+export interface ServiceOrderReopen {
+  id: string;
+  service_order_id: string;
+  previous_status: ServiceOrderStatus;
+  new_status: ServiceOrderStatus;
+  reason: string;
+  reopened_by?: string;
+  created_at: string;
 }
 
+export interface Technician {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  color: string;
+  active: boolean;
+  user_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SubscriptionStatus = 'trial' | 'active' | 'cancelled' | 'expired';
+
+export interface Subscription {
+  id: string;
+  company_id: string;
+  user_id: string;
+  status: SubscriptionStatus;
+  trial_ends_at?: string;
+  current_period_ends_at?: string;
+  mp_subscription_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TeamRole = 'owner' | 'office_admin' | 'technician';
+
+export interface TeamMember {
+  id: string;
+  company_id: string;
+  email: string;
+  name?: string;
+  role: TeamRole;
+  user_id?: string;
+  invited_by?: string;
+  invited_at: string;
+  accepted_at?: string;
+}
+
+export interface ServiceOrderVisit {
+  id: string;
+  service_order_id: string;
+  technician_id: string;
+  check_in_at: string;
+  check_in_lat?: number;
+  check_in_lng?: number;
+  check_out_at?: string;
+  check_out_lat?: number;
+  check_out_lng?: number;
+  minutes_on_site?: number;
+  created_at?: string;
+}
+
+export interface ServiceOrderStatusTransition {
+  from_status: ServiceOrderStatus;
+  to_status: ServiceOrderStatus;
+  requires_reason: boolean;
+}
+
+export interface ServiceOrderStatusChange {
+  id: string;
+  service_order_id: string;
+  from_status?: ServiceOrderStatus;
+  to_status: ServiceOrderStatus;
+  reason?: string;
+  changed_by?: string;
+  changed_by_email?: string;
+  changed_at: string;
+}
+
+export interface QuoteRevision {
+  id: string;
+  quote_id: string;
+  revision: number;
+  snapshot: ServiceOrder;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface MaintenancePlanEquipment {
+  id?: string;
+  plan_id?: string;
+  equipment_type?: string;
+  equipment_power?: string;
+  brand?: string;
+  model?: string;
+  serial_number?: string;
+  location?: string;
+  created_at?: string;
+}
+
+export interface MaintenancePlanTask {
+  id?: string;
+  plan_id?: string;
+  description: string;
+  frequency_months: number;
+  created_at?: string;
+}
+
+export interface MaintenancePlan {
+  id: string;
+  customer_id: string;
+  name: string;
+  address?: ServiceOrderAddress;
+  start_date: string;
+  end_date?: string;
+  visit_day: number;
+  visit_time: string;
+  visit_duration_minutes: number;
+  visit_price: number;
+  engineer_name?: string;
+  engineer_registration?: string;
+  engineer_art?: string;
+  engineer_signature_url?: string;
+  notes?: string;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  customer?: Customer;
+  equipment?: MaintenancePlanEquipment[];
+  tasks?: MaintenancePlanTask[];
+}
+
+export interface ServiceOrderChecklistItem {
+  id: string;
+  service_order_id: string;
+  task_id?: string;
+  equipment_id?: string;
+  description: string;
+  equipment_label?: string;
+  position: number;
+  done: boolean;
+  notes?: string;
+  done_at?: string;
+  done_by?: string;
+}
+
+export interface CustomerEquipment {
+  id: string;
+  customer_id: string;
+  address?: ServiceOrderAddress;
+  room?: string;
+  equipment_type?: string;
+  equipment_power?: string;
+  brand?: string;
+  model?: string;
+  serial_number?: string;
+  refrigerant?: string;
+  installed_at?: string;
+  notes?: string;
+  installed_by_order_id?: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Serviço executado em um equipamento, com a OS em que foi feito
+export interface EquipmentServiceRecord extends OrderService {
+  service_order: ServiceOrder;
+}
+
+// Próxima limpeza de um equipamento (ou de um serviço sem equipamento cadastrado)
+export interface MaintenanceReminder {
+  id: string;
+  customer: Customer;
+  equipment_id?: string;
+  equipment_label: string;
+  last_service_type: string;
+  last_service_date: string;
+  due_date: string;
+}
+
+export type ReminderChannel = 'whatsapp' | 'email';
+
+export type ReminderMessageStatus = 'queued' | 'sent';
+
+export interface ReminderMessage {
+  id: string;
+  customer_id: string;
+  customer_name: string;
+  reminder_ids: string[];
+  channel: ReminderChannel;
+  recipient: string;
+  subject?: string;
+  body: string;
+  link: string;
+  status: ReminderMessageStatus;
+  queued_at: string;
+  sent_at?: string;
+}
+
+export type PaymentMethod = 'pix' | 'cash' | 'credit_card' | 'debit_card' | 'bank_transfer' | 'boleto' | 'check';
+
+export interface PaymentReceipt {
+  id: string;
+  service_order_id: string | null;
+  order_number?: string | null;
+  receipt_number: string;
+  payer_name: string;
+  payer_document?: string | null;
+  amount: number;
+  payment_method: PaymentMethod;
+  paid_at: string;
+  pdf_url?: string | null;
+  storage_path?: string | null;
+  created_at: string;
+}
+
+export interface CustomerMerge {
+  id: string;
+  survivor_id: string | null;
+  survivor_snapshot: Customer;
+  merged_customers: Customer[];
+  moved_orders: Array<{ order_id: string; customer_id: string }>;
+  moved_equipment: Array<{ equipment_id: string; customer_id: string }>;
+  moved_plans: Array<{ plan_id: string; customer_id: string }>;
+  merged_by?: string;
+  created_at: string;
+  undone_at?: string | null;
+}
+
+export type PdfHeaderLayout = 'logo_right' | 'logo_left' | 'centered';
+
+export type PixKeyType = 'cpf' | 'cnpj' | 'email' | 'phone' | 'random';
+
 export interface CompanyInformation {
   id?: string;
   name: string;
@@ -69,6 +389,24 @@ export interface CompanyInformation {
   phone: string;
   email: string;
   logo?: string;
+  order_number_prefix?: string;
+  order_number_yearly_reset?: boolean;
+  // Fuso horário da empresa (nome IANA): define a data local de validade, visitas e garantias
+  timezone?: string;
+  brand_primary_color?: string;
+  brand_secondary_color?: string;
+  pdf_header_layout?: PdfHeaderLayout;
+  pdf_footer_text?: string;
+  payment_terms?: string;
+  // Cláusula de garantia por tipo de serviço (chave: service_type)
+  warranty_terms?: Record<string, string>;
+  // {validade} é trocado pela data de validade do orçamento
+  quote_validity_text?: string;
+  pix_key_type?: PixKeyType | null;
+  pix_key?: string;
+  // Nome e cidade do recebedor no QR Code; sem nome, vale o da empresa
+  pix_merchant_name?: string;
+  pix_merchant_city?: string;
 }
 
 export interface ServicePrices {
@@ -80,4 +418,10 @@ export interface ServicePrices {
   cleaning_prices: {
     [key: string]: string;
   };
+  warranty_months?: {
+    [serviceType: string]: string;
+  };
+  reminder_months?: {
+    [serviceType: string]: string;
+  };
 }
\ No newline at end of file
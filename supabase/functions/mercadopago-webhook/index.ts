@@ -0,0 +1,247 @@
+// Recebe as notificações de assinatura do Mercado Pago (preapproval e pagamentos),
+// valida a assinatura, registra o evento em payment_events e atualiza subscriptions.
+//
+// Variáveis de ambiente:
+// - MERCADOPAGO_WEBHOOK_SECRET: chave secreta das notificações (painel do Mercado Pago)
+// - MERCADOPAGO_ACCESS_TOKEN: token para consultar o preapproval/pagamento
+// - MERCADOPAGO_API_URL: opcional, para usar o servidor de replay local
+// - SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY: fornecidas pelo Supabase
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { verifySignature } from './signature.ts';
+import { MercadoPagoClient, mapPreapprovalStatus, type Preapproval } from './mercadopago.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const mercadoPago = new MercadoPagoClient(
+  Deno.env.get('MERCADOPAGO_ACCESS_TOKEN') ?? '',
+  Deno.env.get('MERCADOPAGO_API_URL') || undefined
+);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface Notification {
+  id?: string | number;
+  type?: string;
+  action?: string;
+  data?: { id?: string | number };
+}
+
+interface ProcessResult {
+  status: 'processed' | 'ignored';
+  companyId?: string;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Empresa da assinatura: external_reference com o company_id ou, no checkout pelo link do
+// plano (que não leva referência), o dono cujo email é o do pagador
+async function findCompanyId(preapproval: Preapproval): Promise<string | null> {
+  const reference = preapproval.external_reference;
+  if (reference && UUID_PATTERN.test(reference)) return reference;
+  if (!preapproval.payer_email) return null;
+
+  // ilike sem curingas: _ e % do email valem como caracteres
+  const { data } = await supabase
+    .from('team_members')
+    .select('company_id')
+    .eq('role', 'owner')
+    .ilike('email', preapproval.payer_email.replace(/[\\%_]/g, '\\$&'))
+    .limit(1)
+    .maybeSingle();
+
+  return data?.company_id ?? null;
+}
+
+// Aplica o preapproval na assinatura da empresa. Só grava quando o preapproval é mais novo
+// que o último aplicado, então reprocessar ou receber fora de ordem não muda o resultado
+async function applyPreapproval(preapproval: Preapproval): Promise<ProcessResult> {
+  const companyId = await findCompanyId(preapproval);
+  if (!companyId) {
+    return { status: 'ignored' };
+  }
+
+  const status = mapPreapprovalStatus(preapproval.status);
+  const changedAt = preapproval.last_modified || preapproval.date_created || new Date().toISOString();
+
+  const values: Record<string, unknown> = {
+    mp_subscription_id: preapproval.id,
+    mp_payer_email: preapproval.payer_email ?? null,
+    mp_updated_at: changedAt,
+    updated_at: new Date().toISOString()
+  };
+  if (status) values.status = status;
+  if (status === 'active' && preapproval.next_payment_date) {
+    values.current_period_ends_at = preapproval.next_payment_date;
+  }
+
+  const { data: current, error: loadError } = await supabase
+    .from('subscriptions')
+    .select('id, mp_updated_at')
+    .eq('company_id', companyId)
+    .maybeSingle();
+
+  if (loadError) throw loadError;
+
+  if (!current) {
+    const { data: company } = await supabase
+      .from('companies')
+      .select('created_by')
+      .eq('id', companyId)
+      .maybeSingle();
+
+    if (!company?.created_by) return { status: 'ignored' };
+
+    const { error } = await supabase
+      .from('subscriptions')
+      .insert([{ ...values, company_id: companyId, user_id: company.created_by, status: status ?? 'trial' }]);
+    if (error) throw error;
+    return { status: 'processed', companyId };
+  }
+
+  if (current.mp_updated_at && new Date(current.mp_updated_at) > new Date(changedAt)) {
+    return { status: 'ignored', companyId };
+  }
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update(values)
+    .eq('id', current.id);
+
+  if (error) throw error;
+  return { status: 'processed', companyId };
+}
+
+async function processNotification(topic: string, resourceId: string): Promise<ProcessResult> {
+  switch (topic) {
+    case 'preapproval':
+    case 'subscription_preapproval':
+      return applyPreapproval(await mercadoPago.getPreapproval(resourceId));
+
+    case 'subscription_authorized_payment': {
+      // A cobrança mensal não traz a empresa: o estado vem do preapproval atualizado
+      const payment = await mercadoPago.getAuthorizedPayment(resourceId);
+      return applyPreapproval(await mercadoPago.getPreapproval(payment.preapproval_id));
+    }
+
+    case 'payment': {
+      const payment = await mercadoPago.getPayment(resourceId);
+      const preapprovalId = payment.metadata?.preapproval_id;
+      if (!preapprovalId) return { status: 'ignored' };
+      return applyPreapproval(await mercadoPago.getPreapproval(preapprovalId));
+    }
+
+    default:
+      return { status: 'ignored' };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const url = new URL(req.url);
+  let notification: Notification;
+  try {
+    notification = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+
+  const topic = notification.type ?? url.searchParams.get('type') ?? url.searchParams.get('topic') ?? '';
+  // Só o data.id da query entra na assinatura; o do corpo não é usado
+  const resourceId = url.searchParams.get('data.id');
+  const requestId = req.headers.get('x-request-id');
+  const signatureValid = await verifySignature(
+    Deno.env.get('MERCADOPAGO_WEBHOOK_SECRET') ?? '',
+    req.headers.get('x-signature'),
+    requestId,
+    resourceId
+  );
+
+  const event = {
+    notification_id: notification.id?.toString() ?? null,
+    request_id: requestId,
+    topic,
+    action: notification.action ?? null,
+    resource_id: resourceId,
+    payload: notification,
+    signature_valid: signatureValid,
+    status: signatureValid ? 'received' : 'rejected',
+    error: signatureValid ? null : 'Assinatura inválida ou expirada'
+  };
+
+  // Todo evento fica registrado, inclusive os rejeitados
+  const { data: logged, error: logError } = await supabase
+    .from('payment_events')
+    .insert([event])
+    .select('id')
+    .single();
+
+  let eventId = logged?.id as string | undefined;
+
+  if (logError) {
+    // Notificação repetida (o Mercado Pago reenvia até receber 2xx)
+    if (logError.code !== '23505') {
+      console.error('Erro ao registrar evento:', logError);
+      return json({ error: 'Could not log event' }, 500);
+    }
+
+    const { data: existing } = await supabase
+      .from('payment_events')
+      .select('id, status')
+      .eq('provider', 'mercadopago')
+      .eq('notification_id', event.notification_id)
+      .eq('signature_valid', true)
+      .single();
+
+    if (existing && existing.status !== 'failed' && existing.status !== 'received') {
+      return json({ duplicate: true, status: existing.status });
+    }
+    eventId = existing?.id;
+  }
+
+  if (!signatureValid) {
+    return json({ error: 'Invalid signature' }, 401);
+  }
+
+  if (!resourceId) {
+    await supabase.from('payment_events')
+      .update({ status: 'ignored', error: 'Notificação sem data.id', processed_at: new Date().toISOString() })
+      .eq('id', eventId);
+    return json({ status: 'ignored' });
+  }
+
+  try {
+    const result = await processNotification(topic, resourceId);
+
+    await supabase.from('payment_events')
+      .update({
+        status: result.status,
+        company_id: result.companyId ?? null,
+        error: null,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', eventId);
+
+    return json({ status: result.status });
+  } catch (error) {
+    console.error('Erro ao processar notificação:', error);
+
+    await supabase.from('payment_events')
+      .update({ status: 'failed', error: (error as Error).message, processed_at: new Date().toISOString() })
+      .eq('id', eventId);
+
+    // 5xx faz o Mercado Pago tentar novamente mais tarde
+    return json({ error: 'Processing failed' }, 500);
+  }
+});
\ No newline at end of file
@@ -0,0 +1,71 @@
+// Cliente mínimo da API do Mercado Pago. MERCADOPAGO_API_URL permite apontar para o
+// servidor de replay (replay.ts) nos testes locais.
+
+export interface Preapproval {
+  id: string;
+  status: 'pending' | 'authorized' | 'paused' | 'cancelled';
+  external_reference?: string;
+  payer_email?: string;
+  next_payment_date?: string;
+  last_modified?: string;
+  date_created?: string;
+}
+
+export interface AuthorizedPayment {
+  id: number | string;
+  preapproval_id: string;
+  status: string;
+}
+
+export interface Payment {
+  id: number | string;
+  status: string;
+  metadata?: { preapproval_id?: string };
+}
+
+export type SubscriptionStatus = 'trial' | 'active' | 'cancelled' | 'expired';
+
+export class MercadoPagoClient {
+  constructor(
+    private accessToken: string,
+    private baseUrl = 'https://api.mercadopago.com'
+  ) {}
+
+  private async get<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mercado Pago respondeu ${response.status} em ${path}`);
+    }
+
+    return await response.json() as T;
+  }
+
+  getPreapproval(id: string) {
+    return this.get<Preapproval>(`/preapproval/${encodeURIComponent(id)}`);
+  }
+
+  getAuthorizedPayment(id: string) {
+    return this.get<AuthorizedPayment>(`/authorized_payments/${encodeURIComponent(id)}`);
+  }
+
+  getPayment(id: string) {
+    return this.get<Payment>(`/v1/payments/${encodeURIComponent(id)}`);
+  }
+}
+
+// Situação da assinatura no sistema para cada situação do preapproval.
+// null: ainda não muda nada (ex.: checkout iniciado e não concluído)
+export function mapPreapprovalStatus(status: Preapproval['status']): SubscriptionStatus | null {
+  switch (status) {
+    case 'authorized':
+      return 'active';
+    case 'paused':
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return null;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+// Replay das notificações gravadas em fixtures/webhooks contra a função rodando localmente.
+//
+// Sobe um servidor que faz o papel da API do Mercado Pago (responde com fixtures/api),
+// assina cada notificação com MERCADOPAGO_WEBHOOK_SECRET e envia para a função. Depois
+// reenvia a primeira notificação (deve voltar como duplicada) e envia uma com assinatura
+// errada e outra com o ts de uma hora atrás (as duas devem ser rejeitadas). Termina com
+// código 1 se alguma resposta for inesperada.
+//
+//   supabase functions serve mercadopago-webhook --no-verify-jwt --env-file .env.local
+//   REPLAY_COMPANY_ID=<id da empresa> deno run --allow-net --allow-read --allow-env replay.ts
+//
+// No .env.local da função: MERCADOPAGO_API_URL=http://host.docker.internal:8787
+
+import { buildManifest, sign } from './signature.ts';
+
+const FUNCTION_URL = Deno.env.get('REPLAY_FUNCTION_URL') ?? 'http://127.0.0.1:54321/functions/v1/mercadopago-webhook';
+const API_PORT = Number(Deno.env.get('REPLAY_API_PORT') ?? 8787);
+const SECRET = Deno.env.get('MERCADOPAGO_WEBHOOK_SECRET') ?? 'replay-secret';
+const COMPANY_ID = Deno.env.get('REPLAY_COMPANY_ID') ?? '';
+
+const fixturesDir = new URL('./fixtures/', import.meta.url);
+
+interface RecordedWebhook {
+  description: string;
+  query: Record<string, string>;
+  request_id: string;
+  body: Record<string, unknown>;
+}
+
+async function readFixture(path: string): Promise<string> {
+  const text = await Deno.readTextFile(new URL(path, fixturesDir));
+  return text.replaceAll('{{company_id}}', COMPANY_ID);
+}
+
+// Rotas da API usadas pela função -> arquivo em fixtures/api
+function apiFixturePath(pathname: string): string | null {
+  const routes: Array<[RegExp, string]> = [
+    [/^\/preapproval\/([^/]+)$/, 'preapproval'],
+    [/^\/authorized_payments\/([^/]+)$/, 'authorized_payment'],
+    [/^\/v1\/payments\/([^/]+)$/, 'payment']
+  ];
+
+  for (const [pattern, name] of routes) {
+    const match = pathname.match(pattern);
+    if (match) return `api/${name}_${match[1]}.json`;
+  }
+  return null;
+}
+
+function startApiStandIn(): Deno.HttpServer {
+  return Deno.serve({ port: API_PORT, onListen: () => {} }, async (req) => {
+    const path = apiFixturePath(new URL(req.url).pathname);
+    if (!path) return new Response('Not found', { status: 404 });
+
+    try {
+      return new Response(await readFixture(path), { headers: { 'Content-Type': 'application/json' } });
+    } catch {
+      return new Response('Not found', { status: 404 });
+    }
+  });
+}
+
+async function send(
+  webhook: RecordedWebhook,
+  secret = SECRET,
+  sentAt = Date.now()
+): Promise<{ status: number; body: string }> {
+  const ts = Math.floor(sentAt / 1000).toString();
+  const signature = await sign(secret, buildManifest(webhook.query['data.id'], webhook.request_id, ts));
+
+  const response = await fetch(`${FUNCTION_URL}?${new URLSearchParams(webhook.query)}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-request-id': webhook.request_id,
+      'x-signature': `ts=${ts},v1=${signature}`
+    },
+    body: JSON.stringify(webhook.body)
+  });
+
+  return { status: response.status, body: await response.text() };
+}
+
+async function main() {
+  if (!COMPANY_ID) {
+    console.error('Informe REPLAY_COMPANY_ID com o id de uma empresa do banco local');
+    Deno.exit(1);
+  }
+
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(new URL('webhooks/', fixturesDir))) {
+    if (entry.isFile && entry.name.endsWith('.json')) files.push(entry.name);
+  }
+  files.sort();
+
+  const webhooks: RecordedWebhook[] = [];
+  for (const file of files) {
+    webhooks.push(JSON.parse(await readFixture(`webhooks/${file}`)));
+  }
+
+  const server = startApiStandIn();
+  let failures = 0;
+
+  const check = (label: string, result: { status: number; body: string }, expected: number) => {
+    const ok = result.status === expected;
+    if (!ok) failures++;
+    console.log(`${ok ? 'OK  ' : 'FAIL'} ${label}: ${result.status} ${result.body}`);
+  };
+
+  try {
+    for (const webhook of webhooks) {
+      check(webhook.description, await send(webhook), 200);
+    }
+
+    if (webhooks.length > 0) {
+      check(`${webhooks[0].description} (reenvio)`, await send(webhooks[0]), 200);
+      check(`${webhooks[0].description} (assinatura errada)`, await send(webhooks[0], `${SECRET}-errado`), 401);
+      check(`${webhooks[0].description} (ts expirado)`, await send(webhooks[0], SECRET, Date.now() - 60 * 60 * 1000), 401);
+    }
+  } finally {
+    await server.shutdown();
+  }
+
+  Deno.exit(failures > 0 ? 1 : 0);
+}
+
+await main();
\ No newline at end of file
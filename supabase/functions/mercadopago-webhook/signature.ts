@@ -0,0 +1,67 @@
+// Validação do cabeçalho x-signature das notificações do Mercado Pago:
+// x-signature: "ts=<timestamp>,v1=<hmac sha256 hex>"
+// O HMAC é calculado sobre "id:<data.id>;request-id:<x-request-id>;ts:<ts>;", omitindo
+// as partes que não vieram na notificação. O ts também precisa estar perto do horário atual,
+// senão uma notificação capturada poderia ser reenviada depois.
+
+const encoder = new TextEncoder();
+
+// Diferença máxima, em segundos, entre o ts da assinatura e o relógio do servidor
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function parseSignatureHeader(header: string | null): { ts?: string; v1?: string } {
+  const parts: Record<string, string> = {};
+  for (const part of (header || '').split(',')) {
+    const [key, value] = part.split('=', 2).map(item => item?.trim());
+    if (key && value) parts[key] = value;
+  }
+  return { ts: parts.ts, v1: parts.v1 };
+}
+
+export function buildManifest(dataId: string | null, requestId: string | null, ts: string): string {
+  // Ids alfanuméricos são assinados em minúsculas
+  const id = dataId && /^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId;
+  return [
+    id ? `id:${id};` : '',
+    requestId ? `request-id:${requestId};` : '',
+    `ts:${ts};`
+  ].join('');
+}
+
+export async function sign(secret: string, manifest: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(manifest));
+  return Array.from(new Uint8Array(signature)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Comparação em tempo constante para não vazar o HMAC esperado
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function verifySignature(
+  secret: string,
+  header: string | null,
+  requestId: string | null,
+  dataId: string | null,
+  now = Date.now()
+): Promise<boolean> {
+  const { ts, v1 } = parseSignatureHeader(header);
+  if (!secret || !ts || !v1 || !/^\d+$/.test(ts)) return false;
+
+  // O ts vem em segundos; algumas notificações mandam em milissegundos
+  const seconds = ts.length >= 13 ? Number(ts) / 1000 : Number(ts);
+  if (Math.abs(now / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await sign(secret, buildManifest(dataId, requestId, ts));
+  return safeEqual(expected, v1.toLowerCase());
+}
\ No newline at end of file
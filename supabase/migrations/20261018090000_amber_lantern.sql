@@ -0,0 +1,87 @@
+/*
+  # Order editing and reopen log
+
+  1. Changes to service_orders table
+    - Ensure the amount, phone and signed order columns used by the app exist
+
+  2. New Tables
+    - order_services
+      - One row per service line of a service order
+    - service_order_reopens
+      - Records every time a completed order is reopened for editing
+
+  3. Functions
+    - reopen_service_order(order_id, new_status, reason): records the reopen and changes
+      the status in the same transaction
+
+  4. Security
+    - Enable RLS on the new tables
+    - Add policy for authenticated users
+*/
+
+-- Columns already written by the app
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS customer_phone TEXT;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS materials_amount DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS services_amount DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS signed_order_url TEXT;
+
+-- Create order_services table
+CREATE TABLE IF NOT EXISTS order_services (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_order_id UUID REFERENCES service_orders(id),
+  service_type TEXT NOT NULL,
+  equipment_type TEXT,
+  equipment_power TEXT,
+  description TEXT,
+  price DECIMAL(10,2) DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create service_order_reopens table
+CREATE TABLE IF NOT EXISTS service_order_reopens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_order_id UUID REFERENCES service_orders(id) ON DELETE CASCADE,
+  previous_status TEXT NOT NULL,
+  new_status TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  reopened_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE order_services ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_order_reopens ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON order_services;
+CREATE POLICY "Allow all access to authenticated users" ON order_services
+  FOR ALL TO authenticated USING (true);
+
+CREATE POLICY "Allow all access to authenticated users" ON service_order_reopens
+  FOR ALL TO authenticated USING (true);
+
+-- Registro da reabertura e mudança de situação juntos: se a mudança falhar, o registro não fica
+CREATE OR REPLACE FUNCTION reopen_service_order(p_order_id UUID, p_new_status TEXT, p_reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo para reabrir a OS';
+  END IF;
+
+  SELECT status INTO v_status FROM service_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  INSERT INTO service_order_reopens (service_order_id, previous_status, new_status, reason)
+  VALUES (p_order_id, v_status, p_new_status, trim(p_reason));
+
+  UPDATE service_orders SET status = p_new_status, updated_at = now() WHERE id = p_order_id;
+END;
+$$;
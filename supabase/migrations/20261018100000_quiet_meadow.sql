@@ -0,0 +1,10 @@
+/*
+  # Track where each service price came from
+
+  1. Changes to order_services table
+    - Add price_source: 'table' when the price was filled from service_prices,
+      'manual' when it was typed or overridden by the user
+*/
+
+ALTER TABLE order_services ADD COLUMN IF NOT EXISTS price_source TEXT
+  CHECK (price_source IN ('table', 'manual'));
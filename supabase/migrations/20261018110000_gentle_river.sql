@@ -0,0 +1,13 @@
+/*
+  # Link materials to the service they were used in
+
+  1. Changes to service_order_materials table
+    - Add order_service_id referencing order_services
+    - Existing rows stay without a service and are shown as general materials
+*/
+
+ALTER TABLE service_order_materials ADD COLUMN IF NOT EXISTS order_service_id UUID
+  REFERENCES order_services(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS service_order_materials_order_service_id_idx
+  ON service_order_materials(order_service_id);
@@ -0,0 +1,41 @@
+/*
+  # Customer registry
+
+  1. Changes to customers table
+    - document: CPF or CNPJ (digits only)
+    - phones: additional phone numbers (jsonb array of strings)
+    - addresses: saved addresses (jsonb array, same shape as service_orders.address plus a label)
+    - phone_digits: digits of the main and additional phones, comma separated, kept by the
+      set_customer_phone_digits trigger so the search ignores how the numbers were formatted
+
+  2. Indexes
+    - customers by name and phone for the order form autocomplete
+    - service_orders by customer for the customer history
+*/
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS document TEXT;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS phones jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS addresses jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS phone_digits TEXT;
+
+CREATE INDEX IF NOT EXISTS customers_name_idx ON customers (lower(name));
+CREATE INDEX IF NOT EXISTS customers_phone_idx ON customers (phone);
+CREATE INDEX IF NOT EXISTS service_orders_customer_id_idx ON service_orders (customer_id);
+
+CREATE OR REPLACE FUNCTION set_customer_phone_digits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.phone_digits := regexp_replace(coalesce(NEW.phone, '') || ',' || coalesce(NEW.phones::text, ''), '[^0-9,]', '', 'g');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_customer_phone_digits ON customers;
+CREATE TRIGGER set_customer_phone_digits
+  BEFORE INSERT OR UPDATE ON customers
+  FOR EACH ROW EXECUTE FUNCTION set_customer_phone_digits();
+
+-- Clientes existentes: o gatilho calcula os dígitos
+UPDATE customers SET phone_digits = NULL;
@@ -0,0 +1,166 @@
+/*
+  # Customer merge tool
+
+  1. New Tables
+    - customer_merges
+      - One row per merge: snapshot of the survivor before the merge, full rows
+        of the merged (deleted) customers and the orders that were re-pointed
+      - undone_at is set when the merge is reverted
+      - survivor_id is cleared, and the row kept, when the survivor is later merged into
+        another customer; that later merge must be undone first
+
+  2. Functions
+    - merge_customers(survivor_id, duplicate_ids): moves every service order of the
+      duplicates to the survivor, copies missing contact data and deletes the duplicates
+    - undo_customer_merge(merge_id): recreates the merged customers, restores the
+      survivor and points the orders back to their original customers
+
+  3. Security
+    - Enable RLS on customer_merges
+    - Add policy for authenticated users
+*/
+
+-- Create customer_merges table
+CREATE TABLE IF NOT EXISTS customer_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  survivor_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  survivor_snapshot jsonb NOT NULL,
+  merged_customers jsonb NOT NULL,
+  moved_orders jsonb NOT NULL DEFAULT '[]'::jsonb,
+  merged_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS customer_merges_survivor_id_idx ON customer_merges (survivor_id);
+
+-- Enable RLS
+ALTER TABLE customer_merges ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Allow all access to authenticated users" ON customer_merges
+  FOR ALL TO authenticated USING (true);
+
+-- Mescla clientes duplicados em um único cliente
+CREATE OR REPLACE FUNCTION merge_customers(p_survivor_id UUID, p_duplicate_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_survivor jsonb;
+  v_merged jsonb;
+  v_orders jsonb;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'O cliente principal não pode estar entre os duplicados';
+  END IF;
+
+  SELECT to_jsonb(c) INTO v_survivor FROM customers c WHERE c.id = p_survivor_id FOR UPDATE;
+  IF v_survivor IS NULL THEN
+    RAISE EXCEPTION 'Cliente principal não encontrado';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) INTO v_merged
+  FROM customers c
+  WHERE c.id = ANY(p_duplicate_ids);
+
+  IF jsonb_array_length(v_merged) = 0 THEN
+    RAISE EXCEPTION 'Nenhum cliente duplicado encontrado';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('order_id', o.id, 'customer_id', o.customer_id)), '[]'::jsonb)
+  INTO v_orders
+  FROM service_orders o
+  WHERE o.customer_id = ANY(p_duplicate_ids);
+
+  UPDATE service_orders SET customer_id = p_survivor_id WHERE customer_id = ANY(p_duplicate_ids);
+
+  -- Telefones, endereços, documento e e-mail dos duplicados passam para o principal
+  UPDATE customers c SET
+    phones = (
+      SELECT coalesce(jsonb_agg(DISTINCT p.phone), '[]'::jsonb)
+      FROM (
+        SELECT jsonb_array_elements_text(coalesce(d.phones, '[]'::jsonb)) AS phone
+        FROM customers d
+        WHERE d.id = p_survivor_id OR d.id = ANY(p_duplicate_ids)
+        UNION
+        SELECT d.phone FROM customers d WHERE d.id = ANY(p_duplicate_ids)
+      ) p
+      WHERE coalesce(p.phone, '') <> '' AND p.phone IS DISTINCT FROM c.phone
+    ),
+    addresses = coalesce(c.addresses, '[]'::jsonb) || (
+      SELECT coalesce(jsonb_agg(DISTINCT a.address), '[]'::jsonb)
+      FROM customers d, jsonb_array_elements(coalesce(d.addresses, '[]'::jsonb)) AS a(address)
+      WHERE d.id = ANY(p_duplicate_ids)
+        AND NOT coalesce(c.addresses, '[]'::jsonb) @> jsonb_build_array(a.address)
+    ),
+    document = coalesce(c.document, (
+      SELECT d.document FROM customers d WHERE d.id = ANY(p_duplicate_ids) AND d.document IS NOT NULL LIMIT 1
+    )),
+    email = coalesce(c.email, (
+      SELECT d.email FROM customers d WHERE d.id = ANY(p_duplicate_ids) AND d.email IS NOT NULL LIMIT 1
+    )),
+    updated_at = now()
+  WHERE c.id = p_survivor_id;
+
+  DELETE FROM customers WHERE id = ANY(p_duplicate_ids);
+
+  INSERT INTO customer_merges (survivor_id, survivor_snapshot, merged_customers, moved_orders)
+  VALUES (p_survivor_id, v_survivor, v_merged, v_orders)
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+-- Desfaz uma mesclagem registrada em customer_merges
+CREATE OR REPLACE FUNCTION undo_customer_merge(p_merge_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_merge customer_merges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_merge FROM customer_merges WHERE id = p_merge_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mesclagem não encontrada';
+  END IF;
+
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta mesclagem já foi desfeita';
+  END IF;
+
+  -- O principal pode ter sido mesclado em outro cliente depois desta mesclagem
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = (v_merge.survivor_snapshot->>'id')::UUID) THEN
+    RAISE EXCEPTION 'O cliente principal foi mesclado em outro cliente; desfaça essa mesclagem primeiro';
+  END IF;
+
+  INSERT INTO customers
+  SELECT * FROM jsonb_populate_recordset(NULL::customers, v_merge.merged_customers);
+
+  -- Mesclagens em que um cliente recriado era o principal voltam a apontar para ele
+  UPDATE customer_merges SET survivor_id = (survivor_snapshot->>'id')::UUID
+  WHERE survivor_id IS NULL
+    AND survivor_snapshot->>'id' IN (SELECT value->>'id' FROM jsonb_array_elements(v_merge.merged_customers));
+
+  UPDATE customers c SET
+    name = s.name,
+    email = s.email,
+    phone = s.phone,
+    document = s.document,
+    phones = s.phones,
+    addresses = s.addresses,
+    updated_at = now()
+  FROM jsonb_populate_record(NULL::customers, v_merge.survivor_snapshot) s
+  WHERE c.id = s.id;
+
+  UPDATE service_orders o
+  SET customer_id = (m.value->>'customer_id')::UUID
+  FROM jsonb_array_elements(v_merge.moved_orders) m
+  WHERE o.id = (m.value->>'order_id')::UUID;
+
+  UPDATE customer_merges SET undone_at = now() WHERE id = p_merge_id;
+END;
+$$;
@@ -0,0 +1,20 @@
+/*
+  # Service order photos
+
+  1. Changes to service_orders table
+    - include_photos: embed the order photos in the generated PDF
+
+  2. Changes to service_order_photos table
+    - storage_path: object path in the service-orders bucket, used to delete the file
+    - photo_type restricted to before/during/after
+*/
+
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS include_photos BOOLEAN DEFAULT false;
+
+ALTER TABLE service_order_photos ADD COLUMN IF NOT EXISTS storage_path TEXT;
+
+ALTER TABLE service_order_photos DROP CONSTRAINT IF EXISTS service_order_photos_photo_type_check;
+ALTER TABLE service_order_photos ADD CONSTRAINT service_order_photos_photo_type_check
+  CHECK (photo_type IN ('before', 'during', 'after'));
+
+CREATE INDEX IF NOT EXISTS service_order_photos_service_order_id_idx ON service_order_photos (service_order_id);
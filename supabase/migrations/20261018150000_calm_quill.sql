@@ -0,0 +1,34 @@
+/*
+  # On-device signatures
+
+  1. New Tables
+    - service_order_signatures
+      - One signature per signer role (customer / technician) per order
+      - signature_url / storage_path: PNG stored in the service-orders bucket
+      - signer_name, signed_at and the geolocation captured when signing
+
+  2. Security
+    - Enable RLS on service_order_signatures
+    - Add policy for authenticated users
+*/
+
+CREATE TABLE IF NOT EXISTS service_order_signatures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_order_id UUID NOT NULL REFERENCES service_orders(id) ON DELETE CASCADE,
+  signer_role TEXT NOT NULL CHECK (signer_role IN ('customer', 'technician')),
+  signer_name TEXT NOT NULL,
+  signature_url TEXT NOT NULL,
+  storage_path TEXT,
+  signed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  location_lat DECIMAL(10,8),
+  location_lng DECIMAL(11,8),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (service_order_id, signer_role)
+);
+
+-- Enable RLS
+ALTER TABLE service_order_signatures ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Allow all access to authenticated users" ON service_order_signatures
+  FOR ALL TO authenticated USING (true);
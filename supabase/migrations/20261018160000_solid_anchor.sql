@@ -0,0 +1,215 @@
+/*
+  # Atomic service order saving
+
+  1. Foreign keys
+    - order_services, service_order_materials and service_order_photos now cascade
+      when their service order is deleted
+
+  2. Functions
+    - save_service_order(order_id, order): creates (order_id null) or updates a whole
+      service order in a single transaction
+      - creates or updates the customer
+      - replaces the service lines and their materials, keeping the ids that were sent
+      - recomputes services, materials and total amounts from the saved lines
+      - returns the service order id
+*/
+
+-- Cascades on the child tables
+ALTER TABLE order_services DROP CONSTRAINT IF EXISTS order_services_service_order_id_fkey;
+ALTER TABLE order_services ADD CONSTRAINT order_services_service_order_id_fkey
+  FOREIGN KEY (service_order_id) REFERENCES service_orders(id) ON DELETE CASCADE;
+
+ALTER TABLE service_order_materials DROP CONSTRAINT IF EXISTS service_order_materials_service_order_id_fkey;
+ALTER TABLE service_order_materials ADD CONSTRAINT service_order_materials_service_order_id_fkey
+  FOREIGN KEY (service_order_id) REFERENCES service_orders(id) ON DELETE CASCADE;
+
+ALTER TABLE service_order_photos DROP CONSTRAINT IF EXISTS service_order_photos_service_order_id_fkey;
+ALTER TABLE service_order_photos ADD CONSTRAINT service_order_photos_service_order_id_fkey
+  FOREIGN KEY (service_order_id) REFERENCES service_orders(id) ON DELETE CASCADE;
+
+/*
+  p_order:
+  {
+    "customer": { "id", "name", "phone" },
+    "address": { ... },
+    "location_lat", "location_lng", "include_photos", "discount_amount",
+    "services": [{
+      "id", "service_type", "equipment_type", "equipment_power", "description",
+      "price", "price_source",
+      "materials": [{ "id", "material_id", "quantity", "unit_price" }]
+    }]
+  }
+*/
+CREATE OR REPLACE FUNCTION save_service_order(p_order_id UUID, p_order jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order_id UUID := p_order_id;
+  v_customer_id UUID := nullif(p_order->'customer'->>'id', '')::UUID;
+  v_address jsonb := coalesce(p_order->'address', '{}'::jsonb);
+  v_services jsonb := coalesce(p_order->'services', '[]'::jsonb);
+  v_service jsonb;
+  v_material jsonb;
+  v_service_id UUID;
+  v_kept_service_ids UUID[] := '{}';
+  v_kept_material_ids UUID[] := '{}';
+  v_status TEXT;
+  v_service_types TEXT[];
+  v_services_amount DECIMAL(10,2);
+  v_materials_amount DECIMAL(10,2);
+  v_discount DECIMAL(10,2) := round(coalesce((p_order->>'discount_amount')::DECIMAL, 0), 2);
+BEGIN
+  IF jsonb_array_length(v_services) = 0 THEN
+    RAISE EXCEPTION 'A ordem de serviço precisa de ao menos um serviço';
+  END IF;
+
+  IF v_order_id IS NOT NULL THEN
+    SELECT status INTO v_status FROM service_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ordem de serviço não encontrada';
+    END IF;
+
+    IF v_status = 'completed' THEN
+      RAISE EXCEPTION 'Reabra a ordem de serviço antes de editá-la';
+    END IF;
+  END IF;
+
+  -- Cliente
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers SET
+      name = p_order->'customer'->>'name',
+      phone = coalesce(p_order->'customer'->>'phone', ''),
+      updated_at = now()
+    WHERE id = v_customer_id;
+  ELSE
+    IF coalesce(p_order->'customer'->>'name', '') = '' THEN
+      RAISE EXCEPTION 'Informe o nome do cliente';
+    END IF;
+
+    INSERT INTO customers (name, phone, addresses)
+    VALUES (
+      p_order->'customer'->>'name',
+      coalesce(p_order->'customer'->>'phone', ''),
+      CASE WHEN coalesce(v_address->>'street', '') <> '' THEN jsonb_build_array(v_address) ELSE '[]'::jsonb END
+    )
+    RETURNING id INTO v_customer_id;
+  END IF;
+
+  -- Ordem de serviço (os totais são recalculados depois de gravar as linhas)
+  SELECT array_agg(DISTINCT s->>'service_type') INTO v_service_types
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'service_type', '') <> '';
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO service_orders (customer_id, service_type, description, status)
+    VALUES (v_customer_id, '', '', 'pending')
+    RETURNING id INTO v_order_id;
+  END IF;
+
+  UPDATE service_orders SET
+    customer_id = v_customer_id,
+    service_type = CASE WHEN coalesce(array_length(v_service_types, 1), 0) > 1 THEN 'multiple' ELSE coalesce(v_service_types[1], '') END,
+    equipment_type = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_type', '') ELSE '' END,
+    equipment_power = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_power', '') ELSE '' END,
+    description = (
+      SELECT coalesce(string_agg(s->>'description', '; '), '')
+      FROM jsonb_array_elements(v_services) s
+      WHERE coalesce(s->>'description', '') <> ''
+    ),
+    address = v_address,
+    customer_phone = coalesce(p_order->'customer'->>'phone', ''),
+    location_lat = (p_order->>'location_lat')::DECIMAL,
+    location_lng = (p_order->>'location_lng')::DECIMAL,
+    include_photos = coalesce((p_order->>'include_photos')::BOOLEAN, false),
+    updated_at = now()
+  WHERE id = v_order_id;
+
+  -- Remove serviços e materiais que saíram da OS (os materiais do serviço vão junto)
+  SELECT coalesce(array_agg((s->>'id')::UUID), '{}') INTO v_kept_service_ids
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'id', '') <> '';
+
+  SELECT coalesce(array_agg((m->>'id')::UUID), '{}') INTO v_kept_material_ids
+  FROM jsonb_array_elements(v_services) s, jsonb_array_elements(coalesce(s->'materials', '[]'::jsonb)) m
+  WHERE coalesce(m->>'id', '') <> '';
+
+  DELETE FROM service_order_materials
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_material_ids));
+
+  DELETE FROM order_services
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_service_ids));
+
+  FOR v_service IN SELECT value FROM jsonb_array_elements(v_services) LOOP
+    v_service_id := nullif(v_service->>'id', '')::UUID;
+
+    IF v_service_id IS NOT NULL THEN
+      UPDATE order_services SET
+        service_type = v_service->>'service_type',
+        equipment_type = v_service->>'equipment_type',
+        equipment_power = v_service->>'equipment_power',
+        description = coalesce(v_service->>'description', ''),
+        price = round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        price_source = coalesce(v_service->>'price_source', 'manual')
+      WHERE id = v_service_id AND service_order_id = v_order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serviço % não pertence a esta ordem de serviço', v_service_id;
+      END IF;
+    ELSE
+      -- clock_timestamp mantém a ordem dos serviços inseridos na mesma transação
+      INSERT INTO order_services (
+        service_order_id, service_type, equipment_type, equipment_power,
+        description, price, price_source, created_at
+      ) VALUES (
+        v_order_id,
+        v_service->>'service_type',
+        v_service->>'equipment_type',
+        v_service->>'equipment_power',
+        coalesce(v_service->>'description', ''),
+        round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        coalesce(v_service->>'price_source', 'manual'),
+        clock_timestamp()
+      )
+      RETURNING id INTO v_service_id;
+    END IF;
+
+    FOR v_material IN SELECT value FROM jsonb_array_elements(coalesce(v_service->'materials', '[]'::jsonb)) LOOP
+      IF coalesce(v_material->>'id', '') <> '' THEN
+        UPDATE service_order_materials SET
+          order_service_id = v_service_id,
+          material_id = (v_material->>'material_id')::UUID,
+          quantity = (v_material->>'quantity')::DECIMAL,
+          unit_price = (v_material->>'unit_price')::DECIMAL
+        WHERE id = (v_material->>'id')::UUID AND service_order_id = v_order_id;
+      ELSE
+        INSERT INTO service_order_materials (service_order_id, order_service_id, material_id, quantity, unit_price)
+        VALUES (
+          v_order_id,
+          v_service_id,
+          (v_material->>'material_id')::UUID,
+          (v_material->>'quantity')::DECIMAL,
+          (v_material->>'unit_price')::DECIMAL
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Totais calculados a partir do que ficou gravado
+  SELECT coalesce(sum(price), 0) INTO v_services_amount
+  FROM order_services WHERE service_order_id = v_order_id;
+
+  SELECT coalesce(round(sum(quantity * unit_price), 2), 0) INTO v_materials_amount
+  FROM service_order_materials WHERE service_order_id = v_order_id;
+
+  UPDATE service_orders SET
+    services_amount = v_services_amount,
+    materials_amount = v_materials_amount,
+    discount_amount = v_discount,
+    total_amount = v_services_amount + v_materials_amount - v_discount
+  WHERE id = v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
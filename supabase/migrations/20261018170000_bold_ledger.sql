@@ -0,0 +1,122 @@
+/*
+  # Sequential service order numbers
+
+  1. Changes to company_info table
+    - order_number_prefix: prefix of the OS number (default 'OS')
+    - order_number_yearly_reset: restart the sequence every year and include the year in the number
+
+  2. Changes to service_orders table
+    - order_number: human-readable number, e.g. OS-2026-00042 (unique)
+    - order_sequence: sequence value used in order_number
+
+  3. New Tables
+    - service_order_counters
+      - Last number issued per company and year (year 0 when the sequence never resets)
+      - Only written by the numbering trigger; no direct access for users
+
+  4. Triggers
+    - assign_service_order_number: numbers every new service order. The counter row is
+      incremented with INSERT ... ON CONFLICT DO UPDATE, which locks it, so concurrent
+      inserts never receive the same number
+
+  5. Data
+    - Existing orders are numbered in creation order
+*/
+
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS order_number_prefix TEXT DEFAULT 'OS';
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS order_number_yearly_reset BOOLEAN DEFAULT true;
+
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS order_number TEXT;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS order_sequence INTEGER;
+
+-- Create service_order_counters table
+CREATE TABLE IF NOT EXISTS service_order_counters (
+  company_id UUID NOT NULL,
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (company_id, year)
+);
+
+-- Enable RLS (sem políticas: apenas o gatilho, como SECURITY DEFINER, acessa a tabela)
+ALTER TABLE service_order_counters ENABLE ROW LEVEL SECURITY;
+
+-- Monta o número: PREFIXO-ANO-00042 (sem o ano quando a sequência não reinicia)
+CREATE OR REPLACE FUNCTION format_service_order_number(p_prefix TEXT, p_year INTEGER, p_number INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(nullif(trim(p_prefix), ''), 'OS')
+    || '-'
+    || CASE WHEN p_year > 0 THEN p_year::TEXT || '-' ELSE '' END
+    || lpad(p_number::TEXT, 5, '0');
+$$;
+
+CREATE OR REPLACE FUNCTION assign_service_order_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company company_info%ROWTYPE;
+  v_year INTEGER;
+  v_number INTEGER;
+BEGIN
+  IF NEW.order_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_company FROM company_info ORDER BY created_at LIMIT 1;
+
+  v_year := CASE
+    WHEN coalesce(v_company.order_number_yearly_reset, true)
+      THEN extract(year FROM coalesce(NEW.created_at, now()))::INTEGER
+    ELSE 0
+  END;
+
+  INSERT INTO service_order_counters (company_id, year, last_number)
+  VALUES (coalesce(v_company.id, '00000000-0000-0000-0000-000000000000'), v_year, 1)
+  ON CONFLICT (company_id, year)
+  DO UPDATE SET last_number = service_order_counters.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  NEW.order_sequence := v_number;
+  NEW.order_number := format_service_order_number(v_company.order_number_prefix, v_year, v_number);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_service_order_number ON service_orders;
+CREATE TRIGGER assign_service_order_number
+  BEFORE INSERT ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION assign_service_order_number();
+
+-- Numera as OS existentes por ordem de criação, reiniciando a cada ano
+WITH numbered AS (
+  SELECT
+    id,
+    extract(year FROM created_at)::INTEGER AS year,
+    row_number() OVER (PARTITION BY extract(year FROM created_at) ORDER BY created_at, id)::INTEGER AS sequence
+  FROM service_orders
+  WHERE order_number IS NULL
+)
+UPDATE service_orders o SET
+  order_sequence = n.sequence,
+  order_number = format_service_order_number(
+    (SELECT order_number_prefix FROM company_info ORDER BY created_at LIMIT 1), n.year, n.sequence
+  )
+FROM numbered n
+WHERE o.id = n.id;
+
+INSERT INTO service_order_counters (company_id, year, last_number)
+SELECT
+  coalesce((SELECT id FROM company_info ORDER BY created_at LIMIT 1), '00000000-0000-0000-0000-000000000000'),
+  extract(year FROM created_at)::INTEGER,
+  count(*)
+FROM service_orders
+GROUP BY extract(year FROM created_at)
+ON CONFLICT (company_id, year) DO UPDATE SET last_number = EXCLUDED.last_number;
+
+ALTER TABLE service_orders ADD CONSTRAINT service_orders_order_number_key UNIQUE (order_number);
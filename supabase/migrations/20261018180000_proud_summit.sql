@@ -0,0 +1,346 @@
+/*
+  # Quotes (orçamentos)
+
+  1. Changes to service_orders table
+    - Quotes are service orders with status quote / quote_approved / quote_rejected
+    - valid_until: quote validity date
+    - quote_revision: current revision of the quote (v1, v2, ...)
+    - quote_decided_at / quote_decision_reason: when and why the quote was accepted or rejected
+    - quote_id: on a service order, the quote it was converted from
+
+  2. New Tables
+    - quote_revisions
+      - Snapshot (order, services and materials) of each previous revision of a quote
+
+  3. Functions
+    - save_service_order: creates quotes when p_order.status = 'quote', stores valid_until and
+      records a new revision whenever an open or rejected quote is changed
+    - convert_quote_to_order(quote_id): copies an approved quote into a new service order
+      (services and materials included) linked to the quote; a quote approved after its
+      validity date cannot be converted
+    - check_quote_validity (trigger): rejects approving a quote whose valid_until is
+      before today (Brazilian local date); the quote must be edited with a new date first
+
+  4. Security
+    - Enable RLS on quote_revisions
+    - Add policy for authenticated users
+*/
+
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS valid_until DATE;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS quote_revision INTEGER DEFAULT 1;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS quote_decided_at TIMESTAMPTZ;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS quote_decision_reason TEXT;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES service_orders(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS service_orders_quote_id_key ON service_orders (quote_id);
+
+-- Create quote_revisions table
+CREATE TABLE IF NOT EXISTS quote_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES service_orders(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  snapshot jsonb NOT NULL,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (quote_id, revision)
+);
+
+-- Enable RLS
+ALTER TABLE quote_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Allow all access to authenticated users" ON quote_revisions
+  FOR ALL TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION save_service_order(p_order_id UUID, p_order jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order_id UUID := p_order_id;
+  v_customer_id UUID := nullif(p_order->'customer'->>'id', '')::UUID;
+  v_address jsonb := coalesce(p_order->'address', '{}'::jsonb);
+  v_services jsonb := coalesce(p_order->'services', '[]'::jsonb);
+  v_service jsonb;
+  v_material jsonb;
+  v_service_id UUID;
+  v_kept_service_ids UUID[] := '{}';
+  v_kept_material_ids UUID[] := '{}';
+  v_status TEXT;
+  v_service_types TEXT[];
+  v_services_amount DECIMAL(10,2);
+  v_materials_amount DECIMAL(10,2);
+  v_discount DECIMAL(10,2) := round(coalesce((p_order->>'discount_amount')::DECIMAL, 0), 2);
+BEGIN
+  IF jsonb_array_length(v_services) = 0 THEN
+    RAISE EXCEPTION 'A ordem de serviço precisa de ao menos um serviço';
+  END IF;
+
+  IF v_order_id IS NOT NULL THEN
+    SELECT status INTO v_status FROM service_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ordem de serviço não encontrada';
+    END IF;
+
+    IF v_status = 'completed' THEN
+      RAISE EXCEPTION 'Reabra a ordem de serviço antes de editá-la';
+    END IF;
+
+    IF v_status = 'quote_approved' THEN
+      RAISE EXCEPTION 'Orçamento aprovado não pode ser alterado; converta-o em ordem de serviço';
+    END IF;
+
+    -- Alterar um orçamento gera uma nova revisão; a versão anterior fica registrada
+    IF v_status IN ('quote', 'quote_rejected') THEN
+      INSERT INTO quote_revisions (quote_id, revision, snapshot)
+      SELECT o.id, o.quote_revision, to_jsonb(o) || jsonb_build_object(
+        'order_services', coalesce((
+          SELECT jsonb_agg(to_jsonb(s) ORDER BY s.created_at) FROM order_services s WHERE s.service_order_id = o.id
+        ), '[]'::jsonb),
+        'materials', coalesce((
+          SELECT jsonb_agg(to_jsonb(m)) FROM service_order_materials m WHERE m.service_order_id = o.id
+        ), '[]'::jsonb)
+      )
+      FROM service_orders o
+      WHERE o.id = v_order_id;
+
+      UPDATE service_orders SET
+        status = 'quote',
+        quote_revision = coalesce(quote_revision, 1) + 1,
+        quote_decided_at = NULL,
+        quote_decision_reason = NULL
+      WHERE id = v_order_id;
+    END IF;
+  END IF;
+
+  -- Cliente
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers SET
+      name = p_order->'customer'->>'name',
+      phone = coalesce(p_order->'customer'->>'phone', ''),
+      updated_at = now()
+    WHERE id = v_customer_id;
+  ELSE
+    IF coalesce(p_order->'customer'->>'name', '') = '' THEN
+      RAISE EXCEPTION 'Informe o nome do cliente';
+    END IF;
+
+    INSERT INTO customers (name, phone, addresses)
+    VALUES (
+      p_order->'customer'->>'name',
+      coalesce(p_order->'customer'->>'phone', ''),
+      CASE WHEN coalesce(v_address->>'street', '') <> '' THEN jsonb_build_array(v_address) ELSE '[]'::jsonb END
+    )
+    RETURNING id INTO v_customer_id;
+  END IF;
+
+  -- Ordem de serviço (os totais são recalculados depois de gravar as linhas)
+  SELECT array_agg(DISTINCT s->>'service_type') INTO v_service_types
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'service_type', '') <> '';
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO service_orders (customer_id, service_type, description, status)
+    VALUES (v_customer_id, '', '', CASE WHEN p_order->>'status' = 'quote' THEN 'quote' ELSE 'pending' END)
+    RETURNING id INTO v_order_id;
+  END IF;
+
+  UPDATE service_orders SET
+    customer_id = v_customer_id,
+    service_type = CASE WHEN coalesce(array_length(v_service_types, 1), 0) > 1 THEN 'multiple' ELSE coalesce(v_service_types[1], '') END,
+    equipment_type = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_type', '') ELSE '' END,
+    equipment_power = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_power', '') ELSE '' END,
+    description = (
+      SELECT coalesce(string_agg(s->>'description', '; '), '')
+      FROM jsonb_array_elements(v_services) s
+      WHERE coalesce(s->>'description', '') <> ''
+    ),
+    address = v_address,
+    customer_phone = coalesce(p_order->'customer'->>'phone', ''),
+    location_lat = (p_order->>'location_lat')::DECIMAL,
+    location_lng = (p_order->>'location_lng')::DECIMAL,
+    include_photos = coalesce((p_order->>'include_photos')::BOOLEAN, false),
+    valid_until = coalesce(nullif(p_order->>'valid_until', '')::DATE, valid_until),
+    updated_at = now()
+  WHERE id = v_order_id;
+
+  -- Remove serviços e materiais que saíram da OS (os materiais do serviço vão junto)
+  SELECT coalesce(array_agg((s->>'id')::UUID), '{}') INTO v_kept_service_ids
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'id', '') <> '';
+
+  SELECT coalesce(array_agg((m->>'id')::UUID), '{}') INTO v_kept_material_ids
+  FROM jsonb_array_elements(v_services) s, jsonb_array_elements(coalesce(s->'materials', '[]'::jsonb)) m
+  WHERE coalesce(m->>'id', '') <> '';
+
+  DELETE FROM service_order_materials
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_material_ids));
+
+  DELETE FROM order_services
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_service_ids));
+
+  FOR v_service IN SELECT value FROM jsonb_array_elements(v_services) LOOP
+    v_service_id := nullif(v_service->>'id', '')::UUID;
+
+    IF v_service_id IS NOT NULL THEN
+      UPDATE order_services SET
+        service_type = v_service->>'service_type',
+        equipment_type = v_service->>'equipment_type',
+        equipment_power = v_service->>'equipment_power',
+        description = coalesce(v_service->>'description', ''),
+        price = round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        price_source = coalesce(v_service->>'price_source', 'manual')
+      WHERE id = v_service_id AND service_order_id = v_order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serviço % não pertence a esta ordem de serviço', v_service_id;
+      END IF;
+    ELSE
+      -- clock_timestamp mantém a ordem dos serviços inseridos na mesma transação
+      INSERT INTO order_services (
+        service_order_id, service_type, equipment_type, equipment_power,
+        description, price, price_source, created_at
+      ) VALUES (
+        v_order_id,
+        v_service->>'service_type',
+        v_service->>'equipment_type',
+        v_service->>'equipment_power',
+        coalesce(v_service->>'description', ''),
+        round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        coalesce(v_service->>'price_source', 'manual'),
+        clock_timestamp()
+      )
+      RETURNING id INTO v_service_id;
+    END IF;
+
+    FOR v_material IN SELECT value FROM jsonb_array_elements(coalesce(v_service->'materials', '[]'::jsonb)) LOOP
+      IF coalesce(v_material->>'id', '') <> '' THEN
+        UPDATE service_order_materials SET
+          order_service_id = v_service_id,
+          material_id = (v_material->>'material_id')::UUID,
+          quantity = (v_material->>'quantity')::DECIMAL,
+          unit_price = (v_material->>'unit_price')::DECIMAL
+        WHERE id = (v_material->>'id')::UUID AND service_order_id = v_order_id;
+      ELSE
+        INSERT INTO service_order_materials (service_order_id, order_service_id, material_id, quantity, unit_price)
+        VALUES (
+          v_order_id,
+          v_service_id,
+          (v_material->>'material_id')::UUID,
+          (v_material->>'quantity')::DECIMAL,
+          (v_material->>'unit_price')::DECIMAL
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Totais calculados a partir do que ficou gravado
+  SELECT coalesce(sum(price), 0) INTO v_services_amount
+  FROM order_services WHERE service_order_id = v_order_id;
+
+  SELECT coalesce(round(sum(quantity * unit_price), 2), 0) INTO v_materials_amount
+  FROM service_order_materials WHERE service_order_id = v_order_id;
+
+  UPDATE service_orders SET
+    services_amount = v_services_amount,
+    materials_amount = v_materials_amount,
+    discount_amount = v_discount,
+    total_amount = v_services_amount + v_materials_amount - v_discount
+  WHERE id = v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Orçamento vencido não pode ser aprovado; valid_until vale até o fim do dia no horário local
+CREATE OR REPLACE FUNCTION check_quote_validity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'quote_approved'
+    AND OLD.status IS DISTINCT FROM 'quote_approved'
+    AND NEW.valid_until < (now() AT TIME ZONE 'America/Sao_Paulo')::DATE
+  THEN
+    RAISE EXCEPTION 'Este orçamento venceu em %. Altere a validade antes de aprová-lo.', to_char(NEW.valid_until, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_quote_validity ON service_orders;
+CREATE TRIGGER check_quote_validity
+  BEFORE UPDATE OF status ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION check_quote_validity();
+
+-- Converte um orçamento aprovado em ordem de serviço
+CREATE OR REPLACE FUNCTION convert_quote_to_order(p_quote_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_quote service_orders%ROWTYPE;
+  v_order_id UUID;
+  v_service order_services%ROWTYPE;
+  v_service_id UUID;
+BEGIN
+  SELECT * INTO v_quote FROM service_orders WHERE id = p_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Orçamento não encontrado';
+  END IF;
+
+  IF v_quote.status <> 'quote_approved' THEN
+    RAISE EXCEPTION 'Apenas orçamentos aprovados podem ser convertidos';
+  END IF;
+
+  IF v_quote.valid_until < (v_quote.quote_decided_at AT TIME ZONE 'America/Sao_Paulo')::DATE THEN
+    RAISE EXCEPTION 'Este orçamento foi aprovado depois de vencido e não pode ser convertido';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM service_orders WHERE quote_id = p_quote_id) THEN
+    RAISE EXCEPTION 'Este orçamento já foi convertido em ordem de serviço';
+  END IF;
+
+  INSERT INTO service_orders (
+    customer_id, service_type, equipment_type, equipment_power, description,
+    address, customer_phone, location_lat, location_lng, include_photos,
+    services_amount, materials_amount, discount_amount, total_amount,
+    status, quote_id
+  ) VALUES (
+    v_quote.customer_id, v_quote.service_type, v_quote.equipment_type, v_quote.equipment_power, v_quote.description,
+    v_quote.address, v_quote.customer_phone, v_quote.location_lat, v_quote.location_lng, v_quote.include_photos,
+    v_quote.services_amount, v_quote.materials_amount, v_quote.discount_amount, v_quote.total_amount,
+    'pending', p_quote_id
+  )
+  RETURNING id INTO v_order_id;
+
+  FOR v_service IN
+    SELECT * FROM order_services WHERE service_order_id = p_quote_id ORDER BY created_at
+  LOOP
+    INSERT INTO order_services (
+      service_order_id, service_type, equipment_type, equipment_power,
+      description, price, price_source, created_at
+    ) VALUES (
+      v_order_id, v_service.service_type, v_service.equipment_type, v_service.equipment_power,
+      v_service.description, v_service.price, v_service.price_source, clock_timestamp()
+    )
+    RETURNING id INTO v_service_id;
+
+    INSERT INTO service_order_materials (service_order_id, order_service_id, material_id, quantity, unit_price)
+    SELECT v_order_id, v_service_id, material_id, quantity, unit_price
+    FROM service_order_materials
+    WHERE order_service_id = v_service.id;
+  END LOOP;
+
+  -- Materiais de orçamentos antigos sem serviço vinculado
+  INSERT INTO service_order_materials (service_order_id, material_id, quantity, unit_price)
+  SELECT v_order_id, material_id, quantity, unit_price
+  FROM service_order_materials
+  WHERE service_order_id = p_quote_id AND order_service_id IS NULL;
+
+  RETURN v_order_id;
+END;
+$$;
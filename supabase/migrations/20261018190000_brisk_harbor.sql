@@ -0,0 +1,422 @@
+/*
+  # Service order status workflow
+
+  1. New statuses
+    - scheduled, en_route, awaiting_parts, invoiced, paid and cancelled, besides the existing
+      pending, in_progress, completed and quote statuses
+
+  2. Changes to service_orders table
+    - status_reason: reason given for the last status change (required for some transitions,
+      e.g. cancelling); it only applies to the change it was sent with
+
+  3. New Tables
+    - service_order_status_transitions
+      - Allowed transitions (from_status -> to_status) and whether they require a reason.
+        Changing the workflow only requires editing these rows
+    - service_order_status_history
+      - Every status change: previous and new status, reason, user and time
+
+  4. Triggers
+    - check_service_order_status_transition: rejects status changes not listed in
+      service_order_status_transitions and transitions missing a required reason
+    - log_service_order_status: records the initial status and every change in the history
+
+  5. Functions
+    - save_service_order: invoiced, paid and cancelled orders can no longer be edited
+    - change_service_order_status(order_id, status, reason): changes the status with the
+      reason given now, even when it repeats the text of the previous change
+    - reopen_service_order: the reopen reason is also the reason of the status change
+
+  6. Security
+    - Enable RLS on both tables
+    - Authenticated users can read the transitions and read/write the history
+
+  7. Data
+    - Existing orders get an initial history entry with their current status
+*/
+
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS status_reason TEXT;
+
+-- Create service_order_status_transitions table
+CREATE TABLE IF NOT EXISTS service_order_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  requires_reason BOOLEAN NOT NULL DEFAULT false,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO service_order_status_transitions (from_status, to_status, requires_reason) VALUES
+  ('quote', 'quote_approved', false),
+  ('quote', 'quote_rejected', true),
+  ('quote_rejected', 'quote', false),
+  ('pending', 'scheduled', false),
+  ('pending', 'en_route', false),
+  ('pending', 'in_progress', false),
+  ('pending', 'cancelled', true),
+  ('scheduled', 'pending', false),
+  ('scheduled', 'en_route', false),
+  ('scheduled', 'in_progress', false),
+  ('scheduled', 'cancelled', true),
+  ('en_route', 'scheduled', false),
+  ('en_route', 'in_progress', false),
+  ('en_route', 'cancelled', true),
+  ('in_progress', 'awaiting_parts', false),
+  ('in_progress', 'completed', false),
+  ('in_progress', 'cancelled', true),
+  ('awaiting_parts', 'scheduled', false),
+  ('awaiting_parts', 'in_progress', false),
+  ('awaiting_parts', 'cancelled', true),
+  ('completed', 'in_progress', true),
+  ('completed', 'invoiced', false),
+  ('completed', 'paid', false),
+  ('invoiced', 'completed', true),
+  ('invoiced', 'paid', false),
+  ('cancelled', 'pending', true)
+ON CONFLICT (from_status, to_status) DO NOTHING;
+
+-- Create service_order_status_history table
+CREATE TABLE IF NOT EXISTS service_order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_order_id UUID NOT NULL REFERENCES service_orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  changed_by_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+  changed_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS service_order_status_history_order_idx
+  ON service_order_status_history (service_order_id, changed_at);
+
+-- Enable RLS
+ALTER TABLE service_order_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Allow read access to authenticated users" ON service_order_status_transitions
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Allow all access to authenticated users" ON service_order_status_history
+  FOR ALL TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION check_service_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_requires_reason BOOLEAN;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT requires_reason INTO v_requires_reason
+  FROM service_order_status_transitions
+  WHERE from_status = OLD.status AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mudança de situação não permitida: % para %', OLD.status, NEW.status;
+  END IF;
+
+  -- Um motivo que não foi enviado junto com esta mudança é da mudança anterior
+  IF NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+    NEW.status_reason := NULL;
+  END IF;
+
+  IF v_requires_reason AND coalesce(trim(NEW.status_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo para mudar a situação para %', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_service_order_status_transition ON service_orders;
+CREATE TRIGGER check_service_order_status_transition
+  BEFORE UPDATE OF status ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION check_service_order_status_transition();
+
+CREATE OR REPLACE FUNCTION log_service_order_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO service_order_status_history (service_order_id, from_status, to_status, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.status_reason
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_service_order_status ON service_orders;
+CREATE TRIGGER log_service_order_status
+  AFTER INSERT OR UPDATE OF status ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION log_service_order_status();
+
+-- O motivo anterior é apagado antes da mudança: assim o gatilho não toma um motivo
+-- repetido agora (mesmo texto da mudança anterior) por um motivo antigo
+CREATE OR REPLACE FUNCTION change_service_order_status(p_order_id UUID, p_status TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE service_orders SET status_reason = NULL WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  UPDATE service_orders SET
+    status = p_status,
+    status_reason = nullif(trim(p_reason), ''),
+    updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+-- Situação atual das OS existentes como ponto de partida do histórico
+INSERT INTO service_order_status_history (service_order_id, from_status, to_status, changed_by, changed_by_email, changed_at)
+SELECT id, NULL, status, NULL, NULL, created_at
+FROM service_orders
+WHERE NOT EXISTS (
+  SELECT 1 FROM service_order_status_history h WHERE h.service_order_id = service_orders.id
+);
+
+CREATE OR REPLACE FUNCTION reopen_service_order(p_order_id UUID, p_new_status TEXT, p_reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo para reabrir a OS';
+  END IF;
+
+  SELECT status INTO v_status FROM service_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  INSERT INTO service_order_reopens (service_order_id, previous_status, new_status, reason)
+  VALUES (p_order_id, v_status, p_new_status, trim(p_reason));
+
+  PERFORM change_service_order_status(p_order_id, p_new_status, p_reason);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_service_order(p_order_id UUID, p_order jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order_id UUID := p_order_id;
+  v_customer_id UUID := nullif(p_order->'customer'->>'id', '')::UUID;
+  v_address jsonb := coalesce(p_order->'address', '{}'::jsonb);
+  v_services jsonb := coalesce(p_order->'services', '[]'::jsonb);
+  v_service jsonb;
+  v_material jsonb;
+  v_service_id UUID;
+  v_kept_service_ids UUID[] := '{}';
+  v_kept_material_ids UUID[] := '{}';
+  v_status TEXT;
+  v_service_types TEXT[];
+  v_services_amount DECIMAL(10,2);
+  v_materials_amount DECIMAL(10,2);
+  v_discount DECIMAL(10,2) := round(coalesce((p_order->>'discount_amount')::DECIMAL, 0), 2);
+BEGIN
+  IF jsonb_array_length(v_services) = 0 THEN
+    RAISE EXCEPTION 'A ordem de serviço precisa de ao menos um serviço';
+  END IF;
+
+  IF v_order_id IS NOT NULL THEN
+    SELECT status INTO v_status FROM service_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ordem de serviço não encontrada';
+    END IF;
+
+    IF v_status IN ('completed', 'invoiced', 'paid') THEN
+      RAISE EXCEPTION 'Reabra a ordem de serviço antes de editá-la';
+    END IF;
+
+    IF v_status = 'cancelled' THEN
+      RAISE EXCEPTION 'Ordem de serviço cancelada não pode ser editada';
+    END IF;
+
+    IF v_status = 'quote_approved' THEN
+      RAISE EXCEPTION 'Orçamento aprovado não pode ser alterado; converta-o em ordem de serviço';
+    END IF;
+
+    -- Alterar um orçamento gera uma nova revisão; a versão anterior fica registrada
+    IF v_status IN ('quote', 'quote_rejected') THEN
+      INSERT INTO quote_revisions (quote_id, revision, snapshot)
+      SELECT o.id, o.quote_revision, to_jsonb(o) || jsonb_build_object(
+        'order_services', coalesce((
+          SELECT jsonb_agg(to_jsonb(s) ORDER BY s.created_at) FROM order_services s WHERE s.service_order_id = o.id
+        ), '[]'::jsonb),
+        'materials', coalesce((
+          SELECT jsonb_agg(to_jsonb(m)) FROM service_order_materials m WHERE m.service_order_id = o.id
+        ), '[]'::jsonb)
+      )
+      FROM service_orders o
+      WHERE o.id = v_order_id;
+
+      UPDATE service_orders SET
+        status = 'quote',
+        quote_revision = coalesce(quote_revision, 1) + 1,
+        quote_decided_at = NULL,
+        quote_decision_reason = NULL
+      WHERE id = v_order_id;
+    END IF;
+  END IF;
+
+  -- Cliente
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers SET
+      name = p_order->'customer'->>'name',
+      phone = coalesce(p_order->'customer'->>'phone', ''),
+      updated_at = now()
+    WHERE id = v_customer_id;
+  ELSE
+    IF coalesce(p_order->'customer'->>'name', '') = '' THEN
+      RAISE EXCEPTION 'Informe o nome do cliente';
+    END IF;
+
+    INSERT INTO customers (name, phone, addresses)
+    VALUES (
+      p_order->'customer'->>'name',
+      coalesce(p_order->'customer'->>'phone', ''),
+      CASE WHEN coalesce(v_address->>'street', '') <> '' THEN jsonb_build_array(v_address) ELSE '[]'::jsonb END
+    )
+    RETURNING id INTO v_customer_id;
+  END IF;
+
+  -- Ordem de serviço (os totais são recalculados depois de gravar as linhas)
+  SELECT array_agg(DISTINCT s->>'service_type') INTO v_service_types
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'service_type', '') <> '';
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO service_orders (customer_id, service_type, description, status)
+    VALUES (v_customer_id, '', '', CASE WHEN p_order->>'status' = 'quote' THEN 'quote' ELSE 'pending' END)
+    RETURNING id INTO v_order_id;
+  END IF;
+
+  UPDATE service_orders SET
+    customer_id = v_customer_id,
+    service_type = CASE WHEN coalesce(array_length(v_service_types, 1), 0) > 1 THEN 'multiple' ELSE coalesce(v_service_types[1], '') END,
+    equipment_type = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_type', '') ELSE '' END,
+    equipment_power = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_power', '') ELSE '' END,
+    description = (
+      SELECT coalesce(string_agg(s->>'description', '; '), '')
+      FROM jsonb_array_elements(v_services) s
+      WHERE coalesce(s->>'description', '') <> ''
+    ),
+    address = v_address,
+    customer_phone = coalesce(p_order->'customer'->>'phone', ''),
+    location_lat = (p_order->>'location_lat')::DECIMAL,
+    location_lng = (p_order->>'location_lng')::DECIMAL,
+    include_photos = coalesce((p_order->>'include_photos')::BOOLEAN, false),
+    valid_until = coalesce(nullif(p_order->>'valid_until', '')::DATE, valid_until),
+    updated_at = now()
+  WHERE id = v_order_id;
+
+  -- Remove serviços e materiais que saíram da OS (os materiais do serviço vão junto)
+  SELECT coalesce(array_agg((s->>'id')::UUID), '{}') INTO v_kept_service_ids
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'id', '') <> '';
+
+  SELECT coalesce(array_agg((m->>'id')::UUID), '{}') INTO v_kept_material_ids
+  FROM jsonb_array_elements(v_services) s, jsonb_array_elements(coalesce(s->'materials', '[]'::jsonb)) m
+  WHERE coalesce(m->>'id', '') <> '';
+
+  DELETE FROM service_order_materials
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_material_ids));
+
+  DELETE FROM order_services
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_service_ids));
+
+  FOR v_service IN SELECT value FROM jsonb_array_elements(v_services) LOOP
+    v_service_id := nullif(v_service->>'id', '')::UUID;
+
+    IF v_service_id IS NOT NULL THEN
+      UPDATE order_services SET
+        service_type = v_service->>'service_type',
+        equipment_type = v_service->>'equipment_type',
+        equipment_power = v_service->>'equipment_power',
+        description = coalesce(v_service->>'description', ''),
+        price = round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        price_source = coalesce(v_service->>'price_source', 'manual')
+      WHERE id = v_service_id AND service_order_id = v_order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serviço % não pertence a esta ordem de serviço', v_service_id;
+      END IF;
+    ELSE
+      -- clock_timestamp mantém a ordem dos serviços inseridos na mesma transação
+      INSERT INTO order_services (
+        service_order_id, service_type, equipment_type, equipment_power,
+        description, price, price_source, created_at
+      ) VALUES (
+        v_order_id,
+        v_service->>'service_type',
+        v_service->>'equipment_type',
+        v_service->>'equipment_power',
+        coalesce(v_service->>'description', ''),
+        round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        coalesce(v_service->>'price_source', 'manual'),
+        clock_timestamp()
+      )
+      RETURNING id INTO v_service_id;
+    END IF;
+
+    FOR v_material IN SELECT value FROM jsonb_array_elements(coalesce(v_service->'materials', '[]'::jsonb)) LOOP
+      IF coalesce(v_material->>'id', '') <> '' THEN
+        UPDATE service_order_materials SET
+          order_service_id = v_service_id,
+          material_id = (v_material->>'material_id')::UUID,
+          quantity = (v_material->>'quantity')::DECIMAL,
+          unit_price = (v_material->>'unit_price')::DECIMAL
+        WHERE id = (v_material->>'id')::UUID AND service_order_id = v_order_id;
+      ELSE
+        INSERT INTO service_order_materials (service_order_id, order_service_id, material_id, quantity, unit_price)
+        VALUES (
+          v_order_id,
+          v_service_id,
+          (v_material->>'material_id')::UUID,
+          (v_material->>'quantity')::DECIMAL,
+          (v_material->>'unit_price')::DECIMAL
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Totais calculados a partir do que ficou gravado
+  SELECT coalesce(sum(price), 0) INTO v_services_amount
+  FROM order_services WHERE service_order_id = v_order_id;
+
+  SELECT coalesce(round(sum(quantity * unit_price), 2), 0) INTO v_materials_amount
+  FROM service_order_materials WHERE service_order_id = v_order_id;
+
+  UPDATE service_orders SET
+    services_amount = v_services_amount,
+    materials_amount = v_materials_amount,
+    discount_amount = v_discount,
+    total_amount = v_services_amount + v_materials_amount - v_discount
+  WHERE id = v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
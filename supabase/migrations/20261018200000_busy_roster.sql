@@ -0,0 +1,147 @@
+/*
+  # Scheduling and technicians
+
+  1. New Tables
+    - technicians
+      - id (uuid, primary key)
+      - name (text)
+      - phone (text)
+      - email (text)
+      - color (text): color of the technician's jobs on the calendar
+      - active (boolean)
+      - created_at, updated_at (timestamptz)
+    - service_order_technicians
+      - Technicians assigned to each service order (one or more)
+
+  2. Changes to service_orders table
+    - scheduled_start / scheduled_end: planned arrival window
+    - estimated_duration_minutes: estimated time on site
+    - scheduled_until: when the technicians are free again (start + estimated duration, or
+      the window end, or one hour), kept by the set_service_order_scheduled_until trigger so
+      the calendar can load every job that overlaps a period
+
+  3. Functions
+    - schedule_service_order(order_id, start, end, duration, technician_ids): saves the window,
+      duration and technicians in one transaction. Scheduling a pending order moves it to
+      scheduled; clearing the schedule of a scheduled order moves it back to pending
+
+  4. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated users
+*/
+
+-- Create technicians table
+CREATE TABLE IF NOT EXISTS technicians (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  phone TEXT,
+  email TEXT,
+  color TEXT NOT NULL DEFAULT '#3b82f6',
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Create service_order_technicians table
+CREATE TABLE IF NOT EXISTS service_order_technicians (
+  service_order_id UUID NOT NULL REFERENCES service_orders(id) ON DELETE CASCADE,
+  technician_id UUID NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (service_order_id, technician_id)
+);
+
+CREATE INDEX IF NOT EXISTS service_order_technicians_technician_idx ON service_order_technicians (technician_id);
+
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS scheduled_start TIMESTAMPTZ;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS scheduled_end TIMESTAMPTZ;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS estimated_duration_minutes INTEGER;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS scheduled_until TIMESTAMPTZ;
+
+ALTER TABLE service_orders ADD CONSTRAINT service_orders_schedule_window_check
+  CHECK (scheduled_end IS NULL OR scheduled_start IS NULL OR scheduled_end >= scheduled_start);
+ALTER TABLE service_orders ADD CONSTRAINT service_orders_estimated_duration_check
+  CHECK (estimated_duration_minutes IS NULL OR estimated_duration_minutes > 0);
+
+CREATE INDEX IF NOT EXISTS service_orders_scheduled_start_idx ON service_orders (scheduled_start);
+
+-- Mesma regra de getJobInterval no app: duração estimada, senão a janela, senão uma hora
+CREATE OR REPLACE FUNCTION set_service_order_scheduled_until()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.scheduled_until := CASE
+    WHEN NEW.scheduled_start IS NULL THEN NULL
+    WHEN NEW.estimated_duration_minutes IS NOT NULL
+      THEN NEW.scheduled_start + make_interval(mins => NEW.estimated_duration_minutes)
+    WHEN NEW.scheduled_end > NEW.scheduled_start THEN NEW.scheduled_end
+    ELSE NEW.scheduled_start + interval '1 hour'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_service_order_scheduled_until ON service_orders;
+CREATE TRIGGER set_service_order_scheduled_until
+  BEFORE INSERT OR UPDATE OF scheduled_start, scheduled_end, estimated_duration_minutes ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION set_service_order_scheduled_until();
+
+-- Enable RLS
+ALTER TABLE technicians ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_order_technicians ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Allow all access to authenticated users" ON technicians
+  FOR ALL TO authenticated USING (true);
+
+CREATE POLICY "Allow all access to authenticated users" ON service_order_technicians
+  FOR ALL TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION schedule_service_order(
+  p_order_id UUID,
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_duration_minutes INTEGER,
+  p_technician_ids UUID[]
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM service_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  IF v_status IN ('quote', 'quote_approved', 'quote_rejected') THEN
+    RAISE EXCEPTION 'Converta o orçamento em ordem de serviço antes de agendá-lo';
+  END IF;
+
+  IF v_status IN ('completed', 'invoiced', 'paid', 'cancelled') THEN
+    RAISE EXCEPTION 'Esta ordem de serviço não pode mais ser agendada';
+  END IF;
+
+  UPDATE service_orders SET
+    scheduled_start = p_start,
+    scheduled_end = CASE WHEN p_start IS NULL THEN NULL ELSE p_end END,
+    estimated_duration_minutes = p_duration_minutes,
+    status = CASE
+      WHEN p_start IS NOT NULL AND status = 'pending' THEN 'scheduled'
+      WHEN p_start IS NULL AND status = 'scheduled' THEN 'pending'
+      ELSE status
+    END,
+    updated_at = now()
+  WHERE id = p_order_id;
+
+  DELETE FROM service_order_technicians
+  WHERE service_order_id = p_order_id
+    AND NOT (technician_id = ANY(coalesce(p_technician_ids, '{}')));
+
+  INSERT INTO service_order_technicians (service_order_id, technician_id)
+  SELECT p_order_id, unnest(coalesce(p_technician_ids, '{}'))
+  ON CONFLICT DO NOTHING;
+END;
+$$;
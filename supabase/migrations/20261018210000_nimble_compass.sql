@@ -0,0 +1,163 @@
+/*
+  # Technician check-in / check-out
+
+  1. Changes to technicians table
+    - user_id: login of the technician. Filled automatically the first time a user whose
+      email matches the technician's email opens the app
+
+  2. New Tables
+    - service_order_visits
+      - id (uuid, primary key)
+      - service_order_id (uuid, references service_orders)
+      - technician_id (uuid, references technicians)
+      - check_in_at / check_in_lat / check_in_lng: arrival time and position
+      - check_out_at / check_out_lat / check_out_lng: departure time and position
+      - minutes_on_site (integer, computed from check-in and check-out)
+
+  3. Functions
+    - current_technician(): technician linked to the logged-in user
+    - check_in_service_order(order_id, lat, lng): opens a visit and moves the order to in_progress
+    - check_out_service_order(order_id, lat, lng, status): closes the open visit and moves the
+      order to the given status (completed or awaiting_parts)
+      Status changes only happen when allowed by service_order_status_transitions
+
+  4. Security
+    - Enable RLS on service_order_visits
+    - Add policy for authenticated users
+*/
+
+ALTER TABLE technicians ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS technicians_user_id_key ON technicians (user_id);
+
+-- Create service_order_visits table
+CREATE TABLE IF NOT EXISTS service_order_visits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_order_id UUID NOT NULL REFERENCES service_orders(id) ON DELETE CASCADE,
+  technician_id UUID NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+  check_in_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  check_in_lat DECIMAL(10,8),
+  check_in_lng DECIMAL(11,8),
+  check_out_at TIMESTAMPTZ,
+  check_out_lat DECIMAL(10,8),
+  check_out_lng DECIMAL(11,8),
+  minutes_on_site INTEGER GENERATED ALWAYS AS ((extract(epoch FROM check_out_at - check_in_at) / 60)::INTEGER) STORED,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS service_order_visits_order_idx ON service_order_visits (service_order_id);
+CREATE INDEX IF NOT EXISTS service_order_visits_technician_idx ON service_order_visits (technician_id, check_in_at);
+
+-- Um técnico só pode ter uma visita aberta por vez
+CREATE UNIQUE INDEX IF NOT EXISTS service_order_visits_open_key
+  ON service_order_visits (technician_id) WHERE check_out_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE service_order_visits ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Allow all access to authenticated users" ON service_order_visits
+  FOR ALL TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION current_technician()
+RETURNS technicians
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_technician technicians%ROWTYPE;
+BEGIN
+  SELECT * INTO v_technician FROM technicians WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    UPDATE technicians SET user_id = auth.uid(), updated_at = now()
+    WHERE id = (
+      SELECT id FROM technicians
+      WHERE user_id IS NULL AND active AND lower(email) = lower(auth.jwt() ->> 'email')
+      ORDER BY created_at
+      LIMIT 1
+    )
+    RETURNING * INTO v_technician;
+  END IF;
+
+  RETURN v_technician;
+END;
+$$;
+
+-- Muda a situação da OS só quando a transição é permitida
+CREATE OR REPLACE FUNCTION advance_service_order_status(p_order_id UUID, p_status TEXT)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE service_orders o SET status = p_status, updated_at = now()
+  WHERE o.id = p_order_id
+    AND o.status <> p_status
+    AND EXISTS (
+      SELECT 1 FROM service_order_status_transitions t
+      WHERE t.from_status = o.status AND t.to_status = p_status AND NOT t.requires_reason
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_in_service_order(p_order_id UUID, p_lat DECIMAL, p_lng DECIMAL)
+RETURNS service_order_visits
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_technician technicians%ROWTYPE;
+  v_visit service_order_visits%ROWTYPE;
+BEGIN
+  v_technician := current_technician();
+
+  IF v_technician.id IS NULL THEN
+    RAISE EXCEPTION 'Seu usuário não está vinculado a um técnico';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM service_order_visits WHERE technician_id = v_technician.id AND check_out_at IS NULL) THEN
+    RAISE EXCEPTION 'Faça o check-out do serviço atual antes de iniciar outro';
+  END IF;
+
+  INSERT INTO service_order_visits (service_order_id, technician_id, check_in_lat, check_in_lng)
+  VALUES (p_order_id, v_technician.id, p_lat, p_lng)
+  RETURNING * INTO v_visit;
+
+  PERFORM advance_service_order_status(p_order_id, 'in_progress');
+
+  RETURN v_visit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_out_service_order(p_order_id UUID, p_lat DECIMAL, p_lng DECIMAL, p_status TEXT DEFAULT 'completed')
+RETURNS service_order_visits
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_technician technicians%ROWTYPE;
+  v_visit service_order_visits%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('completed', 'awaiting_parts') THEN
+    RAISE EXCEPTION 'Situação inválida para o check-out: %', p_status;
+  END IF;
+
+  v_technician := current_technician();
+
+  UPDATE service_order_visits SET
+    check_out_at = now(),
+    check_out_lat = p_lat,
+    check_out_lng = p_lng
+  WHERE service_order_id = p_order_id
+    AND technician_id = v_technician.id
+    AND check_out_at IS NULL
+  RETURNING * INTO v_visit;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Não há check-in aberto nesta ordem de serviço';
+  END IF;
+
+  -- Com mais de um técnico na OS, ela só muda quando o último sai
+  IF NOT EXISTS (SELECT 1 FROM service_order_visits WHERE service_order_id = p_order_id AND check_out_at IS NULL) THEN
+    PERFORM advance_service_order_status(p_order_id, p_status);
+  END IF;
+
+  RETURN v_visit;
+END;
+$$;
@@ -0,0 +1,565 @@
+/*
+  # Team roles and access control
+
+  1. New Tables
+    - team_members
+      - id (uuid, primary key)
+      - email (text): invited email
+      - name (text)
+      - role (text): owner, office_admin or technician
+      - user_id (uuid, references auth.users): filled when the invite is accepted
+      - invited_by (uuid, references auth.users)
+      - invited_at / accepted_at (timestamptz)
+
+  2. Functions
+    - current_team_role(): role of the logged-in user (null when not a member)
+    - is_team_member() / is_office_member(): helpers used by the policies
+    - is_assigned_technician(order_id): the logged-in user is one of the order's technicians
+    - join_team(): called on login. Accepts a pending invite for the user's email; on a new
+      installation without members, the first user becomes the owner
+    - invite_team_member(email, role, name): creates the invite (and the technician record
+      for technicians)
+    - current_technician() now runs as SECURITY DEFINER, since technicians can no longer
+      update the technicians table
+    - can_work_on_service_order(order_id): office staff, or a technician assigned to the order
+    - change_service_order_status, reopen_service_order, check_in_service_order,
+      check_out_service_order, advance_service_order_status, set_service_order_signed_url
+      and set_service_order_include_photos run as SECURITY DEFINER after checking
+      can_work_on_service_order: they are the only way a technician changes a service
+      order, and they touch nothing but those fields. Invoicing, payment, cancellation and
+      quote decisions stay with the office
+    - log_service_order_status (trigger) runs as SECURITY DEFINER, since nobody writes the
+      status history directly
+
+  3. Security
+    - The "Allow all access to authenticated users" policies are replaced:
+      - owners and office admins manage everything
+      - technicians read only the service orders assigned to them (and their services,
+        materials, photos, signatures, history and visits), read the customers of those
+        orders, materials, technicians and company info
+      - technicians add photos and signatures to their orders, but prices, totals,
+        customer and the service and material lines stay with the office
+      - status history, reopens and visits are read-only: they are only written by the
+        functions above, so the audit trail cannot be edited
+      - technicians have no access to service prices or customer merges
+      - accounts that are not team members see nothing
+    - Only owners manage owners; the last owner cannot be removed or demoted
+    - Storage: team members use the service-orders bucket; only office staff change
+      company assets
+
+  4. Data
+    - The oldest existing user becomes the owner and the other existing users become
+      office admins, keeping the access they already had
+*/
+
+-- Create team_members table
+CREATE TABLE IF NOT EXISTS team_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  name TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'office_admin', 'technician')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  invited_at TIMESTAMPTZ DEFAULT now(),
+  accepted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS team_members_user_id_key ON team_members (user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS team_members_email_key ON team_members (lower(email));
+
+-- Enable RLS
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+-- Funções usadas nas políticas (SECURITY DEFINER para não depender das políticas de team_members)
+CREATE OR REPLACE FUNCTION current_team_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM team_members WHERE user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_team_member()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT current_team_role() IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION is_office_member()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(current_team_role() IN ('owner', 'office_admin'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION is_assigned_technician(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM service_order_technicians sot
+    JOIN technicians t ON t.id = sot.technician_id
+    WHERE sot.service_order_id = p_order_id AND t.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION join_team()
+RETURNS team_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member team_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_member FROM team_members WHERE user_id = auth.uid();
+  IF FOUND THEN
+    RETURN v_member;
+  END IF;
+
+  UPDATE team_members SET user_id = auth.uid(), accepted_at = now()
+  WHERE user_id IS NULL AND lower(email) = lower(auth.jwt() ->> 'email')
+  RETURNING * INTO v_member;
+  IF FOUND THEN
+    RETURN v_member;
+  END IF;
+
+  -- Instalação nova: quem entra primeiro é o dono
+  LOCK TABLE team_members IN EXCLUSIVE MODE;
+  IF NOT EXISTS (SELECT 1 FROM team_members) THEN
+    INSERT INTO team_members (email, role, user_id, invited_by, accepted_at)
+    VALUES (auth.jwt() ->> 'email', 'owner', auth.uid(), auth.uid(), now())
+    RETURNING * INTO v_member;
+  END IF;
+
+  RETURN v_member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION invite_team_member(p_email TEXT, p_role TEXT, p_name TEXT DEFAULT NULL)
+RETURNS team_members
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_member team_members%ROWTYPE;
+BEGIN
+  IF coalesce(trim(p_email), '') = '' THEN
+    RAISE EXCEPTION 'Informe o email';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM team_members WHERE lower(email) = lower(trim(p_email))) THEN
+    RAISE EXCEPTION 'Este email já faz parte da equipe';
+  END IF;
+
+  -- As políticas de team_members decidem quem pode convidar cada papel
+  INSERT INTO team_members (email, name, role)
+  VALUES (lower(trim(p_email)), nullif(trim(p_name), ''), p_role)
+  RETURNING * INTO v_member;
+
+  IF p_role = 'technician' AND NOT EXISTS (
+    SELECT 1 FROM technicians WHERE lower(email) = lower(trim(p_email))
+  ) THEN
+    INSERT INTO technicians (name, email)
+    VALUES (coalesce(nullif(trim(p_name), ''), trim(p_email)), lower(trim(p_email)));
+  END IF;
+
+  RETURN v_member;
+END;
+$$;
+
+ALTER FUNCTION current_technician() SECURITY DEFINER SET search_path = public;
+
+-- Técnicos não têm UPDATE em service_orders: as funções abaixo conferem a OS e só mexem
+-- na situação, na OS assinada e na opção de fotos do PDF
+CREATE OR REPLACE FUNCTION can_work_on_service_order(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT is_office_member() OR is_assigned_technician(p_order_id);
+$$;
+
+-- Faturar, receber, cancelar e decidir orçamentos são decisões do escritório; a tabela de
+-- transições não distingue papéis, por isso a conferência fica aqui
+CREATE OR REPLACE FUNCTION change_service_order_status(p_order_id UUID, p_status TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_work_on_service_order(p_order_id) THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  IF p_status IN ('invoiced', 'paid', 'cancelled', 'quote_approved', 'quote_rejected') AND NOT is_office_member() THEN
+    RAISE EXCEPTION 'Apenas o escritório pode mudar a OS para essa situação';
+  END IF;
+
+  UPDATE service_orders SET status_reason = NULL WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  UPDATE service_orders SET
+    status = p_status,
+    status_reason = nullif(trim(p_reason), ''),
+    updated_at = now()
+  WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION advance_service_order_status(p_order_id UUID, p_status TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_work_on_service_order(p_order_id) THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  UPDATE service_orders o SET status = p_status, updated_at = now()
+  WHERE o.id = p_order_id
+    AND o.status <> p_status
+    AND EXISTS (
+      SELECT 1 FROM service_order_status_transitions t
+      WHERE t.from_status = o.status AND t.to_status = p_status AND NOT t.requires_reason
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_service_order_signed_url(p_order_id UUID, p_url TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_work_on_service_order(p_order_id) THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  UPDATE service_orders SET signed_order_url = p_url, updated_at = now() WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_service_order_include_photos(p_order_id UUID, p_include_photos BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT can_work_on_service_order(p_order_id) THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  UPDATE service_orders SET include_photos = p_include_photos, updated_at = now() WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reopen_service_order(p_order_id UUID, p_new_status TEXT, p_reason TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF NOT can_work_on_service_order(p_order_id) THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo para reabrir a OS';
+  END IF;
+
+  SELECT status INTO v_status FROM service_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  INSERT INTO service_order_reopens (service_order_id, previous_status, new_status, reason)
+  VALUES (p_order_id, v_status, p_new_status, trim(p_reason));
+
+  PERFORM change_service_order_status(p_order_id, p_new_status, p_reason);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_in_service_order(p_order_id UUID, p_lat DECIMAL, p_lng DECIMAL)
+RETURNS service_order_visits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_technician technicians%ROWTYPE;
+  v_visit service_order_visits%ROWTYPE;
+BEGIN
+  v_technician := current_technician();
+
+  IF v_technician.id IS NULL THEN
+    RAISE EXCEPTION 'Seu usuário não está vinculado a um técnico';
+  END IF;
+
+  IF NOT can_work_on_service_order(p_order_id) THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM service_order_visits WHERE technician_id = v_technician.id AND check_out_at IS NULL) THEN
+    RAISE EXCEPTION 'Faça o check-out do serviço atual antes de iniciar outro';
+  END IF;
+
+  INSERT INTO service_order_visits (service_order_id, technician_id, check_in_lat, check_in_lng)
+  VALUES (p_order_id, v_technician.id, p_lat, p_lng)
+  RETURNING * INTO v_visit;
+
+  PERFORM advance_service_order_status(p_order_id, 'in_progress');
+
+  RETURN v_visit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_out_service_order(p_order_id UUID, p_lat DECIMAL, p_lng DECIMAL, p_status TEXT DEFAULT 'completed')
+RETURNS service_order_visits
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_technician technicians%ROWTYPE;
+  v_visit service_order_visits%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('completed', 'awaiting_parts') THEN
+    RAISE EXCEPTION 'Situação inválida para o check-out: %', p_status;
+  END IF;
+
+  IF NOT can_work_on_service_order(p_order_id) THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  v_technician := current_technician();
+
+  UPDATE service_order_visits SET
+    check_out_at = now(),
+    check_out_lat = p_lat,
+    check_out_lng = p_lng
+  WHERE service_order_id = p_order_id
+    AND technician_id = v_technician.id
+    AND check_out_at IS NULL
+  RETURNING * INTO v_visit;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Não há check-in aberto nesta ordem de serviço';
+  END IF;
+
+  -- Com mais de um técnico na OS, ela só muda quando o último sai
+  IF NOT EXISTS (SELECT 1 FROM service_order_visits WHERE service_order_id = p_order_id AND check_out_at IS NULL) THEN
+    PERFORM advance_service_order_status(p_order_id, p_status);
+  END IF;
+
+  RETURN v_visit;
+END;
+$$;
+
+-- O histórico só é gravado pelo gatilho, também quando o escritório salva a OS
+ALTER FUNCTION log_service_order_status() SECURITY DEFINER SET search_path = public;
+
+-- O último dono não pode sair nem deixar de ser dono
+CREATE OR REPLACE FUNCTION protect_last_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND NOT EXISTS (SELECT 1 FROM team_members WHERE role = 'owner' AND id <> OLD.id)
+  THEN
+    RAISE EXCEPTION 'A equipe precisa de pelo menos um dono';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_last_owner ON team_members;
+CREATE TRIGGER protect_last_owner
+  BEFORE UPDATE OF role OR DELETE ON team_members
+  FOR EACH ROW EXECUTE FUNCTION protect_last_owner();
+
+-- Usuários existentes mantêm o acesso que já tinham
+INSERT INTO team_members (email, role, user_id, invited_by, accepted_at)
+SELECT
+  u.email,
+  CASE WHEN row_number() OVER (ORDER BY u.created_at) = 1 THEN 'owner' ELSE 'office_admin' END,
+  u.id,
+  u.id,
+  now()
+FROM auth.users u
+WHERE u.email IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM team_members m WHERE m.user_id = u.id)
+ORDER BY u.created_at;
+
+-- Remove as políticas abertas
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON customers;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON materials;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_orders;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_order_materials;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_order_photos;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_prices;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON company_info;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON order_services;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_order_reopens;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON customer_merges;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_order_signatures;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON quote_revisions;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_order_status_history;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON technicians;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_order_technicians;
+DROP POLICY IF EXISTS "Allow all access to authenticated users" ON service_order_visits;
+DROP POLICY IF EXISTS "Allow read access to authenticated users" ON service_order_status_transitions;
+
+-- team_members
+CREATE POLICY "Team members can view the team" ON team_members
+  FOR SELECT TO authenticated USING (is_team_member());
+
+CREATE POLICY "Owners manage the team" ON team_members
+  FOR ALL TO authenticated
+  USING (current_team_role() = 'owner')
+  WITH CHECK (current_team_role() = 'owner');
+
+CREATE POLICY "Office admins manage non-owner members" ON team_members
+  FOR ALL TO authenticated
+  USING (current_team_role() = 'office_admin' AND role <> 'owner')
+  WITH CHECK (current_team_role() = 'office_admin' AND role <> 'owner');
+
+-- service_orders
+CREATE POLICY "Office staff manage service orders" ON service_orders
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+CREATE POLICY "Technicians view assigned service orders" ON service_orders
+  FOR SELECT TO authenticated USING (is_assigned_technician(id));
+
+-- Tabelas filhas da OS: acesso segue o da OS (a subconsulta já passa pelas políticas de service_orders)
+-- Serviços e materiais têm preço: o técnico consulta, só o escritório altera
+CREATE POLICY "Access follows the service order" ON order_services
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Office staff manage order services" ON order_services
+  FOR ALL TO authenticated
+  USING (is_office_member() AND EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id))
+  WITH CHECK (is_office_member() AND EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Access follows the service order" ON service_order_materials
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Office staff manage order materials" ON service_order_materials
+  FOR ALL TO authenticated
+  USING (is_office_member() AND EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id))
+  WITH CHECK (is_office_member() AND EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Access follows the service order" ON service_order_photos
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Access follows the service order" ON service_order_signatures
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Access follows the service order" ON service_order_reopens
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Access follows the service order" ON service_order_status_history
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Access follows the service order" ON service_order_visits
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+CREATE POLICY "Access follows the quote" ON quote_revisions
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = quote_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = quote_id));
+
+-- Técnicos veem a escala das suas OS, mas só o escritório a altera
+CREATE POLICY "Office staff manage assignments" ON service_order_technicians
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+CREATE POLICY "Technicians view assignments of their orders" ON service_order_technicians
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+-- customers
+CREATE POLICY "Office staff manage customers" ON customers
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+CREATE POLICY "Technicians view customers of their orders" ON customers
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.customer_id = customers.id));
+
+-- Cadastros: o escritório altera, a equipe consulta
+CREATE POLICY "Office staff manage materials" ON materials
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+CREATE POLICY "Team members view materials" ON materials
+  FOR SELECT TO authenticated USING (is_team_member());
+
+CREATE POLICY "Office staff manage technicians" ON technicians
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+CREATE POLICY "Team members view technicians" ON technicians
+  FOR SELECT TO authenticated USING (is_team_member());
+
+CREATE POLICY "Office staff manage company info" ON company_info
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+CREATE POLICY "Team members view company info" ON company_info
+  FOR SELECT TO authenticated USING (is_team_member());
+
+CREATE POLICY "Team members view status transitions" ON service_order_status_transitions
+  FOR SELECT TO authenticated USING (is_team_member());
+
+-- Preços e mesclagem de clientes são só do escritório
+CREATE POLICY "Office staff manage service prices" ON service_prices
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+CREATE POLICY "Office staff manage customer merges" ON customer_merges
+  FOR ALL TO authenticated USING (is_office_member()) WITH CHECK (is_office_member());
+
+-- Storage
+DROP POLICY IF EXISTS "Allow authenticated users to manage service-orders" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated users to manage company assets" ON storage.objects;
+
+CREATE POLICY "Team members manage service-orders" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'service-orders' AND is_team_member())
+  WITH CHECK (bucket_id = 'service-orders' AND is_team_member());
+
+CREATE POLICY "Team members view company assets" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'company' AND is_team_member());
+
+CREATE POLICY "Office staff manage company assets" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'company' AND is_office_member())
+  WITH CHECK (bucket_id = 'company' AND is_office_member());
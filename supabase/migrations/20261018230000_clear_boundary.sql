@@ -0,0 +1,444 @@
+/*
+  # Multi-tenant companies
+
+  1. New Tables
+    - companies
+      - id (uuid, primary key)
+      - name (text)
+      - created_by (uuid, references auth.users)
+      - created_at (timestamptz)
+
+  2. Changes
+    - company_id (references companies, defaults to the logged-in user's company) on:
+      customers, materials, service_orders, service_prices, company_info, technicians,
+      team_members and customer_merges. The other tables belong to a service order and
+      follow its company through the existing policies
+    - Service order numbers are unique per company, and each company has its own counter
+    - Team invites are unique per company
+    - company_info.timezone: the company's time zone (default America/Sao_Paulo). Dates
+      such as "today" for quote validity, maintenance visits and warranties are taken in it
+
+  3. Functions
+    - current_company_id(): company of the logged-in user
+    - storage_object_company_id(name): company that owns a storage object, taken from its
+      "<company_id>/..." folder. Objects outside a company folder belong to no company
+    - join_team(): an account without an invite now creates its own company (with its
+      company_info row) and becomes its owner
+    - current_technician(), assign_service_order_number() and can_work_on_service_order()
+      only look at the user's company
+    - protect_last_owner (trigger): every company keeps at least one owner of its own
+    - company_timezone(company_id) / company_today(company_id): time zone and local date of
+      a company
+    - check_quote_validity (trigger): compares valid_until with the company's local date
+
+  4. Security
+    - Every policy on the tables above also requires company_id = current_company_id(),
+      so one company never reads or writes another company's rows or files
+    - The service-orders and company buckets become private: files are read through
+      signed URLs, so a leaked link stops working after an hour
+
+  5. Data
+    - A default company receives all existing rows and members. It reuses the id of the
+      existing company_info row, so the order number counters stay valid
+    - Files saved before this migration are moved into the default company's folder by
+      supabase/scripts/move-legacy-storage.ts, which also turns the stored public URLs
+      (photos, signatures, signed orders and logo) into object paths. Run it once, right
+      after this migration: until then those files cannot be read
+*/
+
+-- Create companies table
+CREATE TABLE IF NOT EXISTS companies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL DEFAULT '',
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+
+-- Empresa padrão com os dados existentes
+INSERT INTO companies (id, name, created_by, created_at)
+SELECT
+  coalesce((SELECT id FROM company_info ORDER BY created_at LIMIT 1), gen_random_uuid()),
+  coalesce((SELECT name FROM company_info ORDER BY created_at LIMIT 1), ''),
+  (SELECT user_id FROM team_members WHERE role = 'owner' ORDER BY accepted_at LIMIT 1),
+  coalesce((SELECT min(invited_at) FROM team_members), now())
+WHERE NOT EXISTS (SELECT 1 FROM companies);
+
+ALTER TABLE team_members ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE CASCADE;
+UPDATE team_members SET company_id = (SELECT id FROM companies ORDER BY created_at LIMIT 1) WHERE company_id IS NULL;
+ALTER TABLE team_members ALTER COLUMN company_id SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION current_company_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT company_id FROM team_members WHERE user_id = auth.uid();
+$$;
+
+ALTER TABLE team_members ALTER COLUMN company_id SET DEFAULT current_company_id();
+
+DROP INDEX IF EXISTS team_members_email_key;
+CREATE UNIQUE INDEX IF NOT EXISTS team_members_company_email_key ON team_members (company_id, lower(email));
+
+-- company_id nas tabelas da empresa
+DO $$
+DECLARE
+  v_table TEXT;
+  v_company_id UUID := (SELECT id FROM companies ORDER BY created_at LIMIT 1);
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'customers', 'materials', 'service_orders', 'service_prices',
+    'company_info', 'technicians', 'customer_merges'
+  ] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE CASCADE', v_table);
+    EXECUTE format('UPDATE %I SET company_id = $1 WHERE company_id IS NULL', v_table) USING v_company_id;
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN company_id SET NOT NULL', v_table);
+    EXECUTE format('ALTER TABLE %I ALTER COLUMN company_id SET DEFAULT current_company_id()', v_table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I (company_id)', v_table || '_company_id_idx', v_table);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE service_orders DROP CONSTRAINT IF EXISTS service_orders_order_number_key;
+ALTER TABLE service_orders ADD CONSTRAINT service_orders_order_number_key UNIQUE (company_id, order_number);
+
+-- Fuso horário da empresa: o "hoje" dos orçamentos, visitas e garantias é a data local
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- AT TIME ZONE falha com um nome desconhecido: assim um fuso inválido não chega a ser gravado
+ALTER TABLE company_info DROP CONSTRAINT IF EXISTS company_info_timezone_check;
+ALTER TABLE company_info ADD CONSTRAINT company_info_timezone_check
+  CHECK ((now() AT TIME ZONE timezone) IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION company_timezone(p_company_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT timezone FROM company_info WHERE company_id = p_company_id ORDER BY created_at LIMIT 1),
+    'America/Sao_Paulo'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION company_today(p_company_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (now() AT TIME ZONE company_timezone(p_company_id))::DATE;
+$$;
+
+CREATE OR REPLACE FUNCTION check_quote_validity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'quote_approved'
+    AND OLD.status IS DISTINCT FROM 'quote_approved'
+    AND NEW.valid_until < company_today(NEW.company_id)
+  THEN
+    RAISE EXCEPTION 'Este orçamento venceu em %. Altere a validade antes de aprová-lo.', to_char(NEW.valid_until, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Numeração por empresa
+CREATE OR REPLACE FUNCTION assign_service_order_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company company_info%ROWTYPE;
+  v_year INTEGER;
+  v_number INTEGER;
+BEGIN
+  IF NEW.order_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_company FROM company_info WHERE company_id = NEW.company_id ORDER BY created_at LIMIT 1;
+
+  v_year := CASE
+    WHEN coalesce(v_company.order_number_yearly_reset, true)
+      THEN extract(year FROM coalesce(NEW.created_at, now()))::INTEGER
+    ELSE 0
+  END;
+
+  INSERT INTO service_order_counters (company_id, year, last_number)
+  VALUES (NEW.company_id, v_year, 1)
+  ON CONFLICT (company_id, year)
+  DO UPDATE SET last_number = service_order_counters.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  NEW.order_sequence := v_number;
+  NEW.order_number := format_service_order_number(v_company.order_number_prefix, v_year, v_number);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Contadores gravados sem empresa passam para a empresa padrão
+UPDATE service_order_counters SET company_id = (SELECT id FROM companies ORDER BY created_at LIMIT 1)
+WHERE company_id = '00000000-0000-0000-0000-000000000000'
+  AND NOT EXISTS (
+    SELECT 1 FROM service_order_counters c
+    WHERE c.company_id = (SELECT id FROM companies ORDER BY created_at LIMIT 1)
+      AND c.year = service_order_counters.year
+  );
+
+CREATE OR REPLACE FUNCTION join_team()
+RETURNS team_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member team_members%ROWTYPE;
+  v_company_id UUID;
+BEGIN
+  SELECT * INTO v_member FROM team_members WHERE user_id = auth.uid();
+  IF FOUND THEN
+    RETURN v_member;
+  END IF;
+
+  IF coalesce(auth.jwt() ->> 'email', '') = '' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Convite pendente: entra na empresa que convidou (o mais antigo, se houver vários)
+  UPDATE team_members SET user_id = auth.uid(), accepted_at = now()
+  WHERE id = (
+    SELECT id FROM team_members
+    WHERE user_id IS NULL AND lower(email) = lower(auth.jwt() ->> 'email')
+    ORDER BY invited_at
+    LIMIT 1
+  )
+  RETURNING * INTO v_member;
+  IF FOUND THEN
+    RETURN v_member;
+  END IF;
+
+  -- Sem convite: cria a própria empresa e vira o dono
+  INSERT INTO companies (name, created_by) VALUES ('', auth.uid())
+  RETURNING id INTO v_company_id;
+
+  INSERT INTO company_info (company_id, name, email)
+  VALUES (v_company_id, '', auth.jwt() ->> 'email');
+
+  INSERT INTO team_members (company_id, email, role, user_id, invited_by, accepted_at)
+  VALUES (v_company_id, auth.jwt() ->> 'email', 'owner', auth.uid(), auth.uid(), now())
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION current_technician()
+RETURNS technicians
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_technician technicians%ROWTYPE;
+BEGIN
+  SELECT * INTO v_technician FROM technicians WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    UPDATE technicians SET user_id = auth.uid(), updated_at = now()
+    WHERE id = (
+      SELECT id FROM technicians
+      WHERE user_id IS NULL AND active
+        AND company_id = current_company_id()
+        AND lower(email) = lower(auth.jwt() ->> 'email')
+      ORDER BY created_at
+      LIMIT 1
+    )
+    RETURNING * INTO v_technician;
+  END IF;
+
+  RETURN v_technician;
+END;
+$$;
+
+-- As funções de situação, check-in/out e OS assinada rodam como SECURITY DEFINER: a OS precisa ser da empresa
+CREATE OR REPLACE FUNCTION can_work_on_service_order(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM service_orders WHERE id = p_order_id AND company_id = current_company_id())
+    AND (is_office_member() OR is_assigned_technician(p_order_id));
+$$;
+
+-- O último dono de cada empresa não pode sair nem deixar de ser dono
+CREATE OR REPLACE FUNCTION protect_last_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND NOT EXISTS (
+      SELECT 1 FROM team_members
+      WHERE role = 'owner' AND id <> OLD.id AND company_id = OLD.company_id
+    )
+  THEN
+    RAISE EXCEPTION 'A equipe precisa de pelo menos um dono';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+-- Os arquivos ficam em "<company_id>/..."; fora dessa pasta não pertencem a nenhuma empresa
+CREATE OR REPLACE FUNCTION storage_object_company_id(p_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM companies WHERE id::TEXT = split_part(p_name, '/', 1);
+$$;
+
+-- companies
+CREATE POLICY "Team members view their company" ON companies
+  FOR SELECT TO authenticated USING (id = current_company_id());
+
+CREATE POLICY "Owners update their company" ON companies
+  FOR UPDATE TO authenticated
+  USING (id = current_company_id() AND current_team_role() = 'owner')
+  WITH CHECK (id = current_company_id() AND current_team_role() = 'owner');
+
+-- Recria as políticas das tabelas da empresa com o filtro de company_id
+DROP POLICY IF EXISTS "Team members can view the team" ON team_members;
+DROP POLICY IF EXISTS "Owners manage the team" ON team_members;
+DROP POLICY IF EXISTS "Office admins manage non-owner members" ON team_members;
+DROP POLICY IF EXISTS "Office staff manage service orders" ON service_orders;
+DROP POLICY IF EXISTS "Technicians view assigned service orders" ON service_orders;
+DROP POLICY IF EXISTS "Technicians update assigned service orders" ON service_orders;
+DROP POLICY IF EXISTS "Office staff manage assignments" ON service_order_technicians;
+DROP POLICY IF EXISTS "Office staff manage customers" ON customers;
+DROP POLICY IF EXISTS "Technicians view customers of their orders" ON customers;
+DROP POLICY IF EXISTS "Office staff manage materials" ON materials;
+DROP POLICY IF EXISTS "Team members view materials" ON materials;
+DROP POLICY IF EXISTS "Office staff manage technicians" ON technicians;
+DROP POLICY IF EXISTS "Team members view technicians" ON technicians;
+DROP POLICY IF EXISTS "Office staff manage company info" ON company_info;
+DROP POLICY IF EXISTS "Team members view company info" ON company_info;
+DROP POLICY IF EXISTS "Office staff manage service prices" ON service_prices;
+DROP POLICY IF EXISTS "Office staff manage customer merges" ON customer_merges;
+
+-- team_members
+CREATE POLICY "Team members can view the team" ON team_members
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+CREATE POLICY "Owners manage the team" ON team_members
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND current_team_role() = 'owner')
+  WITH CHECK (company_id = current_company_id() AND current_team_role() = 'owner');
+
+CREATE POLICY "Office admins manage non-owner members" ON team_members
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND current_team_role() = 'office_admin' AND role <> 'owner')
+  WITH CHECK (company_id = current_company_id() AND current_team_role() = 'office_admin' AND role <> 'owner');
+
+-- service_orders
+CREATE POLICY "Office staff manage service orders" ON service_orders
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Technicians view assigned service orders" ON service_orders
+  FOR SELECT TO authenticated
+  USING (company_id = current_company_id() AND is_assigned_technician(id));
+
+-- Escala: a OS e o técnico precisam ser da mesma empresa
+CREATE POLICY "Office staff manage assignments" ON service_order_technicians
+  FOR ALL TO authenticated
+  USING (is_office_member() AND EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id))
+  WITH CHECK (
+    is_office_member()
+    AND EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id)
+    AND EXISTS (SELECT 1 FROM technicians t WHERE t.id = technician_id)
+  );
+
+-- customers
+CREATE POLICY "Office staff manage customers" ON customers
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Technicians view customers of their orders" ON customers
+  FOR SELECT TO authenticated
+  USING (company_id = current_company_id() AND EXISTS (SELECT 1 FROM service_orders o WHERE o.customer_id = customers.id));
+
+-- Cadastros
+CREATE POLICY "Office staff manage materials" ON materials
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Team members view materials" ON materials
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+CREATE POLICY "Office staff manage technicians" ON technicians
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Team members view technicians" ON technicians
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+CREATE POLICY "Office staff manage company info" ON company_info
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Team members view company info" ON company_info
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+CREATE POLICY "Office staff manage service prices" ON service_prices
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Office staff manage customer merges" ON customer_merges
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+-- Storage
+DROP POLICY IF EXISTS "Team members manage service-orders" ON storage.objects;
+DROP POLICY IF EXISTS "Team members view company assets" ON storage.objects;
+DROP POLICY IF EXISTS "Office staff manage company assets" ON storage.objects;
+
+CREATE POLICY "Team members manage service-orders" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'service-orders' AND storage_object_company_id(name) = current_company_id())
+  WITH CHECK (bucket_id = 'service-orders' AND storage_object_company_id(name) = current_company_id());
+
+CREATE POLICY "Team members view company assets" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'company' AND storage_object_company_id(name) = current_company_id());
+
+CREATE POLICY "Office staff manage company assets" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'company' AND storage_object_company_id(name) = current_company_id() AND is_office_member())
+  WITH CHECK (bucket_id = 'company' AND storage_object_company_id(name) = current_company_id() AND is_office_member());
+
+-- Buckets privados: os arquivos são lidos por URLs assinadas
+UPDATE storage.buckets SET public = false WHERE id IN ('service-orders', 'company');
@@ -0,0 +1,113 @@
+/*
+  # Trial and subscription enforcement
+
+  1. Changes to subscriptions table
+    - company_id (references companies): the subscription now belongs to the company,
+      so every member shares the same trial or plan
+    - One subscription per company
+
+  2. Functions
+    - create_trial_subscription(): called on every login. Returns the company's
+      subscription, creating a 7 day trial the first time
+    - company_has_active_subscription(company_id): trial or active, and the trial or paid
+      period has not ended
+    - check_subscription_before_order: expired companies cannot create service orders
+
+  3. Security
+    - Members view their company's subscription
+    - Users can no longer update their subscription; status changes only come from the
+      payment webhook (service role)
+
+  4. Data
+    - Existing subscriptions are linked to the company of their user
+    - Companies without a subscription start a 7 day trial
+*/
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE CASCADE;
+
+UPDATE subscriptions s SET company_id = m.company_id
+FROM team_members m
+WHERE m.user_id = s.user_id AND s.company_id IS NULL;
+
+-- Mantém só a assinatura mais recente de cada empresa
+DELETE FROM subscriptions s
+WHERE s.company_id IS NULL
+  OR EXISTS (
+    SELECT 1 FROM subscriptions newer
+    WHERE newer.company_id = s.company_id
+      AND (newer.created_at, newer.id) > (s.created_at, s.id)
+  );
+
+ALTER TABLE subscriptions ALTER COLUMN company_id SET NOT NULL;
+ALTER TABLE subscriptions ALTER COLUMN company_id SET DEFAULT current_company_id();
+CREATE UNIQUE INDEX IF NOT EXISTS subscriptions_company_id_key ON subscriptions (company_id);
+
+INSERT INTO subscriptions (user_id, company_id, status, trial_ends_at, current_period_ends_at)
+SELECT c.created_by, c.id, 'trial', now() + interval '7 days', now() + interval '7 days'
+FROM companies c
+WHERE c.created_by IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM subscriptions s WHERE s.company_id = c.id);
+
+DROP POLICY IF EXISTS "Users can view their own subscription" ON subscriptions;
+DROP POLICY IF EXISTS "Users can update their own subscription" ON subscriptions;
+
+CREATE POLICY "Team members view their company subscription" ON subscriptions
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+DROP FUNCTION IF EXISTS create_trial_subscription();
+
+CREATE OR REPLACE FUNCTION create_trial_subscription()
+RETURNS subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID := current_company_id();
+  v_subscription subscriptions%ROWTYPE;
+BEGIN
+  IF v_company_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário sem empresa';
+  END IF;
+
+  INSERT INTO subscriptions (user_id, company_id, status, trial_ends_at, current_period_ends_at)
+  VALUES (auth.uid(), v_company_id, 'trial', now() + interval '7 days', now() + interval '7 days')
+  ON CONFLICT (company_id) DO NOTHING;
+
+  SELECT * INTO v_subscription FROM subscriptions WHERE company_id = v_company_id;
+  RETURN v_subscription;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION company_has_active_subscription(p_company_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM subscriptions
+    WHERE company_id = p_company_id
+      AND status IN ('trial', 'active')
+      AND coalesce(current_period_ends_at, trial_ends_at) > now()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION check_subscription_before_order()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT company_has_active_subscription(NEW.company_id) THEN
+    RAISE EXCEPTION 'Assinatura expirada: renove para criar novas ordens de serviço';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_subscription_before_order ON service_orders;
+CREATE TRIGGER check_subscription_before_order
+  BEFORE INSERT ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION check_subscription_before_order();
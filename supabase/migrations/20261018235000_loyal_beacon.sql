@@ -0,0 +1,78 @@
+/*
+  # Mercado Pago webhook events
+
+  1. New Tables
+    - payment_events
+      - Every notification received by the mercadopago-webhook Edge Function, valid or not
+      - notification_id: Mercado Pago notification id (retries reuse it, so it is unique
+        and makes the processing idempotent)
+      - topic / action / resource_id: what changed on Mercado Pago
+      - signature_valid: result of the x-signature check
+      - status: received, processed, ignored, rejected or failed
+      - error: why the event was rejected or failed
+
+  2. Changes to subscriptions table
+    - mp_updated_at: last change applied from Mercado Pago. Older notifications that
+      arrive late never overwrite a newer state
+    - mp_payer_email: email of the Mercado Pago payer
+
+  3. Functions
+    - company_has_active_subscription(): a cancelled (or paused) subscription keeps access
+      until the end of the period already paid
+
+  4. Security
+    - Only the service role (used by the Edge Function) writes to payment_events
+    - Office members view their company's events
+*/
+
+-- Create payment_events table
+CREATE TABLE IF NOT EXISTS payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL DEFAULT 'mercadopago',
+  notification_id TEXT,
+  request_id TEXT,
+  topic TEXT,
+  action TEXT,
+  resource_id TEXT,
+  company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL,
+  signature_valid BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processed', 'ignored', 'rejected', 'failed')),
+  error TEXT,
+  received_at TIMESTAMPTZ DEFAULT now(),
+  processed_at TIMESTAMPTZ
+);
+
+-- Só notificações com assinatura válida contam para a idempotência
+CREATE UNIQUE INDEX IF NOT EXISTS payment_events_notification_key
+  ON payment_events (provider, notification_id)
+  WHERE signature_valid;
+
+CREATE INDEX IF NOT EXISTS payment_events_company_id_idx ON payment_events (company_id, received_at);
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS mp_updated_at TIMESTAMPTZ;
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS mp_payer_email TEXT;
+
+-- Enable RLS
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Office staff view payment events" ON payment_events
+  FOR SELECT TO authenticated
+  USING (company_id = current_company_id() AND is_office_member());
+
+CREATE OR REPLACE FUNCTION company_has_active_subscription(p_company_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM subscriptions
+    WHERE company_id = p_company_id
+      AND status IN ('trial', 'active', 'cancelled')
+      AND coalesce(current_period_ends_at, trial_ends_at) > now()
+  );
+$$;
@@ -0,0 +1,623 @@
+/*
+  # PMOC maintenance plans
+
+  1. New Tables
+    - maintenance_plans: maintenance contract (PMOC, Lei 13.589) of a customer
+      - customer_id, name, address (where the equipment is installed)
+      - start_date / end_date: contract period
+      - visit_day, visit_time, visit_duration_minutes: when the monthly visit is scheduled
+      - visit_price: value of each generated service order
+      - engineer_name, engineer_registration (CREA), engineer_art (ART number) and
+        engineer_signature_url: responsible engineer who signs the PMOC documents
+      - active
+    - maintenance_plan_equipment: equipment covered by the plan (type, capacity, brand,
+      model, serial number and location)
+    - maintenance_plan_tasks: task and periodicity in months (1 monthly, 2 bimonthly,
+      3 quarterly, 6 semiannual, 12 annual)
+    - service_order_checklist_items: checklist of a visit, one item per task and
+      equipment, with done / notes. done_at and done_by are filled by a trigger
+
+  2. Changes to service_orders table
+    - maintenance_plan_id / maintenance_period (first day of the month): order generated
+      by a plan. One order per plan and month
+
+  3. Changes to customer_merges table
+    - moved_plans: maintenance plans re-pointed to the survivor, so the merge can be undone
+
+  4. Functions
+    - save_maintenance_plan(plan_id, plan): creates or updates the plan with its equipment
+      and tasks in a single transaction and generates the upcoming orders
+    - generate_maintenance_orders(plan_id, until): creates the scheduled orders (with the
+      service line and the checklist) for each month, from the current month until
+      "until" (default: two months ahead), where at least one task is due. Months that
+      already have an order are skipped, so it can run any number of times. The current
+      month and the visit time follow the company's time zone
+    - generate_due_maintenance_orders(until): the same for every active plan. Runs every
+      day at 06:00 (Brasília) through pg_cron, where the extension is available
+    - generate_maintenance_orders runs as SECURITY DEFINER, since nobody writes checklist
+      items directly; users other than the plan's office staff are refused
+    - update_checklist_item(item_id, done, notes): marks an item done and records notes,
+      for office staff and the technicians assigned to the order
+    - merge_customers / undo_customer_merge: also move the maintenance plans of the
+      duplicates, which would otherwise be deleted with them
+
+  5. Security
+    - Office staff manage plans, equipment and tasks; the team can view them
+    - Checklist items follow the service order for reading; they are created with the
+      order and filled in through update_checklist_item
+*/
+
+-- Create maintenance_plans table
+CREATE TABLE IF NOT EXISTS maintenance_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL DEFAULT current_company_id() REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  address jsonb DEFAULT '{}'::jsonb,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  visit_day INTEGER NOT NULL DEFAULT 1 CHECK (visit_day BETWEEN 1 AND 28),
+  visit_time TIME NOT NULL DEFAULT '08:00',
+  visit_duration_minutes INTEGER NOT NULL DEFAULT 120 CHECK (visit_duration_minutes > 0),
+  visit_price DECIMAL(10,2) NOT NULL DEFAULT 0,
+  engineer_name TEXT,
+  engineer_registration TEXT,
+  engineer_art TEXT,
+  engineer_signature_url TEXT,
+  notes TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_plans_company_id_idx ON maintenance_plans (company_id);
+CREATE INDEX IF NOT EXISTS maintenance_plans_customer_id_idx ON maintenance_plans (customer_id);
+
+-- Create maintenance_plan_equipment table
+CREATE TABLE IF NOT EXISTS maintenance_plan_equipment (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES maintenance_plans(id) ON DELETE CASCADE,
+  equipment_type TEXT,
+  equipment_power TEXT,
+  brand TEXT,
+  model TEXT,
+  serial_number TEXT,
+  location TEXT,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_plan_equipment_plan_id_idx ON maintenance_plan_equipment (plan_id);
+
+-- Create maintenance_plan_tasks table
+CREATE TABLE IF NOT EXISTS maintenance_plan_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES maintenance_plans(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  frequency_months INTEGER NOT NULL CHECK (frequency_months IN (1, 2, 3, 6, 12)),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS maintenance_plan_tasks_plan_id_idx ON maintenance_plan_tasks (plan_id);
+
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS maintenance_plan_id UUID REFERENCES maintenance_plans(id) ON DELETE SET NULL;
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS maintenance_period DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS service_orders_maintenance_period_key
+  ON service_orders (maintenance_plan_id, maintenance_period);
+
+ALTER TABLE customer_merges ADD COLUMN IF NOT EXISTS moved_plans jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Create service_order_checklist_items table
+CREATE TABLE IF NOT EXISTS service_order_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_order_id UUID NOT NULL REFERENCES service_orders(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES maintenance_plan_tasks(id) ON DELETE SET NULL,
+  equipment_id UUID REFERENCES maintenance_plan_equipment(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  equipment_label TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  done BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  done_at TIMESTAMPTZ,
+  done_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS service_order_checklist_items_order_idx ON service_order_checklist_items (service_order_id, position);
+
+-- Enable RLS
+ALTER TABLE maintenance_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE maintenance_plan_equipment ENABLE ROW LEVEL SECURITY;
+ALTER TABLE maintenance_plan_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_order_checklist_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Office staff manage maintenance plans" ON maintenance_plans
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Team members view maintenance plans" ON maintenance_plans
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+CREATE POLICY "Office staff manage plan equipment" ON maintenance_plan_equipment
+  FOR ALL TO authenticated
+  USING (is_office_member() AND EXISTS (SELECT 1 FROM maintenance_plans p WHERE p.id = plan_id))
+  WITH CHECK (is_office_member() AND EXISTS (SELECT 1 FROM maintenance_plans p WHERE p.id = plan_id));
+
+CREATE POLICY "Team members view plan equipment" ON maintenance_plan_equipment
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM maintenance_plans p WHERE p.id = plan_id));
+
+CREATE POLICY "Office staff manage plan tasks" ON maintenance_plan_tasks
+  FOR ALL TO authenticated
+  USING (is_office_member() AND EXISTS (SELECT 1 FROM maintenance_plans p WHERE p.id = plan_id))
+  WITH CHECK (is_office_member() AND EXISTS (SELECT 1 FROM maintenance_plans p WHERE p.id = plan_id));
+
+CREATE POLICY "Team members view plan tasks" ON maintenance_plan_tasks
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM maintenance_plans p WHERE p.id = plan_id));
+
+CREATE POLICY "Access follows the service order" ON service_order_checklist_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM service_orders o WHERE o.id = service_order_id));
+
+-- Quem marcou e quando
+CREATE OR REPLACE FUNCTION stamp_checklist_item()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.done IS DISTINCT FROM OLD.done THEN
+    NEW.done_at := CASE WHEN NEW.done THEN now() END;
+    NEW.done_by := CASE WHEN NEW.done THEN auth.uid() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_checklist_item ON service_order_checklist_items;
+CREATE TRIGGER stamp_checklist_item
+  BEFORE UPDATE ON service_order_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION stamp_checklist_item();
+
+-- Identificação do equipamento no checklist e nos relatórios
+CREATE OR REPLACE FUNCTION format_plan_equipment(e maintenance_plan_equipment)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(concat_ws(' - ',
+    nullif(trim(e.location), ''),
+    nullif(trim(concat_ws(' ', e.brand, e.model)), ''),
+    CASE WHEN coalesce(e.equipment_power, '') <> '' THEN e.equipment_power || ' BTUs' END,
+    CASE WHEN coalesce(e.serial_number, '') <> '' THEN 'Série ' || e.serial_number END
+  ), '');
+$$;
+
+CREATE OR REPLACE FUNCTION generate_maintenance_orders(p_plan_id UUID, p_until DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan maintenance_plans%ROWTYPE;
+  v_today DATE;
+  v_until DATE;
+  v_period DATE;
+  v_index INTEGER := 0;
+  v_tasks TEXT;
+  v_start TIMESTAMPTZ;
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_plan FROM maintenance_plans WHERE id = p_plan_id;
+
+  -- Sem usuário logado só roda pelo banco (agendamento); pela API, só o escritório do plano
+  IF NOT FOUND
+    OR (auth.uid() IS NOT NULL AND NOT (is_office_member() AND v_plan.company_id = current_company_id()))
+  THEN
+    RAISE EXCEPTION 'Plano de manutenção não encontrado';
+  END IF;
+
+  IF NOT v_plan.active THEN
+    RETURN 0;
+  END IF;
+
+  -- Mês atual e horário da visita no fuso da empresa
+  v_today := company_today(v_plan.company_id);
+  v_until := least(
+    coalesce(p_until, (date_trunc('month', v_today) + interval '2 months')::DATE),
+    coalesce(v_plan.end_date, 'infinity'::DATE)
+  );
+  v_period := date_trunc('month', v_plan.start_date)::DATE;
+
+  WHILE v_period <= v_until LOOP
+    -- A periodicidade conta a partir do mês de início; meses passados não são gerados
+    SELECT string_agg(t.description, '; ' ORDER BY t.frequency_months, t.created_at) INTO v_tasks
+    FROM maintenance_plan_tasks t
+    WHERE t.plan_id = v_plan.id AND v_index % t.frequency_months = 0;
+
+    IF v_tasks IS NOT NULL
+      AND v_period >= date_trunc('month', v_today)::DATE
+      AND NOT EXISTS (
+        SELECT 1 FROM service_orders
+        WHERE maintenance_plan_id = v_plan.id AND maintenance_period = v_period
+      )
+    THEN
+      v_start := ((greatest(v_period + (v_plan.visit_day - 1), v_plan.start_date) + v_plan.visit_time)
+        AT TIME ZONE company_timezone(v_plan.company_id));
+
+      INSERT INTO service_orders (
+        company_id, customer_id, service_type, description, status, address, customer_phone,
+        scheduled_start, scheduled_end, estimated_duration_minutes,
+        services_amount, materials_amount, discount_amount, total_amount,
+        maintenance_plan_id, maintenance_period
+      ) VALUES (
+        v_plan.company_id,
+        v_plan.customer_id,
+        'maintenance',
+        'PMOC ' || v_plan.name || ' (' || to_char(v_period, 'MM/YYYY') || '): ' || v_tasks,
+        'scheduled',
+        coalesce(v_plan.address, '{}'::jsonb),
+        coalesce((SELECT phone FROM customers WHERE id = v_plan.customer_id), ''),
+        v_start,
+        v_start + make_interval(mins => v_plan.visit_duration_minutes),
+        v_plan.visit_duration_minutes,
+        v_plan.visit_price, 0, 0, v_plan.visit_price,
+        v_plan.id,
+        v_period
+      )
+      RETURNING id INTO v_order_id;
+
+      INSERT INTO order_services (service_order_id, service_type, equipment_type, equipment_power, description, price, price_source)
+      VALUES (
+        v_order_id, 'maintenance', '', '',
+        'Manutenção preventiva PMOC - ' || to_char(v_period, 'MM/YYYY'),
+        v_plan.visit_price, 'manual'
+      );
+
+      -- Uma linha por tarefa do mês e equipamento (ou só a tarefa, se o plano não tem equipamentos)
+      INSERT INTO service_order_checklist_items (service_order_id, task_id, equipment_id, description, equipment_label, position)
+      SELECT
+        v_order_id,
+        t.id,
+        e.id,
+        t.description,
+        format_plan_equipment(e),
+        row_number() OVER (ORDER BY e.created_at, e.id, t.frequency_months, t.created_at)
+      FROM maintenance_plan_tasks t
+      LEFT JOIN maintenance_plan_equipment e ON e.plan_id = v_plan.id
+      WHERE t.plan_id = v_plan.id AND v_index % t.frequency_months = 0;
+
+      v_count := v_count + 1;
+    END IF;
+
+    v_period := (v_period + interval '1 month')::DATE;
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION generate_maintenance_orders(UUID, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_maintenance_orders(UUID, DATE) TO authenticated, service_role;
+
+-- Técnicos não alteram o checklist diretamente: só marcam o item e anotam
+CREATE OR REPLACE FUNCTION update_checklist_item(p_item_id UUID, p_done BOOLEAN DEFAULT NULL, p_notes TEXT DEFAULT NULL)
+RETURNS service_order_checklist_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item service_order_checklist_items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_item FROM service_order_checklist_items WHERE id = p_item_id;
+
+  IF NOT FOUND OR NOT can_work_on_service_order(v_item.service_order_id) THEN
+    RAISE EXCEPTION 'Item do checklist não encontrado';
+  END IF;
+
+  UPDATE service_order_checklist_items SET
+    done = coalesce(p_done, done),
+    notes = CASE WHEN p_notes IS NULL THEN notes ELSE nullif(trim(p_notes), '') END
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  RETURN v_item;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION generate_due_maintenance_orders(p_until DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_plan_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_plan_id IN SELECT id FROM maintenance_plans WHERE active LOOP
+    v_count := v_count + generate_maintenance_orders(v_plan_id, p_until);
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Geração diária das OS dos planos de todas as empresas (09:00 UTC = 06:00 em Brasília).
+-- Sem pg_cron (ambiente local), as OS continuam sendo geradas ao salvar o plano
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('generate-maintenance-orders', '0 9 * * *', 'SELECT generate_due_maintenance_orders()');
+  END IF;
+END;
+$$;
+
+/*
+  p_plan:
+  {
+    "customer_id", "name", "address", "start_date", "end_date", "visit_day", "visit_time",
+    "visit_duration_minutes", "visit_price", "engineer_name", "engineer_registration",
+    "engineer_art", "engineer_signature_url", "notes", "active",
+    "equipment": [{ "id", "equipment_type", "equipment_power", "brand", "model", "serial_number", "location" }],
+    "tasks": [{ "id", "description", "frequency_months" }]
+  }
+*/
+CREATE OR REPLACE FUNCTION save_maintenance_plan(p_plan_id UUID, p_plan jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_plan_id UUID := p_plan_id;
+  v_equipment jsonb := coalesce(p_plan->'equipment', '[]'::jsonb);
+  v_tasks jsonb := coalesce(p_plan->'tasks', '[]'::jsonb);
+  v_item jsonb;
+BEGIN
+  IF coalesce(p_plan->>'customer_id', '') = '' THEN
+    RAISE EXCEPTION 'Selecione o cliente do plano';
+  END IF;
+
+  IF coalesce(trim(p_plan->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Informe o nome do plano';
+  END IF;
+
+  IF jsonb_array_length(v_tasks) = 0 THEN
+    RAISE EXCEPTION 'O plano precisa de ao menos uma tarefa';
+  END IF;
+
+  IF v_plan_id IS NULL THEN
+    INSERT INTO maintenance_plans (customer_id, name, start_date)
+    VALUES ((p_plan->>'customer_id')::UUID, trim(p_plan->>'name'), (p_plan->>'start_date')::DATE)
+    RETURNING id INTO v_plan_id;
+  END IF;
+
+  UPDATE maintenance_plans SET
+    customer_id = (p_plan->>'customer_id')::UUID,
+    name = trim(p_plan->>'name'),
+    address = coalesce(p_plan->'address', '{}'::jsonb),
+    start_date = (p_plan->>'start_date')::DATE,
+    end_date = nullif(p_plan->>'end_date', '')::DATE,
+    visit_day = coalesce((p_plan->>'visit_day')::INTEGER, 1),
+    visit_time = coalesce(nullif(p_plan->>'visit_time', '')::TIME, '08:00'),
+    visit_duration_minutes = coalesce((p_plan->>'visit_duration_minutes')::INTEGER, 120),
+    visit_price = round(coalesce((p_plan->>'visit_price')::DECIMAL, 0), 2),
+    engineer_name = nullif(trim(p_plan->>'engineer_name'), ''),
+    engineer_registration = nullif(trim(p_plan->>'engineer_registration'), ''),
+    engineer_art = nullif(trim(p_plan->>'engineer_art'), ''),
+    engineer_signature_url = nullif(p_plan->>'engineer_signature_url', ''),
+    notes = nullif(trim(p_plan->>'notes'), ''),
+    active = coalesce((p_plan->>'active')::BOOLEAN, true),
+    updated_at = now()
+  WHERE id = v_plan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plano de manutenção não encontrado';
+  END IF;
+
+  -- Equipamentos e tarefas que saíram do plano (as OS já geradas mantêm o checklist)
+  DELETE FROM maintenance_plan_equipment
+  WHERE plan_id = v_plan_id AND NOT (id = ANY(
+    SELECT (e->>'id')::UUID FROM jsonb_array_elements(v_equipment) e WHERE coalesce(e->>'id', '') <> ''
+  ));
+
+  DELETE FROM maintenance_plan_tasks
+  WHERE plan_id = v_plan_id AND NOT (id = ANY(
+    SELECT (t->>'id')::UUID FROM jsonb_array_elements(v_tasks) t WHERE coalesce(t->>'id', '') <> ''
+  ));
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(v_equipment) LOOP
+    IF coalesce(v_item->>'id', '') <> '' THEN
+      UPDATE maintenance_plan_equipment SET
+        equipment_type = v_item->>'equipment_type',
+        equipment_power = v_item->>'equipment_power',
+        brand = v_item->>'brand',
+        model = v_item->>'model',
+        serial_number = v_item->>'serial_number',
+        location = v_item->>'location'
+      WHERE id = (v_item->>'id')::UUID AND plan_id = v_plan_id;
+    ELSE
+      INSERT INTO maintenance_plan_equipment (plan_id, equipment_type, equipment_power, brand, model, serial_number, location, created_at)
+      VALUES (
+        v_plan_id,
+        v_item->>'equipment_type',
+        v_item->>'equipment_power',
+        v_item->>'brand',
+        v_item->>'model',
+        v_item->>'serial_number',
+        v_item->>'location',
+        clock_timestamp()
+      );
+    END IF;
+  END LOOP;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(v_tasks) LOOP
+    IF coalesce(trim(v_item->>'description'), '') = '' THEN
+      RAISE EXCEPTION 'Informe a descrição de todas as tarefas';
+    END IF;
+
+    IF coalesce(v_item->>'id', '') <> '' THEN
+      UPDATE maintenance_plan_tasks SET
+        description = trim(v_item->>'description'),
+        frequency_months = (v_item->>'frequency_months')::INTEGER
+      WHERE id = (v_item->>'id')::UUID AND plan_id = v_plan_id;
+    ELSE
+      INSERT INTO maintenance_plan_tasks (plan_id, description, frequency_months, created_at)
+      VALUES (v_plan_id, trim(v_item->>'description'), (v_item->>'frequency_months')::INTEGER, clock_timestamp());
+    END IF;
+  END LOOP;
+
+  PERFORM generate_maintenance_orders(v_plan_id);
+
+  RETURN v_plan_id;
+END;
+$$;
+
+-- Mescla clientes duplicados em um único cliente
+CREATE OR REPLACE FUNCTION merge_customers(p_survivor_id UUID, p_duplicate_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_survivor jsonb;
+  v_merged jsonb;
+  v_orders jsonb;
+  v_plans jsonb;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'O cliente principal não pode estar entre os duplicados';
+  END IF;
+
+  SELECT to_jsonb(c) INTO v_survivor FROM customers c WHERE c.id = p_survivor_id FOR UPDATE;
+  IF v_survivor IS NULL THEN
+    RAISE EXCEPTION 'Cliente principal não encontrado';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) INTO v_merged
+  FROM customers c
+  WHERE c.id = ANY(p_duplicate_ids);
+
+  IF jsonb_array_length(v_merged) = 0 THEN
+    RAISE EXCEPTION 'Nenhum cliente duplicado encontrado';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('order_id', o.id, 'customer_id', o.customer_id)), '[]'::jsonb)
+  INTO v_orders
+  FROM service_orders o
+  WHERE o.customer_id = ANY(p_duplicate_ids);
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('plan_id', p.id, 'customer_id', p.customer_id)), '[]'::jsonb)
+  INTO v_plans
+  FROM maintenance_plans p
+  WHERE p.customer_id = ANY(p_duplicate_ids);
+
+  UPDATE service_orders SET customer_id = p_survivor_id WHERE customer_id = ANY(p_duplicate_ids);
+  UPDATE maintenance_plans SET customer_id = p_survivor_id WHERE customer_id = ANY(p_duplicate_ids);
+
+  -- Telefones, endereços, documento e e-mail dos duplicados passam para o principal
+  UPDATE customers c SET
+    phones = (
+      SELECT coalesce(jsonb_agg(DISTINCT p.phone), '[]'::jsonb)
+      FROM (
+        SELECT jsonb_array_elements_text(coalesce(d.phones, '[]'::jsonb)) AS phone
+        FROM customers d
+        WHERE d.id = p_survivor_id OR d.id = ANY(p_duplicate_ids)
+        UNION
+        SELECT d.phone FROM customers d WHERE d.id = ANY(p_duplicate_ids)
+      ) p
+      WHERE coalesce(p.phone, '') <> '' AND p.phone IS DISTINCT FROM c.phone
+    ),
+    addresses = coalesce(c.addresses, '[]'::jsonb) || (
+      SELECT coalesce(jsonb_agg(DISTINCT a.address), '[]'::jsonb)
+      FROM customers d, jsonb_array_elements(coalesce(d.addresses, '[]'::jsonb)) AS a(address)
+      WHERE d.id = ANY(p_duplicate_ids)
+        AND NOT coalesce(c.addresses, '[]'::jsonb) @> jsonb_build_array(a.address)
+    ),
+    document = coalesce(c.document, (
+      SELECT d.document FROM customers d WHERE d.id = ANY(p_duplicate_ids) AND d.document IS NOT NULL LIMIT 1
+    )),
+    email = coalesce(c.email, (
+      SELECT d.email FROM customers d WHERE d.id = ANY(p_duplicate_ids) AND d.email IS NOT NULL LIMIT 1
+    )),
+    updated_at = now()
+  WHERE c.id = p_survivor_id;
+
+  DELETE FROM customers WHERE id = ANY(p_duplicate_ids);
+
+  INSERT INTO customer_merges (survivor_id, survivor_snapshot, merged_customers, moved_orders, moved_plans)
+  VALUES (p_survivor_id, v_survivor, v_merged, v_orders, v_plans)
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+-- Desfaz uma mesclagem registrada em customer_merges
+CREATE OR REPLACE FUNCTION undo_customer_merge(p_merge_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_merge customer_merges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_merge FROM customer_merges WHERE id = p_merge_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mesclagem não encontrada';
+  END IF;
+
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta mesclagem já foi desfeita';
+  END IF;
+
+  -- O principal pode ter sido mesclado em outro cliente depois desta mesclagem
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = (v_merge.survivor_snapshot->>'id')::UUID) THEN
+    RAISE EXCEPTION 'O cliente principal foi mesclado em outro cliente; desfaça essa mesclagem primeiro';
+  END IF;
+
+  -- Mesclagens de antes das empresas não guardaram company_id: os clientes voltam para a
+  -- empresa do principal
+  INSERT INTO customers
+  SELECT * FROM jsonb_populate_recordset(NULL::customers, (
+    SELECT jsonb_agg(jsonb_build_object('company_id', s.company_id) || m.value)
+    FROM jsonb_array_elements(v_merge.merged_customers) m
+    CROSS JOIN customers s
+    WHERE s.id = (v_merge.survivor_snapshot->>'id')::UUID
+  ));
+
+  -- Mesclagens em que um cliente recriado era o principal voltam a apontar para ele
+  UPDATE customer_merges SET survivor_id = (survivor_snapshot->>'id')::UUID
+  WHERE survivor_id IS NULL
+    AND survivor_snapshot->>'id' IN (SELECT value->>'id' FROM jsonb_array_elements(v_merge.merged_customers));
+
+  UPDATE customers c SET
+    name = s.name,
+    email = s.email,
+    phone = s.phone,
+    document = s.document,
+    phones = s.phones,
+    addresses = s.addresses,
+    updated_at = now()
+  FROM jsonb_populate_record(NULL::customers, v_merge.survivor_snapshot) s
+  WHERE c.id = s.id;
+
+  UPDATE service_orders o
+  SET customer_id = (m.value->>'customer_id')::UUID
+  FROM jsonb_array_elements(v_merge.moved_orders) m
+  WHERE o.id = (m.value->>'order_id')::UUID;
+
+  UPDATE maintenance_plans p
+  SET customer_id = (m.value->>'customer_id')::UUID
+  FROM jsonb_array_elements(v_merge.moved_plans) m
+  WHERE p.id = (m.value->>'plan_id')::UUID;
+
+  UPDATE customer_merges SET undone_at = now() WHERE id = p_merge_id;
+END;
+$$;
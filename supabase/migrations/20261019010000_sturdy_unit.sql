@@ -0,0 +1,566 @@
+/*
+  # Customer equipment registry
+
+  1. New Tables
+    - customer_equipment: physical unit installed at a customer
+      - customer_id, address (where it is installed) and room
+      - equipment_type, equipment_power (BTUs), brand, model, serial_number, refrigerant
+      - installed_at, notes
+      - installed_by_order_id: installation order that registered the unit, if any
+
+  2. Changes to order_services table
+    - equipment_id: unit the service was performed on. Every service line ever linked to
+      a unit forms its service history
+
+  3. Changes to customer_merges table
+    - moved_equipment: equipment re-pointed to the survivor, so the merge can be undone
+
+  4. Functions
+    - save_service_order: accepts equipment_id on each service line; the unit must belong
+      to the order's customer and its type and capacity are copied to the line
+    - convert_quote_to_order: keeps the equipment of each service line
+    - register_installed_equipment (trigger): when an order is completed, every
+      installation line without equipment registers a new unit for the customer, at the
+      order address, and is linked to it
+    - merge_customers / undo_customer_merge: also move equipment, which would otherwise
+      be deleted together with the duplicates
+    - undo_customer_merge: merges recorded before companies existed have no company_id in
+      their snapshots; the recreated customers take the surviving customer's company
+
+  5. Security
+    - Office staff manage equipment; the team can view it
+*/
+
+-- Create customer_equipment table
+CREATE TABLE IF NOT EXISTS customer_equipment (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL DEFAULT current_company_id() REFERENCES companies(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  address jsonb DEFAULT '{}'::jsonb,
+  room TEXT,
+  equipment_type TEXT,
+  equipment_power TEXT,
+  brand TEXT,
+  model TEXT,
+  serial_number TEXT,
+  refrigerant TEXT,
+  installed_at DATE,
+  notes TEXT,
+  installed_by_order_id UUID REFERENCES service_orders(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS customer_equipment_customer_id_idx ON customer_equipment (customer_id);
+
+ALTER TABLE order_services ADD COLUMN IF NOT EXISTS equipment_id UUID REFERENCES customer_equipment(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS order_services_equipment_id_idx ON order_services (equipment_id);
+
+ALTER TABLE customer_merges ADD COLUMN IF NOT EXISTS moved_equipment jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Enable RLS
+ALTER TABLE customer_equipment ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Office staff manage customer equipment" ON customer_equipment
+  FOR ALL TO authenticated
+  USING (company_id = current_company_id() AND is_office_member())
+  WITH CHECK (company_id = current_company_id() AND is_office_member());
+
+CREATE POLICY "Team members view customer equipment" ON customer_equipment
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+-- Cadastra os equipamentos instalados quando a OS é concluída. SECURITY DEFINER porque
+-- quem conclui a OS costuma ser o técnico, que não gerencia o cadastro
+CREATE OR REPLACE FUNCTION register_installed_equipment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service order_services%ROWTYPE;
+  v_equipment_id UUID;
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'completed' OR OLD.status IS NOT DISTINCT FROM 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_service IN
+    SELECT * FROM order_services
+    WHERE service_order_id = NEW.id AND service_type = 'installation' AND equipment_id IS NULL
+    ORDER BY created_at
+  LOOP
+    INSERT INTO customer_equipment (
+      company_id, customer_id, address, equipment_type, equipment_power,
+      installed_at, installed_by_order_id
+    ) VALUES (
+      NEW.company_id,
+      NEW.customer_id,
+      coalesce(NEW.address, '{}'::jsonb),
+      nullif(v_service.equipment_type, ''),
+      nullif(v_service.equipment_power, ''),
+      current_date,
+      NEW.id
+    )
+    RETURNING id INTO v_equipment_id;
+
+    UPDATE order_services SET equipment_id = v_equipment_id WHERE id = v_service.id;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS register_installed_equipment ON service_orders;
+CREATE TRIGGER register_installed_equipment
+  AFTER UPDATE OF status ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION register_installed_equipment();
+
+CREATE OR REPLACE FUNCTION save_service_order(p_order_id UUID, p_order jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order_id UUID := p_order_id;
+  v_customer_id UUID := nullif(p_order->'customer'->>'id', '')::UUID;
+  v_address jsonb := coalesce(p_order->'address', '{}'::jsonb);
+  v_services jsonb := coalesce(p_order->'services', '[]'::jsonb);
+  v_service jsonb;
+  v_material jsonb;
+  v_service_id UUID;
+  v_equipment customer_equipment%ROWTYPE;
+  v_kept_service_ids UUID[] := '{}';
+  v_kept_material_ids UUID[] := '{}';
+  v_status TEXT;
+  v_service_types TEXT[];
+  v_services_amount DECIMAL(10,2);
+  v_materials_amount DECIMAL(10,2);
+  v_discount DECIMAL(10,2) := round(coalesce((p_order->>'discount_amount')::DECIMAL, 0), 2);
+BEGIN
+  IF jsonb_array_length(v_services) = 0 THEN
+    RAISE EXCEPTION 'A ordem de serviço precisa de ao menos um serviço';
+  END IF;
+
+  IF v_order_id IS NOT NULL THEN
+    SELECT status INTO v_status FROM service_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ordem de serviço não encontrada';
+    END IF;
+
+    IF v_status IN ('completed', 'invoiced', 'paid') THEN
+      RAISE EXCEPTION 'Reabra a ordem de serviço antes de editá-la';
+    END IF;
+
+    IF v_status = 'cancelled' THEN
+      RAISE EXCEPTION 'Ordem de serviço cancelada não pode ser editada';
+    END IF;
+
+    IF v_status = 'quote_approved' THEN
+      RAISE EXCEPTION 'Orçamento aprovado não pode ser alterado; converta-o em ordem de serviço';
+    END IF;
+
+    -- Alterar um orçamento gera uma nova revisão; a versão anterior fica registrada
+    IF v_status IN ('quote', 'quote_rejected') THEN
+      INSERT INTO quote_revisions (quote_id, revision, snapshot)
+      SELECT o.id, o.quote_revision, to_jsonb(o) || jsonb_build_object(
+        'order_services', coalesce((
+          SELECT jsonb_agg(to_jsonb(s) ORDER BY s.created_at) FROM order_services s WHERE s.service_order_id = o.id
+        ), '[]'::jsonb),
+        'materials', coalesce((
+          SELECT jsonb_agg(to_jsonb(m)) FROM service_order_materials m WHERE m.service_order_id = o.id
+        ), '[]'::jsonb)
+      )
+      FROM service_orders o
+      WHERE o.id = v_order_id;
+
+      UPDATE service_orders SET
+        status = 'quote',
+        quote_revision = coalesce(quote_revision, 1) + 1,
+        quote_decided_at = NULL,
+        quote_decision_reason = NULL
+      WHERE id = v_order_id;
+    END IF;
+  END IF;
+
+  -- Cliente
+  IF v_customer_id IS NOT NULL THEN
+    UPDATE customers SET
+      name = p_order->'customer'->>'name',
+      phone = coalesce(p_order->'customer'->>'phone', ''),
+      updated_at = now()
+    WHERE id = v_customer_id;
+  ELSE
+    IF coalesce(p_order->'customer'->>'name', '') = '' THEN
+      RAISE EXCEPTION 'Informe o nome do cliente';
+    END IF;
+
+    INSERT INTO customers (name, phone, addresses)
+    VALUES (
+      p_order->'customer'->>'name',
+      coalesce(p_order->'customer'->>'phone', ''),
+      CASE WHEN coalesce(v_address->>'street', '') <> '' THEN jsonb_build_array(v_address) ELSE '[]'::jsonb END
+    )
+    RETURNING id INTO v_customer_id;
+  END IF;
+
+  -- Ordem de serviço (os totais são recalculados depois de gravar as linhas)
+  SELECT array_agg(DISTINCT s->>'service_type') INTO v_service_types
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'service_type', '') <> '';
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO service_orders (customer_id, service_type, description, status)
+    VALUES (v_customer_id, '', '', CASE WHEN p_order->>'status' = 'quote' THEN 'quote' ELSE 'pending' END)
+    RETURNING id INTO v_order_id;
+  END IF;
+
+  UPDATE service_orders SET
+    customer_id = v_customer_id,
+    service_type = CASE WHEN coalesce(array_length(v_service_types, 1), 0) > 1 THEN 'multiple' ELSE coalesce(v_service_types[1], '') END,
+    equipment_type = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_type', '') ELSE '' END,
+    equipment_power = CASE WHEN jsonb_array_length(v_services) = 1 THEN coalesce(v_services->0->>'equipment_power', '') ELSE '' END,
+    description = (
+      SELECT coalesce(string_agg(s->>'description', '; '), '')
+      FROM jsonb_array_elements(v_services) s
+      WHERE coalesce(s->>'description', '') <> ''
+    ),
+    address = v_address,
+    customer_phone = coalesce(p_order->'customer'->>'phone', ''),
+    location_lat = (p_order->>'location_lat')::DECIMAL,
+    location_lng = (p_order->>'location_lng')::DECIMAL,
+    include_photos = coalesce((p_order->>'include_photos')::BOOLEAN, false),
+    valid_until = coalesce(nullif(p_order->>'valid_until', '')::DATE, valid_until),
+    updated_at = now()
+  WHERE id = v_order_id;
+
+  -- Remove serviços e materiais que saíram da OS (os materiais do serviço vão junto)
+  SELECT coalesce(array_agg((s->>'id')::UUID), '{}') INTO v_kept_service_ids
+  FROM jsonb_array_elements(v_services) s
+  WHERE coalesce(s->>'id', '') <> '';
+
+  SELECT coalesce(array_agg((m->>'id')::UUID), '{}') INTO v_kept_material_ids
+  FROM jsonb_array_elements(v_services) s, jsonb_array_elements(coalesce(s->'materials', '[]'::jsonb)) m
+  WHERE coalesce(m->>'id', '') <> '';
+
+  DELETE FROM service_order_materials
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_material_ids));
+
+  DELETE FROM order_services
+  WHERE service_order_id = v_order_id AND NOT (id = ANY(v_kept_service_ids));
+
+  FOR v_service IN SELECT value FROM jsonb_array_elements(v_services) LOOP
+    v_service_id := nullif(v_service->>'id', '')::UUID;
+
+    -- Equipamento cadastrado: precisa ser do cliente da OS e define tipo e capacidade da linha
+    IF coalesce(v_service->>'equipment_id', '') <> '' THEN
+      SELECT * INTO v_equipment FROM customer_equipment WHERE id = (v_service->>'equipment_id')::UUID;
+
+      IF NOT FOUND OR v_equipment.customer_id <> v_customer_id THEN
+        RAISE EXCEPTION 'O equipamento selecionado não pertence a este cliente';
+      END IF;
+
+      v_service := v_service || jsonb_build_object(
+        'equipment_type', coalesce(v_equipment.equipment_type, v_service->>'equipment_type'),
+        'equipment_power', coalesce(v_equipment.equipment_power, v_service->>'equipment_power')
+      );
+    END IF;
+
+    IF v_service_id IS NOT NULL THEN
+      UPDATE order_services SET
+        service_type = v_service->>'service_type',
+        equipment_type = v_service->>'equipment_type',
+        equipment_power = v_service->>'equipment_power',
+        equipment_id = nullif(v_service->>'equipment_id', '')::UUID,
+        description = coalesce(v_service->>'description', ''),
+        price = round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        price_source = coalesce(v_service->>'price_source', 'manual')
+      WHERE id = v_service_id AND service_order_id = v_order_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Serviço % não pertence a esta ordem de serviço', v_service_id;
+      END IF;
+    ELSE
+      -- clock_timestamp mantém a ordem dos serviços inseridos na mesma transação
+      INSERT INTO order_services (
+        service_order_id, service_type, equipment_type, equipment_power, equipment_id,
+        description, price, price_source, created_at
+      ) VALUES (
+        v_order_id,
+        v_service->>'service_type',
+        v_service->>'equipment_type',
+        v_service->>'equipment_power',
+        nullif(v_service->>'equipment_id', '')::UUID,
+        coalesce(v_service->>'description', ''),
+        round(coalesce((v_service->>'price')::DECIMAL, 0), 2),
+        coalesce(v_service->>'price_source', 'manual'),
+        clock_timestamp()
+      )
+      RETURNING id INTO v_service_id;
+    END IF;
+
+    FOR v_material IN SELECT value FROM jsonb_array_elements(coalesce(v_service->'materials', '[]'::jsonb)) LOOP
+      IF coalesce(v_material->>'id', '') <> '' THEN
+        UPDATE service_order_materials SET
+          order_service_id = v_service_id,
+          material_id = (v_material->>'material_id')::UUID,
+          quantity = (v_material->>'quantity')::DECIMAL,
+          unit_price = (v_material->>'unit_price')::DECIMAL
+        WHERE id = (v_material->>'id')::UUID AND service_order_id = v_order_id;
+      ELSE
+        INSERT INTO service_order_materials (service_order_id, order_service_id, material_id, quantity, unit_price)
+        VALUES (
+          v_order_id,
+          v_service_id,
+          (v_material->>'material_id')::UUID,
+          (v_material->>'quantity')::DECIMAL,
+          (v_material->>'unit_price')::DECIMAL
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  -- Totais calculados a partir do que ficou gravado
+  SELECT coalesce(sum(price), 0) INTO v_services_amount
+  FROM order_services WHERE service_order_id = v_order_id;
+
+  SELECT coalesce(round(sum(quantity * unit_price), 2), 0) INTO v_materials_amount
+  FROM service_order_materials WHERE service_order_id = v_order_id;
+
+  UPDATE service_orders SET
+    services_amount = v_services_amount,
+    materials_amount = v_materials_amount,
+    discount_amount = v_discount,
+    total_amount = v_services_amount + v_materials_amount - v_discount
+  WHERE id = v_order_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Converte um orçamento aprovado em ordem de serviço
+CREATE OR REPLACE FUNCTION convert_quote_to_order(p_quote_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_quote service_orders%ROWTYPE;
+  v_order_id UUID;
+  v_service order_services%ROWTYPE;
+  v_service_id UUID;
+BEGIN
+  SELECT * INTO v_quote FROM service_orders WHERE id = p_quote_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Orçamento não encontrado';
+  END IF;
+
+  IF v_quote.status <> 'quote_approved' THEN
+    RAISE EXCEPTION 'Apenas orçamentos aprovados podem ser convertidos';
+  END IF;
+
+  IF v_quote.valid_until < (v_quote.quote_decided_at AT TIME ZONE company_timezone(v_quote.company_id))::DATE THEN
+    RAISE EXCEPTION 'Este orçamento foi aprovado depois de vencido e não pode ser convertido';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM service_orders WHERE quote_id = p_quote_id) THEN
+    RAISE EXCEPTION 'Este orçamento já foi convertido em ordem de serviço';
+  END IF;
+
+  INSERT INTO service_orders (
+    customer_id, service_type, equipment_type, equipment_power, description,
+    address, customer_phone, location_lat, location_lng, include_photos,
+    services_amount, materials_amount, discount_amount, total_amount,
+    status, quote_id
+  ) VALUES (
+    v_quote.customer_id, v_quote.service_type, v_quote.equipment_type, v_quote.equipment_power, v_quote.description,
+    v_quote.address, v_quote.customer_phone, v_quote.location_lat, v_quote.location_lng, v_quote.include_photos,
+    v_quote.services_amount, v_quote.materials_amount, v_quote.discount_amount, v_quote.total_amount,
+    'pending', p_quote_id
+  )
+  RETURNING id INTO v_order_id;
+
+  FOR v_service IN
+    SELECT * FROM order_services WHERE service_order_id = p_quote_id ORDER BY created_at
+  LOOP
+    INSERT INTO order_services (
+      service_order_id, service_type, equipment_type, equipment_power, equipment_id,
+      description, price, price_source, created_at
+    ) VALUES (
+      v_order_id, v_service.service_type, v_service.equipment_type, v_service.equipment_power, v_service.equipment_id,
+      v_service.description, v_service.price, v_service.price_source, clock_timestamp()
+    )
+    RETURNING id INTO v_service_id;
+
+    INSERT INTO service_order_materials (service_order_id, order_service_id, material_id, quantity, unit_price)
+    SELECT v_order_id, v_service_id, material_id, quantity, unit_price
+    FROM service_order_materials
+    WHERE order_service_id = v_service.id;
+  END LOOP;
+
+  -- Materiais de orçamentos antigos sem serviço vinculado
+  INSERT INTO service_order_materials (service_order_id, material_id, quantity, unit_price)
+  SELECT v_order_id, material_id, quantity, unit_price
+  FROM service_order_materials
+  WHERE service_order_id = p_quote_id AND order_service_id IS NULL;
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Mescla clientes duplicados em um único cliente
+CREATE OR REPLACE FUNCTION merge_customers(p_survivor_id UUID, p_duplicate_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_survivor jsonb;
+  v_merged jsonb;
+  v_orders jsonb;
+  v_equipment jsonb;
+  v_plans jsonb;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = ANY(p_duplicate_ids) THEN
+    RAISE EXCEPTION 'O cliente principal não pode estar entre os duplicados';
+  END IF;
+
+  SELECT to_jsonb(c) INTO v_survivor FROM customers c WHERE c.id = p_survivor_id FOR UPDATE;
+  IF v_survivor IS NULL THEN
+    RAISE EXCEPTION 'Cliente principal não encontrado';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(c)), '[]'::jsonb) INTO v_merged
+  FROM customers c
+  WHERE c.id = ANY(p_duplicate_ids);
+
+  IF jsonb_array_length(v_merged) = 0 THEN
+    RAISE EXCEPTION 'Nenhum cliente duplicado encontrado';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('order_id', o.id, 'customer_id', o.customer_id)), '[]'::jsonb)
+  INTO v_orders
+  FROM service_orders o
+  WHERE o.customer_id = ANY(p_duplicate_ids);
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('equipment_id', e.id, 'customer_id', e.customer_id)), '[]'::jsonb)
+  INTO v_equipment
+  FROM customer_equipment e
+  WHERE e.customer_id = ANY(p_duplicate_ids);
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('plan_id', p.id, 'customer_id', p.customer_id)), '[]'::jsonb)
+  INTO v_plans
+  FROM maintenance_plans p
+  WHERE p.customer_id = ANY(p_duplicate_ids);
+
+  UPDATE service_orders SET customer_id = p_survivor_id WHERE customer_id = ANY(p_duplicate_ids);
+  UPDATE customer_equipment SET customer_id = p_survivor_id WHERE customer_id = ANY(p_duplicate_ids);
+  UPDATE maintenance_plans SET customer_id = p_survivor_id WHERE customer_id = ANY(p_duplicate_ids);
+
+  -- Telefones, endereços, documento e e-mail dos duplicados passam para o principal
+  UPDATE customers c SET
+    phones = (
+      SELECT coalesce(jsonb_agg(DISTINCT p.phone), '[]'::jsonb)
+      FROM (
+        SELECT jsonb_array_elements_text(coalesce(d.phones, '[]'::jsonb)) AS phone
+        FROM customers d
+        WHERE d.id = p_survivor_id OR d.id = ANY(p_duplicate_ids)
+        UNION
+        SELECT d.phone FROM customers d WHERE d.id = ANY(p_duplicate_ids)
+      ) p
+      WHERE coalesce(p.phone, '') <> '' AND p.phone IS DISTINCT FROM c.phone
+    ),
+    addresses = coalesce(c.addresses, '[]'::jsonb) || (
+      SELECT coalesce(jsonb_agg(DISTINCT a.address), '[]'::jsonb)
+      FROM customers d, jsonb_array_elements(coalesce(d.addresses, '[]'::jsonb)) AS a(address)
+      WHERE d.id = ANY(p_duplicate_ids)
+        AND NOT coalesce(c.addresses, '[]'::jsonb) @> jsonb_build_array(a.address)
+    ),
+    document = coalesce(c.document, (
+      SELECT d.document FROM customers d WHERE d.id = ANY(p_duplicate_ids) AND d.document IS NOT NULL LIMIT 1
+    )),
+    email = coalesce(c.email, (
+      SELECT d.email FROM customers d WHERE d.id = ANY(p_duplicate_ids) AND d.email IS NOT NULL LIMIT 1
+    )),
+    updated_at = now()
+  WHERE c.id = p_survivor_id;
+
+  DELETE FROM customers WHERE id = ANY(p_duplicate_ids);
+
+  INSERT INTO customer_merges (survivor_id, survivor_snapshot, merged_customers, moved_orders, moved_equipment, moved_plans)
+  VALUES (p_survivor_id, v_survivor, v_merged, v_orders, v_equipment, v_plans)
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+-- Desfaz uma mesclagem registrada em customer_merges
+CREATE OR REPLACE FUNCTION undo_customer_merge(p_merge_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_merge customer_merges%ROWTYPE;
+BEGIN
+  SELECT * INTO v_merge FROM customer_merges WHERE id = p_merge_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Mesclagem não encontrada';
+  END IF;
+
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta mesclagem já foi desfeita';
+  END IF;
+
+  -- O principal pode ter sido mesclado em outro cliente depois desta mesclagem
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = (v_merge.survivor_snapshot->>'id')::UUID) THEN
+    RAISE EXCEPTION 'O cliente principal foi mesclado em outro cliente; desfaça essa mesclagem primeiro';
+  END IF;
+
+  -- Mesclagens de antes das empresas não guardaram company_id: os clientes voltam para a
+  -- empresa do principal
+  INSERT INTO customers
+  SELECT * FROM jsonb_populate_recordset(NULL::customers, (
+    SELECT jsonb_agg(jsonb_build_object('company_id', s.company_id) || m.value)
+    FROM jsonb_array_elements(v_merge.merged_customers) m
+    CROSS JOIN customers s
+    WHERE s.id = (v_merge.survivor_snapshot->>'id')::UUID
+  ));
+
+  -- Mesclagens em que um cliente recriado era o principal voltam a apontar para ele
+  UPDATE customer_merges SET survivor_id = (survivor_snapshot->>'id')::UUID
+  WHERE survivor_id IS NULL
+    AND survivor_snapshot->>'id' IN (SELECT value->>'id' FROM jsonb_array_elements(v_merge.merged_customers));
+
+  UPDATE customers c SET
+    name = s.name,
+    email = s.email,
+    phone = s.phone,
+    document = s.document,
+    phones = s.phones,
+    addresses = s.addresses,
+    updated_at = now()
+  FROM jsonb_populate_record(NULL::customers, v_merge.survivor_snapshot) s
+  WHERE c.id = s.id;
+
+  UPDATE service_orders o
+  SET customer_id = (m.value->>'customer_id')::UUID
+  FROM jsonb_array_elements(v_merge.moved_orders) m
+  WHERE o.id = (m.value->>'order_id')::UUID;
+
+  UPDATE customer_equipment e
+  SET customer_id = (m.value->>'customer_id')::UUID
+  FROM jsonb_array_elements(v_merge.moved_equipment) m
+  WHERE e.id = (m.value->>'equipment_id')::UUID;
+
+  UPDATE maintenance_plans p
+  SET customer_id = (m.value->>'customer_id')::UUID
+  FROM jsonb_array_elements(v_merge.moved_plans) m
+  WHERE p.id = (m.value->>'plan_id')::UUID;
+
+  UPDATE customer_merges SET undone_at = now() WHERE id = p_merge_id;
+END;
+$$;
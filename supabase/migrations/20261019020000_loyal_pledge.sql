@@ -0,0 +1,167 @@
+/*
+  # Installation warranty and warranty-return orders
+
+  1. Changes to service_prices table
+    - warranty_months: warranty term in months per service type, e.g. { "installation": "12" }.
+      Empty or zero means the service has no warranty
+
+  2. Changes to order_services table
+    - warranty_until: last day covered by the warranty, set when the order is completed
+
+  3. Changes to service_orders table
+    - warranty_order_id: original order a warranty return was opened for
+
+  4. Functions
+    - set_service_warranty (trigger): when an order is completed for the first time, each
+      service line gets warranty_until = completion date + the term of its service type
+    - create_warranty_return: opens a pending warranty-return order for the same customer
+      and address, with one zero-value line per service still under warranty
+    - Completion date and "still under warranty" use the company's local date
+      (company_today), not the server's UTC date
+
+  5. Data
+    - Completed orders get warranty_until from the date they were first completed
+*/
+
+ALTER TABLE service_prices ADD COLUMN IF NOT EXISTS warranty_months jsonb DEFAULT '{
+  "installation": "12",
+  "maintenance": "3",
+  "cleaning": "3",
+  "gas_recharge": "3",
+  "other": "3"
+}'::jsonb;
+
+UPDATE service_prices SET warranty_months = '{
+  "installation": "12",
+  "maintenance": "3",
+  "cleaning": "3",
+  "gas_recharge": "3",
+  "other": "3"
+}'::jsonb
+WHERE warranty_months IS NULL;
+
+ALTER TABLE order_services ADD COLUMN IF NOT EXISTS warranty_until DATE;
+
+ALTER TABLE service_orders ADD COLUMN IF NOT EXISTS warranty_order_id UUID REFERENCES service_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS service_orders_warranty_order_id_idx ON service_orders (warranty_order_id);
+
+-- Prazo de garantia (em meses) configurado para o tipo de serviço; nulo quando não há garantia
+CREATE OR REPLACE FUNCTION get_warranty_months(p_company_id UUID, p_service_type TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT nullif(substring(warranty_months->>p_service_type FROM '^\s*(\d+)\s*$')::INTEGER, 0)
+  FROM service_prices
+  WHERE company_id = p_company_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$;
+
+-- Registra a garantia dos serviços na primeira conclusão da OS. SECURITY DEFINER porque
+-- quem conclui a OS costuma ser o técnico, que não vê a tabela de preços
+CREATE OR REPLACE FUNCTION set_service_warranty()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'completed' OR OLD.status IS NOT DISTINCT FROM 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE order_services
+  SET warranty_until = (company_today(NEW.company_id) + make_interval(months => get_warranty_months(NEW.company_id, service_type)))::DATE
+  WHERE service_order_id = NEW.id
+    AND warranty_until IS NULL
+    AND get_warranty_months(NEW.company_id, service_type) IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_service_warranty ON service_orders;
+CREATE TRIGGER set_service_warranty
+  AFTER UPDATE OF status ON service_orders
+  FOR EACH ROW EXECUTE FUNCTION set_service_warranty();
+
+CREATE OR REPLACE FUNCTION create_warranty_return(p_order_id UUID, p_description TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order service_orders%ROWTYPE;
+  v_return_id UUID;
+BEGIN
+  SELECT * INTO v_order FROM service_orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  IF v_order.warranty_order_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Esta OS já é um retorno em garantia; abra o novo retorno pela OS original';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_services
+    WHERE service_order_id = p_order_id AND warranty_until >= company_today(v_order.company_id)
+  ) THEN
+    RAISE EXCEPTION 'Esta OS não tem serviços dentro da garantia';
+  END IF;
+
+  IF coalesce(trim(p_description), '') = '' THEN
+    RAISE EXCEPTION 'Descreva o problema relatado pelo cliente';
+  END IF;
+
+  INSERT INTO service_orders (
+    company_id, customer_id, service_type, equipment_type, equipment_power, description, status,
+    address, customer_phone, location_lat, location_lng,
+    services_amount, materials_amount, discount_amount, total_amount,
+    warranty_order_id
+  ) VALUES (
+    v_order.company_id,
+    v_order.customer_id,
+    'warranty_return',
+    v_order.equipment_type,
+    v_order.equipment_power,
+    trim(p_description),
+    'pending',
+    coalesce(v_order.address, '{}'::jsonb),
+    coalesce(v_order.customer_phone, ''),
+    v_order.location_lat,
+    v_order.location_lng,
+    0, 0, 0, 0,
+    v_order.id
+  )
+  RETURNING id INTO v_return_id;
+
+  INSERT INTO order_services (
+    service_order_id, service_type, equipment_type, equipment_power, equipment_id,
+    description, price, price_source
+  )
+  SELECT
+    v_return_id, 'warranty_return', equipment_type, equipment_power, equipment_id,
+    'Retorno em garantia' || coalesce(' - ' || nullif(description, ''), ''),
+    0, 'manual'
+  FROM order_services
+  WHERE service_order_id = p_order_id AND warranty_until >= company_today(v_order.company_id)
+  ORDER BY created_at;
+
+  RETURN v_return_id;
+END;
+$$;
+
+-- Garantia das OS que já estavam concluídas, contada da primeira conclusão
+UPDATE order_services s
+SET warranty_until = ((
+  SELECT (min(h.changed_at) AT TIME ZONE company_timezone(o.company_id))::DATE FROM service_order_status_history h
+  WHERE h.service_order_id = o.id AND h.to_status = 'completed'
+) + make_interval(months => get_warranty_months(o.company_id, s.service_type)))::DATE
+FROM service_orders o
+WHERE o.id = s.service_order_id
+  AND o.status IN ('completed', 'invoiced', 'paid')
+  AND s.warranty_until IS NULL
+  AND get_warranty_months(o.company_id, s.service_type) IS NOT NULL;
@@ -0,0 +1,23 @@
+/*
+  # Preventive maintenance reminder intervals
+
+  1. Changes to service_prices table
+    - reminder_months: months after a completed service until the customer is due for the
+      next cleaning, per service type, e.g. { "cleaning": "6", "installation": "6" }.
+      Empty or zero means the service does not generate reminders
+
+  2. Notes
+    - Due dates are computed by the app from the completed cleaning and installation
+      service lines of each customer and equipment
+*/
+
+ALTER TABLE service_prices ADD COLUMN IF NOT EXISTS reminder_months jsonb DEFAULT '{
+  "cleaning": "6",
+  "installation": "6"
+}'::jsonb;
+
+UPDATE service_prices SET reminder_months = '{
+  "cleaning": "6",
+  "installation": "6"
+}'::jsonb
+WHERE reminder_months IS NULL;
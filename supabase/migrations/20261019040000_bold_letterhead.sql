@@ -0,0 +1,36 @@
+/*
+  # PDF branding, terms and warranty clauses
+
+  1. Changes to company_info table
+    - brand_primary_color: color of titles and rules in the PDFs (#rrggbb)
+    - brand_secondary_color: background of table headers in the PDFs (#rrggbb)
+    - pdf_header_layout: 'logo_right', 'logo_left' or 'centered'
+    - pdf_footer_text: free text printed at the end of every document
+    - payment_terms: default payment conditions for quotes and service orders
+    - warranty_terms: warranty clause per service type, e.g. { "installation": "..." }
+    - quote_validity_text: validity note for quotes; {validade} is replaced by the
+      quote expiry date
+
+  2. Notes
+    - Existing companies keep the current black and gray look
+*/
+
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS brand_primary_color TEXT DEFAULT '#000000';
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS brand_secondary_color TEXT DEFAULT '#f3f4f6';
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS pdf_header_layout TEXT DEFAULT 'logo_right';
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS pdf_footer_text TEXT;
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS payment_terms TEXT;
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS warranty_terms jsonb DEFAULT '{}'::jsonb;
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS quote_validity_text TEXT;
+
+ALTER TABLE company_info DROP CONSTRAINT IF EXISTS company_info_brand_colors_check;
+ALTER TABLE company_info ADD CONSTRAINT company_info_brand_colors_check CHECK (
+  (brand_primary_color IS NULL OR brand_primary_color ~* '^#[0-9a-f]{6}$') AND
+  (brand_secondary_color IS NULL OR brand_secondary_color ~* '^#[0-9a-f]{6}$')
+);
+
+ALTER TABLE company_info DROP CONSTRAINT IF EXISTS company_info_pdf_header_layout_check;
+ALTER TABLE company_info ADD CONSTRAINT company_info_pdf_header_layout_check
+  CHECK (pdf_header_layout IN ('logo_right', 'logo_left', 'centered'));
+
+UPDATE company_info SET warranty_terms = '{}'::jsonb WHERE warranty_terms IS NULL;
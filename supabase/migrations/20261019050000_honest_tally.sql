@@ -0,0 +1,209 @@
+/*
+  # Payment receipts
+
+  1. New Tables
+    - payment_receipts: receipt (recibo) issued for a payment of a service order
+      - receipt_number: sequential number per company, e.g. REC-2026-00007 (unique per company)
+      - service_order_id and order_number: order the payment refers to. The number is kept
+        so the receipt still identifies the order if it is deleted
+      - payer_name, payer_document (CPF/CNPJ digits)
+      - amount, payment_method, paid_at
+      - pdf_url / storage_path: PDF stored in the service-orders bucket
+    - receipt_counters
+      - Last receipt number issued per company and year (year 0 when the sequence never
+        resets, following company_info.order_number_yearly_reset)
+      - Only written by the numbering trigger; no direct access for users
+
+  2. Functions
+    - issue_payment_receipt: validates and records a receipt for a completed, invoiced or
+      paid order. The amount may be partial, but the receipts of an order never add up to
+      more than its total: the order row is locked, so two receipts issued at the same
+      time are checked one after the other
+    - set_payment_receipt_pdf: records where the receipt PDF was saved
+    - assign_receipt_number (trigger): numbers every new receipt, locking the counter row
+      like the service order numbering
+
+  3. Security
+    - The team can view receipts. They are only written through issue_payment_receipt
+      and set_payment_receipt_pdf (SECURITY DEFINER, office staff only), so a receipt is
+      never edited or deleted and the balance check cannot be bypassed
+*/
+
+-- Create payment_receipts table
+CREATE TABLE IF NOT EXISTS payment_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL DEFAULT current_company_id() REFERENCES companies(id) ON DELETE CASCADE,
+  service_order_id UUID REFERENCES service_orders(id) ON DELETE SET NULL,
+  order_number TEXT,
+  receipt_number TEXT,
+  receipt_sequence INTEGER,
+  payer_name TEXT NOT NULL,
+  payer_document TEXT,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  payment_method TEXT NOT NULL CHECK (payment_method IN (
+    'pix', 'cash', 'credit_card', 'debit_card', 'bank_transfer', 'boleto', 'check'
+  )),
+  paid_at DATE NOT NULL DEFAULT current_date,
+  pdf_url TEXT,
+  storage_path TEXT,
+  created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (company_id, receipt_number)
+);
+
+CREATE INDEX IF NOT EXISTS payment_receipts_service_order_id_idx ON payment_receipts (service_order_id);
+
+-- Create receipt_counters table
+CREATE TABLE IF NOT EXISTS receipt_counters (
+  company_id UUID NOT NULL,
+  year INTEGER NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (company_id, year)
+);
+
+-- Enable RLS (receipt_counters sem políticas: apenas o gatilho, como SECURITY DEFINER, acessa a tabela)
+ALTER TABLE payment_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE receipt_counters ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Team members view payment receipts" ON payment_receipts
+  FOR SELECT TO authenticated USING (company_id = current_company_id());
+
+CREATE OR REPLACE FUNCTION assign_receipt_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company company_info%ROWTYPE;
+  v_year INTEGER;
+  v_number INTEGER;
+BEGIN
+  IF NEW.receipt_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_company FROM company_info WHERE company_id = NEW.company_id ORDER BY created_at LIMIT 1;
+
+  v_year := CASE
+    WHEN coalesce(v_company.order_number_yearly_reset, true)
+      THEN extract(year FROM coalesce(NEW.created_at, now()))::INTEGER
+    ELSE 0
+  END;
+
+  INSERT INTO receipt_counters (company_id, year, last_number)
+  VALUES (NEW.company_id, v_year, 1)
+  ON CONFLICT (company_id, year)
+  DO UPDATE SET last_number = receipt_counters.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  NEW.receipt_sequence := v_number;
+  NEW.receipt_number := format_service_order_number('REC', v_year, v_number);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_receipt_number ON payment_receipts;
+CREATE TRIGGER assign_receipt_number
+  BEFORE INSERT ON payment_receipts
+  FOR EACH ROW EXECUTE FUNCTION assign_receipt_number();
+
+CREATE OR REPLACE FUNCTION issue_payment_receipt(
+  p_order_id UUID,
+  p_amount NUMERIC,
+  p_payment_method TEXT,
+  p_paid_at DATE,
+  p_payer_name TEXT,
+  p_payer_document TEXT
+)
+RETURNS payment_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order service_orders%ROWTYPE;
+  v_received NUMERIC;
+  v_receipt payment_receipts%ROWTYPE;
+BEGIN
+  IF NOT is_office_member() THEN
+    RAISE EXCEPTION 'Apenas o escritório emite recibos';
+  END IF;
+
+  -- Trava a OS: recibos emitidos ao mesmo tempo conferem o saldo um depois do outro
+  SELECT * INTO v_order FROM service_orders
+  WHERE id = p_order_id AND company_id = current_company_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ordem de serviço não encontrada';
+  END IF;
+
+  IF v_order.status NOT IN ('completed', 'invoiced', 'paid') THEN
+    RAISE EXCEPTION 'O recibo só pode ser emitido para OS concluída, faturada ou paga';
+  END IF;
+
+  IF coalesce(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Informe o valor recebido';
+  END IF;
+
+  IF coalesce(trim(p_payer_name), '') = '' THEN
+    RAISE EXCEPTION 'Informe o nome de quem pagou';
+  END IF;
+
+  SELECT coalesce(sum(amount), 0) INTO v_received FROM payment_receipts WHERE service_order_id = p_order_id;
+
+  IF v_received + p_amount > coalesce(v_order.total_amount, 0) THEN
+    RAISE EXCEPTION 'O valor ultrapassa o saldo da OS (R$ %)', to_char(greatest(coalesce(v_order.total_amount, 0) - v_received, 0), 'FM999999990.00');
+  END IF;
+
+  INSERT INTO payment_receipts (
+    company_id, service_order_id, order_number, payer_name, payer_document,
+    amount, payment_method, paid_at
+  ) VALUES (
+    v_order.company_id,
+    v_order.id,
+    v_order.order_number,
+    trim(p_payer_name),
+    nullif(regexp_replace(coalesce(p_payer_document, ''), '\D', '', 'g'), ''),
+    round(p_amount, 2),
+    p_payment_method,
+    coalesce(p_paid_at, current_date)
+  )
+  RETURNING * INTO v_receipt;
+
+  RETURN v_receipt;
+END;
+$$;
+
+-- O PDF é gerado no aparelho e guardado na pasta da empresa; só o caminho é gravado aqui
+CREATE OR REPLACE FUNCTION set_payment_receipt_pdf(p_receipt_id UUID, p_storage_path TEXT)
+RETURNS payment_receipts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_receipt payment_receipts%ROWTYPE;
+BEGIN
+  IF NOT is_office_member() THEN
+    RAISE EXCEPTION 'Apenas o escritório emite recibos';
+  END IF;
+
+  IF split_part(coalesce(p_storage_path, ''), '/', 1) <> current_company_id()::TEXT THEN
+    RAISE EXCEPTION 'Arquivo fora da pasta da empresa';
+  END IF;
+
+  UPDATE payment_receipts SET pdf_url = p_storage_path, storage_path = p_storage_path
+  WHERE id = p_receipt_id AND company_id = current_company_id()
+  RETURNING * INTO v_receipt;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recibo não encontrado';
+  END IF;
+
+  RETURN v_receipt;
+END;
+$$;
@@ -0,0 +1,23 @@
+/*
+  # PIX key for payment QR codes
+
+  1. Changes to company_info table
+    - pix_key_type: 'cpf', 'cnpj', 'email', 'phone' or 'random'
+    - pix_key: the key itself, as typed by the office
+    - pix_merchant_name: receiver name shown by the bank app; falls back to the
+      company name
+    - pix_merchant_city: receiver city, required by the BR Code
+
+  2. Notes
+    - The static BR Code (payload, CRC and QR image) is generated in the app,
+      with no call to banks or PSPs
+*/
+
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS pix_key_type TEXT;
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS pix_key TEXT;
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS pix_merchant_name TEXT;
+ALTER TABLE company_info ADD COLUMN IF NOT EXISTS pix_merchant_city TEXT;
+
+ALTER TABLE company_info DROP CONSTRAINT IF EXISTS company_info_pix_key_type_check;
+ALTER TABLE company_info ADD CONSTRAINT company_info_pix_key_type_check
+  CHECK (pix_key_type IS NULL OR pix_key_type IN ('cpf', 'cnpj', 'email', 'phone', 'random'));
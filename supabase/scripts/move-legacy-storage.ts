@@ -0,0 +1,127 @@
+// Move os arquivos de antes das empresas para a pasta da empresa padrão e troca as URLs
+// públicas guardadas nas tabelas pelo caminho do arquivo.
+//
+// Os buckets ficaram privados e só liberam "<company_id>/...": os arquivos fora dessa pasta
+// não abrem até este script rodar. Rode uma vez, logo depois das migrações; rodar de novo
+// não muda nada.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... deno run --allow-net --allow-env move-legacy-storage.ts
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const BUCKETS = ['service-orders', 'company'];
+
+// Colunas com arquivos gravados antes das empresas (as tabelas mais novas já nascem com caminhos)
+const FILE_COLUMNS: Array<{ table: string; bucket: string; columns: string[] }> = [
+  { table: 'service_order_photos', bucket: 'service-orders', columns: ['photo_url', 'storage_path'] },
+  { table: 'service_order_signatures', bucket: 'service-orders', columns: ['signature_url', 'storage_path'] },
+  { table: 'service_orders', bucket: 'service-orders', columns: ['signed_order_url'] },
+  { table: 'company_info', bucket: 'company', columns: ['logo'] }
+];
+
+// Empresa padrão: a primeira, criada pela migração com os dados existentes
+async function getDefaultCompanyId(): Promise<string> {
+  const { data, error } = await supabase
+    .from('companies')
+    .select('id')
+    .order('created_at')
+    .limit(1)
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+async function getCompanyIds(): Promise<Set<string>> {
+  const { data, error } = await supabase.from('companies').select('id');
+
+  if (error) throw error;
+  return new Set((data || []).map(company => company.id));
+}
+
+// Arquivos do bucket fora das pastas das empresas (list devolve pastas com id nulo)
+async function listLegacyObjects(bucket: string, companyIds: Set<string>, prefix = ''): Promise<string[]> {
+  const names: string[] = [];
+
+  for (let offset = 0; ; offset += 100) {
+    const { data, error } = await supabase.storage.from(bucket).list(prefix, { limit: 100, offset });
+    if (error) throw error;
+
+    for (const item of data) {
+      const name = prefix ? `${prefix}/${item.name}` : item.name;
+      if (item.id) {
+        names.push(name);
+      } else if (prefix || !companyIds.has(item.name)) {
+        names.push(...await listLegacyObjects(bucket, companyIds, name));
+      }
+    }
+
+    if (data.length < 100) return names;
+  }
+}
+
+// URL pública antiga ou caminho: devolve o caminho dentro da pasta da empresa
+function toCompanyPath(value: string, bucket: string, companyId: string, companyIds: Set<string>): string {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = value.indexOf(marker);
+  const path = index >= 0 ? decodeURIComponent(value.slice(index + marker.length).split('?')[0]) : value;
+
+  return companyIds.has(path.split('/')[0]) ? path : `${companyId}/${path}`;
+}
+
+async function moveObjects(companyId: string, companyIds: Set<string>) {
+  for (const bucket of BUCKETS) {
+    const names = await listLegacyObjects(bucket, companyIds);
+
+    for (const name of names) {
+      const { error } = await supabase.storage.from(bucket).move(name, `${companyId}/${name}`);
+      if (error) throw new Error(`Erro ao mover ${bucket}/${name}: ${error.message}`);
+    }
+
+    console.log(`${bucket}: ${names.length} arquivo(s) movido(s)`);
+  }
+}
+
+async function updateColumns(companyId: string, companyIds: Set<string>) {
+  for (const { table, bucket, columns } of FILE_COLUMNS) {
+    const { data, error } = await supabase.from(table).select(['id', ...columns].join(', '));
+    if (error) throw error;
+
+    let updated = 0;
+    for (const row of (data || []) as unknown as Array<Record<string, string | null>>) {
+      const changes: Record<string, string> = {};
+
+      for (const column of columns) {
+        const value = row[column];
+        if (!value) continue;
+
+        const path = toCompanyPath(value, bucket, companyId, companyIds);
+        if (path !== value) changes[column] = path;
+      }
+
+      // Fotos e assinaturas antigas podem não ter storage_path
+      if (columns.includes('storage_path') && !row.storage_path && row[columns[0]]) {
+        changes.storage_path = changes[columns[0]] ?? row[columns[0]]!;
+      }
+
+      if (Object.keys(changes).length === 0) continue;
+
+      const { error: updateError } = await supabase.from(table).update(changes).eq('id', row.id);
+      if (updateError) throw updateError;
+      updated++;
+    }
+
+    console.log(`${table}: ${updated} registro(s) atualizado(s)`);
+  }
+}
+
+const companyId = await getDefaultCompanyId();
+const companyIds = await getCompanyIds();
+
+await moveObjects(companyId, companyIds);
+await updateColumns(companyId, companyIds);